@@ -0,0 +1,439 @@
+/**
+ * Alert routes and background alert runner
+ *
+ * This module exposes the stored alerts as a REST resource and keeps an
+ * AlertEngine in sync with the store, so stored alerts keep running in the
+ * background and their triggers are written back to the store.
+ */
+
+import { Router, type Response } from "express";
+import {
+  alertState,
+  lifecycleOf,
+  validateAlertConfig,
+  type AlertConfig,
+  type AlertEngine,
+  type AlertStatus,
+  type ManagedAlert,
+} from "../src/alert.js";
+import type { Condition } from "../src/conditions.js";
+import { normalizeCurrency } from "../src/currency.js";
+import { quoteCurrency } from "../src/fx.js";
+import { log } from "../src/logger.js";
+import { storedLifecycle, type AlertPatch, type AlertStore, type StoredAlert } from "../src/store.js";
+import { currentUser } from "./auth.js";
+import { requestLog } from "./logging.js";
+
+/**
+ * Loads the stored alerts into the engine and records their triggers
+ *
+ * Active and paused alerts are registered with the engine where they left
+ * off (paused ones stay paused, recurring ones keep waiting to re-arm);
+ * triggered and expired alerts are only kept in the store until re-activated.
+ * Triggers, re-arms and expiries are written back to the store.
+ *
+ * @param store - The alert store
+ * @param engine - The engine to run the alerts in
+ */
+export function runStoredAlerts(store: AlertStore, engine: AlertEngine): void {
+  for (const alert of store.list()) {
+    syncAlert(engine, alert);
+  }
+
+  engine.on("triggered", ({ alert, quote }) => {
+    store.recordTrigger(alert.id, quote, alert.triggeredAt ?? new Date(), lifecycleOf(alert)).catch((error) => {
+      log.error("Error recording trigger", { alertId: alert.id, error });
+    });
+  });
+
+  const saveLifecycle = ({ alert }: { alert: ManagedAlert }) => {
+    store.saveLifecycle(alert.id, lifecycleOf(alert)).catch((error) => {
+      log.error("Error saving alert state", { alertId: alert.id, error });
+    });
+  };
+  engine.on("rearmed", saveLifecycle);
+  engine.on("expired", saveLifecycle);
+}
+
+/**
+ * Creates the router for /api/alerts
+ *
+ * Every route works on the signed-in user's alerts only; other users'
+ * alerts are reported as not found.
+ *
+ * Routes:
+ *   - GET    /api/alerts           List alerts with their lifecycle state (see AlertState)
+ *                                  and the latest quote of each symbol (with the currency
+ *                                  its prices are in)
+ *   - POST   /api/alerts           Create an alert from an AlertConfig body
+ *   - GET    /api/alerts/:id       Get one alert
+ *   - PATCH  /api/alerts/:id       Change config fields, status ("active" or "paused";
+ *                                  "active" re-arms a triggered or expired alert) and/or
+ *                                  snoozedUntil (an ISO timestamp, or null to end a snooze)
+ *   - DELETE /api/alerts/:id       Delete an alert
+ *   - GET    /api/alerts/:id/triggers  Trigger history of one alert
+ *   - GET    /api/triggers         Trigger history of all alerts
+ *
+ * @param store - The alert store
+ * @param engine - The engine running the stored alerts
+ * @param currencyOf - Looks up the currency a symbol is quoted in
+ * @returns The router
+ */
+export function createAlertsRouter(
+  store: AlertStore,
+  engine: AlertEngine,
+  currencyOf: (symbol: string) => string | null = quoteCurrency
+): Router {
+  const router = Router();
+
+  // Attach the lifecycle state and the latest quote the engine has seen for the alert's symbol
+  const present = (alert: StoredAlert) => {
+    const quote = engine.latestQuote(alert.config.symbol);
+    return {
+      ...alert,
+      state: alertState({ config: alert.config, ...storedLifecycle(alert) }, engine.now()),
+      lastQuote: quote !== undefined ? { ...quote, currency: currencyOf(quote.symbol) } : null,
+    };
+  };
+
+  // Look up an alert of the signed-in user
+  const owned = (res: Response, id: string) => {
+    const alert = store.get(id);
+    return alert?.owner === currentUser(res).id ? alert : undefined;
+  };
+
+  router.get("/api/alerts", (_req, res) => {
+    res.json({ alerts: store.list(currentUser(res).id).map(present) });
+  });
+
+  router.post("/api/alerts", async (req, res) => {
+    let config: AlertConfig;
+    try {
+      config = parseAlertConfig(req.body, engine.now());
+    } catch (error) {
+      return res.status(400).json({
+        error: "Invalid alert",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    try {
+      const alert = await store.create(config, currentUser(res).id, engine.now());
+      syncAlert(engine, alert);
+      res.status(201).json(present(alert));
+    } catch (error) {
+      requestLog(res).error("Error creating alert", { error });
+      res.status(500).json({
+        error: "Failed to save alert",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.get("/api/alerts/:id", (req, res) => {
+    const alert = owned(res, req.params.id);
+    if (alert === undefined) {
+      return res.status(404).json({ error: `Alert "${req.params.id}" not found` });
+    }
+    res.json(present(alert));
+  });
+
+  router.patch("/api/alerts/:id", async (req, res) => {
+    const existing = owned(res, req.params.id);
+    if (existing === undefined) {
+      return res.status(404).json({ error: `Alert "${req.params.id}" not found` });
+    }
+
+    let patch: AlertPatch;
+    try {
+      patch = parseAlertPatch(req.body);
+      if (typeof patch.snoozedUntil === "string" && (patch.status ?? existing.status) !== "active") {
+        throw new Error("Only active alerts can be snoozed");
+      }
+    } catch (error) {
+      return res.status(400).json({
+        error: "Invalid alert update",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    let alert: StoredAlert | undefined;
+    try {
+      alert = await store.update(req.params.id, patch, engine.now());
+    } catch (error) {
+      // The store re-validates the merged configuration
+      return res.status(400).json({
+        error: "Invalid alert update",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (alert === undefined) {
+      return res.status(404).json({ error: `Alert "${req.params.id}" not found` });
+    }
+
+    if (patch.config === undefined && patch.status === undefined) {
+      // A snooze alone keeps the alert's condition state
+      if (engine.get(alert.id)?.status === "active") {
+        engine.snooze(alert.id, alert.snoozedUntil !== undefined ? new Date(alert.snoozedUntil) : null);
+      }
+    } else {
+      // Restart the alert so new config takes effect with fresh condition state
+      engine.remove(alert.id);
+      syncAlert(engine, alert);
+    }
+    res.json(present(alert));
+  });
+
+  router.delete("/api/alerts/:id", async (req, res) => {
+    if (owned(res, req.params.id) === undefined || !(await store.remove(req.params.id))) {
+      return res.status(404).json({ error: `Alert "${req.params.id}" not found` });
+    }
+    engine.remove(req.params.id);
+    res.status(204).end();
+  });
+
+  router.get("/api/alerts/:id/triggers", (req, res) => {
+    if (owned(res, req.params.id) === undefined) {
+      return res.status(404).json({ error: `Alert "${req.params.id}" not found` });
+    }
+    res.json({ triggers: store.triggers(req.params.id) });
+  });
+
+  router.get("/api/triggers", (_req, res) => {
+    // Triggers of deleted alerts are kept but no longer have an owner to show them to
+    const ids = new Set(store.list(currentUser(res).id).map((alert) => alert.id));
+    res.json({ triggers: store.triggers().filter((record) => ids.has(record.alertId)) });
+  });
+
+  return router;
+}
+
+/**
+ * Registers a stored alert with the engine according to its status
+ *
+ * Alerts the engine already runs are left alone, so this is safe to call for
+ * every stored alert (e.g., after an import).
+ */
+export function syncAlert(engine: AlertEngine, alert: StoredAlert): void {
+  if (alert.status === "triggered" || alert.status === "expired" || engine.get(alert.id) !== undefined) {
+    return;
+  }
+
+  engine.add(alert.config, alert.id, storedLifecycle(alert));
+}
+
+/**
+ * Parses and validates the body of POST /api/alerts
+ *
+ * @param body - The parsed JSON body
+ * @param now - The engine's current time, which expiresAt must be after
+ * @returns The alert configuration
+ * @throws Error describing the first invalid field
+ */
+function parseAlertConfig(body: unknown, now: Date): AlertConfig {
+  if (typeof body !== "object" || body === null) {
+    throw new Error("Request body must be a JSON object");
+  }
+
+  const fields = body as Record<string, unknown>;
+
+  if (typeof fields.symbol !== "string" || fields.symbol.trim().length === 0) {
+    throw new Error("symbol must be a non-empty string");
+  }
+
+  if (typeof fields.intervalMs !== "number") {
+    throw new Error("intervalMs must be a number");
+  }
+
+  const config: AlertConfig = {
+    symbol: fields.symbol.trim(),
+    intervalMs: fields.intervalMs,
+    ...parseConditionFields(fields),
+    ...(parseLifecycleFields(fields, false) as Pick<AlertConfig, LifecycleField>),
+  };
+
+  if (fields.notify !== undefined) {
+    config.notify = parseNotify(fields.notify);
+  }
+
+  if (fields.currency !== undefined) {
+    config.currency = parseCurrency(fields.currency);
+  }
+
+  if (config.expiresAt !== undefined && Date.parse(config.expiresAt) <= now.getTime()) {
+    throw new Error("expiresAt must be in the future");
+  }
+
+  validateAlertConfig(config);
+  return config;
+}
+
+/**
+ * Parses and validates the body of PATCH /api/alerts/:id
+ *
+ * @param body - The parsed JSON body
+ * @returns The changes to apply
+ * @throws Error describing the first invalid field
+ */
+function parseAlertPatch(body: unknown): AlertPatch {
+  if (typeof body !== "object" || body === null) {
+    throw new Error("Request body must be a JSON object");
+  }
+
+  const fields = body as Record<string, unknown>;
+  const config: NonNullable<AlertPatch["config"]> = {
+    ...parseConditionFields(fields),
+    ...parseLifecycleFields(fields, true),
+  };
+  const patch: AlertPatch = {};
+
+  if (fields.symbol !== undefined) {
+    if (typeof fields.symbol !== "string" || fields.symbol.trim().length === 0) {
+      throw new Error("symbol must be a non-empty string");
+    }
+    config.symbol = fields.symbol.trim();
+  }
+
+  if (fields.intervalMs !== undefined) {
+    if (typeof fields.intervalMs !== "number") {
+      throw new Error("intervalMs must be a number");
+    }
+    config.intervalMs = fields.intervalMs;
+  }
+
+  if (fields.notify !== undefined) {
+    config.notify = parseNotify(fields.notify);
+  }
+
+  // null goes back to the symbol's own currency
+  if (fields.currency !== undefined) {
+    config.currency = fields.currency === null ? null : parseCurrency(fields.currency);
+  }
+
+  if (fields.status !== undefined) {
+    // "triggered" is only ever set by the engine
+    if (fields.status !== "active" && fields.status !== "paused") {
+      throw new Error('status must be "active" or "paused"');
+    }
+    patch.status = fields.status satisfies AlertStatus;
+  }
+
+  if (fields.snoozedUntil !== undefined) {
+    patch.snoozedUntil = fields.snoozedUntil === null ? null : parseTimestamp(fields.snoozedUntil, "snoozedUntil");
+  }
+
+  if (Object.keys(config).length > 0) {
+    patch.config = config;
+  }
+
+  return patch;
+}
+
+/**
+ * Picks the target/direction/condition fields out of a request body
+ */
+function parseConditionFields(
+  fields: Record<string, unknown>
+): Pick<AlertConfig, "target" | "direction" | "condition"> {
+  const result: Pick<AlertConfig, "target" | "direction" | "condition"> = {};
+
+  if (fields.target !== undefined) {
+    if (typeof fields.target !== "number") {
+      throw new Error("target must be a number");
+    }
+    result.target = fields.target;
+  }
+
+  if (fields.direction !== undefined) {
+    if (fields.direction !== "above" && fields.direction !== "below") {
+      throw new Error('direction must be "above" or "below"');
+    }
+    result.direction = fields.direction;
+  }
+
+  if (fields.condition !== undefined) {
+    if (typeof fields.condition !== "object" || fields.condition === null) {
+      throw new Error("condition must be an object");
+    }
+    // Deep validation happens in validateAlertConfig (for PATCH: in the store, after merging)
+    result.condition = fields.condition as Condition;
+  }
+
+  return result;
+}
+
+/**
+ * Lifecycle fields of an alert configuration
+ */
+type LifecycleField = "recurring" | "cooldownMs" | "rearmPercent" | "maxTriggers" | "expiresAt";
+
+/**
+ * Picks the lifecycle fields out of a request body
+ *
+ * @param fields - The request body
+ * @param clearable - Whether null is accepted to remove a field (PATCH)
+ */
+function parseLifecycleFields(
+  fields: Record<string, unknown>,
+  clearable: boolean
+): Pick<NonNullable<AlertPatch["config"]>, LifecycleField> {
+  const result: Pick<NonNullable<AlertPatch["config"]>, LifecycleField> = {};
+
+  if (fields.recurring !== undefined) {
+    if (typeof fields.recurring !== "boolean") {
+      throw new Error("recurring must be true or false");
+    }
+    result.recurring = fields.recurring;
+  }
+
+  for (const name of ["cooldownMs", "rearmPercent", "maxTriggers", "expiresAt"] as const) {
+    const value = fields[name];
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null && clearable) {
+      result[name] = null;
+    } else if (name === "expiresAt") {
+      result.expiresAt = parseTimestamp(value, name);
+    } else if (typeof value !== "number") {
+      throw new Error(`${name} must be a number`);
+    } else {
+      // Ranges are checked by validateAlertConfig (for PATCH: in the store, after merging)
+      result[name] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parses a timestamp field into an ISO timestamp
+ */
+function parseTimestamp(value: unknown, name: string): string {
+  const time = typeof value === "string" ? Date.parse(value) : NaN;
+  if (isNaN(time)) {
+    throw new Error(`${name} must be an ISO date and time`);
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * Parses the list of notification channel names of an alert
+ */
+function parseNotify(value: unknown): string[] {
+  if (!Array.isArray(value) || !value.every((name) => typeof name === "string" && name.trim().length > 0)) {
+    throw new Error("notify must be an array of channel names");
+  }
+  return value.map((name: string) => name.trim());
+}
+
+/**
+ * Parses the currency of an alert
+ */
+function parseCurrency(value: unknown): string {
+  if (typeof value !== "string") {
+    throw new Error('currency must be a currency code such as "EUR"');
+  }
+  return normalizeCurrency(value);
+}
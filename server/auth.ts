@@ -0,0 +1,353 @@
+/**
+ * Authentication and account routes
+ *
+ * This module signs users in with a password (a session cookie) or an API
+ * token (an Authorization: Bearer header), rejects unauthenticated API calls
+ * and exposes account and user management over HTTP.
+ *
+ * The session cookie is HttpOnly and SameSite=Lax, so other sites can neither
+ * read it nor send it along with their own POST requests.
+ */
+
+import { Router, type NextFunction, type Request, type RequestHandler, type Response } from "express";
+import type { PublicUser, Role, UserPatch, UserStore } from "../src/users.js";
+
+/**
+ * Name of the session cookie
+ */
+const SESSION_COOKIE = "session";
+
+/**
+ * API paths (relative to /api) that work without signing in
+ */
+const PUBLIC_PATHS = new Set(["/auth/login", "/auth/setup", "/health"]);
+
+/**
+ * Hooks the account routes call so other stores can follow account changes
+ *
+ * @property firstUser - Called after the first (admin) account was created during setup
+ * @property userRemoved - Called after a user was deleted, to delete what they owned
+ */
+export type AccountHooks = {
+  firstUser?: (user: PublicUser) => Promise<void>;
+  userRemoved?: (user: PublicUser) => Promise<void>;
+};
+
+/**
+ * Creates the middleware that authenticates API requests
+ *
+ * Mount it on /api (and /metrics). The signed-in user is available to later handlers via
+ * currentUser(). Requests without a valid session or token get a 401, with
+ * `setupRequired: true` while no account exists yet.
+ *
+ * @param users - The user store
+ * @returns The middleware
+ */
+export function authenticate(users: UserStore): RequestHandler {
+  return (req, res, next) => {
+    const user = requestUser(req, users);
+    if (user !== undefined) {
+      res.locals.user = user;
+      return next();
+    }
+
+    if (PUBLIC_PATHS.has(req.path)) {
+      return next();
+    }
+
+    res.setHeader("WWW-Authenticate", 'Bearer realm="stocks"');
+    res.status(401).json({
+      error: "Authentication required",
+      setupRequired: users.list().length === 0,
+    });
+  };
+}
+
+/**
+ * Middleware that only lets admins through (403 for everyone else)
+ */
+export function requireAdmin(_req: Request, res: Response, next: NextFunction): void {
+  if (currentUser(res).role !== "admin") {
+    res.status(403).json({ error: "Admin role required" });
+    return;
+  }
+  next();
+}
+
+/**
+ * Returns the user authenticated by the authenticate() middleware
+ *
+ * @param res - The response of a request that passed authenticate()
+ * @returns The signed-in user
+ * @throws Error if the request was not authenticated
+ */
+export function currentUser(res: Response): PublicUser {
+  const user = res.locals.user as PublicUser | undefined;
+  if (user === undefined) {
+    throw new Error("Request is not authenticated");
+  }
+  return user;
+}
+
+/**
+ * Creates the router for /api/auth and /api/users
+ *
+ * Routes:
+ *   - POST   /api/auth/setup       Create the first account, an admin { username, password }
+ *                                  (only while no account exists) and sign in
+ *   - POST   /api/auth/login       Sign in { username, password }; sets the session cookie
+ *   - POST   /api/auth/logout      Sign out
+ *   - GET    /api/auth/me          The signed-in user
+ *   - PATCH  /api/auth/me          Change the signed-in user's preferences { baseCurrency }
+ *                                  (a currency code, or null to show prices as quoted)
+ *   - PUT    /api/auth/password    Change the password { currentPassword, newPassword }
+ *                                  (signs out other sessions)
+ *   - GET    /api/auth/tokens      The signed-in user's API tokens
+ *   - POST   /api/auth/tokens      Create an API token { name }; the secret is only returned here
+ *   - DELETE /api/auth/tokens/:id  Revoke an API token
+ *   - GET    /api/users            List users (admin)
+ *   - POST   /api/users            Create a user { username, password, role? } (admin)
+ *   - PATCH  /api/users/:id        Change a user's password and/or role { password?, role? } (admin)
+ *   - DELETE /api/users/:id        Delete a user and everything they own (admin)
+ *
+ * @param users - The user store
+ * @param hooks - Called on account changes other stores depend on
+ * @returns The router
+ */
+export function createAuthRouter(users: UserStore, hooks: AccountHooks = {}): Router {
+  const router = Router();
+
+  // Start a session and hand its token to the browser
+  const signIn = async (req: Request, res: Response, user: PublicUser) => {
+    const { token, expiresAt } = await users.createSession(user.id);
+    res.setHeader("Set-Cookie", sessionCookie(req, token, expiresAt));
+  };
+
+  // Only one setup request may run, or two could both become the first admin
+  let settingUp = false;
+
+  router.post("/api/auth/setup", async (req, res) => {
+    if (settingUp || users.list().length > 0) {
+      return res.status(409).json({ error: "Setup is already complete; sign in instead" });
+    }
+
+    const { username, password } = (req.body ?? {}) as Record<string, unknown>;
+    let user: PublicUser;
+    settingUp = true;
+    try {
+      user = await users.create(username as string, password as string, "admin");
+    } catch (error) {
+      return res.status(400).json({
+        error: "Invalid account",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      settingUp = false;
+    }
+
+    await hooks.firstUser?.(user);
+    await signIn(req, res, user);
+    res.status(201).json(user);
+  });
+
+  router.post("/api/auth/login", async (req, res) => {
+    const { username, password } = (req.body ?? {}) as Record<string, unknown>;
+    if (typeof username !== "string" || typeof password !== "string") {
+      return res.status(400).json({ error: "Expected 'username' and 'password'" });
+    }
+
+    const user = await users.verifyPassword(username, password);
+    if (user === undefined) {
+      return res.status(401).json({ error: "Invalid username or password" });
+    }
+
+    await signIn(req, res, user);
+    res.json(user);
+  });
+
+  router.post("/api/auth/logout", async (req, res) => {
+    const token = parseCookies(req.get("Cookie"))[SESSION_COOKIE];
+    if (token !== undefined) {
+      await users.endSession(token);
+    }
+    res.setHeader("Set-Cookie", sessionCookie(req, "", new Date(0)));
+    res.status(204).end();
+  });
+
+  router.get("/api/auth/me", (_req, res) => {
+    res.json(currentUser(res));
+  });
+
+  router.patch("/api/auth/me", async (req, res) => {
+    const { baseCurrency } = (req.body ?? {}) as Record<string, unknown>;
+    if (baseCurrency === undefined) {
+      return res.status(400).json({ error: "Expected 'baseCurrency'" });
+    }
+
+    try {
+      res.json(await users.update(currentUser(res).id, { baseCurrency } as UserPatch));
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid preferences",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.put("/api/auth/password", async (req, res) => {
+    const user = currentUser(res);
+    const { currentPassword, newPassword } = (req.body ?? {}) as Record<string, unknown>;
+
+    const verified = typeof currentPassword === "string" && (await users.verifyPassword(user.username, currentPassword));
+    if (!verified) {
+      return res.status(400).json({ error: "Current password is wrong" });
+    }
+
+    try {
+      await users.update(user.id, { password: newPassword as string });
+    } catch (error) {
+      return res.status(400).json({
+        error: "Invalid password",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // The change ended every session, including this one
+    await signIn(req, res, user);
+    res.status(204).end();
+  });
+
+  router.get("/api/auth/tokens", (_req, res) => {
+    res.json({ tokens: users.tokens(currentUser(res).id) });
+  });
+
+  router.post("/api/auth/tokens", async (req, res) => {
+    const { name } = (req.body ?? {}) as Record<string, unknown>;
+
+    try {
+      const { token, record } = await users.createToken(currentUser(res).id, name as string);
+      res.status(201).json({ ...record, token });
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid token",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.delete("/api/auth/tokens/:id", async (req, res) => {
+    if (!(await users.revokeToken(currentUser(res).id, req.params.id))) {
+      return res.status(404).json({ error: `Token "${req.params.id}" not found` });
+    }
+    res.status(204).end();
+  });
+
+  // User management is for admins only
+  router.use("/api/users", requireAdmin);
+
+  router.get("/api/users", (_req, res) => {
+    res.json({ users: users.list() });
+  });
+
+  router.post("/api/users", async (req, res) => {
+    const { username, password, role = "user" } = (req.body ?? {}) as Record<string, unknown>;
+
+    try {
+      res.status(201).json(await users.create(username as string, password as string, role as Role));
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid user",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.patch("/api/users/:id", async (req, res) => {
+    const { password, role } = (req.body ?? {}) as Record<string, unknown>;
+    const patch = {
+      ...(password !== undefined ? { password } : {}),
+      ...(role !== undefined ? { role } : {}),
+    } as UserPatch;
+
+    try {
+      const user = await users.update(req.params.id, patch);
+      if (user === undefined) {
+        return res.status(404).json({ error: `User "${req.params.id}" not found` });
+      }
+      res.json(user);
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid user update",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.delete("/api/users/:id", async (req, res) => {
+    const user = users.get(req.params.id);
+    if (user === undefined) {
+      return res.status(404).json({ error: `User "${req.params.id}" not found` });
+    }
+    if (user.id === currentUser(res).id) {
+      return res.status(400).json({ error: "You cannot delete your own account" });
+    }
+
+    try {
+      await users.remove(user.id);
+    } catch (error) {
+      return res.status(400).json({
+        error: "Cannot delete user",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    await hooks.userRemoved?.(user);
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+/**
+ * Finds the user of a request by API token or session cookie
+ */
+function requestUser(req: Request, users: UserStore): PublicUser | undefined {
+  const authorization = req.get("Authorization");
+  if (authorization !== undefined) {
+    const match = /^Bearer\s+(\S+)$/i.exec(authorization);
+    return match?.[1] !== undefined ? users.tokenUser(match[1]) : undefined;
+  }
+
+  const session = parseCookies(req.get("Cookie"))[SESSION_COOKIE];
+  return session !== undefined ? users.sessionUser(session) : undefined;
+}
+
+/**
+ * Builds the Set-Cookie header value for the session cookie
+ *
+ * An expiry in the past deletes the cookie.
+ */
+function sessionCookie(req: Request, token: string, expiresAt: Date): string {
+  return [
+    `${SESSION_COOKIE}=${token}`,
+    "Path=/",
+    `Expires=${expiresAt.toUTCString()}`,
+    "HttpOnly",
+    "SameSite=Lax",
+    ...(req.secure ? ["Secure"] : []),
+  ].join("; ");
+}
+
+/**
+ * Parses a Cookie header into name/value pairs
+ */
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? "").split(";")) {
+    const index = part.indexOf("=");
+    if (index > 0) {
+      cookies[part.slice(0, index).trim()] = part.slice(index + 1).trim();
+    }
+  }
+  return cookies;
+}
@@ -0,0 +1,118 @@
+/**
+ * Backtest route
+ *
+ * This module replays a symbol's history through an alert rule (see
+ * src/backtest.ts) to show how often it would have fired and what the price
+ * did afterwards.
+ */
+
+import { Router } from "express";
+import type { AlertConfig } from "../src/alert.js";
+import { backtest, warmupRange, type BacktestOptions } from "../src/backtest.js";
+import { parseHistoryCsv, type Bar, type HistoryOptions } from "../src/history.js";
+import type { QuoteProvider } from "../src/provider.js";
+import type { AlertStore } from "../src/store.js";
+import { currentUser } from "./auth.js";
+import { sendError, sendQuoteError } from "./errors.js";
+import { parseHistoryQuery } from "./query.js";
+
+/**
+ * Creates the router for /api/backtest
+ *
+ * Routes:
+ *   - POST /api/backtest  Replay history through an alert rule
+ *
+ * Body (JSON):
+ *   - alertId: One of the signed-in user's alerts to test, or
+ *   - config: An AlertConfig to test (its interval is ignored)
+ *   - from, to, interval: As for /api/history
+ *   - csv: Optional Stooq-format CSV text to test instead of fetched history
+ *   - horizons: Bars after each trigger to measure returns over (default: [1, 5, 20])
+ *   - cooldownBars: Bars to skip after a trigger before re-arming (default: 0)
+ *   - rearm: "whenFalse" (default) or "immediately"
+ *
+ * Returns:
+ *   - 200: BacktestResult { symbol, condition, description, from, to, bars, triggers, horizons }
+ *   - 400: Bad request if the rule, an option or the CSV is invalid (INVALID_REQUEST)
+ *   - 404: Not found if alertId does not exist (NOT_FOUND)
+ *   - 404/422/502/503/504: If fetching history fails, as for /api/quote
+ *
+ * @param provider - Where to fetch history from
+ * @param store - The stored alerts
+ * @param costBasis - Returns a user's average cost of a symbol, for rules relative to cost
+ * @returns The router
+ */
+export function createBacktestRouter(
+  provider: QuoteProvider,
+  store: AlertStore,
+  costBasis: (symbol: string, owner: string) => number | null
+): Router {
+  const router = Router();
+
+  router.post("/api/backtest", async (req, res) => {
+    const body = req.body ?? {};
+
+    // Resolve the rule, either a stored alert or an inline config
+    let config: AlertConfig;
+    if (body.alertId !== undefined) {
+      const alert = typeof body.alertId === "string" ? store.get(body.alertId) : undefined;
+      if (alert === undefined || alert.owner !== currentUser(res).id) {
+        return sendError(res, 404, "NOT_FOUND", "Alert not found");
+      }
+      config = alert.config;
+    } else if (body.config !== undefined && typeof body.config === "object" && body.config !== null) {
+      config = body.config as AlertConfig;
+    } else {
+      return sendError(res, 400, "INVALID_REQUEST", "Expected 'alertId' or 'config' in the request body");
+    }
+
+    let range: HistoryOptions;
+    let options: BacktestOptions;
+    try {
+      range = parseHistoryQuery(body);
+      if (body.csv !== undefined && typeof body.csv !== "string") {
+        throw new Error("'csv' must be CSV text");
+      }
+      if (body.csv !== undefined && range.interval !== undefined && range.interval !== "d") {
+        throw new Error("'interval' cannot be used with 'csv'");
+      }
+      if (body.horizons !== undefined && !Array.isArray(body.horizons)) {
+        throw new Error("'horizons' must be an array of bar counts");
+      }
+
+      options = {
+        costBasis: costBasis(String(config.symbol), currentUser(res).id),
+        ...(body.horizons !== undefined ? { horizons: body.horizons } : {}),
+        ...(body.cooldownBars !== undefined ? { cooldownBars: body.cooldownBars } : {}),
+        ...(body.rearm !== undefined ? { rearm: body.rearm } : {}),
+        ...(typeof range.from === "string" ? { from: range.from } : {}),
+      };
+
+      // Run once without bars so a bad rule or option is a 400, not a 502
+      backtest(config, [], options);
+    } catch (error) {
+      return sendError(res, 400, "INVALID_REQUEST", error instanceof Error ? error.message : String(error));
+    }
+
+    let bars: Bar[];
+    try {
+      if (typeof body.csv === "string") {
+        const { to } = range;
+        bars = parseHistoryCsv(body.csv, config.symbol).filter((bar) => to === undefined || bar.date <= to);
+      } else {
+        bars = await provider.fetchHistory(config.symbol.trim(), warmupRange(config, range));
+      }
+    } catch (error) {
+      // Uploaded CSV is the client's fault; a failed fetch is upstream's
+      if (typeof body.csv === "string") {
+        return sendError(res, 400, "INVALID_REQUEST", "Invalid CSV", error instanceof Error ? error.message : String(error));
+      }
+
+      return sendQuoteError(res, error, "fetching history for backtest");
+    }
+
+    res.json(backtest(config, bars, options));
+  });
+
+  return router;
+}
@@ -0,0 +1,38 @@
+/**
+ * Configuration route
+ *
+ * This module exposes the server's settings (see src/config.ts) read-only,
+ * so the web page can use server-side defaults such as the polling interval
+ * of new alerts.
+ */
+
+import { Router } from "express";
+import { publicConfig, type AppConfig } from "../src/config.js";
+import { currentUser } from "./auth.js";
+
+/**
+ * Creates the router for /api/config
+ *
+ * Routes:
+ *   - GET /api/config  The settings
+ *
+ * Returns:
+ *   - 200: PublicConfig { provider, alerts: { defaultIntervalMs }, cache: { quoteTtlMs },
+ *          symbols: { defaultMarket } }; admins also get `settings`, every setting
+ *          in effect (AppConfig), including where the config file was read from
+ *
+ * @param config - The settings
+ * @returns The router
+ */
+export function createConfigRouter(config: AppConfig): Router {
+  const router = Router();
+
+  router.get("/api/config", (_req, res) => {
+    res.json({
+      ...publicConfig(config),
+      ...(currentUser(res).role === "admin" ? { settings: config } : {}),
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,109 @@
+/**
+ * Error responses of the quote routes
+ *
+ * Every error these routes send has the same JSON shape:
+ *
+ *   { error, code, message?, symbol?, suggestions? }
+ *
+ * - error: A short summary for people
+ * - code: What went wrong, for programs (see ApiErrorCode)
+ * - message: Details, e.g., the upstream error
+ * - symbol: The symbol concerned, if any
+ * - suggestions: Symbols the user may have meant (SYMBOL_NOT_FOUND only)
+ */
+
+import type { Response } from "express";
+import { CircuitOpen, QuoteError, SymbolNotFound, type QuoteErrorCode } from "../src/stooq.js";
+import { requestLog } from "./logging.js";
+
+/**
+ * Machine-readable kind of an API error
+ * - The QuoteErrorCodes: Fetching a quote or history failed (see src/stooq.ts)
+ * - "INVALID_REQUEST": A parameter or the body is missing or invalid
+ * - "NOT_FOUND": The requested record (alert, watchlist, ...) does not exist
+ * - "RATE_LIMITED": Too many requests from this client
+ * - "INTERNAL_ERROR": Anything else
+ */
+export type ApiErrorCode = QuoteErrorCode | "INVALID_REQUEST" | "NOT_FOUND" | "RATE_LIMITED" | "INTERNAL_ERROR";
+
+/**
+ * HTTP status of each kind of quote error
+ * - 404: The symbol does not exist
+ * - 422: The symbol exists but has no usable data
+ * - 502: Stooq answered with something unreadable
+ * - 503: Stooq answered with an HTTP error, could not be reached, hit its
+ *   daily limit or is not being called while the circuit breaker is open
+ * - 504: Stooq did not answer in time
+ */
+const QUOTE_ERROR_STATUS: Record<QuoteErrorCode, number> = {
+  SYMBOL_NOT_FOUND: 404,
+  NO_DATA: 422,
+  PARSE_ERROR: 502,
+  UPSTREAM_HTTP: 503,
+  TIMEOUT: 504,
+  DAILY_LIMIT: 503,
+  CIRCUIT_OPEN: 503,
+};
+
+/**
+ * Summary sent in `error` for each kind of quote error
+ */
+const QUOTE_ERROR_SUMMARY: Record<QuoteErrorCode, string> = {
+  SYMBOL_NOT_FOUND: "Symbol not found",
+  NO_DATA: "No data available for symbol",
+  PARSE_ERROR: "Unexpected response from upstream service",
+  UPSTREAM_HTTP: "Upstream service unavailable",
+  TIMEOUT: "Upstream service timed out",
+  DAILY_LIMIT: "Upstream service's daily request limit exceeded",
+  CIRCUIT_OPEN: "Upstream service temporarily unavailable",
+};
+
+/**
+ * Sends an error with the shared shape
+ *
+ * @param res - The response to send on
+ * @param status - The HTTP status
+ * @param code - The error code
+ * @param error - The summary
+ * @param message - Optional details
+ */
+export function sendError(res: Response, status: number, code: ApiErrorCode, error: string, message?: string): void {
+  res.status(status).json({ error, code, ...(message !== undefined ? { message } : {}) });
+}
+
+/**
+ * Sends an error raised while fetching quotes or history
+ *
+ * QuoteErrors get their own status and code; anything else is a 500
+ * (INTERNAL_ERROR) and is logged with the given context. An open circuit
+ * also sets Retry-After.
+ *
+ * @param res - The response to send on
+ * @param error - The error that was caught
+ * @param context - What was being done, for the log (e.g., "fetching quote")
+ */
+export function sendQuoteError(res: Response, error: unknown, context: string): void {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (!(error instanceof QuoteError)) {
+    requestLog(res).error(`Error ${context}`, { error });
+    return sendError(res, 500, "INTERNAL_ERROR", `Unexpected error ${context}`, message);
+  }
+
+  // Unknown symbols are the client's mistake and not worth a stack trace
+  if (error.code !== "SYMBOL_NOT_FOUND" && error.code !== "NO_DATA") {
+    requestLog(res).warn(`Error ${context}`, { error });
+  }
+
+  if (error instanceof CircuitOpen) {
+    res.setHeader("Retry-After", String(Math.max(1, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000))));
+  }
+
+  res.status(QUOTE_ERROR_STATUS[error.code]).json({
+    error: QUOTE_ERROR_SUMMARY[error.code],
+    code: error.code,
+    message,
+    ...(error.symbol !== null ? { symbol: error.symbol } : {}),
+    ...(error instanceof SymbolNotFound ? { suggestions: error.suggestions } : {}),
+  });
+}
@@ -0,0 +1,118 @@
+/**
+ * Export and import routes
+ *
+ * This module lets users download their alerts, watchlists and trigger
+ * history (see src/transfer.ts), e.g. to share alert setups with a team or
+ * to audit what fired, and import such files into their account while the
+ * server runs (the CLI's import command only works while it is stopped).
+ */
+
+import express, { Router } from "express";
+import type { AlertEngine } from "../src/alert.js";
+import {
+  EXPORT_KINDS,
+  exportBundle,
+  exportCsv,
+  ImportError,
+  importData,
+  parseImport,
+  type ExportKind,
+  type ImportData,
+  type TransferStores,
+} from "../src/transfer.js";
+import { syncAlert } from "./alerts.js";
+import { currentUser } from "./auth.js";
+import { sendError } from "./errors.js";
+import { requestLog } from "./logging.js";
+
+/**
+ * Creates the router for /api/export and /api/import
+ *
+ * Routes:
+ *   - GET  /api/export  The signed-in user's records as a file download
+ *   - POST /api/import  Import a file into the signed-in user's account: a JSON
+ *                       body (an ExportBundle), or a CSV file sent as text/csv
+ *
+ * Query parameters (GET):
+ *   - format: Optional file format: "json" (default) or "csv"
+ *   - type: What a CSV holds: "alerts", "watchlists" or "triggers" (required
+ *     for CSV; JSON always holds all three)
+ *
+ * Returns:
+ *   - 200: GET: An ExportBundle { version, exportedAt, alerts, watchlists, triggers },
+ *          or a CSV file with a header row
+ *          POST: An ImportResult { alerts, watchlists } with the created, updated
+ *          and skipped counts; imported alerts start running right away
+ *   - 400: Bad request if a parameter is invalid or the file has invalid records
+ *          (INVALID_REQUEST; an invalid file also lists every invalid record in
+ *          `problems` and nothing is imported)
+ *
+ * @param stores - The alert and watchlist stores
+ * @param engine - The engine running the stored alerts
+ * @returns The router
+ */
+export function createExportRouter(stores: TransferStores, engine: AlertEngine): Router {
+  const router = Router();
+
+  router.get("/api/export", (req, res) => {
+    const { format, type } = req.query;
+
+    if (format !== undefined && format !== "json" && format !== "csv") {
+      return sendError(res, 400, "INVALID_REQUEST", "Invalid 'format' query parameter. Expected json or csv");
+    }
+    if (format === "csv" && !EXPORT_KINDS.includes(type as ExportKind)) {
+      return sendError(
+        res,
+        400,
+        "INVALID_REQUEST",
+        `Missing or invalid 'type' query parameter. Expected ${EXPORT_KINDS.join(", ")}`
+      );
+    }
+    if (format !== "csv" && type !== undefined) {
+      return sendError(res, 400, "INVALID_REQUEST", "The 'type' query parameter needs format=csv");
+    }
+
+    const bundle = exportBundle(stores, currentUser(res).id);
+
+    if (format === "csv") {
+      res.type("text/csv");
+      res.attachment(`stocks-${type as ExportKind}.csv`);
+      return res.send(exportCsv(bundle, type as ExportKind));
+    }
+
+    res.attachment("stocks-export.json");
+    res.json(bundle);
+  });
+
+  // JSON bodies are parsed by the app; CSV files arrive as text
+  router.post("/api/import", express.text({ type: "text/csv" }), async (req, res) => {
+    const csv = req.is("text/csv") !== false;
+    if (!csv && req.is("application/json") === false) {
+      return sendError(res, 400, "INVALID_REQUEST", "Expected a JSON body or a text/csv body");
+    }
+
+    let data: ImportData;
+    try {
+      data = csv ? parseImport(String(req.body ?? ""), "csv") : parseImport(JSON.stringify(req.body ?? null), "json");
+    } catch (error) {
+      if (!(error instanceof ImportError)) {
+        throw error;
+      }
+      return res.status(400).json({ error: "Invalid import", code: "INVALID_REQUEST", problems: error.problems });
+    }
+
+    const owner = currentUser(res).id;
+    try {
+      const result = await importData(data, stores, owner, engine.now());
+      for (const alert of stores.alerts.list(owner)) {
+        syncAlert(engine, alert);
+      }
+      res.json(result);
+    } catch (error) {
+      requestLog(res).error("Error importing", { error });
+      sendError(res, 500, "INTERNAL_ERROR", "Failed to import", error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,70 @@
+/**
+ * Exchange rate routes
+ *
+ * This module exposes the exchange rates (see src/fx.ts) the web page uses
+ * to show prices in the user's base currency.
+ */
+
+import { Router } from "express";
+import { normalizeCurrency } from "../src/currency.js";
+import type { FxRates } from "../src/fx.js";
+import { sendError, sendQuoteError } from "./errors.js";
+
+/**
+ * Maximum number of currencies accepted by /api/fx/rates in one request
+ */
+const MAX_CURRENCIES = 20;
+
+/**
+ * Creates the router for /api/fx
+ *
+ * Routes:
+ *   - GET /api/fx/rates  Rates from several currencies into a base currency
+ *
+ * Query parameters:
+ *   - base: The currency to convert into (e.g., "EUR")
+ *   - currencies: Comma-separated currencies to convert from (e.g., "USD,GBX,JPY")
+ *
+ * Returns:
+ *   - 200: { base, rates }, where rates maps each currency to { rate, asOf }:
+ *          an amount in that currency times rate is the amount in base
+ *   - 400: Bad request if a currency is missing or unsupported (INVALID_REQUEST)
+ *   - 422/502/503/504: If a rate cannot be fetched, as for /api/quote
+ *
+ * @param fx - The exchange rates
+ * @returns The router
+ */
+export function createFxRouter(fx: FxRates): Router {
+  const router = Router();
+
+  router.get("/api/fx/rates", async (req, res) => {
+    const { base, currencies } = req.query;
+
+    let to: string;
+    let from: string[];
+    try {
+      if (typeof base !== "string" || typeof currencies !== "string") {
+        throw new Error("Missing or invalid 'base' or 'currencies' query parameter");
+      }
+      to = normalizeCurrency(base);
+      from = [...new Set(currencies.split(",").filter((c) => c.trim().length > 0).map(normalizeCurrency))];
+      if (from.length === 0 || from.length > MAX_CURRENCIES) {
+        throw new Error(`Expected 1 to ${MAX_CURRENCIES} currencies`);
+      }
+    } catch (error) {
+      return sendError(res, 400, "INVALID_REQUEST", error instanceof Error ? error.message : String(error));
+    }
+
+    try {
+      const rates = await Promise.all(from.map((currency) => fx.rate(currency, to)));
+      res.json({
+        base: to,
+        rates: Object.fromEntries(rates.map(({ from, rate, asOf }) => [from, { rate, asOf }])),
+      });
+    } catch (error) {
+      sendQuoteError(res, error, "fetching exchange rates");
+    }
+  });
+
+  return router;
+}
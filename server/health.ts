@@ -0,0 +1,44 @@
+/**
+ * Health check route
+ *
+ * This module reports whether the server is up and whether the quote
+ * upstream is reachable, for load balancers and monitoring. It needs no
+ * sign-in and never calls the upstream itself.
+ */
+
+import { Router } from "express";
+import type { QuoteProvider } from "../src/provider.js";
+
+/**
+ * Creates the router for /api/health
+ *
+ * Routes:
+ *   - GET /api/health  Server and upstream state
+ *
+ * Returns:
+ *   - 200: { status, provider, uptimeSeconds, upstream }, where status is "ok",
+ *          or "degraded" while the circuit breaker in front of the upstream is
+ *          not closed, and upstream is { circuit: { state, failures, openedAt,
+ *          retryAt, lastError } } (null for providers without an upstream, e.g. replays)
+ *
+ * The status is 200 even when degraded: the server itself still answers, and
+ * cached quotes, alerts and the portfolio keep working.
+ *
+ * @param provider - The quote provider
+ * @returns The router
+ */
+export function createHealthRouter(provider: QuoteProvider): Router {
+  const router = Router();
+
+  router.get("/api/health", (_req, res) => {
+    const upstream = provider.health?.() ?? null;
+    res.json({
+      status: upstream === null || upstream.circuit.state === "closed" ? "ok" : "degraded",
+      provider: provider.name,
+      uptimeSeconds: Math.floor(process.uptime()),
+      upstream,
+    });
+  });
+
+  return router;
+}
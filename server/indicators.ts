@@ -0,0 +1,141 @@
+/**
+ * Indicator routes
+ *
+ * This module computes technical indicators (see src/indicators.ts) over a
+ * symbol's history, plus their live values for the session in progress.
+ */
+
+import { Router } from "express";
+import type { HistoryOptions } from "../src/history.js";
+import {
+  computeIndicator,
+  createIndicator,
+  describeIndicator,
+  indicatorLookback,
+  parseIndicatorSpec,
+  sessionBar,
+  type IndicatorSpec,
+} from "../src/indicators.js";
+import type { QuoteProvider } from "../src/provider.js";
+import { sendError, sendQuoteError } from "./errors.js";
+import { parseHistoryQuery } from "./query.js";
+
+/**
+ * Maximum number of indicators accepted in one request
+ */
+const MAX_INDICATORS = 10;
+
+/**
+ * Calendar days spanned by one bar of each interval, with slack for weekends and holidays
+ */
+const DAYS_PER_BAR = { d: 1.5, w: 7, m: 31 };
+
+/**
+ * Creates the router for /api/indicators
+ *
+ * Routes:
+ *   - GET /api/indicators  Indicator series for a symbol
+ *
+ * Query parameters:
+ *   - symbol: The stock symbol (e.g., "aapl.us")
+ *   - indicators: Comma-separated indicators in compact notation, e.g.
+ *     "sma:50,ema:20,rsi:14,atr:14,vwap,macd:12:26:9:signal,bollinger:20:2:lower"
+ *   - from, to, interval: As for /api/history
+ *
+ * Extra history before `from` is fetched so the first values returned are
+ * already warmed up. For daily bars without `to`, `live` carries each
+ * indicator's value with the current session's forming bar.
+ *
+ * Returns:
+ *   - 200: { symbol, interval, indicators: [{ key, spec }], bars: [{ date, close, values }],
+ *          live: { date, time, price, values } | null }, values keyed by indicator key
+ *   - 400: Bad request if a parameter is missing or invalid (INVALID_REQUEST)
+ *   - 404/422/502/503/504: If fetching fails, as for /api/quote
+ *
+ * @param provider - Where to fetch history and quotes from
+ * @returns The router
+ */
+export function createIndicatorsRouter(provider: QuoteProvider): Router {
+  const router = Router();
+
+  router.get("/api/indicators", async (req, res) => {
+    const { symbol, indicators } = req.query;
+
+    if (!symbol || typeof symbol !== "string" || symbol.trim().length === 0) {
+      return sendError(res, 400, "INVALID_REQUEST", "Missing or invalid 'symbol' query parameter");
+    }
+
+    let options: HistoryOptions;
+    let specs: IndicatorSpec[];
+    try {
+      options = parseHistoryQuery(req.query);
+
+      if (!indicators || typeof indicators !== "string") {
+        throw new Error("Missing or invalid 'indicators' query parameter");
+      }
+      specs = indicators.split(",").filter((text) => text.trim().length > 0).map(parseIndicatorSpec);
+      if (specs.length === 0 || specs.length > MAX_INDICATORS) {
+        throw new Error(`Expected 1 to ${MAX_INDICATORS} indicators`);
+      }
+    } catch (error) {
+      return sendError(res, 400, "INVALID_REQUEST", error instanceof Error ? error.message : String(error));
+    }
+
+    const interval = options.interval ?? "d";
+    const keys = specs.map(describeIndicator);
+
+    try {
+      // Start early enough for the slowest indicator to warm up by `from`
+      const fetchOptions: HistoryOptions = { ...options };
+      if (options.from !== undefined) {
+        const lookback = Math.max(...specs.map(indicatorLookback));
+        const from = new Date(`${options.from}T00:00:00Z`);
+        from.setUTCDate(from.getUTCDate() - Math.ceil(lookback * DAYS_PER_BAR[interval]) - 14);
+        fetchOptions.from = from;
+      }
+
+      const bars = await provider.fetchHistory(symbol.trim(), fetchOptions);
+      const series = specs.map((spec) => computeIndicator(spec, bars));
+
+      const rows = bars
+        .map((bar, index) => ({
+          date: bar.date,
+          close: bar.close,
+          values: Object.fromEntries(keys.map((key, i) => [key, series[i]?.[index] ?? null])),
+        }))
+        .filter((row) => options.from === undefined || row.date >= options.from);
+
+      // Preview the session in progress on top of the closed daily bars
+      let live = null;
+      if (interval === "d" && options.to === undefined) {
+        const quote = await provider.fetchQuote(symbol.trim());
+        const closed = bars.filter((bar) => bar.date < quote.date);
+        const today = sessionBar(quote);
+        live = {
+          date: quote.date,
+          time: quote.time,
+          price: quote.close,
+          values: Object.fromEntries(
+            specs.map((spec, i) => {
+              const stream = createIndicator(spec);
+              closed.forEach((bar) => stream.update(bar));
+              return [keys[i], stream.preview(today)];
+            })
+          ),
+        };
+      }
+
+      res.json({
+        symbol: symbol.trim(),
+        interval,
+        indicators: specs.map((spec, i) => ({ key: keys[i], spec })),
+        bars: rows,
+        live,
+      });
+    } catch (error) {
+      sendQuoteError(res, error, "computing indicators");
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,62 @@
+/**
+ * Request logging
+ *
+ * This module gives every request an id and a logger that writes it along
+ * with each entry, and logs each request once it is answered. The id comes
+ * from the client's X-Request-Id header when it sends a sensible one (so a
+ * proxy's id carries through) and is echoed back in the response.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { RequestHandler, Response } from "express";
+import { log, type Logger } from "../src/logger.js";
+import type { PublicUser } from "../src/users.js";
+
+/**
+ * Incoming request ids that are kept: short and free of odd characters
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Creates the middleware that assigns request ids and logs requests
+ *
+ * Mount it first. Later handlers get the request's logger via requestLog().
+ * Answered requests are logged at "info" (or "warn" for 5xx responses) with
+ * their method, path, status, duration and, once signed in, user.
+ *
+ * @param logger - The logger to derive request loggers from (default: the process logger)
+ * @returns The middleware
+ */
+export function logRequests(logger: Logger = log): RequestHandler {
+  return (req, res, next) => {
+    const incoming = req.get("X-Request-Id");
+    const requestId = incoming !== undefined && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+    const started = performance.now();
+
+    res.setHeader("X-Request-Id", requestId);
+    res.locals.log = logger.child({ requestId });
+
+    res.on("close", () => {
+      const user = res.locals.user as PublicUser | undefined;
+      requestLog(res).log(res.statusCode >= 500 ? "warn" : "info", "Request", {
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        status: res.statusCode,
+        durationMs: Math.round(performance.now() - started),
+        ...(user !== undefined ? { user: user.username } : {}),
+      });
+    });
+
+    next();
+  };
+}
+
+/**
+ * Returns the logger of a request, which writes its request id
+ *
+ * @param res - The response of the request
+ * @returns The request's logger, or the process logger outside logRequests()
+ */
+export function requestLog(res: Response): Logger {
+  return (res.locals.log as Logger | undefined) ?? log;
+}
@@ -0,0 +1,116 @@
+/**
+ * Server metrics
+ *
+ * This module counts API requests and alert activity into a MetricsRegistry
+ * (see src/metrics.ts) and serves the registry at /metrics for Prometheus
+ * to scrape. Upstream latency and errors are recorded by a MeteredProvider.
+ */
+
+import { Router, type Request, type RequestHandler } from "express";
+import type { AlertEngine } from "../src/alert.js";
+import type { MetricsRegistry } from "../src/metrics.js";
+import type { QuoteProvider } from "../src/provider.js";
+
+/**
+ * Creates the middleware that counts requests per route and status
+ *
+ * Requests are labeled with the route pattern they matched (e.g.,
+ * "/api/alerts/:id"), so ids do not create a series each. Requests that
+ * matched no route are "static" outside /api (web page files) and
+ * "unmatched" inside it (e.g., rejected before routing with a 401 or 429).
+ *
+ * @param registry - Where to register the request counter
+ * @returns The middleware
+ */
+export function countRequests(registry: MetricsRegistry): RequestHandler {
+  const requests = registry.counter(
+    "stocks_http_requests_total",
+    "HTTP requests answered, per method, route and status",
+    ["method", "route", "status"]
+  );
+
+  return (req, res, next) => {
+    res.on("close", () => {
+      requests.inc({ method: req.method, route: routeLabel(req), status: String(res.statusCode) });
+    });
+    next();
+  };
+}
+
+/**
+ * Registers the alert metrics and keeps them up to date
+ *
+ * - stocks_alerts_active: Alerts being polled (active and not snoozed)
+ * - stocks_alert_triggers_total: Triggers fired, per symbol
+ *
+ * @param registry - Where to register the metrics
+ * @param engine - The engine running the alerts
+ */
+export function meterAlerts(registry: MetricsRegistry, engine: AlertEngine): void {
+  registry.gauge("stocks_alerts_active", "Alerts currently being polled", [], (gauge) => {
+    const now = new Date();
+    const polled = engine.list().filter(
+      (alert) => alert.status === "active" && (alert.snoozedUntil === null || alert.snoozedUntil <= now)
+    );
+    gauge.set({}, polled.length);
+  });
+
+  const triggers = registry.counter("stocks_alert_triggers_total", "Alert triggers fired, per symbol", ["symbol"]);
+  engine.on("triggered", ({ alert }) => {
+    triggers.inc({ symbol: alert.config.symbol.trim().toLowerCase() });
+  });
+}
+
+/**
+ * Registers a gauge of the provider's circuit breaker, if it has one
+ *
+ * stocks_upstream_circuit_open is 1 while requests to the upstream are
+ * stopped or limited to a probe, and 0 otherwise.
+ *
+ * @param registry - Where to register the metric
+ * @param provider - The quote provider
+ */
+export function meterUpstream(registry: MetricsRegistry, provider: QuoteProvider): void {
+  if (provider.health === undefined) {
+    return;
+  }
+
+  registry.gauge("stocks_upstream_circuit_open", "Whether the circuit breaker in front of the upstream is open", [], (gauge) => {
+    gauge.set({}, provider.health?.().circuit.state === "closed" ? 0 : 1);
+  });
+}
+
+/**
+ * Creates the router for /metrics
+ *
+ * Routes:
+ *   - GET /metrics  All metrics in the Prometheus text format
+ *
+ * The route sits outside /api; mount authenticate() and requireAdmin on it,
+ * since the per-symbol series show which symbols users watch. Scrapers send
+ * an admin's API token as a bearer token.
+ *
+ * @param registry - The metrics to serve
+ * @returns The router
+ */
+export function createMetricsRouter(registry: MetricsRegistry): Router {
+  const router = Router();
+
+  router.get("/metrics", (_req, res) => {
+    res.type("text/plain; version=0.0.4");
+    res.send(registry.render());
+  });
+
+  return router;
+}
+
+/**
+ * Returns the route label of an answered request
+ */
+function routeLabel(req: Request): string {
+  const route = (req.route as { path?: unknown } | undefined)?.path;
+  if (typeof route === "string") {
+    return route;
+  }
+  return req.originalUrl.startsWith("/api/") ? "unmatched" : "static";
+}
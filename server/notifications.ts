@@ -0,0 +1,160 @@
+/**
+ * Notification routes and trigger delivery
+ *
+ * This module sends every triggered alert to its notification channels and
+ * exposes the configured channels and the delivery log over HTTP.
+ */
+
+import { Router } from "express";
+import { describeAlert, type AlertEngine } from "../src/alert.js";
+import { quoteCurrency } from "../src/fx.js";
+import { log } from "../src/logger.js";
+import type { Notification, Notifier } from "../src/notify.js";
+import type { AlertStore } from "../src/store.js";
+import type { UserStore } from "../src/users.js";
+import { currentUser } from "./auth.js";
+import { requestLog } from "./logging.js";
+
+/**
+ * Sends a notification whenever one of the engine's alerts fires
+ *
+ * Alerts with a `notify` list use those channels; all others use their
+ * owner's channels, or else the channels marked as default. Either way only
+ * channels the owner may use are delivered to.
+ *
+ * @param engine - The engine running the alerts
+ * @param notifier - The notifier to deliver through
+ * @param store - The stored alerts, for each alert's owner
+ * @param users - The user store, for the owner's notification settings
+ * @param currencyOf - Looks up the currency a symbol is quoted in
+ */
+export function notifyTriggers(
+  engine: AlertEngine,
+  notifier: Notifier,
+  store: AlertStore,
+  users: UserStore,
+  currencyOf: (symbol: string) => string | null = quoteCurrency
+): void {
+  engine.on("triggered", ({ alert, quote }) => {
+    const ownerId = store.get(alert.id)?.owner;
+    const owner = ownerId !== undefined ? users.get(ownerId) : undefined;
+
+    const notification: Notification = {
+      alertId: alert.id,
+      symbol: quote.symbol,
+      price: quote.close,
+      currency: currencyOf(quote.symbol),
+      description: describeAlert(alert.config),
+      quote,
+      firedAt: (alert.triggeredAt ?? new Date()).toISOString(),
+    };
+
+    // Deliveries retry in the background; failures end up in the delivery log
+    notifier.notify(notification, alert.config.notify ?? owner?.notify, owner?.username).then((records) => {
+      for (const record of records.filter((r) => r.status === "failed")) {
+        log.warn("Notification failed", { channel: record.channel, alertId: alert.id, error: record.error });
+      }
+    });
+  });
+}
+
+/**
+ * Creates the router for /api/notifications
+ *
+ * Every route is scoped to the signed-in user: the channels they may use,
+ * the deliveries of their alerts and their own settings.
+ *
+ * Routes:
+ *   - GET  /api/notifications/channels    Names and types of the user's channels
+ *   - GET  /api/notifications/deliveries  Recent deliveries (?limit=, default 100)
+ *   - POST /api/notifications/test        Send a test notification ({ channel })
+ *   - GET  /api/notifications/settings    The user's channels for alerts without their own list
+ *   - PUT  /api/notifications/settings    Change them ({ notify: [names] }, or null for the defaults)
+ *
+ * @param notifier - The notifier
+ * @param users - The user store, where the settings are kept
+ * @returns The router
+ */
+export function createNotificationsRouter(notifier: Notifier, users: UserStore): Router {
+  const router = Router();
+
+  router.get("/api/notifications/channels", (_req, res) => {
+    res.json({ channels: notifier.channels(currentUser(res).username) });
+  });
+
+  router.get("/api/notifications/settings", (_req, res) => {
+    res.json({ notify: currentUser(res).notify ?? null });
+  });
+
+  router.put("/api/notifications/settings", async (req, res) => {
+    const user = currentUser(res);
+    const notify = (req.body as Record<string, unknown> | undefined)?.notify;
+    const names = new Set(notifier.channels(user.username).map((channel) => channel.name));
+
+    if (notify !== null && !(Array.isArray(notify) && notify.every((name) => names.has(name)))) {
+      return res.status(400).json({
+        error: "'notify' must be null or a list of your channel names",
+      });
+    }
+
+    const updated = await users.update(user.id, { notify: notify as string[] | null });
+    res.json({ notify: updated?.notify ?? null });
+  });
+
+  router.get("/api/notifications/deliveries", async (req, res) => {
+    const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return res.status(400).json({
+        error: "Invalid 'limit' query parameter. Expected a positive integer",
+      });
+    }
+
+    try {
+      res.json({ deliveries: await notifier.log.recent(limit, currentUser(res).username) });
+    } catch (error) {
+      requestLog(res).error("Error reading delivery log", { error });
+      res.status(500).json({
+        error: "Failed to read delivery log",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.post("/api/notifications/test", async (req, res) => {
+    const user = currentUser(res);
+    const channel = (req.body as Record<string, unknown> | undefined)?.channel;
+    if (typeof channel !== "string" || !notifier.channels(user.username).some((c) => c.name === channel)) {
+      return res.status(400).json({
+        error: "Missing or unknown 'channel'",
+      });
+    }
+
+    const now = new Date();
+    const notification: Notification = {
+      alertId: "test",
+      symbol: "TEST",
+      price: 100,
+      currency: "USD",
+      description: "a test notification",
+      quote: {
+        symbol: "TEST",
+        name: "Test notification",
+        date: now.toISOString().slice(0, 10),
+        time: now.toISOString().slice(11, 19),
+        timestamp: now.toISOString(),
+        timezone: "UTC",
+        open: null,
+        high: null,
+        low: null,
+        close: 100,
+        volume: null,
+      },
+      firedAt: now.toISOString(),
+    };
+
+    const [record] = await notifier.notify(notification, [channel], user.username);
+    res.status(record?.status === "delivered" ? 200 : 502).json(record);
+  });
+
+  return router;
+}
@@ -0,0 +1,110 @@
+/**
+ * Portfolio routes
+ *
+ * This module exposes the signed-in user's transaction ledger and the
+ * positions derived from it, valued at the latest quotes.
+ */
+
+import { Router } from "express";
+import type { QuoteProvider } from "../src/provider.js";
+import {
+  valuePortfolio,
+  type PortfolioStore,
+  type TransactionInput,
+} from "../src/portfolio.js";
+import { currentUser } from "./auth.js";
+import { sendQuoteError } from "./errors.js";
+
+/**
+ * Creates the router for /api/portfolio
+ *
+ * Every route works on the signed-in user's own transactions.
+ *
+ * Routes:
+ *   - GET    /api/portfolio                       Positions with P&L, day change and allocation, plus totals per currency
+ *   - GET    /api/portfolio/positions/:symbol     One position with its open lots and transactions
+ *   - GET    /api/portfolio/transactions          The ledger (?symbol= to filter)
+ *   - POST   /api/portfolio/transactions          Record a trade { symbol, side, quantity, price, fees?, currency?, date? }
+ *   - DELETE /api/portfolio/transactions/:id      Delete a trade
+ *
+ * @param store - The portfolio store
+ * @param provider - Where to fetch quotes from
+ * @returns The router
+ */
+export function createPortfolioRouter(store: PortfolioStore, provider: QuoteProvider): Router {
+  const router = Router();
+
+  router.get("/api/portfolio", async (_req, res) => {
+    try {
+      res.json(await valuePortfolio(store.positions(currentUser(res).id), provider));
+    } catch (error) {
+      sendQuoteError(res, error, "valuing portfolio");
+    }
+  });
+
+  router.get("/api/portfolio/positions/:symbol", async (req, res) => {
+    const owner = currentUser(res).id;
+    const position = store.position(req.params.symbol, owner);
+    if (position === undefined) {
+      return res.status(404).json({ error: `No position in "${req.params.symbol}"` });
+    }
+
+    try {
+      const { positions } = await valuePortfolio([position], provider);
+      res.json({ ...positions[0], transactions: store.transactions(owner, position.symbol) });
+    } catch (error) {
+      sendQuoteError(res, error, "valuing position");
+    }
+  });
+
+  router.get("/api/portfolio/transactions", (req, res) => {
+    const symbol = req.query.symbol;
+    if (symbol !== undefined && typeof symbol !== "string") {
+      return res.status(400).json({ error: "Invalid 'symbol' query parameter" });
+    }
+    res.json({ transactions: store.transactions(currentUser(res).id, symbol) });
+  });
+
+  router.post("/api/portfolio/transactions", async (req, res) => {
+    if (typeof req.body !== "object" || req.body === null) {
+      return res.status(400).json({ error: "Invalid transaction", message: "Request body must be a JSON object" });
+    }
+
+    const { symbol, side, quantity, price, fees, currency, date } = req.body as Record<string, unknown>;
+    const input = {
+      symbol,
+      side,
+      quantity,
+      price,
+      ...(fees !== undefined ? { fees } : {}),
+      ...(currency !== undefined ? { currency } : {}),
+      ...(date !== undefined ? { date } : {}),
+    } as TransactionInput;
+
+    try {
+      res.status(201).json(await store.addTransaction(input, currentUser(res).id));
+    } catch (error) {
+      // The store validates the fields and that the ledger still adds up
+      res.status(400).json({
+        error: "Invalid transaction",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.delete("/api/portfolio/transactions/:id", async (req, res) => {
+    try {
+      if (!(await store.removeTransaction(req.params.id, currentUser(res).id))) {
+        return res.status(404).json({ error: `Transaction "${req.params.id}" not found` });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(409).json({
+        error: "Transaction cannot be deleted",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  return router;
+}
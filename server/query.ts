@@ -0,0 +1,41 @@
+/**
+ * Query string parsing shared by the routes
+ */
+
+import { isCalendarDate, type HistoryOptions } from "../src/history.js";
+
+/**
+ * Parses the from, to and interval query parameters of the history routes
+ *
+ * @param query - The request's query object
+ * @returns The history options
+ * @throws Error with a message suitable for a 400 response if a parameter is invalid
+ */
+export function parseHistoryQuery(query: Record<string, unknown>): HistoryOptions {
+  const options: HistoryOptions = {};
+
+  for (const name of ["from", "to"] as const) {
+    const value = query[name];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== "string" || !isCalendarDate(value)) {
+      throw new Error(`Invalid '${name}' query parameter. Expected YYYY-MM-DD`);
+    }
+    options[name] = value;
+  }
+
+  const interval = query.interval;
+  if (interval !== undefined) {
+    if (interval !== "d" && interval !== "w" && interval !== "m") {
+      throw new Error("Invalid 'interval' query parameter. Expected d, w or m");
+    }
+    options.interval = interval;
+  }
+
+  if (options.from !== undefined && options.to !== undefined && options.from > options.to) {
+    throw new Error("Invalid date range: 'from' is after 'to'");
+  }
+
+  return options;
+}
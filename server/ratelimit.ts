@@ -0,0 +1,68 @@
+/**
+ * Inbound rate limiting
+ *
+ * This module limits how many API requests each client may make, using one
+ * token bucket per client IP address. Clients over the limit get a 429
+ * response with a Retry-After header.
+ */
+
+import type { RequestHandler } from "express";
+import { TokenBucket } from "../src/ratelimit.js";
+
+/**
+ * Options for the rate limiting middleware
+ *
+ * @property burst - Requests a client may make in a burst
+ * @property perSecond - Sustained requests per second per client
+ */
+export type RateLimitOptions = {
+  burst: number;
+  perSecond: number;
+};
+
+/**
+ * How often idle client buckets are dropped, in milliseconds
+ */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Creates middleware that rate-limits requests per client IP address
+ *
+ * @param options - The per-client limit
+ * @returns The middleware
+ */
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+  const buckets = new Map<string, TokenBucket>();
+
+  // A full bucket behaves exactly like a new one, so it can be dropped
+  const sweep = setInterval(() => {
+    for (const [client, bucket] of buckets) {
+      if (bucket.isFull()) {
+        buckets.delete(client);
+      }
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  return (req, res, next) => {
+    const client = req.ip ?? req.socket.remoteAddress ?? "unknown";
+
+    let bucket = buckets.get(client);
+    if (bucket === undefined) {
+      bucket = new TokenBucket(options.burst, options.perSecond);
+      buckets.set(client, bucket);
+    }
+
+    const waitMs = bucket.tryTake();
+    if (waitMs > 0) {
+      res.set("Retry-After", String(Math.ceil(waitMs / 1000)));
+      return res.status(429).json({
+        error: "Too many requests",
+        code: "RATE_LIMITED",
+        message: `Rate limit exceeded. Retry in ${Math.ceil(waitMs / 1000)}s`,
+      });
+    }
+
+    next();
+  };
+}
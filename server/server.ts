@@ -6,14 +6,258 @@
  */
 
 import express from "express";
-import { fetchQuote } from "../src/stooq.js";
+import * as path from "node:path";
+import { barsToCsv, type HistoryOptions } from "../src/history.js";
+import { createProvider } from "../src/provider.js";
+import { CachingProvider } from "../src/cache.js";
+import { marketStatus } from "../src/markets.js";
+import type { Quote } from "../src/stooq.js";
+import { AlertEngine } from "../src/alert.js";
+import { AlertStore } from "../src/store.js";
+import { PortfolioStore } from "../src/portfolio.js";
+import { WatchlistStore } from "../src/watchlists.js";
+import { UserStore } from "../src/users.js";
+import { SymbolDirectory } from "../src/symbols.js";
+import { FxRates } from "../src/fx.js";
+import { normalizeCurrency } from "../src/currency.js";
+import { DeliveryLog, Notifier } from "../src/notify.js";
+import { log } from "../src/logger.js";
+import { DataDirLockedError, lockDataDir } from "../src/jsonfile.js";
+import { ConfigError, loadConfig, type AppConfig } from "../src/config.js";
+import { MeteredProvider, MetricsRegistry } from "../src/metrics.js";
+import { createAlertsRouter, runStoredAlerts } from "./alerts.js";
+import { authenticate, createAuthRouter, currentUser, requireAdmin } from "./auth.js";
+import { createNotificationsRouter, notifyTriggers } from "./notifications.js";
+import { createBacktestRouter } from "./backtest.js";
+import { createPortfolioRouter } from "./portfolio.js";
+import { createStreamRouter } from "./stream.js";
+import { createWatchlistsRouter } from "./watchlists.js";
+import { createIndicatorsRouter } from "./indicators.js";
+import { createSymbolsRouter } from "./symbols.js";
+import { createFxRouter } from "./fx.js";
+import { createHealthRouter } from "./health.js";
+import { createConfigRouter } from "./config.js";
+import { createExportRouter } from "./export.js";
+import { sendError, sendQuoteError } from "./errors.js";
+import { parseHistoryQuery } from "./query.js";
+import { rateLimit } from "./ratelimit.js";
+import { logRequests } from "./logging.js";
+import { countRequests, createMetricsRouter, meterAlerts, meterUpstream } from "./metrics.js";
+
+// Read the settings from the environment and the config file (see src/config.ts);
+// invalid settings stop the server with a list of every problem
+let config: AppConfig;
+try {
+  config = await loadConfig();
+} catch (error) {
+  if (!(error instanceof ConfigError)) {
+    throw error;
+  }
+  log.error("Invalid configuration", { problems: error.problems });
+  process.exit(78);
+}
+log.setLevel(config.server.logLevel);
+
+// Metrics served at /metrics for Prometheus
+const metrics = new MetricsRegistry();
+
+// The server keeps the data files in memory and saves whole snapshots, so it
+// claims the data directory: the CLI refuses to change the files while it runs
+const dataDir = config.dataDir;
+try {
+  await lockDataDir(dataDir);
+} catch (error) {
+  if (!(error instanceof DataDirLockedError)) {
+    throw error;
+  }
+  log.error("Data directory in use", { dataDir, pid: error.pid });
+  process.exit(1);
+}
+// Exit normally on Ctrl+C or a stop request, so the lock is released
+process.once("SIGINT", () => process.exit(130));
+process.once("SIGTERM", () => process.exit(143));
+
+// The stored alerts, run in the background below
+const store = await AlertStore.open(path.join(dataDir, "alerts.json"));
+
+// Instruments for symbol search and their currencies
+const directory = await SymbolDirectory.open(path.join(dataDir, "symbols.json"), config.symbols);
+const currencyOf = (symbol: string) => directory.currency(symbol);
+
+// The portfolio's cost basis backs alerts relative to cost (e.g., "down 10% from cost")
+const portfolio = await PortfolioStore.open(path.join(dataDir, "portfolio.json"));
+
+// Watchlists shown on the web dashboard
+const watchlists = await WatchlistStore.open(path.join(dataDir, "watchlists.json"));
+
+// User accounts; alerts and watchlists belong to the user who created them
+const users = await UserStore.open(path.join(dataDir, "users.json"));
+
+// Upstream metrics get a series per symbol only for the symbols the server knows:
+// anyone signed in can request quotes for made-up symbols
+const knownSymbol = (symbol: string) => {
+  const normalized = symbol.trim().toLowerCase();
+  return (
+    directory.get(normalized) !== undefined ||
+    store.list().some((alert) => alert.config.symbol.trim().toLowerCase() === normalized) ||
+    watchlists.list().some((watchlist) => watchlist.symbols.some((s) => s.toLowerCase() === normalized))
+  );
+};
+
+// Select the quote provider (live Stooq data unless configured otherwise)
+// All quote requests go through one cache, so many clients and alerts polling the
+// same symbol cost a single upstream request per TTL; requests that miss the
+// cache are measured on their way upstream
+const provider = new CachingProvider(new MeteredProvider(await createProvider(config.provider), metrics, knownSymbol), {
+  ttlMs: config.cache.quoteTtlMs,
+  upstreamBurst: config.upstream.rateBurst,
+  upstreamPerSecond: config.upstream.ratePerSecond,
+});
+
+// Exchange rates from Stooq currency pairs, for alerts and prices in another currency
+const fx = new FxRates(provider);
+
+// Run the stored alerts in the background
+// Rules relative to cost look at the position of the alert's owner
+const engine = new AlertEngine(provider, {
+  costBasis: (symbol, alertId) => {
+    const owner = store.get(alertId)?.owner;
+    return owner !== undefined ? portfolio.averageCost(symbol, owner) : null;
+  },
+  fx,
+  currencyOf,
+});
+engine.on("error", ({ symbol, alertIds, error, retryAt }) => {
+  log.warn("Error fetching quote", { symbol, alertIds, error, retryAt });
+});
+engine.on("triggered", ({ alert, quote }) => {
+  log.info("Alert triggered", { alertId: alert.id, symbol: quote.symbol, price: quote.close, triggerCount: alert.triggerCount });
+});
+meterAlerts(metrics, engine);
+meterUpstream(metrics, provider);
+
+// Every symbol the engine gets a quote for becomes searchable
+engine.on("price", (quote) => {
+  directory.learn([quote]).catch((error) => log.error("Error saving symbol directory", { error }));
+});
+runStoredAlerts(store, engine);
+
+/**
+ * Gives alerts, watchlists and transactions without an owner (created before
+ * accounts existed, or by the CLI without --user) to the first admin
+ */
+async function adoptOrphans(): Promise<void> {
+  const admin = users.list().find((user) => user.role === "admin");
+  if (admin !== undefined) {
+    await store.adopt(admin.id);
+    await watchlists.adopt(admin.id);
+    try {
+      await portfolio.adopt(admin.id);
+    } catch (error) {
+      // E.g., the admin already holds a symbol in another currency; the trades stay unowned
+      log.warn("Could not give transactions without an owner to the first admin", { error });
+    }
+  }
+}
+await adoptOrphans();
+
+// Send triggered alerts to the notification channels configured in notifiers.json,
+// or only to the ones the configuration enables
+const channels = await Notifier.loadChannels(config.notifiers.file);
+const enabled = config.notifiers.enabled;
+const unknownChannels = (enabled ?? []).filter((name) => !channels.some((channel) => channel.name === name));
+if (unknownChannels.length > 0) {
+  log.error("Invalid configuration", {
+    problems: [`notifiers.enabled names channels not in ${config.notifiers.file}: ${unknownChannels.join(", ")}`],
+  });
+  process.exit(78);
+}
+let notifier: Notifier;
+try {
+  notifier = new Notifier(
+    channels.filter((channel) => enabled === null || enabled.includes(channel.name)),
+    new DeliveryLog(path.join(dataDir, "deliveries.jsonl"))
+  );
+} catch (error) {
+  // An invalid channel (e.g., a mistyped email address) is reported before any alert fires
+  log.error("Invalid configuration", {
+    problems: [`${config.notifiers.file}: ${error instanceof Error ? error.message : String(error)}`],
+  });
+  process.exit(78);
+}
+notifyTriggers(engine, notifier, store, users, currencyOf);
+engine.start();
+
+/**
+ * Adds the market status, currency and age to a quote for API responses
+ * 
+ * @param quote - The quote
+ * @returns The quote with `market` (see MarketStatus), `currency` (the currency
+ *          its prices are in, or null if unknown) and `staleSeconds` (seconds
+ *          since the quote's timestamp, by the provider's clock)
+ */
+function withMarketStatus(quote: Quote) {
+  const now = provider.now();
+  return {
+    ...quote,
+    market: marketStatus(quote.symbol, now),
+    currency: currencyOf(quote.symbol),
+    staleSeconds: Math.max(0, Math.floor((now.getTime() - Date.parse(quote.timestamp)) / 1000)),
+  };
+}
 
 // Create Express application
 const app = express();
 
-// Serve static files from the web/ directory
+// Give every request an id, log it when answered and count it
+app.use(logRequests());
+app.use(countRequests(metrics));
+
+// Parse JSON request bodies (used by the alert routes)
+app.use(express.json());
+
+// Limit how fast each client may call the API (429 with Retry-After when exceeded)
+app.use(
+  "/api",
+  rateLimit({
+    burst: config.clients.rateBurst,
+    perSecond: config.clients.ratePerSecond,
+  })
+);
+
+// Every API call needs a signed-in user (401 otherwise), except signing in and the health check
+app.use("/api", authenticate(users));
+
+// Serve static files from the web/ directory (or the configured one)
 // This allows the server to serve HTML, CSS, JavaScript, and other static assets
-app.use(express.static("web"));
+app.use(express.static(config.server.staticDir));
+
+// Server and upstream health and metrics, for monitoring; the metrics name the
+// symbols users watch, so only admins (e.g., a scraper with an admin's API token) may read them
+app.use(createHealthRouter(provider));
+app.use("/metrics", authenticate(users), requireAdmin);
+app.use(createMetricsRouter(metrics));
+
+// Server-side settings for the web page (e.g., the default alert interval)
+app.use(createConfigRouter(config));
+
+// Sign-in, API tokens and user management
+app.use(
+  createAuthRouter(users, {
+    firstUser: adoptOrphans,
+    userRemoved: async (user) => {
+      // A deleted user's alerts, watchlists and transactions go with them
+      for (const alert of store.list(user.id)) {
+        engine.remove(alert.id);
+        await store.remove(alert.id);
+      }
+      for (const watchlist of watchlists.list(user.id)) {
+        await watchlists.remove(watchlist.id);
+      }
+      await portfolio.removeAll(user.id);
+    },
+  })
+);
 
 /**
  * GET /api/quote
@@ -22,11 +266,31 @@ app.use(express.static("web"));
  * 
  * Query parameters:
  *   - symbol: The stock symbol to fetch (e.g., "AAPL", "MSFT", "aapl.us")
+ *   - currency: Optional currency to convert the prices into (default: the
+ *     signed-in user's base currency, if they have one)
+ * 
+ * Quotes are served from the cache while fresh. The response carries Age
+ * (seconds since the quote was fetched upstream), ETag and Cache-Control
+ * headers; a matching If-None-Match gets a 304.
  * 
  * Returns:
- *   - 200: JSON object with { symbol, date, time, close }
- *   - 400: Bad request if symbol is missing
- *   - 502: Bad gateway if upstream service (Stooq) fails
+ *   - 200: JSON object with { symbol, name, date, time, timestamp, timezone,
+ *          open, high, low, close, volume, market, currency, staleSeconds } (missing fields
+ *          are null); market is { exchange, timezone, open, nextOpen, nextClose }.
+ *          With a currency to convert into, `converted` is { currency, rate, open, high,
+ *          low, close }, or null if the rate is unavailable or the quote's currency unknown
+ *   - 304: Not modified if If-None-Match matches the ETag
+ *   - 400: Bad request if symbol is missing or currency unsupported (INVALID_REQUEST)
+ *   - 404: Not found if Stooq does not know the symbol (SYMBOL_NOT_FOUND, with suggestions)
+ *   - 422: Unprocessable if the symbol has no price (NO_DATA)
+ *   - 429: Too many requests from this client (RATE_LIMITED, see Retry-After)
+ *   - 502: Bad gateway if Stooq's response cannot be parsed (PARSE_ERROR)
+ *   - 503: Service unavailable if Stooq fails or cannot be reached (UPSTREAM_HTTP), its
+ *          daily limit is exceeded (DAILY_LIMIT) or requests to it are paused after
+ *          repeated failures (CIRCUIT_OPEN, see Retry-After)
+ *   - 504: Gateway timeout if Stooq does not answer in time (TIMEOUT)
+ *
+ * Errors have the shape { error, code, message?, symbol?, suggestions? } (see server/errors.ts).
  */
 app.get("/api/quote", async (req, res) => {
   try {
@@ -35,42 +299,277 @@ app.get("/api/quote", async (req, res) => {
 
     // Validate that symbol is provided
     if (!symbol || typeof symbol !== "string" || symbol.trim().length === 0) {
-      return res.status(400).json({
-        error: "Missing or invalid 'symbol' query parameter",
-      });
+      return sendError(res, 400, "INVALID_REQUEST", "Missing or invalid 'symbol' query parameter");
+    }
+
+    // The currency to convert into, if any
+    let target: string | null;
+    try {
+      const requested = req.query.currency;
+      target = typeof requested === "string" ? normalizeCurrency(requested) : (currentUser(res).baseCurrency ?? null);
+    } catch (error) {
+      return sendError(res, 400, "INVALID_REQUEST", error instanceof Error ? error.message : String(error));
+    }
+
+    // Fetch the quote from the cache or Stooq
+    // This will throw a QuoteError if the symbol is invalid or the upstream service fails
+    const { quote, fetchedAt, expiresAt, etag } = await provider.lookup(symbol.trim());
+
+    // Describe the cache entry; Express answers 304 itself when If-None-Match matches
+    const now = Date.now();
+    res.set({
+      Age: String(Math.floor((now - fetchedAt.getTime()) / 1000)),
+      ETag: etag,
+      "Cache-Control": `max-age=${Math.max(0, Math.floor((expiresAt.getTime() - now) / 1000))}`,
+    });
+
+    // Return the quote data as JSON, with whether its market is open
+    const body = withMarketStatus(quote);
+    if (target === null || target === body.currency) {
+      return res.json(body);
+    }
+    res.json({ ...body, converted: await convertQuote(quote, body.currency, target) });
+  } catch (error) {
+    // Map the kind of failure (unknown symbol, no data, network, ...) to its status
+    sendQuoteError(res, error, "fetching quote");
+  }
+});
+
+/**
+ * Converts the prices of a quote into another currency
+ *
+ * @param quote - The quote
+ * @param from - The currency of its prices, or null if unknown
+ * @param to - The currency to convert into
+ * @returns A promise that resolves to the converted prices, or null if the
+ *          currency is unknown or the rate cannot be fetched
+ */
+async function convertQuote(quote: Quote, from: string | null, to: string) {
+  if (from === null) {
+    return null;
+  }
+
+  try {
+    const { rate } = await fx.rate(from, to);
+    const convert = (value: number | null) => (value === null ? null : value * rate);
+    return {
+      currency: to,
+      rate,
+      open: convert(quote.open),
+      high: convert(quote.high),
+      low: convert(quote.low),
+      close: quote.close * rate,
+    };
+  } catch (error) {
+    log.warn("Error converting quote", { symbol: quote.symbol, currency: to, error });
+    return null;
+  }
+}
+
+/**
+ * Maximum number of symbols accepted by /api/quotes in one request
+ */
+const MAX_BATCH_SYMBOLS = 50;
+
+/**
+ * GET /api/quotes
+ * 
+ * Fetches quotes for several symbols with a single upstream request
+ * 
+ * Query parameters:
+ *   - symbols: Comma-separated stock symbols (e.g., "aapl.us,msft.us,spy.us")
+ * 
+ * Returns:
+ *   - 200: JSON object with { results }, one entry per symbol:
+ *          { symbol, ok: true, quote } or { symbol, ok: false, error, code, suggestions? }
+ *          (quotes carry market and staleSeconds as in /api/quote)
+ *   - 400: Bad request if symbols is missing or lists too many symbols (INVALID_REQUEST)
+ *   - 502/503/504: If the upstream request itself fails, as for /api/quote
+ */
+app.get("/api/quotes", async (req, res) => {
+  try {
+    // Get the symbols from query parameters
+    const param = req.query.symbols;
+
+    // Validate that symbols are provided
+    if (!param || typeof param !== "string") {
+      return sendError(res, 400, "INVALID_REQUEST", "Missing or invalid 'symbols' query parameter");
     }
 
-    // Fetch the quote from Stooq
-    // This will throw an error if the symbol is invalid or the upstream service fails
-    const quote = await fetchQuote(symbol.trim());
+    const symbols = param.split(",").map((s) => s.trim()).filter((s) => s.length > 0);
+
+    if (symbols.length === 0) {
+      return sendError(res, 400, "INVALID_REQUEST", "Missing or invalid 'symbols' query parameter");
+    }
+
+    if (symbols.length > MAX_BATCH_SYMBOLS) {
+      return sendError(
+        res,
+        400,
+        "INVALID_REQUEST",
+        `Too many symbols: at most ${MAX_BATCH_SYMBOLS} are allowed per request`
+      );
+    }
+
+    // Fetch all quotes in one upstream request
+    // Invalid symbols are reported per entry rather than failing the whole batch
+    const results = await provider.fetchQuotes(symbols);
 
-    // Return the quote data as JSON
     res.json({
-      symbol: quote.symbol,
-      date: quote.date,
-      time: quote.time,
-      close: quote.close,
+      results: results.map((result) => (result.ok ? { ...result, quote: withMarketStatus(result.quote) } : result)),
     });
   } catch (error) {
-    // Handle errors from fetchQuote
-    // These could be network errors, invalid symbols, or upstream service failures
-    console.error("Error fetching quote:", error);
-
-    // Return 502 (Bad Gateway) for upstream service failures
-    // This indicates the server received an invalid response from the upstream service
-    res.status(502).json({
-      error: "Failed to fetch quote from upstream service",
-      message: error instanceof Error ? error.message : String(error),
+    // Only failures of the upstream request itself end up here
+    sendQuoteError(res, error, "fetching quotes");
+  }
+});
+
+/**
+ * GET /api/history
+ * 
+ * Fetches historical price bars for the given symbol
+ * 
+ * Query parameters:
+ *   - symbol: The stock symbol to fetch (e.g., "aapl.us")
+ *   - from: Optional first date to include (YYYY-MM-DD)
+ *   - to: Optional last date to include (YYYY-MM-DD)
+ *   - interval: Optional bar interval: "d" (daily, default), "w" (weekly) or "m" (monthly)
+ *   - format: Optional response format: "json" (default) or "csv"
+ * 
+ * Returns:
+ *   - 200: JSON object with { symbol, interval, bars } or a CSV file
+ *   - 400: Bad request if a parameter is missing or invalid (INVALID_REQUEST)
+ *   - 404/422/502/503/504: If fetching fails, as for /api/quote (NO_DATA for an empty range)
+ */
+app.get("/api/history", async (req, res) => {
+  // Get the parameters from the query string
+  const { symbol, format } = req.query;
+
+  // Validate that symbol is provided
+  if (!symbol || typeof symbol !== "string" || symbol.trim().length === 0) {
+    return sendError(res, 400, "INVALID_REQUEST", "Missing or invalid 'symbol' query parameter");
+  }
+
+  // Validate the optional parameters
+  let options: HistoryOptions;
+  try {
+    options = parseHistoryQuery(req.query);
+  } catch (error) {
+    return sendError(res, 400, "INVALID_REQUEST", error instanceof Error ? error.message : String(error));
+  }
+
+  if (format !== undefined && format !== "json" && format !== "csv") {
+    return sendError(res, 400, "INVALID_REQUEST", "Invalid 'format' query parameter. Expected json or csv");
+  }
+
+  try {
+    // Fetch the bars from Stooq
+    const bars = await provider.fetchHistory(symbol.trim(), options);
+
+    if (format === "csv") {
+      res.type("text/csv");
+      res.attachment(`${symbol.trim().toLowerCase()}_${options.interval ?? "d"}.csv`);
+      return res.send(barsToCsv(bars));
+    }
+
+    res.json({
+      symbol: symbol.trim(),
+      interval: options.interval ?? "d",
+      bars,
     });
+  } catch (error) {
+    sendQuoteError(res, error, "fetching history");
   }
 });
 
-// Start the server on port 3000
-const PORT = 3000;
+// Symbol search and exchange rates
+app.use(createSymbolsRouter(directory));
+app.use(createFxRouter(fx));
+
+// Technical indicators over history, with live values for the current session
+app.use(createIndicatorsRouter(provider));
+
+// Alert rules replayed over history
+app.use(createBacktestRouter(provider, store, (symbol, owner) => portfolio.averageCost(symbol, owner)));
 
-app.listen(PORT, () => {
-  console.log(`Server running on http://localhost:${PORT}`);
-  console.log(`Serving static files from web/ directory`);
-  console.log(`API endpoint: GET /api/quote?symbol=<SYMBOL>`);
+/**
+ * GET /api/cache/stats
+ * 
+ * Returns the quote cache counters (admin only):
+ * { hits, misses, coalesced, upstreamRequests, size }
+ */
+app.get("/api/cache/stats", requireAdmin, (_req, res) => {
+  res.json(provider.stats());
 });
 
+// Alert CRUD routes and trigger history
+app.use(createAlertsRouter(store, engine, currencyOf));
+
+// Portfolio positions and transactions
+app.use(createPortfolioRouter(portfolio, provider));
+
+// Watchlists and their quote tables
+app.use(createWatchlistsRouter(watchlists, provider, currencyOf));
+
+// Export of alerts, watchlists and trigger history, and import of alerts and watchlists
+app.use(createExportRouter({ alerts: store, watchlists }, engine));
+
+// Notification channels and delivery log
+app.use(createNotificationsRouter(notifier, users));
+
+// Live price and trigger stream (Server-Sent Events)
+app.use(createStreamRouter(engine, (alertId) => store.get(alertId)?.owner, currencyOf));
+
+// Start the server on the configured port and host (all interfaces unless set)
+const { port, host } = config.server;
+
+const onListening = (error?: Error) => {
+  if (error !== undefined) {
+    log.error("Server failed to start", { port, host, error });
+    process.exit(1);
+  }
+
+  log.info("Server started", {
+    url: `http://${host ?? "localhost"}:${port}`,
+    staticDir: config.server.staticDir,
+    config: config.source,
+    provider: provider.name,
+    instruments: directory.list().length,
+    defaultMarket: directory.defaultMarket,
+    alerts: engine.list().length,
+    users: users.list().length,
+    notificationChannels: notifier.channels().map((c) => c.name),
+  });
+  if (users.list().length === 0) {
+    log.info("No user accounts yet: open the web page or POST /api/auth/setup to create the admin");
+  }
+  log.debug("API endpoints", {
+    endpoints: [
+      "GET /api/health",
+      "GET /api/config",
+      "GET /metrics (admin)",
+      "POST /api/auth/login, POST /api/auth/logout, GET /api/auth/me",
+      "GET/POST /api/auth/tokens, GET/POST /api/users (admin)",
+      "GET /api/quote?symbol=<SYMBOL>&currency=<CURRENCY>",
+      "GET /api/quotes?symbols=<SYMBOL>,<SYMBOL>,...",
+      "GET /api/history?symbol=<SYMBOL>&from=<YYYY-MM-DD>&to=<YYYY-MM-DD>",
+      "GET /api/symbols/search?q=<TEXT>",
+      "GET /api/fx/rates?base=<CURRENCY>&currencies=<CURRENCY>,<CURRENCY>,...",
+      "GET /api/indicators?symbol=<SYMBOL>&indicators=sma:50,rsi:14,...",
+      "POST /api/backtest",
+      "GET /api/cache/stats",
+      "GET/POST /api/alerts, GET/PATCH/DELETE /api/alerts/<ID>",
+      "GET /api/portfolio, GET/POST /api/portfolio/transactions",
+      "GET/POST /api/watchlists, GET /api/watchlists/<ID>/quotes",
+      "GET /api/export?format=json|csv&type=alerts|watchlists|triggers, POST /api/import",
+      "GET /api/notifications/channels, GET /api/notifications/deliveries",
+      "GET /api/stream?symbols=<SYMBOL>,<SYMBOL>,... (Server-Sent Events)",
+    ],
+  });
+};
+
+if (host !== null) {
+  app.listen(port, host, onListening);
+} else {
+  app.listen(port, onListening);
+}
@@ -0,0 +1,205 @@
+/**
+ * Live price stream via Server-Sent Events
+ *
+ * This module pushes price ticks and alert triggers to browsers. Upstream
+ * polling is done once per symbol by the AlertEngine, no matter how many
+ * clients subscribe, and every event is numbered so a client that reconnects
+ * with Last-Event-ID receives the events it missed.
+ */
+
+import { Router, type Response } from "express";
+import type { AlertEngine, ManagedAlert } from "../src/alert.js";
+import { quoteCurrency } from "../src/fx.js";
+import type { Quote } from "../src/stooq.js";
+import { currentUser } from "./auth.js";
+
+/**
+ * How often streamed symbols are polled upstream, in milliseconds
+ */
+const STREAM_INTERVAL_MS = 10_000;
+
+/**
+ * How many past events are kept for clients that reconnect
+ */
+const REPLAY_BUFFER_SIZE = 500;
+
+/**
+ * How often a comment is sent to keep idle connections open, in milliseconds
+ */
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * Maximum number of symbols a single stream may subscribe to
+ */
+const MAX_STREAM_SYMBOLS = 50;
+
+/**
+ * An event sent to stream clients
+ *
+ * @property id - Sequence number, sent as the SSE event id
+ * @property type - "price" for a quote, "trigger" for a fired alert
+ * @property symbol - The symbol the event is about (lowercase)
+ * @property owner - For "trigger": the user id of the alert's owner
+ * @property data - The JSON payload
+ */
+type StreamEvent = {
+  id: number;
+  type: "price" | "trigger";
+  symbol: string;
+  owner?: string | undefined;
+  data: unknown;
+};
+
+/**
+ * A connected stream client
+ */
+type StreamClient = {
+  userId: string;
+  symbols: Set<string>;
+  res: Response;
+};
+
+/**
+ * A quote as streamed, with the currency its prices are in (null if unknown)
+ */
+export type StreamQuote = Quote & { currency: string | null };
+
+/**
+ * Payload of a "trigger" event
+ */
+export type TriggerEventData = {
+  alert: Pick<ManagedAlert, "id" | "config" | "status" | "triggeredAt">;
+  quote: StreamQuote;
+};
+
+/**
+ * Creates the router for GET /api/stream
+ *
+ * Query parameters:
+ *   - symbols: Optional comma-separated symbols to receive "price" events for
+ *
+ * Events:
+ *   - price: A quote for one of the subscribed symbols (a StreamQuote)
+ *   - trigger: One of the signed-in user's alerts fired (regardless of symbols)
+ *
+ * @param engine - The engine that polls symbols and runs the alerts
+ * @param ownerOf - Returns the user id of an alert's owner
+ * @param currencyOf - Looks up the currency a symbol is quoted in
+ * @returns The router
+ */
+export function createStreamRouter(
+  engine: AlertEngine,
+  ownerOf: (alertId: string) => string | undefined,
+  currencyOf: (symbol: string) => string | null = quoteCurrency
+): Router {
+  const router = Router();
+  const withCurrency = (quote: Quote): StreamQuote => ({ ...quote, currency: currencyOf(quote.symbol) });
+  const clients = new Set<StreamClient>();
+  const buffer: StreamEvent[] = [];
+  let nextId = 1;
+
+  // Number, buffer and fan out an event to the clients that want it
+  const publish = (type: StreamEvent["type"], symbol: string, data: unknown, owner?: string): void => {
+    const event: StreamEvent = { id: nextId++, type, symbol: symbol.toLowerCase(), owner, data };
+
+    buffer.push(event);
+    if (buffer.length > REPLAY_BUFFER_SIZE) {
+      buffer.shift();
+    }
+
+    for (const client of clients) {
+      if (wants(client, event)) {
+        send(client.res, event);
+      }
+    }
+  };
+
+  engine.on("price", (quote) => publish("price", quote.symbol, withCurrency(quote)));
+
+  engine.on("triggered", ({ alert, quote }) => {
+    const data: TriggerEventData = {
+      alert: { id: alert.id, config: alert.config, status: alert.status, triggeredAt: alert.triggeredAt },
+      quote: withCurrency(quote),
+    };
+    publish("trigger", quote.symbol, data, ownerOf(alert.id));
+  });
+
+  router.get("/api/stream", (req, res) => {
+    // Get the symbols from query parameters
+    const param = req.query.symbols;
+    if (param !== undefined && typeof param !== "string") {
+      return res.status(400).json({
+        error: "Invalid 'symbols' query parameter",
+      });
+    }
+
+    const symbols = new Set(
+      (param ?? "").split(",").map((s) => s.trim().toLowerCase()).filter((s) => s.length > 0)
+    );
+
+    if (symbols.size > MAX_STREAM_SYMBOLS) {
+      return res.status(400).json({
+        error: `Too many symbols: at most ${MAX_STREAM_SYMBOLS} are allowed per stream`,
+      });
+    }
+
+    // Open the event stream
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(`retry: 5000\n\n`);
+
+    const client: StreamClient = { userId: currentUser(res).id, symbols, res };
+
+    // Replay what the client missed since its last event
+    // An id from before a server restart is newer than anything buffered and replays nothing
+    const lastEventId = Number(req.get("Last-Event-ID") ?? req.query.lastEventId);
+    const isReconnect = Number.isInteger(lastEventId) && lastEventId >= 0;
+
+    if (isReconnect) {
+      for (const event of buffer) {
+        if (event.id > lastEventId && wants(client, event)) {
+          send(res, event);
+        }
+      }
+    } else {
+      // Send the latest known prices right away so a new client has something to show
+      // These are snapshots, not numbered events, so they don't move the client's Last-Event-ID
+      for (const symbol of symbols) {
+        const quote = engine.latestQuote(symbol);
+        if (quote !== undefined) {
+          res.write(`event: price\ndata: ${JSON.stringify(withCurrency(quote))}\n\n`);
+        }
+      }
+    }
+
+    clients.add(client);
+    const unwatch = [...symbols].map((symbol) => engine.watch(symbol, STREAM_INTERVAL_MS));
+    const heartbeat = setInterval(() => res.write(`: heartbeat\n\n`), HEARTBEAT_INTERVAL_MS);
+
+    // Clean up when the client goes away
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unwatch.forEach((stop) => stop());
+      clients.delete(client);
+    });
+  });
+
+  return router;
+}
+
+/**
+ * Whether a client should receive an event
+ */
+function wants(client: StreamClient, event: StreamEvent): boolean {
+  return event.type === "trigger" ? event.owner === client.userId : client.symbols.has(event.symbol);
+}
+
+/**
+ * Writes an event in SSE format
+ */
+function send(res: Response, event: StreamEvent): void {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
@@ -0,0 +1,58 @@
+/**
+ * Symbol search routes
+ *
+ * This module exposes the symbol directory (see src/symbols.ts) so the web
+ * page can suggest symbols as the user types.
+ */
+
+import { Router } from "express";
+import type { SymbolDirectory } from "../src/symbols.js";
+import { sendError } from "./errors.js";
+
+/**
+ * Creates the router for /api/symbols
+ *
+ * Routes:
+ *   - GET /api/symbols/search  Instruments matching what the user typed
+ *
+ * Query parameters:
+ *   - q: The text typed so far (a ticker such as "AAPL", "vod.l", or part of a name)
+ *   - limit: Optional number of results (default: 10, at most 50)
+ *
+ * Returns:
+ *   - 200: { query, resolved, results }, where resolved is the Stooq symbol q
+ *          normalizes to and results are Instruments { symbol, name, exchange, currency },
+ *          best match first
+ *   - 400: Bad request if q is missing or limit is invalid (INVALID_REQUEST)
+ *
+ * @param directory - The symbol directory
+ * @returns The router
+ */
+export function createSymbolsRouter(directory: SymbolDirectory): Router {
+  const router = Router();
+
+  router.get("/api/symbols/search", (req, res) => {
+    const { q, limit } = req.query;
+
+    if (typeof q !== "string" || q.trim().length === 0) {
+      return sendError(res, 400, "INVALID_REQUEST", "Missing or invalid 'q' query parameter");
+    }
+
+    const count = limit !== undefined ? Number(limit) : 10;
+    if (!Number.isInteger(count) || count < 1) {
+      return sendError(res, 400, "INVALID_REQUEST", "Invalid 'limit' query parameter. Expected a positive whole number");
+    }
+
+    let resolved: string | null;
+    try {
+      resolved = directory.resolve(q);
+    } catch {
+      // Partial input such as "$" does not make a symbol yet
+      resolved = null;
+    }
+
+    res.json({ query: q, resolved, results: directory.search(q, count) });
+  });
+
+  return router;
+}
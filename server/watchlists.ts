@@ -0,0 +1,179 @@
+/**
+ * Watchlist routes
+ *
+ * This module exposes the stored watchlists as a REST resource, plus a quote
+ * table per watchlist for the web dashboard.
+ */
+
+import { Router, type Response } from "express";
+import { quoteCurrency } from "../src/fx.js";
+import { fetchPreviousClose } from "../src/history.js";
+import { marketStatus } from "../src/markets.js";
+import type { QuoteProvider } from "../src/provider.js";
+import type { WatchlistPatch, WatchlistStore } from "../src/watchlists.js";
+import { currentUser } from "./auth.js";
+import { sendQuoteError } from "./errors.js";
+
+/**
+ * Creates the router for /api/watchlists
+ *
+ * Every route works on the signed-in user's watchlists only; other users'
+ * watchlists are reported as not found.
+ *
+ * Routes:
+ *   - GET    /api/watchlists             List watchlists in display order
+ *   - POST   /api/watchlists             Create a watchlist { name, symbols? }
+ *   - PUT    /api/watchlists/order       Reorder watchlists { ids } (every id, in the new order)
+ *   - GET    /api/watchlists/:id         Get one watchlist
+ *   - PATCH  /api/watchlists/:id         Rename and/or replace (reorder) the symbols { name?, symbols? }
+ *   - DELETE /api/watchlists/:id         Delete a watchlist
+ *   - GET    /api/watchlists/:id/quotes  One row per symbol with the latest quote, change
+ *                                        from the previous close and market status; rows of failed
+ *                                        symbols carry error, code and suggestions instead;
+ *                                        every row has the currency its prices are in
+ *
+ * @param store - The watchlist store
+ * @param provider - Where to fetch quotes and history from
+ * @param currencyOf - Looks up the currency a symbol is quoted in
+ * @returns The router
+ */
+export function createWatchlistsRouter(
+  store: WatchlistStore,
+  provider: QuoteProvider,
+  currencyOf: (symbol: string) => string | null = quoteCurrency
+): Router {
+  const router = Router();
+
+  // Look up a watchlist of the signed-in user
+  const owned = (res: Response, id: string) => {
+    const watchlist = store.get(id);
+    return watchlist?.owner === currentUser(res).id ? watchlist : undefined;
+  };
+
+  router.get("/api/watchlists", (_req, res) => {
+    res.json({ watchlists: store.list(currentUser(res).id) });
+  });
+
+  router.post("/api/watchlists", async (req, res) => {
+    const { name, symbols } = (req.body ?? {}) as Record<string, unknown>;
+
+    try {
+      res.status(201).json(await store.create(name as string, (symbols ?? []) as string[], currentUser(res).id));
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid watchlist",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.put("/api/watchlists/order", async (req, res) => {
+    const { ids } = (req.body ?? {}) as Record<string, unknown>;
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== "string")) {
+      return res.status(400).json({ error: "Invalid order", message: "ids must be a list of watchlist ids" });
+    }
+
+    try {
+      res.json({ watchlists: await store.reorder(ids as string[], currentUser(res).id) });
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid order",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.get("/api/watchlists/:id", (req, res) => {
+    const watchlist = owned(res, req.params.id);
+    if (watchlist === undefined) {
+      return res.status(404).json({ error: `Watchlist "${req.params.id}" not found` });
+    }
+    res.json(watchlist);
+  });
+
+  router.patch("/api/watchlists/:id", async (req, res) => {
+    const { name, symbols } = (req.body ?? {}) as Record<string, unknown>;
+    const patch = {
+      ...(name !== undefined ? { name } : {}),
+      ...(symbols !== undefined ? { symbols } : {}),
+    } as WatchlistPatch;
+
+    if (owned(res, req.params.id) === undefined) {
+      return res.status(404).json({ error: `Watchlist "${req.params.id}" not found` });
+    }
+
+    try {
+      const watchlist = await store.update(req.params.id, patch);
+      if (watchlist === undefined) {
+        return res.status(404).json({ error: `Watchlist "${req.params.id}" not found` });
+      }
+      res.json(watchlist);
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid watchlist",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.delete("/api/watchlists/:id", async (req, res) => {
+    if (owned(res, req.params.id) === undefined || !(await store.remove(req.params.id))) {
+      return res.status(404).json({ error: `Watchlist "${req.params.id}" not found` });
+    }
+    res.status(204).end();
+  });
+
+  router.get("/api/watchlists/:id/quotes", async (req, res) => {
+    const watchlist = owned(res, req.params.id);
+    if (watchlist === undefined) {
+      return res.status(404).json({ error: `Watchlist "${req.params.id}" not found` });
+    }
+
+    try {
+      // One upstream batch for the whole list; failed symbols are reported per row
+      const results = watchlist.symbols.length > 0 ? await provider.fetchQuotes(watchlist.symbols) : [];
+      const now = provider.now?.() ?? new Date();
+
+      const rows = await Promise.all(
+        results.map(async (result) => {
+          const market = marketStatus(result.symbol, now);
+          const currency = currencyOf(result.symbol);
+          if (!result.ok) {
+            return {
+              symbol: result.symbol,
+              quote: null,
+              error: result.error,
+              code: result.code,
+              ...(result.suggestions !== undefined ? { suggestions: result.suggestions } : {}),
+              previousClose: null,
+              change: null,
+              changePercent: null,
+              market,
+              currency,
+            };
+          }
+
+          const previousClose = await fetchPreviousClose(provider, result.quote);
+          const change = previousClose !== null ? result.quote.close - previousClose : null;
+          return {
+            symbol: result.symbol,
+            quote: result.quote,
+            error: null,
+            code: null,
+            previousClose,
+            change,
+            changePercent: change !== null && previousClose ? (change / previousClose) * 100 : null,
+            market,
+            currency,
+          };
+        })
+      );
+
+      res.json({ watchlist, rows });
+    } catch (error) {
+      sendQuoteError(res, error, "fetching watchlist quotes");
+    }
+  });
+
+  return router;
+}
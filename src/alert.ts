@@ -5,7 +5,38 @@
  * trigger alerts when prices cross specified thresholds.
  */
 
-import { fetchQuote } from "./stooq.js";
+import { EventEmitter } from "node:events";
+import { randomUUID } from "node:crypto";
+import { StooqProvider, type QuoteProvider } from "./provider.js";
+import { CircuitOpen, quoteErrorFromFailure, type Quote } from "./stooq.js";
+import { backoffDelay, type BackoffOptions } from "./resilience.js";
+import {
+  conditionLevels,
+  conditionNeeds,
+  describeCondition,
+  evaluateCondition,
+  initialConditionState,
+  mergeNeeds,
+  nextConditionState,
+  validateCondition,
+  type Condition,
+  type ConditionNeeds,
+  type ConditionState,
+  type ConditionTick,
+} from "./conditions.js";
+import {
+  createIndicator,
+  describeIndicator,
+  indicatorLookback,
+  sessionBar,
+  type IndicatorSpec,
+  type IndicatorStream,
+  type PriceBar,
+} from "./indicators.js";
+import { fetchSessionReference, type SessionReference } from "./history.js";
+import { marketStatus } from "./markets.js";
+import { formatMoney, isCurrency } from "./currency.js";
+import { FxRates, quoteCurrency } from "./fx.js";
 
 /**
  * Direction for price alerts
@@ -17,105 +48,1224 @@ export type Direction = "above" | "below";
 /**
  * Configuration for a price alert
  * 
+ * Either `target` and `direction` or a richer `condition` must be given;
+ * when both are present the condition wins.
+ * 
  * @property symbol - The stock symbol to monitor (e.g., "AAPL", "MSFT")
  * @property target - The target price to watch for
  * @property direction - Whether to alert when price goes "above" or "below" the target
+ * @property condition - A condition from the shared condition model (see conditions.ts)
  * @property intervalMs - How often to check the price in milliseconds
+ * @property notify - Names of the notification channels to use when the alert
+ *   fires (see notify.ts); the default channels are used when omitted
+ * @property currency - Currency the condition's price levels are in (e.g., "EUR");
+ *   quotes are converted into it before evaluation. Omitted: the symbol's own currency
+ * @property recurring - Whether the alert re-arms after firing instead of firing
+ *   once (default: false). The lifecycle options below only apply to recurring alerts
+ * @property cooldownMs - Minimum time between two triggers
+ * @property rearmPercent - Hysteresis: after firing, the price must move this many
+ *   percent back across the level it fired at before the alert re-arms (needs a
+ *   condition with price levels). Omitted: it re-arms once the condition stops holding
+ * @property maxTriggers - Stop after firing this many times
+ * @property expiresAt - When the alert stops being watched, fired or not (ISO timestamp)
  */
 export type AlertConfig = {
   symbol: string;
-  target: number;
-  direction: Direction;
+  target?: number;
+  direction?: Direction;
+  condition?: Condition;
   intervalMs: number;
+  notify?: string[];
+  currency?: string;
+  recurring?: boolean;
+  cooldownMs?: number;
+  rearmPercent?: number;
+  maxTriggers?: number;
+  expiresAt?: string;
 };
 
 /**
- * Runs a price alert that polls for stock prices and triggers when threshold is crossed
+ * State of an alert managed by an AlertEngine
+ * - "active": Polled on every due tick
+ * - "paused": Kept, but not polled until resumed
+ * - "triggered": Fired for the last time (one-shot alerts, or recurring ones that
+ *   reached maxTriggers); no longer polled
+ * - "expired": Its expiresAt passed; no longer polled
+ */
+export type AlertStatus = "active" | "paused" | "triggered" | "expired";
+
+/**
+ * Where an alert is in its lifecycle, for display
+ * - "armed": Active and ready to fire
+ * - "triggered": Fired and waiting to re-arm, or done firing (status "triggered")
+ * - "cooldown": Fired and waiting for its cooldown to pass
+ * - "snoozed": Not polled until its snooze ends
+ * - "paused" / "expired": As the status
+ */
+export type AlertState = "armed" | "triggered" | "cooldown" | "snoozed" | "paused" | "expired";
+
+/**
+ * What a recurring alert that fired waits for before it can fire again
  * 
- * This function continuously polls the stock price at the specified interval.
- * When the price crosses the threshold (above or below the target), it prints
- * an alert message and stops polling.
+ * The condition must stop holding in any case; with hysteresis the price
+ * must also be at or beyond a level.
  * 
- * Network errors are handled gracefully - if a fetch fails, it will retry
- * on the next poll interval instead of crashing.
+ * @property price - The level the price must reach, or null without hysteresis
+ * @property direction - Which side of the level the price must be on
+ */
+export type RearmState = {
+  price: number | null;
+  direction: Direction;
+};
+
+/**
+ * An alert registered with an AlertEngine
+ * 
+ * @property id - Unique identifier assigned by the engine
+ * @property config - The alert configuration
+ * @property status - Current state of the alert
+ * @property createdAt - When the alert was added
+ * @property lastCheckedAt - When the alert's symbol was last fetched for it, or null
+ * @property triggeredAt - When the alert last fired, or null
+ * @property triggerCount - How often the alert fired since it was created or re-armed by hand
+ * @property rearm - What the alert waits for before it can fire again, or null while armed
+ * @property snoozedUntil - Until when the alert is not polled, or null
+ * @property state - What the alert's condition remembers between ticks
+ */
+export type ManagedAlert = {
+  id: string;
+  config: AlertConfig;
+  status: AlertStatus;
+  createdAt: Date;
+  lastCheckedAt: Date | null;
+  triggeredAt: Date | null;
+  triggerCount: number;
+  rearm: RearmState | null;
+  snoozedUntil: Date | null;
+  state: ConditionState;
+};
+
+/**
+ * The part of a ManagedAlert that changes as it fires, re-arms, expires and
+ * is snoozed; what has to be saved to pick the alert up again after a restart
+ */
+export type AlertLifecycle = Pick<ManagedAlert, "status" | "triggeredAt" | "triggerCount" | "rearm" | "snoozedUntil">;
+
+/**
+ * Payload of the "triggered" event
+ */
+export type AlertTriggeredEvent = {
+  alert: ManagedAlert;
+  quote: Quote;
+};
+
+/**
+ * Payload of the "rearmed" and "expired" events
+ */
+export type AlertLifecycleEvent = {
+  alert: ManagedAlert;
+};
+
+/**
+ * Payload of the "error" event
+ * 
+ * @property symbol - The symbol that could not be fetched
+ * @property alertIds - The alerts that were waiting on that symbol
+ * @property error - What went wrong
+ * @property retryAt - When the symbol is fetched again, or null if on the alerts' next interval
+ */
+export type AlertErrorEvent = {
+  symbol: string;
+  alertIds: string[];
+  error: Error;
+  retryAt: Date | null;
+};
+
+/**
+ * Payload of the "closed" event
+ * 
+ * @property symbol - The symbol whose market closed
+ * @property alertIds - The alerts waiting on that symbol
+ * @property nextOpen - When polling resumes
+ */
+export type MarketClosedEvent = {
+  symbol: string;
+  alertIds: string[];
+  nextOpen: Date;
+};
+
+/**
+ * Events emitted by an AlertEngine
+ * - "price": A new quote was fetched for a watched symbol
+ * - "triggered": An alert's threshold was crossed
+ * - "rearmed": A recurring alert that fired can fire again
+ * - "expired": An alert's expiresAt passed
+ * - "error": A watched symbol could not be fetched (retried after a backoff)
+ * - "closed": A watched symbol's market is closed; it is not polled until the next open
+ */
+export type AlertEngineEvents = {
+  price: [quote: Quote];
+  triggered: [event: AlertTriggeredEvent];
+  rearmed: [event: AlertLifecycleEvent];
+  expired: [event: AlertLifecycleEvent];
+  error: [event: AlertErrorEvent];
+  closed: [event: MarketClosedEvent];
+};
+
+/**
+ * Options for an AlertEngine
+ * 
+ * @property tickMs - How often the engine checks which alerts are due (default: 1000)
+ * @property marketHours - Whether to stop polling symbols while their exchange is closed (default: true)
+ * @property costBasis - Looks up the average cost per share of a symbol held by
+ *   an alert's owner, for conditions relative to cost (e.g., from a portfolio);
+ *   null if nothing is held
+ * @property fx - Exchange rates for alerts with a currency (default: rates from the engine's provider)
+ * @property currencyOf - Looks up the currency a symbol is quoted in (default: quoteCurrency)
+ * @property backoff - Delays before refetching a symbol that failed: doubling with
+ *   each failure in a row (default: 10s up to 5 minutes)
+ */
+export type AlertEngineOptions = {
+  tickMs?: number;
+  marketHours?: boolean;
+  costBasis?: (symbol: string, alertId: string) => number | null;
+  fx?: FxRates;
+  currencyOf?: (symbol: string) => string | null;
+  backoff?: BackoffOptions;
+};
+
+/**
+ * Validates an alert configuration
  * 
  * @param config - The alert configuration
- * @returns A promise that resolves when the alert is triggered or polling stops
+ * @throws Error if the symbol is empty, the interval is not positive, the condition is invalid,
+ *   the notify list is malformed, the currency is not supported, or a lifecycle option is invalid
  */
-export async function runAlert(config: AlertConfig): Promise<void> {
-  const { symbol, target, direction, intervalMs } = config;
+export function validateAlertConfig(config: AlertConfig): void {
+  const [problem] = alertConfigProblems(config);
+  if (problem !== undefined) {
+    throw new Error(problem);
+  }
+}
 
-  // Validate configuration
-  if (intervalMs <= 0) {
-    throw new Error("intervalMs must be greater than 0");
+/**
+ * Lists every problem with an alert configuration, in the order
+ * validateAlertConfig checks them
+ *
+ * @param config - The alert configuration
+ * @returns One message per invalid option; empty if the configuration is valid
+ */
+export function alertConfigProblems(config: AlertConfig): string[] {
+  const problems: string[] = [];
+
+  if (!config.symbol || config.symbol.trim().length === 0) {
+    problems.push("symbol cannot be empty");
   }
 
-  if (target <= 0) {
-    throw new Error("target price must be greater than 0");
+  if (!(config.intervalMs > 0)) {
+    problems.push("intervalMs must be greater than 0");
   }
 
-  console.log(
-    `Starting alert for ${symbol}: watching for price ${direction} ${target} (checking every ${intervalMs}ms)`
+  if (
+    config.notify !== undefined &&
+    (!Array.isArray(config.notify) || !config.notify.every((name) => typeof name === "string" && name.length > 0))
+  ) {
+    problems.push("notify must be a list of channel names");
+  }
+
+  if (config.currency !== undefined && (typeof config.currency !== "string" || !isCurrency(config.currency))) {
+    problems.push('currency must be a supported currency code such as "EUR"');
+  }
+
+  problems.push(...lifecycleProblems(config));
+
+  if (config.condition !== undefined) {
+    try {
+      validateCondition(config.condition);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+    return problems;
+  }
+
+  if (config.direction !== "above" && config.direction !== "below") {
+    problems.push('direction must be "above" or "below"');
+  }
+
+  if (!(config.target !== undefined && config.target > 0)) {
+    problems.push("target price must be greater than 0");
+  }
+  return problems;
+}
+
+/**
+ * Lists the problems with the lifecycle options of an alert configuration
+ */
+function lifecycleProblems(config: AlertConfig): string[] {
+  const problems: string[] = [];
+
+  if (config.recurring !== undefined && typeof config.recurring !== "boolean") {
+    problems.push("recurring must be true or false");
+  }
+
+  if (config.cooldownMs !== undefined && !(typeof config.cooldownMs === "number" && config.cooldownMs >= 0)) {
+    problems.push("cooldownMs must be 0 or more");
+  }
+
+  if (config.maxTriggers !== undefined && !(Number.isInteger(config.maxTriggers) && config.maxTriggers > 0)) {
+    problems.push("maxTriggers must be a whole number greater than 0");
+  }
+
+  if (config.expiresAt !== undefined && (typeof config.expiresAt !== "string" || isNaN(Date.parse(config.expiresAt)))) {
+    problems.push("expiresAt must be an ISO date and time");
+  }
+
+  if (config.rearmPercent !== undefined) {
+    if (!(typeof config.rearmPercent === "number" && config.rearmPercent > 0)) {
+      problems.push("rearmPercent must be greater than 0");
+    } else if (conditionLevels(alertCondition(config)).length === 0) {
+      problems.push("rearmPercent needs a condition with a price level (target or band)");
+    }
+  }
+  return problems;
+}
+
+/**
+ * Returns the condition an alert is evaluated with
+ * 
+ * @param config - A validated alert configuration
+ * @returns The explicit condition, or the one implied by target and direction
+ */
+export function alertCondition(config: AlertConfig): Condition {
+  if (config.condition !== undefined) {
+    return config.condition;
+  }
+
+  return { type: config.direction ?? "above", target: config.target ?? 0 };
+}
+
+/**
+ * Describes what an alert watches for
+ *
+ * @param config - A validated alert configuration
+ * @returns E.g., "at or above 200.00", or "at or above 180.00 (in EUR)" for an alert with a currency
+ */
+export function describeAlert(config: AlertConfig): string {
+  const description = describeCondition(alertCondition(config));
+  return config.currency !== undefined ? `${description} (in ${config.currency})` : description;
+}
+
+/**
+ * Describes how often an alert fires
+ *
+ * @param config - A validated alert configuration
+ * @returns E.g., "once", or "recurring, cooldown 15m, re-arm 1%, max 3" for a recurring alert
+ */
+export function describeLifecycle(config: AlertConfig): string {
+  if (config.recurring !== true) {
+    return "once";
+  }
+
+  return [
+    "recurring",
+    ...(config.cooldownMs !== undefined ? [`cooldown ${formatDuration(config.cooldownMs)}`] : []),
+    ...(config.rearmPercent !== undefined ? [`re-arm ${config.rearmPercent}%`] : []),
+    ...(config.maxTriggers !== undefined ? [`max ${config.maxTriggers}`] : []),
+  ].join(", ");
+}
+
+/**
+ * Returns the lifecycle state of an alert, e.g. to save it
+ */
+export function lifecycleOf(alert: ManagedAlert): AlertLifecycle {
+  const { status, triggeredAt, triggerCount, rearm, snoozedUntil } = alert;
+  return { status, triggeredAt, triggerCount, rearm, snoozedUntil };
+}
+
+/**
+ * Returns where an alert is in its lifecycle
+ *
+ * @param alert - The alert
+ * @param now - The current time (defaults to the wall clock)
+ * @returns The state to show
+ */
+export function alertState(
+  alert: Pick<ManagedAlert, "config" | "status" | "triggeredAt" | "rearm" | "snoozedUntil">,
+  now: Date = new Date()
+): AlertState {
+  if (alert.status !== "active") {
+    return alert.status;
+  }
+  if (alert.snoozedUntil !== null && now < alert.snoozedUntil) {
+    return "snoozed";
+  }
+  if (inCooldown(alert, now)) {
+    return "cooldown";
+  }
+  return alert.rearm !== null ? "triggered" : "armed";
+}
+
+/**
+ * Whether an alert fired less than its cooldown ago
+ */
+function inCooldown(alert: Pick<ManagedAlert, "config" | "triggeredAt">, now: Date): boolean {
+  const { cooldownMs } = alert.config;
+  return (
+    alert.config.recurring === true &&
+    cooldownMs !== undefined &&
+    alert.triggeredAt !== null &&
+    now.getTime() - alert.triggeredAt.getTime() < cooldownMs
   );
+}
+
+/**
+ * Formats a duration in milliseconds compactly, e.g. "90s", "15m", "2h", "1d"
+ */
+function formatDuration(ms: number): string {
+  const units: [string, number][] = [["d", 86_400_000], ["h", 3_600_000], ["m", 60_000], ["s", 1000]];
+  const unit = units.find(([, size]) => ms >= size && ms % size === 0);
+  return unit !== undefined ? `${ms / unit[1]}${unit[0]}` : `${ms}ms`;
+}
+
+/**
+ * Watches any number of price alerts concurrently
+ * 
+ * On every tick the engine collects the active alerts whose interval has
+ * elapsed and fetches each of their symbols once, in a single batch request,
+ * no matter how many alerts reference the same symbol. Results are reported
+ * through typed events rather than printed, so the CLI, the server and tests
+ * can each subscribe to what they need.
+ * 
+ * "error" events are only emitted while someone listens for them, so an
+ * unhandled fetch failure never crashes the process. A symbol that fails is
+ * not fetched again until its backoff has passed, which grows with every
+ * failure in a row (or until the circuit breaker in front of the upstream
+ * lets requests through again); a successful fetch resets it.
+ * 
+ * Symbols whose exchange is closed (see markets.ts) sleep until the next
+ * open once the engine has a quote for them, and a quote with the same
+ * date and time as the previous one is not treated as a new tick.
+ * 
+ * Alerts with a currency see every price of a tick (the price, previous
+ * close, cost basis and price-based indicators) converted at the current
+ * exchange rate; if the rate cannot be fetched they skip the tick.
+ * 
+ * One-shot alerts stop after firing. Recurring alerts keep being polled:
+ * after each trigger they wait for the condition to stop holding (and, with
+ * rearmPercent, for the price to move back past the level) before they
+ * re-arm, and they do not fire again while their cooldown runs. Snoozed
+ * alerts are not polled until the snooze ends; alerts past their expiresAt
+ * expire at the start of the next tick. Intervals, cooldowns, snoozes and
+ * expiry all run on the provider's clock (see now()).
+ */
+export class AlertEngine extends EventEmitter<AlertEngineEvents> {
+  private readonly provider: QuoteProvider;
+  private readonly tickMs: number;
+  private readonly alerts = new Map<string, ManagedAlert>();
+  private readonly references = new Map<string, ReferenceData>();
+  private readonly indicatorSeries = new Map<string, IndicatorSeries>();
+  private readonly quotes = new Map<string, Quote>();
+  private readonly watches = new Map<string, SymbolWatch>();
+  private readonly sleeping = new Map<string, number>();
+  private readonly failing = new Map<string, SymbolBackoff>();
+  private readonly backoff: BackoffOptions;
+  private readonly marketHours: boolean;
+  private readonly costBasis: ((symbol: string, alertId: string) => number | null) | undefined;
+  private readonly fx: FxRates;
+  private readonly currencyOf: (symbol: string) => string | null;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(provider: QuoteProvider = new StooqProvider(), options: AlertEngineOptions = {}) {
+    super();
+    this.provider = provider;
+    this.tickMs = options.tickMs ?? 1000;
+    this.marketHours = options.marketHours ?? true;
+    this.costBasis = options.costBasis;
+    this.fx = options.fx ?? new FxRates(provider);
+    this.currencyOf = options.currencyOf ?? quoteCurrency;
+    this.backoff = options.backoff ?? { baseMs: 10_000, maxMs: 300_000 };
+
+    if (!(this.tickMs > 0)) {
+      throw new Error("tickMs must be greater than 0");
+    }
+    if (!(this.backoff.baseMs > 0) || !(this.backoff.maxMs >= this.backoff.baseMs)) {
+      throw new Error("backoff.baseMs must be greater than 0 and at most backoff.maxMs");
+    }
+  }
+
+  /**
+   * Registers a new alert
+   * 
+   * @param config - The alert configuration
+   * @param id - Optional identifier (defaults to a random UUID)
+   * @param lifecycle - Saved lifecycle state to continue from (e.g., after a restart)
+   * @returns The registered alert
+   * @throws Error if the configuration is invalid or the id is already taken
+   */
+  add(config: AlertConfig, id: string = randomUUID(), lifecycle: Partial<AlertLifecycle> = {}): ManagedAlert {
+    validateAlertConfig(config);
+
+    if (this.alerts.has(id)) {
+      throw new Error(`An alert with id "${id}" already exists`);
+    }
+
+    const alert: ManagedAlert = {
+      id,
+      config: { ...config, symbol: config.symbol.trim() },
+      status: "active",
+      createdAt: this.now(),
+      lastCheckedAt: null,
+      triggeredAt: null,
+      triggerCount: 0,
+      rearm: null,
+      snoozedUntil: null,
+      state: initialConditionState(),
+      ...lifecycle,
+    };
+
+    this.alerts.set(id, alert);
+    return alert;
+  }
+
+  /**
+   * Removes an alert
+   * 
+   * @param id - The alert id
+   * @returns True if the alert existed
+   */
+  remove(id: string): boolean {
+    return this.alerts.delete(id);
+  }
+
+  /**
+   * Pauses an active alert so it is no longer polled
+   * 
+   * @param id - The alert id
+   * @returns The alert
+   * @throws Error if the alert does not exist or is not active
+   */
+  pause(id: string): ManagedAlert {
+    const alert = this.require(id);
+    if (alert.status !== "active") {
+      throw new Error(`Alert "${id}" cannot be paused while ${alert.status}`);
+    }
+    alert.status = "paused";
+    return alert;
+  }
+
+  /**
+   * Resumes a paused alert
+   * 
+   * @param id - The alert id
+   * @returns The alert
+   * @throws Error if the alert does not exist or is not paused
+   */
+  resume(id: string): ManagedAlert {
+    const alert = this.require(id);
+    if (alert.status !== "paused") {
+      throw new Error(`Alert "${id}" cannot be resumed while ${alert.status}`);
+    }
+    alert.status = "active";
+    return alert;
+  }
+
+  /**
+   * Stops polling an active alert until a given time
+   * 
+   * @param id - The alert id
+   * @param until - When polling resumes, or null to end a snooze now
+   * @returns The alert
+   * @throws Error if the alert does not exist or is not active
+   */
+  snooze(id: string, until: Date | null): ManagedAlert {
+    const alert = this.require(id);
+    if (alert.status !== "active") {
+      throw new Error(`Alert "${id}" cannot be snoozed while ${alert.status}`);
+    }
+    alert.snoozedUntil = until;
+    return alert;
+  }
+
+  /**
+   * Returns an alert by id
+   * 
+   * @param id - The alert id
+   * @returns The alert, or undefined if it does not exist
+   */
+  get(id: string): ManagedAlert | undefined {
+    return this.alerts.get(id);
+  }
+
+  /**
+   * Returns the latest quote the engine fetched for a symbol
+   * 
+   * @param symbol - The symbol (case-insensitive)
+   * @returns The quote, or undefined if the symbol has not been fetched yet
+   */
+  latestQuote(symbol: string): Quote | undefined {
+    return this.quotes.get(symbol.trim().toLowerCase());
+  }
+
+  /**
+   * Polls a symbol without an alert attached, e.g. for a live price stream
+   * 
+   * The symbol is fetched in the same batch as the alerts' symbols, so
+   * watching a symbol that alerts already reference costs nothing extra.
+   * Each call must be balanced by calling the returned function.
+   * 
+   * @param symbol - The symbol to poll
+   * @param intervalMs - How often to poll it
+   * @returns A function that stops this watch
+   */
+  watch(symbol: string, intervalMs: number): () => void {
+    if (!(intervalMs > 0)) {
+      throw new Error("intervalMs must be greater than 0");
+    }
+
+    const key = symbol.trim().toLowerCase();
+    const existing = this.watches.get(key);
+
+    if (existing !== undefined) {
+      existing.count += 1;
+      existing.intervalMs = Math.min(existing.intervalMs, intervalMs);
+    } else {
+      this.watches.set(key, { count: 1, intervalMs, lastCheckedAt: null });
+    }
+
+    let stopped = false;
+    return () => {
+      const watch = this.watches.get(key);
+      if (stopped || watch === undefined) {
+        return;
+      }
+      stopped = true;
+      watch.count -= 1;
+      if (watch.count === 0) {
+        this.watches.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Returns the engine's current time: the provider's clock (e.g., a replay's)
+   * if it has one, otherwise the wall clock
+   */
+  now(): Date {
+    return this.provider.now?.() ?? new Date();
+  }
+
+  /**
+   * Returns all registered alerts in insertion order
+   */
+  list(): ManagedAlert[] {
+    return [...this.alerts.values()];
+  }
+
+  /**
+   * Starts polling in the background
+   * The first tick runs immediately
+   */
+  start(): void {
+    if (this.timer !== null) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), this.tickMs);
+    void this.tick();
+  }
+
+  /**
+   * Stops polling; registered alerts are kept
+   */
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Whether the engine is currently polling
+   */
+  get running(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Runs a single polling round
+   * 
+   * Fetches every symbol that has a due alert once, then evaluates all due
+   * alerts against the fresh quotes. Calls made while a previous round is
+   * still in flight are skipped.
+   * 
+   * @param now - The current time (defaults to the engine's clock, see now())
+   * @returns A promise that resolves when the round is done
+   */
+  async tick(now: Date = this.now()): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
 
-  // Keep polling until the alert is triggered
-  while (true) {
     try {
-      // Fetch the current stock quote
-      const quote = await fetchQuote(symbol);
+      this.expireAlerts(now);
 
-      // Get the current price
-      const currentPrice = quote.close;
+      // Group the due alerts by symbol (case-insensitive)
+      const due = new Map<string, ManagedAlert[]>();
+      for (const alert of this.alerts.values()) {
+        if (alert.snoozedUntil !== null && now >= alert.snoozedUntil) {
+          alert.snoozedUntil = null;
+        }
 
-      // Print the current price
-      console.log(
-        `[${quote.date} ${quote.time}] ${symbol}: $${currentPrice.toFixed(2)}`
-      );
+        const isDue =
+          alert.status === "active" &&
+          alert.snoozedUntil === null &&
+          (alert.lastCheckedAt === null ||
+            now.getTime() - alert.lastCheckedAt.getTime() >= alert.config.intervalMs);
+
+        if (isDue) {
+          const key = alert.config.symbol.toLowerCase();
+          due.set(key, [...(due.get(key) ?? []), alert]);
+        }
+      }
+
+      // Add watched symbols whose interval has elapsed
+      for (const [key, watch] of this.watches) {
+        if (watch.lastCheckedAt === null || now.getTime() - watch.lastCheckedAt.getTime() >= watch.intervalMs) {
+          watch.lastCheckedAt = now;
+          if (!due.has(key)) {
+            due.set(key, []);
+          }
+        }
+      }
+
+      // Let symbols whose market is closed sleep until it opens
+      if (this.marketHours) {
+        this.skipClosedMarkets(due);
+      }
+
+      // Leave symbols that failed recently alone until their backoff has passed
+      for (const symbol of due.keys()) {
+        const backoff = this.failing.get(symbol);
+        if (backoff !== undefined && now < backoff.retryAt) {
+          due.delete(symbol);
+        }
+      }
+
+      if (due.size === 0) {
+        return;
+      }
+
+      // Fetch every due symbol once
+      let results;
+      try {
+        results = await this.provider.fetchQuotes([...due.keys()]);
+      } catch (error) {
+        // The whole batch failed (e.g., upstream is down)
+        for (const [symbol, alerts] of due) {
+          alerts.forEach((alert) => (alert.lastCheckedAt = now));
+          this.emitError(symbol, alerts, error, this.backOff(symbol, error, now));
+        }
+        return;
+      }
+
+      for (const result of results) {
+        const alerts = due.get(result.symbol.toLowerCase()) ?? [];
+        alerts.forEach((alert) => (alert.lastCheckedAt = now));
+
+        if (!result.ok) {
+          const error = quoteErrorFromFailure(result);
+          this.emitError(result.symbol, alerts, error, this.backOff(result.symbol, error, now));
+          continue;
+        }
+        this.failing.delete(result.symbol.toLowerCase());
+
+        // A quote with the same date and time as the last one is not a new tick
+        const previous = this.quotes.get(result.symbol.toLowerCase());
+        const isNewTick =
+          previous === undefined || previous.date !== result.quote.date || previous.time !== result.quote.time;
+
+        this.quotes.set(result.symbol.toLowerCase(), result.quote);
+        if (isNewTick) {
+          this.emit("price", result.quote);
+        }
 
-      // Check if the price has crossed the threshold
-      let thresholdCrossed = false;
+        // Look up the previous close, average volume and indicators only if some alert needs them
+        const needs = alerts
+          .map((alert) => conditionNeeds(alertCondition(alert.config)))
+          .reduce(mergeNeeds, { previousClose: false, averageVolume: false, indicators: [] });
+        const reference = await this.referenceData(result.quote, needs, alerts);
+        const indicators = needs.indicators.length > 0
+          ? await this.indicatorValues(result.quote, needs.indicators, alerts)
+          : {};
 
-      if (direction === "above") {
-        // Alert when price is greater than or equal to target
-        thresholdCrossed = currentPrice >= target;
-      } else {
-        // Alert when price is less than or equal to target
-        thresholdCrossed = currentPrice <= target;
+        const tick: ConditionTick = {
+          price: result.quote.close,
+          volume: result.quote.volume,
+          previousClose: reference.previousClose,
+          averageVolume: reference.averageVolume,
+          costBasis: null,
+          indicators,
+        };
+
+        // The tick as seen by alerts in each currency (null: the symbol's own) with each cost basis
+        const ticks = new Map<string, ConditionTick | null>();
+
+        for (const alert of alerts) {
+          // Skip alerts that were removed or paused by a "price" listener
+          if (alert.status !== "active" || !this.alerts.has(alert.id)) {
+            continue;
+          }
+
+          // Repeated quotes are only evaluated by alerts that have not seen a tick yet
+          if (!isNewTick && alert.state.lastPrice !== null) {
+            continue;
+          }
+
+          // Each alert sees the cost basis of its own owner's position
+          const currency = alert.config.currency ?? null;
+          const costBasis = this.costBasis?.(result.symbol, alert.id) ?? null;
+          const key = JSON.stringify([currency, costBasis]);
+          if (!ticks.has(key)) {
+            const ownTick = { ...tick, costBasis };
+            ticks.set(
+              key,
+              currency === null
+                ? ownTick
+                : await this.convertTick(result.symbol, ownTick, currency, needs.indicators, alerts)
+            );
+          }
+          const alertTick = ticks.get(key);
+          if (alertTick === null || alertTick === undefined) {
+            continue;
+          }
+
+          const condition = alertCondition(alert.config);
+          const matched = evaluateCondition(condition, alertTick, alert.state);
+          alert.state = nextConditionState(alert.state, alertTick);
+
+          // A recurring alert that fired waits until it may fire again
+          if (alert.rearm !== null) {
+            if (!matched && passedRearmLevel(alert.rearm, alertTick.price)) {
+              alert.rearm = null;
+              this.emit("rearmed", { alert });
+            }
+            continue;
+          }
+
+          if (matched && !inCooldown(alert, now)) {
+            this.fire(alert, condition, alertTick.price, now);
+            this.emit("triggered", { alert, quote: result.quote });
+          }
+        }
       }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Records that an alert fired and decides whether it fires again
+   * 
+   * @param price - The price it fired at, in the alert's currency
+   */
+  private fire(alert: ManagedAlert, condition: Condition, price: number, now: Date): void {
+    const { recurring, maxTriggers, rearmPercent } = alert.config;
+    alert.triggeredAt = now;
+    alert.triggerCount += 1;
+
+    if (recurring !== true || (maxTriggers !== undefined && alert.triggerCount >= maxTriggers)) {
+      alert.status = "triggered";
+      return;
+    }
+
+    // Hysteresis: the price must move back across the level it fired at, which
+    // is the condition's level closest to the price
+    const levels = conditionLevels(condition);
+    const level = levels.length > 0
+      ? levels.reduce((closest, l) => (Math.abs(l - price) < Math.abs(closest - price) ? l : closest))
+      : null;
+
+    if (rearmPercent === undefined || level === null) {
+      alert.rearm = { price: null, direction: "below" };
+    } else if (price >= level) {
+      alert.rearm = { price: level * (1 - rearmPercent / 100), direction: "below" };
+    } else {
+      alert.rearm = { price: level * (1 + rearmPercent / 100), direction: "above" };
+    }
+  }
+
+  /**
+   * Expires the alerts whose expiresAt has passed
+   */
+  private expireAlerts(now: Date): void {
+    for (const alert of this.alerts.values()) {
+      const { expiresAt } = alert.config;
+      const open = alert.status === "active" || alert.status === "paused";
+      if (open && expiresAt !== undefined && now.getTime() >= Date.parse(expiresAt)) {
+        alert.status = "expired";
+        this.emit("expired", { alert });
+      }
+    }
+  }
+
+  /**
+   * Removes the symbols whose market is closed from a polling round
+   * 
+   * A symbol is only put to sleep once the engine has a quote for it, so new
+   * alerts and streams still get the last price while the market is closed.
+   * The market time comes from the provider, which lets replays run on their
+   * recorded clock.
+   */
+  private skipClosedMarkets(due: Map<string, ManagedAlert[]>): void {
+    const now = this.now().getTime();
 
-      // If threshold is crossed, trigger alert and stop polling
-      if (thresholdCrossed) {
-        console.log(
-          `\n🚨 ALERT: ${symbol} price ($${currentPrice.toFixed(2)}) has crossed ${direction} target ($${target.toFixed(2)})!`
-        );
-        console.log(`Alert triggered at ${quote.date} ${quote.time}`);
-        break; // Stop polling
+    for (const [symbol, alerts] of due) {
+      if (!this.quotes.has(symbol)) {
+        continue;
       }
 
-      // Wait for the specified interval before next poll
-      await sleep(intervalMs);
+      // Still asleep from an earlier round
+      const wakeAt = this.sleeping.get(symbol);
+      if (wakeAt !== undefined && now < wakeAt) {
+        due.delete(symbol);
+        continue;
+      }
+      this.sleeping.delete(symbol);
+
+      const status = marketStatus(symbol, new Date(now));
+      if (!status.open && status.nextOpen !== null) {
+        const nextOpen = new Date(status.nextOpen);
+        this.sleeping.set(symbol, nextOpen.getTime());
+        due.delete(symbol);
+        this.emit("closed", { symbol, alertIds: alerts.map((alert) => alert.id), nextOpen });
+      }
+    }
+  }
+
+  /**
+   * Returns the previous close and average daily volume for a quote's symbol
+   * 
+   * The values come from the provider's daily history and are cached per
+   * symbol and quote date, so history is fetched at most once per session.
+   * If the history cannot be fetched the values are null for this tick,
+   * which makes the conditions that need them evaluate to false; failures
+   * are not cached, so the next tick tries again.
+   */
+  private async referenceData(
+    quote: Quote,
+    needs: ConditionNeeds,
+    alerts: ManagedAlert[]
+  ): Promise<ReferenceData> {
+    const key = quote.symbol.toLowerCase();
+    const cached = this.references.get(key);
+
+    if (cached !== undefined && cached.date === quote.date) {
+      return cached;
+    }
+
+    if (!needs.previousClose && !needs.averageVolume) {
+      return { date: quote.date, previousClose: null, averageVolume: null };
+    }
+
+    let reference: ReferenceData;
+    try {
+      reference = {
+        date: quote.date,
+        ...(await fetchSessionReference(this.provider, quote, AVERAGE_VOLUME_SESSIONS)),
+      };
     } catch (error) {
-      // Handle network errors and other exceptions gracefully
-      // Print error but continue polling on next interval
-      console.error(
-        `Error fetching quote for ${symbol}:`,
-        error instanceof Error ? error.message : String(error)
-      );
-      console.log(`Retrying in ${intervalMs}ms...`);
+      this.emitError(quote.symbol, alerts, error);
+      return { date: quote.date, previousClose: null, averageVolume: null };
+    }
 
-      // Wait for the interval before retrying
-      await sleep(intervalMs);
+    this.references.set(key, reference);
+    return reference;
+  }
+
+  /**
+   * Returns the current values of indicators over a quote's symbol
+   * 
+   * The indicators are primed with daily history once per symbol and quote
+   * date; after that every tick only previews the session's forming bar, so
+   * live values cost no history requests. If the history cannot be fetched
+   * the values are null for this tick, and the next tick tries again.
+   */
+  private async indicatorValues(
+    quote: Quote,
+    specs: IndicatorSpec[],
+    alerts: ManagedAlert[]
+  ): Promise<Record<string, number | null>> {
+    const key = quote.symbol.toLowerCase();
+    const lookback = Math.max(...specs.map(indicatorLookback));
+    let series = this.indicatorSeries.get(key);
+
+    // Refetch on a new session, or when an alert needs a longer history than was fetched
+    if (series === undefined || series.date !== quote.date || series.lookback < lookback) {
+      series = { date: quote.date, lookback, bars: [], streams: new Map() };
+      try {
+        // Calendar days for the sessions needed, plus slack for weekends and holidays
+        const from = new Date(`${quote.date}T00:00:00Z`);
+        from.setUTCDate(from.getUTCDate() - Math.ceil(lookback * 1.5) - 14);
+
+        series.bars = (await this.provider.fetchHistory(quote.symbol, { from, interval: "d" }))
+          .filter((bar) => bar.date < quote.date);
+        this.indicatorSeries.set(key, series);
+      } catch (error) {
+        this.emitError(quote.symbol, alerts, error);
+      }
     }
+
+    const today = sessionBar(quote);
+    const values: Record<string, number | null> = {};
+    for (const spec of specs) {
+      const label = describeIndicator(spec);
+      let stream = series.streams.get(label);
+      if (stream === undefined) {
+        stream = createIndicator(spec);
+        series.bars.forEach((bar) => stream!.update(bar));
+        series.streams.set(label, stream);
+      }
+      values[label] = series.bars.length > 0 ? stream.preview(today) : null;
+    }
+    return values;
+  }
+
+  /**
+   * Converts the prices of a tick into another currency
+   * 
+   * Volumes and RSI values have no currency and are kept as they are.
+   * 
+   * @returns The converted tick, or null (after an "error" event) if the
+   *   symbol's currency is unknown or the rate cannot be fetched
+   */
+  private async convertTick(
+    symbol: string,
+    tick: ConditionTick,
+    currency: string,
+    specs: IndicatorSpec[],
+    alerts: ManagedAlert[]
+  ): Promise<ConditionTick | null> {
+    const from = this.currencyOf(symbol);
+    if (from === currency) {
+      return tick;
+    }
+
+    try {
+      if (from === null) {
+        throw new Error(`The currency of ${symbol} is unknown, so its prices cannot be converted to ${currency}`);
+      }
+
+      const { rate } = await this.fx.rate(from, currency);
+      const convert = (value: number | null): number | null => (value === null ? null : value * rate);
+
+      return {
+        ...tick,
+        price: tick.price * rate,
+        previousClose: convert(tick.previousClose),
+        costBasis: convert(tick.costBasis),
+        indicators: Object.fromEntries(
+          specs.map((spec) => {
+            const key = describeIndicator(spec);
+            const value = tick.indicators[key] ?? null;
+            return [key, spec.indicator === "rsi" ? value : convert(value)];
+          })
+        ),
+      };
+    } catch (error) {
+      this.emitError(symbol, alerts, error);
+      return null;
+    }
+  }
+
+  /**
+   * Records a failed fetch of a symbol and returns when to fetch it again
+   *
+   * While the circuit breaker is open the symbol waits until it lets
+   * requests through; otherwise the delay grows with each failure in a row.
+   */
+  private backOff(symbol: string, error: unknown, now: Date): Date {
+    const key = symbol.toLowerCase();
+    const failures = (this.failing.get(key)?.failures ?? 0) + 1;
+    const retryAt =
+      error instanceof CircuitOpen && error.retryAt > now
+        ? error.retryAt
+        : new Date(now.getTime() + backoffDelay(failures - 1, this.backoff));
+
+    this.failing.set(key, { failures, retryAt });
+    return retryAt;
+  }
+
+  /**
+   * Emits an "error" event if anyone is listening
+   */
+  private emitError(symbol: string, alerts: ManagedAlert[], error: unknown, retryAt: Date | null = null): void {
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", {
+        symbol,
+        alertIds: alerts.map((alert) => alert.id),
+        error: error instanceof Error ? error : new Error(String(error)),
+        retryAt,
+      });
+    }
+  }
+
+  /**
+   * Returns an alert by id or throws if it does not exist
+   */
+  private require(id: string): ManagedAlert {
+    const alert = this.alerts.get(id);
+    if (alert === undefined) {
+      throw new Error(`Alert "${id}" not found`);
+    }
+    return alert;
   }
 }
 
 /**
- * Helper function to sleep for a specified number of milliseconds
- * 
- * @param ms - Milliseconds to sleep
- * @returns A promise that resolves after the specified time
+ * Whether a price is at or beyond the level a fired alert waits for
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function passedRearmLevel(rearm: RearmState, price: number): boolean {
+  if (rearm.price === null) {
+    return true;
+  }
+  return rearm.direction === "below" ? price <= rearm.price : price >= rearm.price;
 }
 
+/**
+ * Number of past sessions averaged for volume spike conditions
+ */
+export const AVERAGE_VOLUME_SESSIONS = 20;
+
+/**
+ * A symbol polled on behalf of watch() callers
+ * 
+ * @property count - Number of active watch() calls for the symbol
+ * @property intervalMs - Shortest interval requested by those calls
+ * @property lastCheckedAt - When the symbol was last fetched for the watchers, or null
+ */
+type SymbolWatch = {
+  count: number;
+  intervalMs: number;
+  lastCheckedAt: Date | null;
+};
+
+/**
+ * A symbol whose last fetches failed
+ * 
+ * @property failures - Failed fetches in a row
+ * @property retryAt - When the symbol may be fetched again
+ */
+type SymbolBackoff = {
+  failures: number;
+  retryAt: Date;
+};
+
+/**
+ * Previous-session data cached by the engine per symbol
+ * 
+ * @property date - The quote date the values were computed for
+ */
+type ReferenceData = SessionReference & {
+  date: string;
+};
+
+/**
+ * Indicators of a symbol primed with the daily bars before a quote date
+ * 
+ * @property date - The quote date the bars end before
+ * @property lookback - Sessions of history that were requested
+ * @property bars - The daily bars (empty if the history could not be fetched)
+ * @property streams - The primed indicators, keyed by describeIndicator()
+ */
+type IndicatorSeries = {
+  date: string;
+  lookback: number;
+  bars: PriceBar[];
+  streams: Map<string, IndicatorStream<PriceBar, number>>;
+};
+
+/**
+ * Runs a price alert that polls for stock prices and triggers when threshold is crossed
+ * 
+ * This function continuously polls the stock price at the specified interval.
+ * When the alert's condition holds (by default: price above or below the target),
+ * it prints an alert message and stops polling; recurring alerts keep polling
+ * until they reach maxTriggers or expire.
+ * 
+ * Network errors are handled gracefully - if a fetch fails, it will retry
+ * on the next poll interval instead of crashing.
+ * 
+ * @param config - The alert configuration
+ * @param provider - Where to fetch quotes from (defaults to live Stooq data)
+ * @returns A promise that resolves when the alert is done triggering or expires
+ */
+export async function runAlert(
+  config: AlertConfig,
+  provider: QuoteProvider = new StooqProvider()
+): Promise<void> {
+  const { symbol, intervalMs } = config;
+
+  // Validate configuration
+  validateAlertConfig(config);
+
+  const description = describeAlert(config);
+  const currency = quoteCurrency(symbol);
+
+  console.log(
+    `Starting alert for ${symbol}: watching for price ${description} (checking every ${intervalMs}ms)`
+  );
+
+  // Run a single-alert engine, ticking at the alert's own interval
+  const engine = new AlertEngine(provider, { tickMs: intervalMs });
+
+  await new Promise<void>((resolve) => {
+    engine.on("price", (quote) => {
+      // Print the current price
+      console.log(
+        `[${quote.date} ${quote.time}] ${symbol}: ${formatMoney(quote.close, currency)}`
+      );
+    });
+
+    engine.on("error", (event) => {
+      // Print error but continue polling on next interval
+      console.error(`Error fetching quote for ${symbol}:`, event.error.message);
+      const retryMs =
+        event.retryAt !== null ? Math.max(intervalMs, event.retryAt.getTime() - engine.now().getTime()) : intervalMs;
+      console.log(`Retrying in ${Math.round(retryMs)}ms...`);
+    });
+
+    engine.on("closed", ({ nextOpen }) => {
+      console.log(`Market closed for ${symbol}; sleeping until ${nextOpen.toISOString()}`);
+    });
+
+    engine.on("triggered", ({ alert, quote }) => {
+      console.log(
+        `\n🚨 ALERT: ${symbol} price (${formatMoney(quote.close, currency)}) is ${description}!`
+      );
+      console.log(`Alert triggered at ${quote.date} ${quote.time}`);
+
+      // Stop polling unless the alert fires again
+      if (alert.status === "active") {
+        console.log(`Waiting for the alert to re-arm (triggered ${alert.triggerCount}x)`);
+        return;
+      }
+      engine.stop();
+      resolve();
+    });
+
+    engine.on("rearmed", () => {
+      console.log(`Alert for ${symbol} re-armed`);
+    });
+
+    engine.on("expired", () => {
+      console.log(`Alert for ${symbol} expired`);
+      engine.stop();
+      resolve();
+    });
+
+    engine.add(config);
+    engine.start();
+  });
+}
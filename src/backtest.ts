@@ -0,0 +1,270 @@
+/**
+ * Alert backtesting
+ *
+ * This module replays a historical bar series through an alert's condition,
+ * with the same evaluation the AlertEngine uses for live quotes, to show how
+ * often a rule would have fired and what the price did afterwards.
+ */
+
+import { AVERAGE_VOLUME_SESSIONS, alertCondition, validateAlertConfig, type AlertConfig } from "./alert.js";
+import {
+  conditionNeeds,
+  describeCondition,
+  evaluateCondition,
+  initialConditionState,
+  nextConditionState,
+  type Condition,
+  type ConditionState,
+} from "./conditions.js";
+import type { Bar, HistoryOptions } from "./history.js";
+import { quoteCurrency } from "./fx.js";
+import { createIndicator, describeIndicator, indicatorLookback } from "./indicators.js";
+
+/**
+ * Calendar days spanned by one bar of each interval, with slack for weekends and holidays
+ */
+const DAYS_PER_BAR = { d: 1.5, w: 7, m: 31 };
+
+/**
+ * When a fired alert is armed again during a backtest
+ * - "whenFalse": Once its condition no longer holds (one trigger per episode)
+ * - "immediately": On the next bar, like re-arming a triggered alert right away
+ */
+export type RearmMode = "whenFalse" | "immediately";
+
+/**
+ * Options for a backtest
+ *
+ * @property horizons - Bars after each trigger to measure returns over (default: [1, 5, 20])
+ * @property rearm - When a fired alert is armed again (default: "whenFalse")
+ * @property cooldownBars - Bars to skip after a trigger before re-arming (default: 0)
+ * @property costBasis - Average cost per share, for conditions relative to cost (default: none)
+ * @property from - First date that may trigger (YYYY-MM-DD); earlier bars only warm up
+ *   indicators and the previous close (default: the first bar)
+ */
+export type BacktestOptions = {
+  horizons?: number[];
+  rearm?: RearmMode;
+  cooldownBars?: number;
+  costBasis?: number | null;
+  from?: string;
+};
+
+/**
+ * One firing of the alert during the backtest
+ *
+ * @property date - The bar the alert fired on
+ * @property price - The close of that bar
+ * @property forwardReturns - Percent change of the close after each horizon
+ *   (keyed by the number of bars), or null past the end of the series
+ */
+export type BacktestTrigger = {
+  date: string;
+  price: number;
+  forwardReturns: Record<string, number | null>;
+};
+
+/**
+ * Forward return statistics over all triggers for one horizon
+ *
+ * @property bars - The horizon in bars
+ * @property samples - Triggers with enough bars after them
+ * @property average - Mean return in percent, or null without samples
+ * @property median - Median return in percent, or null without samples
+ * @property winRate - Percent of samples with a positive return, or null without samples
+ * @property best - Highest return in percent, or null without samples
+ * @property worst - Lowest return in percent, or null without samples
+ */
+export type HorizonStats = {
+  bars: number;
+  samples: number;
+  average: number | null;
+  median: number | null;
+  winRate: number | null;
+  best: number | null;
+  worst: number | null;
+};
+
+/**
+ * Outcome of a backtest
+ *
+ * @property symbol - The alert's symbol
+ * @property condition - The condition that was tested
+ * @property description - The condition in plain English
+ * @property from - Date of the first bar tested, or null if none
+ * @property to - Date of the last bar tested, or null if none
+ * @property bars - Number of bars tested (not counting warm-up bars)
+ * @property triggers - Every firing, oldest first
+ * @property horizons - Forward return statistics per horizon
+ */
+export type BacktestResult = {
+  symbol: string;
+  condition: Condition;
+  description: string;
+  from: string | null;
+  to: string | null;
+  bars: number;
+  triggers: BacktestTrigger[];
+  horizons: HorizonStats[];
+};
+
+/**
+ * Replays bars through an alert's condition
+ *
+ * Each bar is one tick: its close is the price, its volume the session
+ * volume, the previous bar's close the previous close, and the average of
+ * the preceding bars' volumes the average volume. Indicators are updated
+ * with each bar before it is evaluated, which matches what the engine sees
+ * at the close of a live session.
+ *
+ * Bars are tested in the symbol's own currency: there are no historical
+ * exchange rates, so alerts with another currency cannot be tested.
+ *
+ * @param config - The alert to test (its interval and notification channels are ignored)
+ * @param bars - Daily (or weekly/monthly) bars in ascending date order
+ * @param options - Horizons and re-arming
+ * @returns The triggers and statistics
+ * @throws Error if the alert or the options are invalid, or the alert has another currency
+ */
+export function backtest(config: AlertConfig, bars: Bar[], options: BacktestOptions = {}): BacktestResult {
+  validateAlertConfig(config);
+
+  if (config.currency !== undefined && config.currency !== quoteCurrency(config.symbol)) {
+    throw new Error(
+      `Cannot backtest an alert in ${config.currency}: history is only available in ${config.symbol}'s own currency`
+    );
+  }
+
+  const horizons = options.horizons ?? [1, 5, 20];
+  const rearm = options.rearm ?? "whenFalse";
+  const cooldownBars = options.cooldownBars ?? 0;
+  if (!horizons.every((h) => Number.isInteger(h) && h > 0)) {
+    throw new Error("horizons must be positive whole numbers of bars");
+  }
+  if (rearm !== "whenFalse" && rearm !== "immediately") {
+    throw new Error('rearm must be "whenFalse" or "immediately"');
+  }
+  if (!(Number.isInteger(cooldownBars) && cooldownBars >= 0)) {
+    throw new Error("cooldownBars must be a whole number of bars");
+  }
+
+  const condition = alertCondition(config);
+  const indicators = conditionNeeds(condition).indicators.map((spec) => ({
+    key: describeIndicator(spec),
+    stream: createIndicator(spec),
+  }));
+
+  const tested = bars.filter((bar) => options.from === undefined || bar.date >= options.from);
+  const triggers: BacktestTrigger[] = [];
+  let state: ConditionState = initialConditionState();
+  let armed = true;
+  let cooldown = 0;
+
+  bars.forEach((bar, index) => {
+    const volumes = bars
+      .slice(Math.max(0, index - AVERAGE_VOLUME_SESSIONS), index)
+      .map((b) => b.volume)
+      .filter((volume): volume is number => volume !== null);
+
+    const tick = {
+      price: bar.close,
+      volume: bar.volume,
+      previousClose: bars[index - 1]?.close ?? null,
+      averageVolume: volumes.length > 0 ? volumes.reduce((sum, v) => sum + v, 0) / volumes.length : null,
+      costBasis: options.costBasis ?? null,
+      indicators: Object.fromEntries(indicators.map(({ key, stream }) => [key, stream.update(bar)])),
+    };
+
+    // Warm-up bars feed the indicators and the condition state but never trigger
+    if (options.from !== undefined && bar.date < options.from) {
+      state = nextConditionState(state, tick);
+      return;
+    }
+
+    const matched = evaluateCondition(condition, tick, state);
+
+    if (armed && matched) {
+      triggers.push({
+        date: bar.date,
+        price: bar.close,
+        forwardReturns: Object.fromEntries(
+          horizons.map((h) => {
+            const later = bars[index + h];
+            return [String(h), later !== undefined ? ((later.close - bar.close) / bar.close) * 100 : null];
+          })
+        ),
+      });
+      armed = false;
+      cooldown = cooldownBars;
+    } else if (!armed) {
+      // Re-arm once the cooldown is over (and, by default, the condition has let go)
+      if (cooldown > 0) {
+        cooldown -= 1;
+      } else if (rearm === "immediately" || !matched) {
+        armed = true;
+        state = initialConditionState();
+      }
+    }
+
+    state = nextConditionState(state, tick);
+  });
+
+  return {
+    symbol: config.symbol.trim(),
+    condition,
+    description: describeCondition(condition),
+    from: tested[0]?.date ?? null,
+    to: tested[tested.length - 1]?.date ?? null,
+    bars: tested.length,
+    triggers,
+    horizons: horizons.map((h) => horizonStats(h, triggers)),
+  };
+}
+
+/**
+ * Widens a history range to include the bars a backtest needs to warm up
+ *
+ * Enough bars before `from` for the slowest indicator of the condition to
+ * settle, and at least the sessions averaged for volume spikes. Pass the
+ * original `from` to backtest() so the warm-up bars never trigger.
+ *
+ * @param config - The alert to test
+ * @param options - The range to test
+ * @returns The range to fetch
+ */
+export function warmupRange(config: AlertConfig, options: HistoryOptions): HistoryOptions {
+  if (options.from === undefined) {
+    return options;
+  }
+
+  const specs = conditionNeeds(alertCondition(config)).indicators;
+  const lookback = Math.max(AVERAGE_VOLUME_SESSIONS, ...specs.map(indicatorLookback));
+  const from = new Date(typeof options.from === "string" ? `${options.from}T00:00:00Z` : options.from);
+  from.setUTCDate(from.getUTCDate() - Math.ceil(lookback * DAYS_PER_BAR[options.interval ?? "d"]) - 14);
+  return { ...options, from: from.toISOString().slice(0, 10) };
+}
+
+/**
+ * Summarizes the forward returns of all triggers for one horizon
+ */
+function horizonStats(bars: number, triggers: BacktestTrigger[]): HorizonStats {
+  const returns = triggers
+    .map((trigger) => trigger.forwardReturns[String(bars)])
+    .filter((r): r is number => r !== null && r !== undefined)
+    .sort((a, b) => a - b);
+
+  if (returns.length === 0) {
+    return { bars, samples: 0, average: null, median: null, winRate: null, best: null, worst: null };
+  }
+
+  const middle = Math.floor(returns.length / 2);
+  return {
+    bars,
+    samples: returns.length,
+    average: returns.reduce((sum, r) => sum + r, 0) / returns.length,
+    median: returns.length % 2 === 1 ? returns[middle]! : (returns[middle - 1]! + returns[middle]!) / 2,
+    winRate: (returns.filter((r) => r > 0).length / returns.length) * 100,
+    best: returns[returns.length - 1]!,
+    worst: returns[0]!,
+  };
+}
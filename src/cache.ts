@@ -0,0 +1,271 @@
+/**
+ * Quote cache
+ *
+ * This module wraps a QuoteProvider with:
+ * - a per-symbol TTL cache of quotes
+ * - request coalescing: concurrent requests for a symbol share one upstream fetch
+ * - an outbound token bucket that bounds the upstream request rate
+ *
+ * The wrapper is itself a QuoteProvider, so the alert engine, the stream and
+ * the HTTP routes can all share one cache.
+ */
+
+import { createHash } from "node:crypto";
+import type { ProviderHealth, QuoteProvider } from "./provider.js";
+import type { Bar, HistoryOptions } from "./history.js";
+import { NoData, quoteErrorFromFailure, quoteFailure, type Quote, type QuoteResult } from "./stooq.js";
+import { TokenBucket } from "./ratelimit.js";
+
+/**
+ * Options for a CachingProvider
+ *
+ * @property ttlMs - How long a quote is served from the cache (default: 15000)
+ * @property symbolTtlMs - TTL overrides for individual symbols (case-insensitive)
+ * @property upstreamBurst - Upstream requests allowed in a burst (default: 10)
+ * @property upstreamPerSecond - Sustained upstream requests per second (default: 5)
+ */
+export type CacheOptions = {
+  ttlMs?: number;
+  symbolTtlMs?: Record<string, number>;
+  upstreamBurst?: number;
+  upstreamPerSecond?: number;
+};
+
+/**
+ * A cached quote with the metadata needed for HTTP cache headers
+ *
+ * @property quote - The quote
+ * @property fetchedAt - When the quote was fetched upstream
+ * @property expiresAt - When the cache entry expires
+ * @property etag - Strong ETag of the quote
+ */
+export type CachedQuote = {
+  quote: Quote;
+  fetchedAt: Date;
+  expiresAt: Date;
+  etag: string;
+};
+
+/**
+ * Counters of a CachingProvider
+ *
+ * @property hits - Quotes served from the cache
+ * @property misses - Quotes that needed an upstream fetch
+ * @property coalesced - Quotes that joined a fetch already in flight
+ * @property upstreamRequests - Requests made to the wrapped provider
+ * @property size - Symbols currently cached
+ */
+export type CacheStats = {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  upstreamRequests: number;
+  size: number;
+};
+
+/**
+ * QuoteProvider decorator that caches quotes, coalesces requests and rate-limits upstream
+ *
+ * Only successful quotes are cached; failures are retried on the next request.
+ * History is not cached, but its requests count against the upstream rate limit.
+ */
+export class CachingProvider implements QuoteProvider {
+  readonly name: string;
+  private readonly entries = new Map<string, CachedQuote>();
+  private readonly inflight = new Map<string, Promise<CachedQuote>>();
+  private readonly upstream: TokenBucket;
+  private readonly ttlMs: number;
+  private readonly symbolTtlMs: Map<string, number>;
+  private counters = { hits: 0, misses: 0, coalesced: 0, upstreamRequests: 0 };
+
+  /** The wrapped provider's upstream state, if it reports one */
+  readonly health?: () => ProviderHealth;
+
+  /**
+   * @param provider - The provider to fetch from on a cache miss
+   * @param options - Cache and rate limit settings
+   */
+  constructor(
+    private readonly provider: QuoteProvider,
+    options: CacheOptions = {}
+  ) {
+    this.name = provider.name;
+    this.ttlMs = options.ttlMs ?? 15_000;
+    this.symbolTtlMs = new Map(
+      Object.entries(options.symbolTtlMs ?? {}).map(([symbol, ttl]) => [symbol.toLowerCase(), ttl])
+    );
+    this.upstream = new TokenBucket(options.upstreamBurst ?? 10, options.upstreamPerSecond ?? 5);
+
+    if (provider.health !== undefined) {
+      this.health = () => provider.health!();
+    }
+  }
+
+  async fetchQuote(symbol: string): Promise<Quote> {
+    return (await this.lookup(symbol)).quote;
+  }
+
+  /**
+   * Returns a quote together with its cache metadata
+   *
+   * @param symbol - The stock symbol
+   * @returns A promise that resolves to the cached quote
+   * @throws Error if the quote is not cached and the upstream fetch fails
+   */
+  async lookup(symbol: string): Promise<CachedQuote> {
+    const key = symbol.trim().toLowerCase();
+
+    const cached = this.fresh(key);
+    if (cached !== undefined) {
+      this.counters.hits += 1;
+      return cached;
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending !== undefined) {
+      this.counters.coalesced += 1;
+      return pending;
+    }
+
+    this.counters.misses += 1;
+    return this.track(key, async () => {
+      const quote = await this.upstreamCall(() => this.provider.fetchQuote(symbol));
+      return this.store(key, quote);
+    });
+  }
+
+  /**
+   * Serves cached symbols from the cache and fetches the rest in one upstream batch
+   */
+  async fetchQuotes(symbols: string[]): Promise<QuoteResult[]> {
+    const waiting = new Map<string, Promise<CachedQuote>>();
+    const missing: string[] = [];
+
+    for (const symbol of symbols) {
+      const key = symbol.trim().toLowerCase();
+      if (key.length === 0 || waiting.has(key) || missing.some((s) => s.toLowerCase() === key)) {
+        continue;
+      }
+
+      const cached = this.fresh(key);
+      const pending = this.inflight.get(key);
+      if (cached !== undefined) {
+        this.counters.hits += 1;
+        waiting.set(key, Promise.resolve(cached));
+      } else if (pending !== undefined) {
+        this.counters.coalesced += 1;
+        waiting.set(key, pending);
+      } else {
+        this.counters.misses += 1;
+        missing.push(symbol.trim());
+      }
+    }
+
+    // Fetch all misses with a single upstream request
+    if (missing.length > 0) {
+      const batch = this.upstreamCall(() => this.provider.fetchQuotes(missing));
+
+      for (const symbol of missing) {
+        const key = symbol.toLowerCase();
+        waiting.set(
+          key,
+          this.track(key, async () => {
+            const result = (await batch).find((r) => r.symbol.toLowerCase() === key);
+            if (result === undefined) {
+              throw new NoData(symbol, `No data returned for symbol: ${symbol}`);
+            }
+            if (!result.ok) {
+              throw quoteErrorFromFailure(result);
+            }
+            return this.store(key, result.quote);
+          })
+        );
+      }
+
+      // Like the wrapped provider, fail as a whole if the upstream request itself fails
+      await batch;
+    }
+
+    // Answer in request order, reporting failures per symbol
+    return Promise.all(
+      symbols
+        .map((symbol) => symbol.trim())
+        .filter((symbol) => symbol.length > 0)
+        .map(async (symbol): Promise<QuoteResult> => {
+          try {
+            const entry = await waiting.get(symbol.toLowerCase())!;
+            return { symbol, ok: true, quote: entry.quote };
+          } catch (error) {
+            return quoteFailure(symbol, error);
+          }
+        })
+    );
+  }
+
+  now(): Date {
+    return this.provider.now?.() ?? new Date();
+  }
+
+  fetchHistory(symbol: string, options?: HistoryOptions): Promise<Bar[]> {
+    return this.upstreamCall(() => this.provider.fetchHistory(symbol, options));
+  }
+
+  /**
+   * Returns the cache counters
+   */
+  stats(): CacheStats {
+    return { ...this.counters, size: this.entries.size };
+  }
+
+  /**
+   * Returns the unexpired cache entry of a symbol, dropping it if expired
+   */
+  private fresh(key: string): CachedQuote | undefined {
+    const entry = this.entries.get(key);
+    if (entry !== undefined && entry.expiresAt.getTime() <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Runs a fetch for a symbol, registering it as in flight until it settles
+   */
+  private track(key: string, fetch: () => Promise<CachedQuote>): Promise<CachedQuote> {
+    const promise = fetch().finally(() => {
+      this.inflight.delete(key);
+    });
+    this.inflight.set(key, promise);
+
+    // Callers handle the rejection; this keeps a failure nobody waits for from going unhandled
+    promise.catch(() => undefined);
+    return promise;
+  }
+
+  /**
+   * Caches a freshly fetched quote
+   */
+  private store(key: string, quote: Quote): CachedQuote {
+    const fetchedAt = new Date();
+    const ttl = this.symbolTtlMs.get(key) ?? this.ttlMs;
+    const entry: CachedQuote = {
+      quote,
+      fetchedAt,
+      expiresAt: new Date(fetchedAt.getTime() + ttl),
+      etag: `"${createHash("sha1").update(JSON.stringify(quote)).digest("base64url")}"`,
+    };
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Makes an upstream request once the outbound rate limit allows it
+   */
+  private async upstreamCall<T>(call: () => Promise<T>): Promise<T> {
+    await this.upstream.take();
+    this.counters.upstreamRequests += 1;
+    return call();
+  }
+}
@@ -0,0 +1,1510 @@
+/**
+ * Non-interactive command-line interface
+ *
+ * This module implements the subcommands of the CLI so it can be scripted
+ * from cron or CI:
+ *
+ *   quote <symbol...>                              Print the latest quotes
+ *   watch <symbol> --above|--below <price>         Wait until the price crosses a threshold
+ *   history <symbol> [--from] [--to] [--interval]  Print historical bars
+ *   alerts list | add | snooze | rm                Manage the server's stored alerts
+ *   backtest <symbol> <rule> | --alert <id>        Replay history through an alert rule
+ *   portfolio [show] | buy | sell | transactions | rm  Track positions and P&L
+ *   users list | add | passwd | role | rm | token     Manage the server's accounts
+ *   symbols search <query> | import <csv-file>     Look up and add instruments
+ *   export | import <file>                         Share alerts and watchlists as JSON or CSV
+ *
+ * Symbols may be typed the way people write them ("AAPL", "VOD.L"); they are
+ * resolved to Stooq symbols through the symbol directory (see symbols.ts).
+ *
+ * Every subcommand accepts --json for machine-readable output. The exit code
+ * tells scripts what happened (see EXIT_CODES).
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import * as path from "node:path";
+import { createInterface } from "node:readline/promises";
+import { parseArgs } from "node:util";
+import {
+  AlertEngine,
+  alertState,
+  describeAlert,
+  describeLifecycle,
+  type AlertConfig,
+  type Direction,
+} from "./alert.js";
+import { validateCondition, type Condition, type Operand } from "./conditions.js";
+import { formatMoney, normalizeCurrency } from "./currency.js";
+import { FxRates } from "./fx.js";
+import { parseIndicatorSpec } from "./indicators.js";
+import { backtest, warmupRange, type RearmMode } from "./backtest.js";
+import { ConfigError, loadConfig, type AppConfig } from "./config.js";
+import { barsToCsv, isCalendarDate, parseHistoryCsv, type Bar, type HistoryOptions } from "./history.js";
+import { assertDataDirUnlocked, DataDirLockedError } from "./jsonfile.js";
+import { createProvider, type QuoteProvider } from "./provider.js";
+import { AlertStore, storedLifecycle } from "./store.js";
+import { PortfolioStore, valuePortfolio, type TransactionInput } from "./portfolio.js";
+import { QuoteError, type Quote } from "./stooq.js";
+import { SymbolDirectory, parseInstrumentCsv, verifySymbol } from "./symbols.js";
+import {
+  EXPORT_KINDS,
+  exportBundle,
+  exportCsv,
+  importData,
+  parseImport,
+  type ExportFormat,
+  type ExportKind,
+  type ImportCounts,
+  type TransferStores,
+} from "./transfer.js";
+import { UserStore, type Role } from "./users.js";
+import { WatchlistStore } from "./watchlists.js";
+
+/**
+ * Exit codes of the CLI
+ * - OK: The command succeeded (for watch: the alert triggered)
+ * - ERROR: The command failed (e.g., a quote could not be fetched)
+ * - TIMEOUT: watch gave up after --timeout without the alert triggering
+ * - USAGE: The arguments were invalid (same value as sysexits' EX_USAGE)
+ * - UNAVAILABLE: Stooq failed or did not answer, so retrying later may help
+ *   (same value as sysexits' EX_UNAVAILABLE)
+ * - IN_USE: A running server owns the data files the command would change
+ *   (same value as sysexits' EX_TEMPFAIL)
+ * - CONFIG: The configuration is invalid (same value as sysexits' EX_CONFIG)
+ */
+export const EXIT_CODES = {
+  OK: 0,
+  ERROR: 1,
+  TIMEOUT: 2,
+  USAGE: 64,
+  UNAVAILABLE: 69,
+  IN_USE: 75,
+  CONFIG: 78,
+} as const;
+
+/**
+ * Help text printed by --help and on usage errors
+ */
+const USAGE = `Usage: stocks [command] [options]
+
+Without a command, an interactive wizard sets up a single alert.
+
+Commands:
+  quote <symbol...>                 Print the latest quote of each symbol
+      --currency <code>             Also show the price converted into this currency
+  watch <symbol>                    Poll a symbol until it crosses a threshold
+      --above <price> | --below <price>
+      --currency <code>             The price is in this currency (default: the symbol's)
+      --interval <seconds>          Polling interval (default: 10, see DEFAULT_INTERVAL_MS)
+      --timeout <seconds>           Give up after this long (exit code 2)
+      --recurring, --cooldown, --rearm-percent, --max-triggers, --expires
+                                    Keep watching after triggers, as for alerts add
+  history <symbol>                  Print historical bars
+      --from <YYYY-MM-DD> --to <YYYY-MM-DD>
+      --interval <d|w|m>            Bar interval (default: d)
+      --csv                         Print CSV instead of a table
+  alerts list                       List the stored alerts
+  alerts add <symbol>               Store a new alert (run by the server)
+      --above <price> | --below <price>
+      --interval <seconds>          Polling interval (default: 10, see DEFAULT_INTERVAL_MS)
+      --from-cost <percent>         Instead: move from the position's cost (e.g., -10)
+      --when "<left> <op> <right>"  Instead: compare indicators, e.g. "rsi:14 below 30"
+                                    or "price crossAbove sma:50" (op: above, below,
+                                    crossAbove, crossBelow)
+      --notify <channel,...>        Notification channels to use
+      --currency <code>             Prices in the rule are in this currency (default: the symbol's)
+      --recurring                   Re-arm after each trigger instead of firing once
+      --cooldown <seconds>          Recurring: minimum time between triggers
+      --rearm-percent <percent>     Recurring: re-arm only after the price moved this far
+                                    back across the target (default: once the rule lets go)
+      --max-triggers <n>            Recurring: stop after this many triggers
+      --expires <time>              Stop watching at this ISO date/time
+      --user <username>             Owner of the alert (default: the first admin)
+  alerts snooze <id> <seconds>      Do not check an active alert for a while (0 ends a snooze)
+  alerts rm <id>                    Delete a stored alert
+  backtest <symbol>                 Replay history through an alert rule
+      --above <price> | --below <price> | --from-cost <percent> | --when "<left> <op> <right>"
+      --alert <id>                  Instead: test a stored alert
+      --from <YYYY-MM-DD> --to <YYYY-MM-DD>
+      --interval <d|w|m>            Bar interval (default: d)
+      --csv-file <path>             Read bars from a local CSV instead of Stooq
+      --horizons <bars,...>         Forward return horizons (default: 1,5,20)
+      --cooldown <bars>             Bars to wait after a trigger before re-arming
+      --rearm <whenFalse|immediately>  Re-arm once the rule lets go (default) or right away
+  portfolio [show]                  Show positions with P&L, day change and allocation
+  portfolio buy|sell <symbol> <quantity> <price>
+      --fees <amount>               Commissions paid (default: 0)
+      --date <YYYY-MM-DD>           Trade date (default: today)
+      --currency <code>             Currency (default: the exchange's)
+  portfolio transactions [symbol]   List recorded trades
+  portfolio rm <id>                 Delete a recorded trade
+      --user <username>             Whose portfolio (default: the first admin)
+  users list                        List the server's user accounts
+  users add <username>              Create an account (password read from stdin)
+      --admin                       Give it the admin role
+      --password <password>         Instead: take the password from this flag
+  users passwd <username>           Set a new password (signs the user out)
+  users role <username> <admin|user>  Change an account's role
+  users rm <username>               Delete an account
+  users token <username> <name>     Create an API token for scripts (shown once)
+  symbols search <query>            Find instruments by ticker or name
+      --limit <n>                   Number of results (default: 10)
+  symbols import <csv-file>         Add instruments from a CSV with Symbol, Name and
+                                    optional Currency columns
+  export                            Export alerts, watchlists and trigger history
+      --format <json|csv>           File format (default: json, or csv for a .csv --output)
+      --type <alerts|watchlists|triggers>  What a CSV holds (required for CSV)
+      --output <file>               Write to this file instead of stdout
+      --user <username>             Whose records (default: the first admin)
+  import <file>                     Add alerts and watchlists from an export; identical
+                                    alerts are skipped, watchlists are matched by name
+      --format <json|csv>           File format (default: csv for a .csv file, else json)
+      --user <username>             Owner of the records (default: the first admin)
+      --dry-run                     Only validate the file
+
+Options:
+  --json                            Print JSON instead of text
+  -h, --help                        Show this help
+
+Configuration:
+  Settings come from environment variables and the config file the server uses
+  (CONFIG_FILE, or config.json if present), e.g.:
+  DATA_DIR                          Directory of the server's data files (default: data)
+  QUOTE_PROVIDER                    stooq (default) or replay
+  DEFAULT_INTERVAL_MS               Default polling interval (default: 10000)
+  DEFAULT_MARKET                    Exchange suffix added to bare tickers (default: us)
+
+Commands that change the server's data (alerts add/snooze/rm, portfolio buy/sell/rm, users
+add/passwd/role/rm/token, symbols import, import) refuse to run while the server is running;
+make those changes on the web page or through the API instead, or stop the server first.
+
+Exit codes: 0 success/triggered, 1 error, 2 timeout, 64 invalid arguments, 69 quote service unavailable,
+75 data in use by the running server, 78 invalid configuration`;
+
+/**
+ * Error for invalid arguments; reported with the usage text and EXIT_CODES.USAGE
+ */
+class UsageError extends Error {}
+
+/**
+ * Runs the CLI with the given arguments
+ *
+ * @param args - The command-line arguments (without node and the script path)
+ * @returns A promise that resolves to the exit code
+ */
+export async function runCli(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+
+  try {
+    switch (command) {
+      case "quote":
+        return await quoteCommand(rest);
+      case "watch":
+        return await watchCommand(rest);
+      case "history":
+        return await historyCommand(rest);
+      case "alerts":
+        return await alertsCommand(rest);
+      case "backtest":
+        return await backtestCommand(rest);
+      case "portfolio":
+        return await portfolioCommand(rest);
+      case "users":
+        return await usersCommand(rest);
+      case "symbols":
+        return await symbolsCommand(rest);
+      case "export":
+        return await exportCommand(rest);
+      case "import":
+        return await importCommand(rest);
+      case "-h":
+      case "--help":
+      case "help":
+        console.log(USAGE);
+        return EXIT_CODES.OK;
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      console.error(`Error: ${(error as Error).message}\n\n${USAGE}`);
+      return EXIT_CODES.USAGE;
+    }
+
+    if (error instanceof ConfigError) {
+      console.error(`Error: ${error.message}`);
+      return EXIT_CODES.CONFIG;
+    }
+
+    if (error instanceof DataDirLockedError) {
+      console.error(
+        `Error: ${error.message}\nMake this change on the web page or through the API, or stop the server first.`
+      );
+      return EXIT_CODES.IN_USE;
+    }
+
+    console.error("Error:", errorText(error));
+    return isUnavailable(error) ? EXIT_CODES.UNAVAILABLE : EXIT_CODES.ERROR;
+  }
+}
+
+/**
+ * Describes an error for the terminal, with advice for upstream failures
+ *
+ * Symbol errors already suggest a correction in their message (e.g., "Did
+ * you mean aapl.us?").
+ */
+function errorText(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  if (!(error instanceof QuoteError)) {
+    return message;
+  }
+
+  switch (error.code) {
+    case "UPSTREAM_HTTP":
+    case "TIMEOUT":
+      return `${message}\nStooq may be down or slow; try again in a few minutes.`;
+    case "PARSE_ERROR":
+      return `${message}\nStooq sent an unexpected response; try again later.`;
+    case "DAILY_LIMIT":
+      return `${message}\nStooq limits requests per day; try again tomorrow or use QUOTE_PROVIDER=replay.`;
+    default:
+      return message;
+  }
+}
+
+/**
+ * Whether an error means Stooq is unavailable rather than the request being wrong
+ */
+function isUnavailable(error: unknown): boolean {
+  return (
+    error instanceof QuoteError &&
+    (error.code === "UPSTREAM_HTTP" ||
+      error.code === "TIMEOUT" ||
+      error.code === "DAILY_LIMIT" ||
+      error.code === "CIRCUIT_OPEN")
+  );
+}
+
+/**
+ * quote <symbol...> [--currency <code>]
+ *
+ * Exits with ERROR if any of the symbols could not be fetched.
+ */
+async function quoteCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      currency: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  if (positionals.length === 0) {
+    throw new UsageError("quote needs at least one symbol");
+  }
+  const target = values.currency !== undefined ? parseCurrencyFlag(values.currency) : null;
+
+  const directory = await cliDirectory();
+  const provider = await cliProvider();
+  const fx = new FxRates(provider);
+  const results = await provider.fetchQuotes(positionals.map((symbol) => directory.resolve(symbol)));
+
+  // Add each quote's currency, and its price in --currency where that differs
+  const rows = await Promise.all(
+    results.map(async (result) => {
+      if (!result.ok) {
+        return result;
+      }
+      const currency = directory.currency(result.symbol);
+      const converted =
+        target !== null && currency !== null && currency !== target
+          ? { currency: target, close: await fx.convert(result.quote.close, currency, target) }
+          : null;
+      return { ...result, currency, ...(target !== null ? { converted } : {}) };
+    })
+  );
+
+  if (values.json) {
+    console.log(JSON.stringify(rows, null, 2));
+  } else {
+    for (const row of rows) {
+      if (row.ok) {
+        const converted = row.converted ? ` (${formatMoney(row.converted.close, row.converted.currency)})` : "";
+        console.log(formatQuote(row.quote, row.currency) + converted);
+      } else {
+        console.error(`${row.symbol}: ${row.error}`);
+      }
+    }
+  }
+
+  return results.every((result) => result.ok) ? EXIT_CODES.OK : EXIT_CODES.ERROR;
+}
+
+/**
+ * watch <symbol> --above|--below <price> [--currency <code>] [--interval <s>] [--timeout <s>]
+ *   [--recurring [--cooldown <s>] [--rearm-percent <p>] [--max-triggers <n>]] [--expires <time>]
+ *
+ * The symbol is checked before polling starts, so a typo fails right away
+ * (with suggestions) instead of erroring on every poll.
+ *
+ * Exits with OK once the alert triggers (recurring: once it reached
+ * --max-triggers, or --timeout elapsed or it expired after triggering), or
+ * TIMEOUT if --timeout elapses or the alert expires first. With --json, prints one JSON object per
+ * line: price, error, closed, triggered, rearmed, expired and timeout events.
+ */
+async function watchCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      above: { type: "string" },
+      below: { type: "string" },
+      interval: { type: "string" },
+      timeout: { type: "string" },
+      currency: { type: "string" },
+      ...LIFECYCLE_OPTIONS,
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const directory = await cliDirectory();
+  const symbol = directory.resolve(singleSymbol(positionals, "watch"));
+  const { defaultIntervalMs } = (await cliConfig()).alerts;
+  const config: AlertConfig = {
+    symbol,
+    ...parseThreshold(values.above, values.below),
+    intervalMs: parseSeconds(values.interval, "--interval", defaultIntervalMs / 1000) * 1000,
+    ...(values.currency !== undefined ? { currency: parseCurrencyFlag(values.currency) } : {}),
+    ...parseLifecycleFlags(values),
+  };
+  const timeoutMs = values.timeout === undefined ? null : parseSeconds(values.timeout, "--timeout", 0) * 1000;
+
+  const provider = await cliProvider();
+
+  // Fail fast on unknown symbols; if Stooq is down, polling retries anyway
+  try {
+    await verifySymbol(directory, provider, symbol);
+  } catch (error) {
+    if (!isUnavailable(error)) {
+      throw error;
+    }
+    console.error(`Warning: could not check ${symbol}: ${errorText(error)}`);
+  }
+
+  const currencyOf = (s: string) => directory.currency(s);
+  const engine = new AlertEngine(provider, { tickMs: Math.min(config.intervalMs, 1000), currencyOf });
+  const description = describeAlert(config);
+
+  if (!values.json) {
+    const lifecycle = config.recurring === true ? `, ${describeLifecycle(config)}` : "";
+    console.log(`Watching ${symbol} for price ${description} (checking every ${config.intervalMs / 1000}s${lifecycle})`);
+  }
+
+  return new Promise<number>((resolve) => {
+    const finish = (code: number): void => {
+      clearTimeout(timer);
+      engine.stop();
+      resolve(code);
+    };
+
+    // Give up once the timeout elapses (a recurring alert that fired has succeeded)
+    let triggerCount = 0;
+    const timer =
+      timeoutMs === null
+        ? undefined
+        : setTimeout(() => {
+            if (values.json) {
+              console.log(JSON.stringify({ event: "timeout", symbol, triggerCount }));
+            } else if (triggerCount > 0) {
+              console.log(`Stopped after ${timeoutMs / 1000}s; the alert triggered ${triggerCount} time(s)`);
+            } else {
+              console.log(`Timed out after ${timeoutMs / 1000}s without ${symbol} being ${description}`);
+            }
+            finish(triggerCount > 0 ? EXIT_CODES.OK : EXIT_CODES.TIMEOUT);
+          }, timeoutMs);
+
+    engine.on("price", (quote) => {
+      if (values.json) {
+        console.log(JSON.stringify({ event: "price", quote }));
+      } else {
+        console.log(formatQuote(quote, currencyOf(quote.symbol)));
+      }
+    });
+
+    engine.on("error", ({ error, retryAt }) => {
+      // Keep polling; the engine retries after a backoff
+      if (values.json) {
+        console.log(JSON.stringify({ event: "error", symbol, error: error.message, retryAt }));
+      } else {
+        const retry = retryAt !== null ? ` (retrying at ${retryAt.toISOString()})` : "";
+        console.error(`Error fetching quote for ${symbol}${retry}:`, error.message);
+      }
+    });
+
+    engine.on("closed", ({ nextOpen }) => {
+      if (values.json) {
+        console.log(JSON.stringify({ event: "closed", symbol, nextOpen }));
+      } else {
+        console.log(`Market closed for ${symbol}; sleeping until ${nextOpen.toISOString()}`);
+      }
+    });
+
+    engine.on("triggered", ({ alert, quote }) => {
+      triggerCount = alert.triggerCount;
+      if (values.json) {
+        console.log(JSON.stringify({ event: "triggered", quote, triggerCount: alert.triggerCount }));
+      } else {
+        console.log(`🚨 ALERT: ${symbol} price (${formatMoney(quote.close, currencyOf(symbol))}) is ${description}!`);
+      }
+
+      // Recurring alerts keep watching until they are done
+      if (alert.status !== "active") {
+        finish(EXIT_CODES.OK);
+      }
+    });
+
+    engine.on("rearmed", ({ alert }) => {
+      if (values.json) {
+        console.log(JSON.stringify({ event: "rearmed", symbol, triggerCount: alert.triggerCount }));
+      } else {
+        console.log(`Alert re-armed after ${alert.triggerCount} trigger(s)`);
+      }
+    });
+
+    engine.on("expired", ({ alert }) => {
+      if (values.json) {
+        console.log(JSON.stringify({ event: "expired", symbol, triggerCount: alert.triggerCount }));
+      } else {
+        console.log(`Alert expired after ${alert.triggerCount} trigger(s)`);
+      }
+      finish(alert.triggerCount > 0 ? EXIT_CODES.OK : EXIT_CODES.TIMEOUT);
+    });
+
+    engine.add(config);
+    engine.start();
+  });
+}
+
+/**
+ * history <symbol> [--from <date>] [--to <date>] [--interval d|w|m] [--csv]
+ */
+async function historyCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      interval: { type: "string" },
+      csv: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const symbol = (await cliDirectory()).resolve(singleSymbol(positionals, "history"));
+  const options = parseHistoryFlags(values);
+
+  const provider = await cliProvider();
+  const bars = await provider.fetchHistory(symbol, options);
+
+  if (values.json) {
+    console.log(JSON.stringify({ symbol, interval: options.interval ?? "d", bars }, null, 2));
+  } else if (values.csv) {
+    process.stdout.write(barsToCsv(bars));
+  } else {
+    console.log(["Date", "Open", "High", "Low", "Close", "Volume"].map((h) => h.padStart(12)).join(""));
+    for (const bar of bars) {
+      console.log(
+        [bar.date, bar.open.toFixed(2), bar.high.toFixed(2), bar.low.toFixed(2), bar.close.toFixed(2), bar.volume ?? "N/A"]
+          .map((cell) => String(cell).padStart(12))
+          .join("")
+      );
+    }
+  }
+
+  return EXIT_CODES.OK;
+}
+
+/**
+ * alerts list | alerts add <symbol> ... | alerts snooze <id> <seconds> | alerts rm <id>
+ *
+ * Works on the same store the server runs (DATA_DIR/alerts.json). The server
+ * keeps its alerts in memory, so add, snooze and rm refuse to run while it is
+ * running (see cliWritable).
+ */
+async function alertsCommand(args: string[]): Promise<number> {
+  const [action, ...rest] = args;
+  const { values, positionals } = parseArgs({
+    args: rest,
+    allowPositionals: true,
+    options: {
+      above: { type: "string" },
+      below: { type: "string" },
+      interval: { type: "string" },
+      notify: { type: "string" },
+      "from-cost": { type: "string" },
+      when: { type: "string" },
+      currency: { type: "string" },
+      ...LIFECYCLE_OPTIONS,
+      user: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const store = await AlertStore.open(path.join((await cliConfig()).dataDir, "alerts.json"));
+
+  switch (action) {
+    case "list": {
+      const alerts = store.list();
+      if (values.json) {
+        console.log(JSON.stringify(alerts, null, 2));
+      } else if (alerts.length === 0) {
+        console.log("No alerts");
+      } else {
+        for (const alert of alerts) {
+          const state = alertState({ config: alert.config, ...storedLifecycle(alert) });
+          const fired = alert.triggerCount ? `, fired ${alert.triggerCount}x` : "";
+          console.log(
+            `${alert.id}  ${state.padEnd(9)}  ${alert.config.symbol} ${describeAlert(alert.config)}` +
+              ` (${describeLifecycle(alert.config)}${fired})`
+          );
+        }
+      }
+      return EXIT_CODES.OK;
+    }
+
+    case "add": {
+      await cliWritable();
+      const symbol = (await cliDirectory()).resolve(singleSymbol(positionals, "alerts add"));
+      const { defaultIntervalMs } = (await cliConfig()).alerts;
+      const intervalMs = parseSeconds(values.interval, "--interval", defaultIntervalMs / 1000) * 1000;
+
+      const config = parseRule(symbol, values, intervalMs);
+
+      if (values.notify !== undefined) {
+        config.notify = values.notify.split(",").map((name) => name.trim()).filter((name) => name.length > 0);
+      }
+      if (values.currency !== undefined) {
+        config.currency = parseCurrencyFlag(values.currency);
+      }
+      Object.assign(config, parseLifecycleFlags(values));
+
+      // Alerts without an owner are given to the first admin when the server starts
+      let owner: string | undefined;
+      if (values.user !== undefined) {
+        const users = await UserStore.open(path.join((await cliConfig()).dataDir, "users.json"));
+        owner = users.findByUsername(values.user)?.id;
+        if (owner === undefined) {
+          console.error(`User "${values.user}" not found`);
+          return EXIT_CODES.ERROR;
+        }
+      }
+
+      const alert = await store.create(config, owner);
+      console.log(values.json ? JSON.stringify(alert, null, 2) : `Created alert ${alert.id}`);
+      return EXIT_CODES.OK;
+    }
+
+    case "snooze": {
+      const [id, duration] = positionals;
+      if (id === undefined || duration === undefined || positionals.length > 2) {
+        throw new UsageError("alerts snooze needs an alert id and a number of seconds");
+      }
+      const seconds = Number(duration);
+      if (!(seconds >= 0)) {
+        throw new UsageError("alerts snooze needs a number of seconds (0 ends the snooze)");
+      }
+      await cliWritable();
+
+      const existing = store.get(id);
+      if (existing === undefined) {
+        console.error(`Alert "${id}" not found`);
+        return EXIT_CODES.ERROR;
+      }
+      const until = seconds > 0 ? new Date(Date.now() + seconds * 1000).toISOString() : null;
+      if (until !== null && existing.status !== "active") {
+        console.error(`Alert "${id}" is ${existing.status}; only active alerts can be snoozed`);
+        return EXIT_CODES.ERROR;
+      }
+
+      const alert = await store.update(id, { snoozedUntil: until });
+      if (values.json) {
+        console.log(JSON.stringify(alert, null, 2));
+      } else {
+        console.log(until !== null ? `Snoozed alert ${id} until ${until}` : `Alert ${id} is no longer snoozed`);
+      }
+      return EXIT_CODES.OK;
+    }
+
+    case "rm": {
+      const [id] = positionals;
+      if (id === undefined || positionals.length > 1) {
+        throw new UsageError("alerts rm needs exactly one alert id");
+      }
+      await cliWritable();
+
+      if (!(await store.remove(id))) {
+        console.error(`Alert "${id}" not found`);
+        return EXIT_CODES.ERROR;
+      }
+      console.log(values.json ? JSON.stringify({ id, removed: true }) : `Removed alert ${id}`);
+      return EXIT_CODES.OK;
+    }
+
+    default:
+      throw new UsageError(`Unknown alerts action "${action ?? ""}". Expected list, add, snooze or rm`);
+  }
+}
+
+/**
+ * backtest <symbol> <rule> | backtest --alert <id>
+ *
+ * Bars come from the quote provider, or from a CSV in Stooq's format.
+ */
+async function backtestCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      above: { type: "string" },
+      below: { type: "string" },
+      "from-cost": { type: "string" },
+      when: { type: "string" },
+      alert: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      interval: { type: "string" },
+      "csv-file": { type: "string" },
+      horizons: { type: "string" },
+      cooldown: { type: "string" },
+      rearm: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const dataDir = (await cliConfig()).dataDir;
+
+  // Test a stored alert, or the rule given by the flags
+  let config: AlertConfig;
+  let owner: string | undefined;
+  if (values.alert !== undefined) {
+    const ruleFlags = [values.above, values.below, values["from-cost"], values.when];
+    if (positionals.length > 0 || ruleFlags.some((v) => v !== undefined)) {
+      throw new UsageError("--alert cannot be combined with a symbol or rule flags");
+    }
+    const store = await AlertStore.open(path.join(dataDir, "alerts.json"));
+    const alert = store.get(values.alert);
+    if (alert === undefined) {
+      console.error(`Alert "${values.alert}" not found`);
+      return EXIT_CODES.ERROR;
+    }
+    config = alert.config;
+    owner = alert.owner;
+  } else {
+    config = parseRule((await cliDirectory()).resolve(singleSymbol(positionals, "backtest")), values, 1000);
+    owner = await cliOwner(undefined);
+  }
+
+  const horizons = (values.horizons ?? "1,5,20").split(",").map(Number);
+  if (!horizons.every((h) => Number.isInteger(h) && h > 0)) {
+    throw new UsageError("--horizons must be positive whole numbers of bars, e.g. 1,5,20");
+  }
+  const cooldownBars = Number(values.cooldown ?? 0);
+  if (!(Number.isInteger(cooldownBars) && cooldownBars >= 0)) {
+    throw new UsageError("--cooldown must be a whole number of bars");
+  }
+  if (values.rearm !== undefined && values.rearm !== "whenFalse" && values.rearm !== "immediately") {
+    throw new UsageError("--rearm must be whenFalse or immediately");
+  }
+
+  // Load the bars, starting early enough to warm up the rule's indicators
+  const options = parseHistoryFlags(values);
+  let bars: Bar[];
+  if (values["csv-file"] !== undefined) {
+    if (options.interval !== undefined && options.interval !== "d") {
+      throw new UsageError("--interval cannot be used with --csv-file");
+    }
+    const { to } = options;
+    bars = parseHistoryCsv(await readFile(values["csv-file"], "utf8"), config.symbol).filter(
+      (bar) => to === undefined || bar.date <= to
+    );
+  } else {
+    bars = await (await cliProvider()).fetchHistory(config.symbol, warmupRange(config, options));
+  }
+
+  // Conditions relative to cost use the position of the alert's owner (or the first admin)
+  const portfolio = await PortfolioStore.open(path.join(dataDir, "portfolio.json"));
+  const result = backtest(config, bars, {
+    horizons,
+    cooldownBars,
+    costBasis: portfolio.averageCost(config.symbol, owner),
+    ...(values.from !== undefined ? { from: values.from } : {}),
+    ...(values.rearm !== undefined ? { rearm: values.rearm as RearmMode } : {}),
+  });
+
+  if (values.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return EXIT_CODES.OK;
+  }
+
+  console.log(
+    `${result.symbol} ${result.description}: ${result.triggers.length} trigger(s) ` +
+      `in ${result.bars} bars (${result.from ?? "-"} to ${result.to ?? "-"})`
+  );
+  if (result.triggers.length === 0) {
+    return EXIT_CODES.OK;
+  }
+
+  const percent = (value: number | null | undefined) =>
+    value === null || value === undefined ? "--" : `${value.toFixed(2)}%`;
+  const row = (cells: string[]) => cells.map((cell) => cell.padStart(12)).join("");
+
+  console.log("\n" + row(["Date", "Price", ...horizons.map((h) => `+${h} bars`)]));
+  for (const trigger of result.triggers) {
+    console.log(
+      row([trigger.date, trigger.price.toFixed(2), ...horizons.map((h) => percent(trigger.forwardReturns[String(h)]))])
+    );
+  }
+
+  console.log("\n" + row(["Horizon", "Samples", "Average", "Median", "Win rate", "Best", "Worst"]));
+  for (const stats of result.horizons) {
+    console.log(
+      row([
+        `${stats.bars} bars`,
+        String(stats.samples),
+        percent(stats.average),
+        percent(stats.median),
+        percent(stats.winRate),
+        percent(stats.best),
+        percent(stats.worst),
+      ])
+    );
+  }
+
+  return EXIT_CODES.OK;
+}
+
+/**
+ * portfolio [show] | buy|sell <symbol> <quantity> <price> | transactions [symbol] | rm <id>
+ *
+ * Works on the same ledger as the server (DATA_DIR/portfolio.json), on the
+ * transactions of --user (default: the first admin); buy, sell and rm refuse
+ * to run while the server is running (see cliWritable).
+ */
+async function portfolioCommand(args: string[]): Promise<number> {
+  const [action = "show", ...rest] = args;
+  const { values, positionals } = parseArgs({
+    args: rest,
+    allowPositionals: true,
+    options: {
+      fees: { type: "string" },
+      date: { type: "string" },
+      currency: { type: "string" },
+      user: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const store = await PortfolioStore.open(path.join((await cliConfig()).dataDir, "portfolio.json"));
+  const owner = await cliOwner(values.user);
+
+  switch (action) {
+    case "show": {
+      const valuation = await valuePortfolio(store.positions(owner), await cliProvider());
+      if (values.json) {
+        console.log(JSON.stringify(valuation, null, 2));
+        return EXIT_CODES.OK;
+      }
+
+      if (valuation.positions.length === 0) {
+        console.log("No positions");
+        return EXIT_CODES.OK;
+      }
+
+      const columns = ["Symbol", "Qty", "Avg cost", "Price", "Value", "Unrealized", "Day", "Alloc %"];
+      console.log(columns.map((c) => c.padStart(12)).join(""));
+      for (const p of valuation.positions) {
+        console.log(
+          [
+            p.symbol,
+            p.quantity,
+            formatAmount(p.averageCost),
+            formatAmount(p.quote?.close ?? null),
+            formatAmount(p.marketValue),
+            formatAmount(p.unrealizedPnl),
+            formatAmount(p.dayChange),
+            formatAmount(p.allocation),
+          ]
+            .map((cell) => String(cell).padStart(12))
+            .join("") + (p.error !== null ? `  (${p.error})` : "")
+        );
+      }
+
+      for (const t of valuation.totals) {
+        console.log(
+          `\nTotal ${t.currency}: value ${formatAmount(t.marketValue)}, cost ${formatAmount(t.costBasis)}, ` +
+            `unrealized ${formatAmount(t.unrealizedPnl)}, realized ${formatAmount(t.realizedPnl)}, day ${formatAmount(t.dayChange)}`
+        );
+      }
+      return valuation.positions.some((p) => p.error !== null) ? EXIT_CODES.ERROR : EXIT_CODES.OK;
+    }
+
+    case "buy":
+    case "sell": {
+      const [symbol, quantity, price] = positionals;
+      if (symbol === undefined || quantity === undefined || price === undefined || positionals.length > 3) {
+        throw new UsageError(`portfolio ${action} needs a symbol, a quantity and a price`);
+      }
+
+      const input: TransactionInput = { symbol, side: action, quantity: Number(quantity), price: Number(price) };
+      if (values.fees !== undefined) {
+        input.fees = Number(values.fees);
+      }
+      if (values.date !== undefined) {
+        input.date = values.date;
+      }
+      if (values.currency !== undefined) {
+        input.currency = values.currency;
+      }
+
+      await cliWritable();
+      const transaction = await store.addTransaction(input, owner);
+      console.log(values.json ? JSON.stringify(transaction, null, 2) : `Recorded ${action} ${transaction.id}`);
+      return EXIT_CODES.OK;
+    }
+
+    case "transactions": {
+      const transactions = store.transactions(owner, positionals[0]);
+      if (values.json) {
+        console.log(JSON.stringify(transactions, null, 2));
+      } else {
+        for (const t of transactions) {
+          const fees = t.fees > 0 ? ` (fees ${t.fees})` : "";
+          console.log(`${t.id}  ${t.date}  ${t.side.padEnd(4)}  ${t.quantity} ${t.symbol} @ ${t.price} ${t.currency}${fees}`);
+        }
+      }
+      return EXIT_CODES.OK;
+    }
+
+    case "rm": {
+      const [id] = positionals;
+      if (id === undefined || positionals.length > 1) {
+        throw new UsageError("portfolio rm needs exactly one transaction id");
+      }
+      await cliWritable();
+
+      if (!(await store.removeTransaction(id, owner))) {
+        console.error(`Transaction "${id}" not found`);
+        return EXIT_CODES.ERROR;
+      }
+      console.log(values.json ? JSON.stringify({ id, removed: true }) : `Removed transaction ${id}`);
+      return EXIT_CODES.OK;
+    }
+
+    default:
+      throw new UsageError(`Unknown portfolio action "${action}". Expected show, buy, sell, transactions or rm`);
+  }
+}
+
+/**
+ * users list | add <username> | passwd <username> | role <username> <role> | rm <username> | token <username> <name>
+ *
+ * Works on the same accounts as the server (DATA_DIR/users.json); every action
+ * but list refuses to run while the server is running (see cliWritable). This
+ * is also how to get back in when the admin password is lost: stop the server,
+ * run users passwd, and start it again.
+ */
+async function usersCommand(args: string[]): Promise<number> {
+  const [action, ...rest] = args;
+  const { values, positionals } = parseArgs({
+    args: rest,
+    allowPositionals: true,
+    options: {
+      admin: { type: "boolean", default: false },
+      password: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const store = await UserStore.open(path.join((await cliConfig()).dataDir, "users.json"));
+
+  // Every action but list changes the accounts
+  if (action !== "list") {
+    await cliWritable();
+  }
+
+  // Every action but list and add works on an existing account
+  const existing = () => {
+    const [username] = positionals;
+    const user = username !== undefined ? store.findByUsername(username) : undefined;
+    if (user === undefined) {
+      throw new Error(`User "${username ?? ""}" not found`);
+    }
+    return user;
+  };
+
+  switch (action) {
+    case "list": {
+      const users = store.list();
+      if (values.json) {
+        console.log(JSON.stringify(users, null, 2));
+      } else if (users.length === 0) {
+        console.log("No users");
+      } else {
+        for (const user of users) {
+          console.log(`${user.id}  ${user.role.padEnd(5)}  ${user.username}`);
+        }
+      }
+      return EXIT_CODES.OK;
+    }
+
+    case "add": {
+      const [username] = positionals;
+      if (username === undefined || positionals.length > 1) {
+        throw new UsageError("users add needs exactly one username");
+      }
+
+      // The first account is always an admin, or nobody could manage the others
+      const role: Role = values.admin || store.list().length === 0 ? "admin" : "user";
+      const user = await store.create(username, await readPassword(values.password), role);
+      console.log(values.json ? JSON.stringify(user, null, 2) : `Created ${user.role} ${user.username}`);
+      return EXIT_CODES.OK;
+    }
+
+    case "passwd": {
+      const user = existing();
+      await store.update(user.id, { password: await readPassword(values.password) });
+      console.log(values.json ? JSON.stringify({ id: user.id, updated: true }) : `Changed the password of ${user.username}`);
+      return EXIT_CODES.OK;
+    }
+
+    case "role": {
+      const user = existing();
+      const role = positionals[1];
+      if (role !== "admin" && role !== "user") {
+        throw new UsageError("users role needs a username and a role (admin or user)");
+      }
+      const updated = await store.update(user.id, { role });
+      console.log(values.json ? JSON.stringify(updated, null, 2) : `${user.username} is now ${role}`);
+      return EXIT_CODES.OK;
+    }
+
+    case "rm": {
+      const user = existing();
+      await store.remove(user.id);
+      console.log(values.json ? JSON.stringify({ id: user.id, removed: true }) : `Removed user ${user.username}`);
+      return EXIT_CODES.OK;
+    }
+
+    case "token": {
+      const user = existing();
+      const name = positionals[1];
+      if (name === undefined) {
+        throw new UsageError("users token needs a username and a token name");
+      }
+      const { token, record } = await store.createToken(user.id, name);
+      console.log(values.json ? JSON.stringify({ ...record, token }, null, 2) : token);
+      return EXIT_CODES.OK;
+    }
+
+    default:
+      throw new UsageError(`Unknown users action "${action ?? ""}". Expected list, add, passwd, role, rm or token`);
+  }
+}
+
+/**
+ * symbols search <query> [--limit <n>] | symbols import <csv-file>
+ *
+ * Works on the same directory as the server (DATA_DIR/symbols.json); import
+ * refuses to run while the server is running (see cliWritable).
+ */
+async function symbolsCommand(args: string[]): Promise<number> {
+  const [action, ...rest] = args;
+  const { values, positionals } = parseArgs({
+    args: rest,
+    allowPositionals: true,
+    options: {
+      limit: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const directory = await cliDirectory();
+
+  switch (action) {
+    case "search": {
+      const query = positionals.join(" ");
+      if (query.trim().length === 0) {
+        throw new UsageError("symbols search needs a query");
+      }
+      const limit = Number(values.limit ?? 10);
+      if (!(Number.isInteger(limit) && limit > 0)) {
+        throw new UsageError("--limit must be a positive whole number");
+      }
+
+      const results = directory.search(query, limit);
+      if (values.json) {
+        console.log(JSON.stringify({ query, resolved: directory.resolve(query), results }, null, 2));
+      } else if (results.length === 0) {
+        console.log(`No instruments match "${query}"; as a symbol it would be ${directory.resolve(query)}`);
+      } else {
+        for (const instrument of results) {
+          console.log(`${instrument.symbol.padEnd(12)}  ${(instrument.currency ?? "").padEnd(3)}  ${instrument.name}`);
+        }
+      }
+      return EXIT_CODES.OK;
+    }
+
+    case "import": {
+      const [file] = positionals;
+      if (file === undefined || positionals.length > 1) {
+        throw new UsageError("symbols import needs exactly one CSV file");
+      }
+      await cliWritable();
+
+      const instruments = parseInstrumentCsv(await readFile(file, "utf8"));
+      const changed = await directory.import(instruments);
+      console.log(
+        values.json
+          ? JSON.stringify({ read: instruments.length, changed })
+          : `Imported ${changed} of ${instruments.length} instrument(s)`
+      );
+      return EXIT_CODES.OK;
+    }
+
+    default:
+      throw new UsageError(`Unknown symbols action "${action ?? ""}". Expected search or import`);
+  }
+}
+
+/**
+ * export [--format json|csv] [--type alerts|watchlists|triggers] [--output <file>] [--user <username>]
+ *
+ * Reads the server's stores (DATA_DIR/alerts.json and watchlists.json).
+ */
+async function exportCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      type: { type: "string" },
+      output: { type: "string" },
+      user: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  if (positionals.length > 0) {
+    throw new UsageError("export takes no arguments; use --output to write to a file");
+  }
+  const format = parseFormatFlag(values.format, values.output);
+  if (format === "csv" && !EXPORT_KINDS.includes(values.type as ExportKind)) {
+    throw new UsageError(`A CSV export needs --type ${EXPORT_KINDS.join("|")}`);
+  }
+  if (format === "json" && values.type !== undefined) {
+    throw new UsageError("--type only applies to CSV exports");
+  }
+
+  const stores = await cliTransferStores();
+  const bundle = exportBundle(stores, await cliOwner(values.user));
+  const text = format === "csv" ? exportCsv(bundle, values.type as ExportKind) : JSON.stringify(bundle, null, 2) + "\n";
+
+  if (values.output === undefined) {
+    process.stdout.write(text);
+    return EXIT_CODES.OK;
+  }
+
+  await writeFile(values.output, text, "utf8");
+  const counts = { alerts: bundle.alerts.length, watchlists: bundle.watchlists.length, triggers: bundle.triggers.length };
+  if (values.json) {
+    console.log(JSON.stringify({ file: values.output, ...counts }));
+  } else {
+    const written =
+      format === "csv"
+        ? `${counts[values.type as ExportKind]} ${values.type}`
+        : `${counts.alerts} alert(s), ${counts.watchlists} watchlist(s) and ${counts.triggers} trigger(s)`;
+    console.log(`Exported ${written} to ${values.output}`);
+  }
+  return EXIT_CODES.OK;
+}
+
+/**
+ * import <file> [--format json|csv] [--user <username>] [--dry-run]
+ *
+ * The whole file is validated first; if any record is invalid, every problem
+ * is reported and nothing is imported. Only a dry run works while the server
+ * is running (see cliWritable); POST /api/import imports into a running
+ * server instead.
+ */
+async function importCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      user: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const [file] = positionals;
+  if (file === undefined || positionals.length > 1) {
+    throw new UsageError("import needs exactly one file");
+  }
+
+  const data = parseImport(await readFile(file, "utf8"), parseFormatFlag(values.format, file));
+
+  if (values["dry-run"]) {
+    console.log(
+      values.json
+        ? JSON.stringify({ valid: true, alerts: data.alerts.length, watchlists: data.watchlists.length })
+        : `${file} is valid: ${data.alerts.length} alert(s), ${data.watchlists.length} watchlist(s)`
+    );
+    return EXIT_CODES.OK;
+  }
+
+  await cliWritable();
+  const result = await importData(data, await cliTransferStores(), await cliOwner(values.user));
+  if (values.json) {
+    console.log(JSON.stringify(result));
+  } else {
+    const counts = (what: string, { created, updated, skipped }: ImportCounts) =>
+      `${what}: ${created} created, ${updated} updated, ${skipped} skipped`;
+    console.log(`Imported ${file}\n  ${counts("Alerts", result.alerts)}\n  ${counts("Watchlists", result.watchlists)}`);
+  }
+  return EXIT_CODES.OK;
+}
+
+/**
+ * Returns the --password flag, or else reads a password from stdin
+ */
+async function readPassword(flag: string | undefined): Promise<string> {
+  if (flag !== undefined) {
+    return flag;
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return await rl.question("Password: ");
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Formats an optional amount with two decimals
+ */
+function formatAmount(value: number | null): string {
+  return value === null ? "--" : value.toFixed(2);
+}
+
+/**
+ * The settings, read once per run
+ */
+let settings: Promise<AppConfig> | undefined;
+
+/**
+ * Reads the settings the server uses (see config.ts)
+ *
+ * @throws ConfigError if a setting is invalid
+ */
+function cliConfig(): Promise<AppConfig> {
+  settings ??= loadConfig();
+  return settings;
+}
+
+/**
+ * Creates the configured quote provider
+ */
+async function cliProvider(): Promise<QuoteProvider> {
+  return createProvider((await cliConfig()).provider);
+}
+
+/**
+ * Checks that the CLI may change the data files
+ *
+ * A running server keeps the stores in memory and saves whole snapshots, so
+ * a change written here would be overwritten by its next save. The server
+ * claims DATA_DIR while it runs (see lockDataDir).
+ *
+ * @throws DataDirLockedError if a server is running on DATA_DIR
+ */
+async function cliWritable(): Promise<void> {
+  await assertDataDirUnlocked((await cliConfig()).dataDir);
+}
+
+/**
+ * Opens the symbol directory the server uses (DATA_DIR/symbols.json)
+ */
+async function cliDirectory(): Promise<SymbolDirectory> {
+  const config = await cliConfig();
+  return SymbolDirectory.open(path.join(config.dataDir, "symbols.json"), config.symbols);
+}
+
+/**
+ * Opens the alert and watchlist stores the server uses
+ */
+async function cliTransferStores(): Promise<TransferStores> {
+  const { dataDir } = await cliConfig();
+  return {
+    alerts: await AlertStore.open(path.join(dataDir, "alerts.json")),
+    watchlists: await WatchlistStore.open(path.join(dataDir, "watchlists.json")),
+  };
+}
+
+/**
+ * Resolves a --user flag to a user id
+ *
+ * @param username - The flag's value
+ * @returns The user's id; without the flag the first admin's, or undefined before
+ *   any account exists (records without an owner go to the first admin later)
+ * @throws Error if the user does not exist
+ */
+async function cliOwner(username: string | undefined): Promise<string | undefined> {
+  const users = await UserStore.open(path.join((await cliConfig()).dataDir, "users.json"));
+  if (username === undefined) {
+    return users.list().find((user) => user.role === "admin")?.id;
+  }
+
+  const user = users.findByUsername(username);
+  if (user === undefined) {
+    throw new Error(`User "${username}" not found`);
+  }
+  return user.id;
+}
+
+/**
+ * Parses a --format flag, defaulting to the format a file name suggests
+ */
+function parseFormatFlag(value: string | undefined, file: string | undefined): ExportFormat {
+  if (value === undefined) {
+    return file !== undefined && path.extname(file).toLowerCase() === ".csv" ? "csv" : "json";
+  }
+  if (value !== "json" && value !== "csv") {
+    throw new UsageError("--format must be json or csv");
+  }
+  return value;
+}
+
+/**
+ * Parses a --currency flag
+ */
+function parseCurrencyFlag(value: string): string {
+  try {
+    return normalizeCurrency(value);
+  } catch (error) {
+    throw new UsageError(`--currency: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Returns the only positional argument of a command that takes one symbol
+ */
+function singleSymbol(positionals: string[], command: string): string {
+  const [symbol] = positionals;
+  if (symbol === undefined || positionals.length > 1) {
+    throw new UsageError(`${command} needs exactly one symbol`);
+  }
+  return symbol;
+}
+
+/**
+ * Turns --above/--below into an alert target and direction
+ */
+function parseThreshold(
+  above: string | undefined,
+  below: string | undefined
+): { target: number; direction: Direction } {
+  if ((above === undefined) === (below === undefined)) {
+    throw new UsageError("Exactly one of --above or --below is required");
+  }
+
+  const direction: Direction = above !== undefined ? "above" : "below";
+  const target = Number(above ?? below);
+  if (!(target > 0)) {
+    throw new UsageError(`--${direction} must be a price greater than 0`);
+  }
+
+  return { target, direction };
+}
+
+/**
+ * Parses the --from, --to and --interval flags of history and backtest
+ */
+function parseHistoryFlags(values: {
+  from?: string | undefined;
+  to?: string | undefined;
+  interval?: string | undefined;
+}): HistoryOptions {
+  const options: HistoryOptions = {};
+
+  for (const name of ["from", "to"] as const) {
+    const value = values[name];
+    if (value !== undefined) {
+      if (!isCalendarDate(value)) {
+        throw new UsageError(`--${name} must be a date in YYYY-MM-DD format`);
+      }
+      options[name] = value;
+    }
+  }
+
+  if (values.interval !== undefined) {
+    if (values.interval !== "d" && values.interval !== "w" && values.interval !== "m") {
+      throw new UsageError("--interval must be d, w or m");
+    }
+    options.interval = values.interval;
+  }
+
+  return options;
+}
+
+/**
+ * parseArgs options of the lifecycle flags shared by watch and alerts add
+ */
+const LIFECYCLE_OPTIONS = {
+  recurring: { type: "boolean" },
+  cooldown: { type: "string" },
+  "rearm-percent": { type: "string" },
+  "max-triggers": { type: "string" },
+  expires: { type: "string" },
+} as const;
+
+/**
+ * Turns the lifecycle flags into alert configuration fields
+ */
+function parseLifecycleFlags(values: {
+  recurring?: boolean | undefined;
+  cooldown?: string | undefined;
+  "rearm-percent"?: string | undefined;
+  "max-triggers"?: string | undefined;
+  expires?: string | undefined;
+}): Pick<AlertConfig, "recurring" | "cooldownMs" | "rearmPercent" | "maxTriggers" | "expiresAt"> {
+  const repeatFlags = [values.cooldown, values["rearm-percent"], values["max-triggers"]];
+  if (values.recurring !== true && repeatFlags.some((value) => value !== undefined)) {
+    throw new UsageError("--cooldown, --rearm-percent and --max-triggers need --recurring");
+  }
+
+  const rearmPercent = Number(values["rearm-percent"]);
+  if (values["rearm-percent"] !== undefined && !(rearmPercent > 0)) {
+    throw new UsageError("--rearm-percent must be a percentage greater than 0");
+  }
+  const maxTriggers = Number(values["max-triggers"]);
+  if (values["max-triggers"] !== undefined && !(Number.isInteger(maxTriggers) && maxTriggers > 0)) {
+    throw new UsageError("--max-triggers must be a whole number greater than 0");
+  }
+  const expiresAt = Date.parse(values.expires ?? "");
+  if (values.expires !== undefined && !(expiresAt > Date.now())) {
+    throw new UsageError("--expires must be a future date/time, e.g. 2025-03-31T16:00:00Z");
+  }
+
+  return {
+    ...(values.recurring === true ? { recurring: true } : {}),
+    ...(values.cooldown !== undefined ? { cooldownMs: parseSeconds(values.cooldown, "--cooldown", 0) * 1000 } : {}),
+    ...(values["rearm-percent"] !== undefined ? { rearmPercent } : {}),
+    ...(values["max-triggers"] !== undefined ? { maxTriggers } : {}),
+    ...(values.expires !== undefined ? { expiresAt: new Date(expiresAt).toISOString() } : {}),
+  };
+}
+
+/**
+ * Parses a positive number of seconds, falling back to a default when omitted
+ */
+function parseSeconds(value: string | undefined, flag: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const seconds = Number(value);
+  if (!(seconds > 0)) {
+    throw new UsageError(`${flag} must be a number of seconds greater than 0`);
+  }
+  return seconds;
+}
+
+/**
+ * Formats a quote as a single line of text
+ *
+ * @param quote - The quote
+ * @param currency - The currency of its prices, or null if unknown
+ */
+function formatQuote(quote: Quote, currency: string | null): string {
+  return `[${quote.date} ${quote.time}] ${quote.symbol}: ${formatMoney(quote.close, currency)}`;
+}
+
+/**
+ * Builds an alert from the rule flags shared by alerts add and backtest:
+ * --above/--below, --from-cost or --when
+ */
+function parseRule(
+  symbol: string,
+  values: {
+    above?: string | undefined;
+    below?: string | undefined;
+    "from-cost"?: string | undefined;
+    when?: string | undefined;
+  },
+  intervalMs: number
+): AlertConfig {
+  const fromCost = values["from-cost"];
+  if ([fromCost, values.when, values.above ?? values.below].filter((v) => v !== undefined).length > 1) {
+    throw new UsageError("Use only one of --above/--below, --from-cost and --when");
+  }
+
+  if (values.when !== undefined) {
+    return { symbol, condition: parseWhen(values.when), intervalMs };
+  }
+
+  // --from-cost watches the price relative to the position's average cost
+  if (fromCost !== undefined) {
+    const percent = Number(fromCost);
+    if (!isFinite(percent) || percent === 0) {
+      throw new UsageError("--from-cost must be a non-zero percentage (negative for drops)");
+    }
+    return { symbol, condition: { type: "percentChange", from: "cost", percent }, intervalMs };
+  }
+
+  return { symbol, ...parseThreshold(values.above, values.below), intervalMs };
+}
+
+/**
+ * Parses an indicator comparison such as "rsi:14 below 30" or "price crossAbove sma:50"
+ *
+ * @param text - "<left> <op> <right>", where each side is a number, "price" or an
+ *   indicator in the notation of parseIndicatorSpec
+ * @returns The condition
+ * @throws UsageError if the comparison is malformed
+ */
+function parseWhen(text: string): Condition {
+  const parts = text.trim().split(/\s+/);
+  const [left, op, right] = parts;
+  if (parts.length !== 3 || left === undefined || op === undefined || right === undefined) {
+    throw new UsageError('--when expects "<left> <op> <right>", e.g. "rsi:14 below 30"');
+  }
+
+  const operand = (value: string): Operand => {
+    if (value.toLowerCase() === "price") {
+      return "price";
+    }
+    return isNaN(Number(value)) ? parseIndicatorSpec(value) : Number(value);
+  };
+
+  try {
+    const condition = { type: "indicator", left: operand(left), op, right: operand(right) } as Condition;
+    validateCondition(condition);
+    return condition;
+  } catch (error) {
+    throw new UsageError(`Invalid --when: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Whether an error was thrown by parseArgs for unknown or malformed options
+ */
+function isParseArgsError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && code.startsWith("ERR_PARSE_ARGS_");
+}
@@ -0,0 +1,425 @@
+/**
+ * Alert conditions
+ *
+ * This module defines the condition model shared by the Node alert runner
+ * and the browser dashboard, and the single place where conditions are
+ * evaluated. It has no Node or DOM dependencies so both sides can import it.
+ */
+
+import { describeIndicator, validateIndicatorSpec, type IndicatorSpec } from "./indicators.js";
+
+/**
+ * One side of an indicator comparison: a fixed number, the latest price, or
+ * an indicator computed over daily bars with the session's bar still forming
+ */
+export type Operand = number | "price" | IndicatorSpec;
+
+/**
+ * A rule that decides when an alert fires
+ *
+ * - "above" / "below": Price is at or above / at or below the target
+ * - "crossAbove" / "crossBelow": Price moved from the other side of the target
+ *   to this side since the previous tick (needs a prior price)
+ * - "percentChange": Price moved by at least `percent` from the previous close,
+ *   from the price when the alert was armed, or from the average cost of the
+ *   position held in the symbol; a negative percent watches for drops
+ * - "enterBand" / "exitBand": Price moved into / out of [lower, upper] since the previous tick
+ * - "volumeSpike": Session volume is at least `multiplier` times the average daily volume
+ * - "indicator": `left` is at or above / at or below / crosses above / crosses
+ *   below `right`, where either side may be an indicator (e.g., RSI(14) below 30,
+ *   or price crosses above SMA(50))
+ * - "all" / "any": Every / at least one of the nested conditions holds
+ */
+export type Condition =
+  | { type: "above" | "below"; target: number }
+  | { type: "crossAbove" | "crossBelow"; target: number }
+  | { type: "percentChange"; from: "previousClose" | "arm" | "cost"; percent: number }
+  | { type: "enterBand" | "exitBand"; lower: number; upper: number }
+  | { type: "volumeSpike"; multiplier: number }
+  | { type: "indicator"; left: Operand; op: "above" | "below" | "crossAbove" | "crossBelow"; right: Operand }
+  | { type: "all" | "any"; conditions: Condition[] };
+
+/**
+ * The market data a condition is evaluated against
+ *
+ * @property price - The latest price
+ * @property volume - The session volume so far, or null if unknown
+ * @property previousClose - The previous session's close, or null if unknown
+ * @property averageVolume - The average daily volume, or null if unknown
+ * @property costBasis - Average cost per share of the position held, or null if none
+ * @property indicators - Indicator values keyed by describeIndicator(); null while
+ *   an indicator warms up or if its history is unavailable
+ */
+export type ConditionTick = {
+  price: number;
+  volume: number | null;
+  previousClose: number | null;
+  averageVolume: number | null;
+  costBasis: number | null;
+  indicators: Record<string, number | null>;
+};
+
+/**
+ * What an alert remembers between ticks
+ *
+ * @property armPrice - The price when the alert was armed (its first tick), or null before that
+ * @property lastPrice - The price on the previous tick, or null before the first tick
+ * @property lastIndicators - The indicator values on the previous tick (for crossings)
+ */
+export type ConditionState = {
+  armPrice: number | null;
+  lastPrice: number | null;
+  lastIndicators: Record<string, number | null>;
+};
+
+/**
+ * Reference data a condition needs besides the latest quote
+ */
+export type ConditionNeeds = {
+  previousClose: boolean;
+  averageVolume: boolean;
+  indicators: IndicatorSpec[];
+};
+
+/**
+ * Returns the state of a freshly armed alert
+ */
+export function initialConditionState(): ConditionState {
+  return { armPrice: null, lastPrice: null, lastIndicators: {} };
+}
+
+/**
+ * Evaluates a condition against a tick
+ *
+ * Conditions that need data that is missing (e.g., no previous close, or no
+ * prior price for a crossing) evaluate to false rather than throwing.
+ *
+ * @param condition - The condition to evaluate
+ * @param tick - The latest market data
+ * @param state - The alert's state from before this tick
+ * @returns True if the condition holds
+ */
+export function evaluateCondition(
+  condition: Condition,
+  tick: ConditionTick,
+  state: ConditionState
+): boolean {
+  const { price } = tick;
+  const last = state.lastPrice;
+
+  switch (condition.type) {
+    case "above":
+      return price >= condition.target;
+
+    case "below":
+      return price <= condition.target;
+
+    case "crossAbove":
+      return last !== null && last < condition.target && price >= condition.target;
+
+    case "crossBelow":
+      return last !== null && last > condition.target && price <= condition.target;
+
+    case "percentChange": {
+      // The arm price is the first tick's price, so the first tick itself is a 0% move
+      const base =
+        condition.from === "previousClose"
+          ? tick.previousClose
+          : condition.from === "cost"
+            ? tick.costBasis
+            : state.armPrice ?? price;
+      if (base === null || base === 0) {
+        return false;
+      }
+      const change = ((price - base) / base) * 100;
+      return condition.percent >= 0 ? change >= condition.percent : change <= condition.percent;
+    }
+
+    case "enterBand":
+    case "exitBand": {
+      if (last === null) {
+        return false;
+      }
+      const wasInside = last >= condition.lower && last <= condition.upper;
+      const isInside = price >= condition.lower && price <= condition.upper;
+      return condition.type === "enterBand" ? !wasInside && isInside : wasInside && !isInside;
+    }
+
+    case "volumeSpike":
+      if (tick.volume === null || tick.averageVolume === null || tick.averageVolume <= 0) {
+        return false;
+      }
+      return tick.volume >= condition.multiplier * tick.averageVolume;
+
+    case "indicator": {
+      const left = operandValue(condition.left, tick.price, tick.indicators);
+      const right = operandValue(condition.right, tick.price, tick.indicators);
+      if (left === null || right === null) {
+        return false;
+      }
+      if (condition.op === "above") {
+        return left >= right;
+      }
+      if (condition.op === "below") {
+        return left <= right;
+      }
+
+      // Crossings compare against both sides' values on the previous tick
+      if (state.lastPrice === null) {
+        return false;
+      }
+      const lastLeft = operandValue(condition.left, state.lastPrice, state.lastIndicators);
+      const lastRight = operandValue(condition.right, state.lastPrice, state.lastIndicators);
+      if (lastLeft === null || lastRight === null) {
+        return false;
+      }
+      return condition.op === "crossAbove"
+        ? lastLeft < lastRight && left >= right
+        : lastLeft > lastRight && left <= right;
+    }
+
+    case "all":
+      return condition.conditions.every((c) => evaluateCondition(c, tick, state));
+
+    case "any":
+      return condition.conditions.some((c) => evaluateCondition(c, tick, state));
+  }
+}
+
+/**
+ * Returns the state to keep after a tick has been evaluated
+ *
+ * @param state - The alert's state from before the tick
+ * @param tick - The tick that was just evaluated
+ * @returns The updated state
+ */
+export function nextConditionState(state: ConditionState, tick: ConditionTick): ConditionState {
+  return {
+    armPrice: state.armPrice ?? tick.price,
+    lastPrice: tick.price,
+    lastIndicators: tick.indicators,
+  };
+}
+
+/**
+ * Returns the reference data a condition needs
+ *
+ * @param condition - The condition to inspect
+ * @returns Whether previous close and average volume are needed, and which indicators
+ */
+export function conditionNeeds(condition: Condition): ConditionNeeds {
+  const none: ConditionNeeds = { previousClose: false, averageVolume: false, indicators: [] };
+
+  switch (condition.type) {
+    case "percentChange":
+      return { ...none, previousClose: condition.from === "previousClose" };
+
+    case "volumeSpike":
+      return { ...none, averageVolume: true };
+
+    case "indicator":
+      return {
+        ...none,
+        indicators: [condition.left, condition.right].filter(
+          (operand): operand is IndicatorSpec => typeof operand === "object"
+        ),
+      };
+
+    case "all":
+    case "any":
+      return condition.conditions.map(conditionNeeds).reduce(mergeNeeds, none);
+
+    default:
+      return none;
+  }
+}
+
+/**
+ * Combines the needs of two conditions
+ *
+ * @param a - The needs of one condition
+ * @param b - The needs of another
+ * @returns Everything either of them needs (indicators without duplicates)
+ */
+export function mergeNeeds(a: ConditionNeeds, b: ConditionNeeds): ConditionNeeds {
+  const indicators = new Map([...a.indicators, ...b.indicators].map((spec) => [describeIndicator(spec), spec]));
+  return {
+    previousClose: a.previousClose || b.previousClose,
+    averageVolume: a.averageVolume || b.averageVolume,
+    indicators: [...indicators.values()],
+  };
+}
+
+/**
+ * Validates a condition, including nested conditions
+ *
+ * @param condition - The condition to validate (may come from untrusted JSON)
+ * @throws Error describing the first problem found
+ */
+export function validateCondition(condition: Condition): void {
+  const isPositive = (value: unknown): boolean => typeof value === "number" && value > 0;
+
+  switch (condition?.type) {
+    case "above":
+    case "below":
+    case "crossAbove":
+    case "crossBelow":
+      if (!isPositive(condition.target)) {
+        throw new Error(`${condition.type}: target price must be greater than 0`);
+      }
+      return;
+
+    case "percentChange":
+      if (condition.from !== "previousClose" && condition.from !== "arm" && condition.from !== "cost") {
+        throw new Error('percentChange: from must be "previousClose", "arm" or "cost"');
+      }
+      if (typeof condition.percent !== "number" || !isFinite(condition.percent) || condition.percent === 0) {
+        throw new Error("percentChange: percent must be a non-zero number");
+      }
+      return;
+
+    case "enterBand":
+    case "exitBand":
+      if (!isPositive(condition.lower) || !isPositive(condition.upper)) {
+        throw new Error(`${condition.type}: lower and upper must be greater than 0`);
+      }
+      if (condition.lower >= condition.upper) {
+        throw new Error(`${condition.type}: lower must be less than upper`);
+      }
+      return;
+
+    case "volumeSpike":
+      if (!isPositive(condition.multiplier)) {
+        throw new Error("volumeSpike: multiplier must be greater than 0");
+      }
+      return;
+
+    case "indicator": {
+      if (!["above", "below", "crossAbove", "crossBelow"].includes(condition.op)) {
+        throw new Error('indicator: op must be "above", "below", "crossAbove" or "crossBelow"');
+      }
+      for (const operand of [condition.left, condition.right]) {
+        if (typeof operand === "number") {
+          if (!isFinite(operand)) {
+            throw new Error("indicator: numeric operands must be finite");
+          }
+        } else if (operand !== "price") {
+          if (typeof operand !== "object" || operand === null) {
+            throw new Error('indicator: left and right must be a number, "price" or an indicator');
+          }
+          validateIndicatorSpec(operand);
+        }
+      }
+      if (typeof condition.left !== "object" && typeof condition.right !== "object") {
+        throw new Error("indicator: at least one side must be an indicator");
+      }
+      return;
+    }
+
+    case "all":
+    case "any":
+      if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+        throw new Error(`${condition.type}: at least one nested condition is required`);
+      }
+      condition.conditions.forEach(validateCondition);
+      return;
+
+    default:
+      throw new Error(`Unknown condition type "${(condition as { type?: unknown })?.type}"`);
+  }
+}
+
+/**
+ * Describes a condition in plain English (e.g., "crosses above 150.00")
+ *
+ * @param condition - The condition to describe
+ * @returns The description
+ */
+export function describeCondition(condition: Condition): string {
+  switch (condition.type) {
+    case "above":
+      return `at or above ${condition.target.toFixed(2)}`;
+    case "below":
+      return `at or below ${condition.target.toFixed(2)}`;
+    case "crossAbove":
+      return `crosses above ${condition.target.toFixed(2)}`;
+    case "crossBelow":
+      return `crosses below ${condition.target.toFixed(2)}`;
+    case "percentChange": {
+      const base = { previousClose: "previous close", arm: "arm price", cost: "cost" }[condition.from];
+      const direction = condition.percent >= 0 ? "up" : "down";
+      return `${direction} ${Math.abs(condition.percent)}% from ${base}`;
+    }
+    case "enterBand":
+      return `enters ${condition.lower.toFixed(2)}–${condition.upper.toFixed(2)}`;
+    case "exitBand":
+      return `leaves ${condition.lower.toFixed(2)}–${condition.upper.toFixed(2)}`;
+    case "volumeSpike":
+      return `volume at least ${condition.multiplier}× average`;
+    case "indicator": {
+      const op = {
+        above: "at or above",
+        below: "at or below",
+        crossAbove: "crosses above",
+        crossBelow: "crosses below",
+      }[condition.op];
+      return `${describeOperand(condition.left)} ${op} ${describeOperand(condition.right)}`;
+    }
+    case "all":
+      return condition.conditions.map(describeCondition).map((d) => `(${d})`).join(" and ");
+    case "any":
+      return condition.conditions.map(describeCondition).map((d) => `(${d})`).join(" or ");
+  }
+}
+
+/**
+ * Returns the fixed price levels a condition watches, e.g., for chart overlays
+ *
+ * Percent, volume and indicator conditions have no fixed price level and
+ * contribute nothing.
+ *
+ * @param condition - The condition
+ * @returns The target prices and band bounds, without duplicates
+ */
+export function conditionLevels(condition: Condition): number[] {
+  switch (condition.type) {
+    case "above":
+    case "below":
+    case "crossAbove":
+    case "crossBelow":
+      return [condition.target];
+    case "enterBand":
+    case "exitBand":
+      return [condition.lower, condition.upper];
+    case "percentChange":
+    case "volumeSpike":
+    case "indicator":
+      return [];
+    case "all":
+    case "any":
+      return [...new Set(condition.conditions.flatMap(conditionLevels))];
+  }
+}
+
+/**
+ * Returns the value of an indicator comparison operand, or null if unknown
+ */
+function operandValue(operand: Operand, price: number, indicators: Record<string, number | null>): number | null {
+  if (typeof operand === "number") {
+    return operand;
+  }
+  if (operand === "price") {
+    return price;
+  }
+  return indicators[describeIndicator(operand)] ?? null;
+}
+
+/**
+ * Describes an indicator comparison operand (e.g., "price", "SMA(50)", "30.00")
+ */
+function describeOperand(operand: Operand): string {
+  if (typeof operand === "number") {
+    return operand.toFixed(2);
+  }
+  return operand === "price" ? "price" : describeIndicator(operand);
+}
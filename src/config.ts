@@ -0,0 +1,387 @@
+/**
+ * Configuration
+ *
+ * This module reads the settings of the server and the CLI from, in order
+ * of precedence:
+ * 1. Environment variables (e.g., PORT=8080)
+ * 2. A JSON config file: CONFIG_FILE, or config.json in the working
+ *    directory if it exists (e.g., { "server": { "port": 8080 } })
+ * 3. Built-in defaults
+ *
+ * Every setting is validated, and all problems are reported together in one
+ * ConfigError, so a typo is caught at startup rather than when the setting
+ * is first used. Keys the file does not know are problems too.
+ */
+
+import { readFile } from "node:fs/promises";
+import * as path from "node:path";
+import { LOG_LEVELS, type LogLevel } from "./logger.js";
+import type { ProviderConfig } from "./provider.js";
+import { STOOQ_BASE_URL, UPSTREAM_TIMEOUT_MS } from "./stooq.js";
+import { DEFAULT_SEED_FILE, type SymbolDirectoryOptions } from "./symbols.js";
+
+/**
+ * The config file read when CONFIG_FILE is not set (skipped if missing)
+ */
+export const DEFAULT_CONFIG_FILE = "config.json";
+
+/**
+ * Speed of the replay clock when none is configured: it runs along with the wall clock
+ */
+export const DEFAULT_REPLAY_SPEED = 1;
+
+/**
+ * The settings
+ *
+ * @property server - The HTTP server: port, host (null for every interface),
+ *   the directory of the web page and the log level
+ * @property dataDir - Directory of the JSON data files (alerts, users, ...)
+ * @property provider - Which quote provider to use, with its settings
+ * @property upstream - Outbound rate limit towards the quote provider
+ * @property cache - How long quotes stay fresh in the server's cache
+ * @property clients - Per-client rate limit of the API
+ * @property alerts - Defaults for new alerts
+ * @property notifiers - The channel config file and which of its channels are
+ *   enabled (null for all)
+ * @property symbols - Symbol directory options
+ * @property source - The config file that was read, or null
+ */
+export type AppConfig = {
+  server: { port: number; host: string | null; staticDir: string; logLevel: LogLevel };
+  dataDir: string;
+  provider: ProviderConfig;
+  upstream: { rateBurst: number; ratePerSecond: number };
+  cache: { quoteTtlMs: number };
+  clients: { rateBurst: number; ratePerSecond: number };
+  alerts: { defaultIntervalMs: number };
+  notifiers: { file: string; enabled: string[] | null };
+  symbols: Required<SymbolDirectoryOptions>;
+  source: string | null;
+};
+
+/**
+ * The settings safe to show every signed-in user (for /api/config)
+ */
+export type PublicConfig = {
+  provider: string;
+  alerts: AppConfig["alerts"];
+  cache: AppConfig["cache"];
+  symbols: { defaultMarket: string };
+};
+
+/**
+ * Invalid configuration
+ *
+ * @property problems - One line per invalid setting, naming where it came from
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Options for loadConfig
+ *
+ * @property env - The environment to read (defaults to process.env)
+ * @property file - The config file (defaults to CONFIG_FILE, then DEFAULT_CONFIG_FILE if it exists)
+ */
+export type LoadConfigOptions = {
+  env?: NodeJS.ProcessEnv;
+  file?: string;
+};
+
+/**
+ * Reads and validates the settings
+ *
+ * Environment variables (file key in brackets):
+ * - PORT (server.port): HTTP port (default: 3000)
+ * - HOST (server.host): Interface to listen on (default: all)
+ * - STATIC_DIR (server.staticDir): Directory of the web page (default: "web")
+ * - LOG_LEVEL (server.logLevel): debug, info, warn or error (default: "info")
+ * - DATA_DIR (dataDir): Directory of the data files (default: "data")
+ * - QUOTE_PROVIDER (provider.name): "stooq" (default) or "replay"
+ * - UPSTREAM_URL (provider.baseUrl): Where to reach Stooq (default: https://stooq.com)
+ * - UPSTREAM_TIMEOUT_MS (provider.timeoutMs): How long to wait for Stooq (default: 10000)
+ * - UPSTREAM_RETRIES (provider.retries): Retries of a transient Stooq failure (default: 2)
+ * - CIRCUIT_FAILURES (provider.circuitFailures): Failures in a row that stop requests (default: 5)
+ * - CIRCUIT_RESET_MS (provider.circuitResetMs): How long requests stay stopped (default: 30000)
+ * - FIXTURES_DIR (provider.fixturesDir): Fixtures of the replay provider (default: "fixtures")
+ * - REPLAY_START (provider.replayStart): ISO timestamp to start the replay clock at
+ * - REPLAY_SPEED (provider.replaySpeed): Replay clock speed (default: 1)
+ * - UPSTREAM_RATE_BURST, UPSTREAM_RATE_PER_SECOND (upstream.rateBurst, upstream.ratePerSecond):
+ *   Outbound rate limit (default: 10, 5)
+ * - QUOTE_CACHE_TTL_MS (cache.quoteTtlMs): Quote cache TTL (default: 15000)
+ * - CLIENT_RATE_BURST, CLIENT_RATE_PER_SECOND (clients.rateBurst, clients.ratePerSecond):
+ *   Per-client API rate limit (default: 30, 2)
+ * - DEFAULT_INTERVAL_MS (alerts.defaultIntervalMs): Polling interval of new alerts (default: 10000)
+ * - NOTIFIERS_FILE (notifiers.file): Channel config (default: DATA_DIR/notifiers.json)
+ * - NOTIFIERS (notifiers.enabled): Comma-separated channels to enable (default: all)
+ * - DEFAULT_MARKET (symbols.defaultMarket): Exchange suffix of bare tickers (default: "us")
+ * - SYMBOLS_SEED (symbols.seedFile): CSV the symbol directory is seeded from (empty for none)
+ *
+ * @param options - Where to read from
+ * @returns A promise that resolves to the settings
+ * @throws ConfigError if the config file cannot be read or a setting is invalid
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<AppConfig> {
+  const env = options.env ?? process.env;
+  const explicit = options.file ?? (env.CONFIG_FILE || undefined);
+  const file = explicit ?? DEFAULT_CONFIG_FILE;
+
+  let data: Record<string, unknown> = {};
+  let source: string | null = file;
+  try {
+    const parsed: unknown = JSON.parse(await readFile(file, "utf8"));
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new ConfigError([`${file}: expected a JSON object`]);
+    }
+    data = parsed as Record<string, unknown>;
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      throw error;
+    }
+    if ((error as NodeJS.ErrnoException).code === "ENOENT" && explicit === undefined) {
+      source = null;
+    } else {
+      throw new ConfigError([`${file}: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+  }
+
+  return parseConfig(data, env, source);
+}
+
+/**
+ * Validates settings from a parsed config file and the environment
+ *
+ * @param data - The parsed config file ({} for none)
+ * @param env - The environment
+ * @param source - The config file's name, for messages (null for none)
+ * @returns The settings
+ * @throws ConfigError if a setting is invalid
+ */
+export function parseConfig(
+  data: Record<string, unknown>,
+  env: NodeJS.ProcessEnv = {},
+  source: string | null = null
+): AppConfig {
+  const read = new SettingReader(data, env, source ?? "config");
+
+  const dataDir = read.string("dataDir", "DATA_DIR", "data");
+  const providerName = read.oneOf("provider.name", "QUOTE_PROVIDER", ["stooq", "replay"] as const, "stooq");
+
+  // Read every provider setting, so typos in the other provider's keys are reported too
+  const stooq = {
+    baseUrl: read.url("provider.baseUrl", "UPSTREAM_URL", STOOQ_BASE_URL),
+    timeoutMs: read.integer("provider.timeoutMs", "UPSTREAM_TIMEOUT_MS", UPSTREAM_TIMEOUT_MS, 1),
+    retries: read.integer("provider.retries", "UPSTREAM_RETRIES", 2, 0),
+    failureThreshold: read.integer("provider.circuitFailures", "CIRCUIT_FAILURES", 5, 1),
+    resetMs: read.integer("provider.circuitResetMs", "CIRCUIT_RESET_MS", 30_000, 1),
+  };
+  const fixturesDir = read.string("provider.fixturesDir", "FIXTURES_DIR", "fixtures");
+  const startAt = read.timestamp("provider.replayStart", "REPLAY_START");
+  const speed = read.number("provider.replaySpeed", "REPLAY_SPEED", DEFAULT_REPLAY_SPEED, 0);
+
+  const config: AppConfig = {
+    server: {
+      port: read.integer("server.port", "PORT", 3000, 1, 65_535),
+      host: read.string("server.host", "HOST", "") || null,
+      staticDir: read.string("server.staticDir", "STATIC_DIR", "web"),
+      logLevel: read.oneOf("server.logLevel", "LOG_LEVEL", LOG_LEVELS, "info"),
+    },
+    dataDir,
+    provider:
+      providerName === "replay"
+        ? { provider: "replay", fixturesDir, speed, ...(startAt !== null ? { startAt } : {}) }
+        : { provider: "stooq", ...stooq },
+    upstream: {
+      rateBurst: read.number("upstream.rateBurst", "UPSTREAM_RATE_BURST", 10, 1),
+      ratePerSecond: read.positive("upstream.ratePerSecond", "UPSTREAM_RATE_PER_SECOND", 5),
+    },
+    cache: {
+      quoteTtlMs: read.integer("cache.quoteTtlMs", "QUOTE_CACHE_TTL_MS", 15_000, 1),
+    },
+    clients: {
+      rateBurst: read.number("clients.rateBurst", "CLIENT_RATE_BURST", 30, 1),
+      ratePerSecond: read.positive("clients.ratePerSecond", "CLIENT_RATE_PER_SECOND", 2),
+    },
+    alerts: {
+      defaultIntervalMs: read.integer("alerts.defaultIntervalMs", "DEFAULT_INTERVAL_MS", 10_000, 1000),
+    },
+    notifiers: {
+      file: read.string("notifiers.file", "NOTIFIERS_FILE", path.join(dataDir, "notifiers.json")),
+      enabled: read.list("notifiers.enabled", "NOTIFIERS"),
+    },
+    symbols: {
+      defaultMarket: read.string("symbols.defaultMarket", "DEFAULT_MARKET", "us"),
+      seedFile: read.string("symbols.seedFile", "SYMBOLS_SEED", DEFAULT_SEED_FILE) || null,
+    },
+    source,
+  };
+
+  read.rejectUnknownKeys();
+  if (read.problems.length > 0) {
+    throw new ConfigError(read.problems);
+  }
+  return config;
+}
+
+/**
+ * Returns the settings every signed-in user may see
+ *
+ * @param config - The settings
+ */
+export function publicConfig(config: AppConfig): PublicConfig {
+  return {
+    provider: config.provider.provider,
+    alerts: config.alerts,
+    cache: config.cache,
+    symbols: { defaultMarket: config.symbols.defaultMarket },
+  };
+}
+
+/**
+ * Reads typed settings from the environment or the config file, collecting problems
+ *
+ * Every reader takes the setting's key in the file (dotted for nested
+ * objects), its environment variable and its default; an invalid value is
+ * recorded as a problem and the default is used in its place.
+ */
+class SettingReader {
+  readonly problems: string[] = [];
+  private readonly known = new Set<string>();
+
+  constructor(
+    private readonly data: Record<string, unknown>,
+    private readonly env: NodeJS.ProcessEnv,
+    private readonly source: string
+  ) {}
+
+  string(key: string, name: string, fallback: string): string {
+    return this.read(key, name, fallback, (value) => (typeof value === "string" ? value.trim() : undefined), "a string");
+  }
+
+  number(key: string, name: string, fallback: number, min: number): number {
+    return this.read(key, name, fallback, (value) => {
+      const number = toNumber(value);
+      return number !== undefined && number >= min ? number : undefined;
+    }, `a number >= ${min}`);
+  }
+
+  positive(key: string, name: string, fallback: number): number {
+    return this.read(key, name, fallback, (value) => {
+      const number = toNumber(value);
+      return number !== undefined && number > 0 ? number : undefined;
+    }, "a number greater than 0");
+  }
+
+  integer(key: string, name: string, fallback: number, min: number, max = Number.MAX_SAFE_INTEGER): number {
+    return this.read(key, name, fallback, (value) => {
+      const number = toNumber(value);
+      return number !== undefined && Number.isInteger(number) && number >= min && number <= max ? number : undefined;
+    }, max === Number.MAX_SAFE_INTEGER ? `a whole number >= ${min}` : `a whole number from ${min} to ${max}`);
+  }
+
+  oneOf<T extends string>(key: string, name: string, values: readonly T[], fallback: T): T {
+    return this.read(key, name, fallback, (value) => {
+      const text = typeof value === "string" ? value.trim().toLowerCase() : undefined;
+      return values.find((candidate) => candidate === text);
+    }, `one of ${values.join(", ")}`);
+  }
+
+  url(key: string, name: string, fallback: string): string {
+    return this.read(key, name, fallback, (value) => {
+      if (typeof value !== "string") {
+        return undefined;
+      }
+      try {
+        const url = new URL(value.trim());
+        return url.protocol === "http:" || url.protocol === "https:" ? value.trim() : undefined;
+      } catch {
+        return undefined;
+      }
+    }, "an http(s) URL");
+  }
+
+  timestamp(key: string, name: string): Date | null {
+    return this.read<Date | null>(key, name, null, (value) => {
+      const date = typeof value === "string" ? new Date(value) : undefined;
+      return date !== undefined && !isNaN(date.getTime()) ? date : undefined;
+    }, "an ISO timestamp");
+  }
+
+  list(key: string, name: string): string[] | null {
+    return this.read<string[] | null>(key, name, null, (value) => {
+      const items = typeof value === "string" ? value.split(",") : value;
+      if (!Array.isArray(items) || !items.every((item) => typeof item === "string")) {
+        return undefined;
+      }
+      return items.map((item: string) => item.trim()).filter((item) => item.length > 0);
+    }, "a list of names");
+  }
+
+  /**
+   * Records the keys the file has but no setting read
+   */
+  rejectUnknownKeys(): void {
+    const visit = (value: unknown, prefix: string) => {
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        const dotted = prefix === "" ? key : `${prefix}.${key}`;
+        const isSection = typeof child === "object" && child !== null && !Array.isArray(child);
+        if (this.known.has(dotted)) {
+          continue;
+        }
+        if (isSection && [...this.known].some((known) => known.startsWith(`${dotted}.`))) {
+          visit(child, dotted);
+        } else {
+          this.problems.push(`${this.source}: unknown setting "${dotted}"`);
+        }
+      }
+    };
+    visit(this.data, "");
+  }
+
+  /**
+   * Reads a setting from the environment, then the file, then the default
+   *
+   * @param parse - Returns the parsed value, or undefined if it is invalid
+   * @param expected - What a valid value looks like, for the problem report
+   */
+  private read<T>(key: string, name: string, fallback: T, parse: (value: unknown) => T | undefined, expected: string): T {
+    this.known.add(key);
+
+    const fromEnv = this.env[name];
+    const fromFile = key.split(".").reduce<unknown>(
+      (value, part) => (typeof value === "object" && value !== null ? (value as Record<string, unknown>)[part] : undefined),
+      this.data
+    );
+
+    const [raw, origin] =
+      fromEnv !== undefined ? [fromEnv, name] : fromFile !== undefined ? [fromFile, `${this.source}: ${key}`] : [undefined, ""];
+    if (raw === undefined) {
+      return fallback;
+    }
+
+    const value = parse(raw);
+    if (value === undefined) {
+      this.problems.push(`${origin} is ${JSON.stringify(raw)}; expected ${expected}`);
+      return fallback;
+    }
+    return value;
+  }
+}
+
+/**
+ * Converts a setting to a number (environment variables are strings)
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,114 @@
+/**
+ * Currencies and money formatting
+ *
+ * This module knows the currencies Stooq quotes instruments in, including
+ * the minor units some exchanges quote in (London quotes in pence, "GBX"),
+ * and formats prices for display. It has no dependencies, so the web page
+ * uses it too.
+ */
+
+/**
+ * ISO 4217 codes of the currencies prices can be quoted in or converted to
+ */
+export const CURRENCIES = [
+  "USD", "EUR", "GBP", "JPY", "CHF", "PLN", "HUF", "HKD",
+  "CAD", "AUD", "NZD", "SEK", "NOK", "DKK", "CZK", "CNY",
+] as const;
+
+/**
+ * Minor units prices are quoted in, keyed by their code
+ *
+ * @property major - The currency the unit is a fraction of
+ * @property factor - Minor units per unit of the major currency
+ * @property suffix - Sign written after amounts (e.g., "p" for pence)
+ */
+const MINOR_UNITS: Record<string, { major: string; factor: number; suffix: string }> = {
+  GBX: { major: "GBP", factor: 100, suffix: "p" },
+};
+
+/**
+ * Normalizes a currency code, e.g. "eur" to "EUR"
+ *
+ * "GBp", the other common spelling of pence, becomes "GBX".
+ *
+ * @param code - The code as entered
+ * @returns The normalized code
+ * @throws Error if the currency is not supported
+ */
+export function normalizeCurrency(code: string): string {
+  const trimmed = code.trim();
+  const normalized = trimmed === "GBp" ? "GBX" : trimmed.toUpperCase();
+  if (!isCurrency(normalized)) {
+    throw new Error(`Unsupported currency "${code}". Expected one of ${[...CURRENCIES, ...Object.keys(MINOR_UNITS)].join(", ")}`);
+  }
+  return normalized;
+}
+
+/**
+ * Whether a (normalized) code is a supported currency or minor unit
+ */
+export function isCurrency(code: string): boolean {
+  return (CURRENCIES as readonly string[]).includes(code) || code in MINOR_UNITS;
+}
+
+/**
+ * Returns the major currency of a code and how many of the code make one of it
+ *
+ * @param code - A normalized currency code (e.g., "GBX")
+ * @returns E.g., { currency: "GBP", factor: 100 } for GBX, { currency: "USD", factor: 1 } for USD
+ */
+export function majorUnit(code: string): { currency: string; factor: number } {
+  const minor = MINOR_UNITS[code];
+  return minor !== undefined ? { currency: minor.major, factor: minor.factor } : { currency: code, factor: 1 };
+}
+
+/**
+ * Splits a Stooq currency pair symbol such as "eurusd" into its currencies
+ *
+ * @param symbol - The symbol
+ * @returns The base and quote currency, or null if the symbol is not a currency pair
+ */
+export function currencyPair(symbol: string): { base: string; quote: string } | null {
+  const match = /^([a-z]{3})([a-z]{3})$/i.exec(symbol.trim());
+  if (match === null) {
+    return null;
+  }
+
+  const base = match[1]!.toUpperCase();
+  const quote = match[2]!.toUpperCase();
+  const known = CURRENCIES as readonly string[];
+  return known.includes(base) && known.includes(quote) && base !== quote ? { base, quote } : null;
+}
+
+/**
+ * Formats an amount of money for display
+ *
+ * Amounts get the currency's usual number of decimals; amounts below 10 get
+ * up to four when they need them (e.g., exchange rates), and currencies
+ * without decimals (e.g., JPY) get up to two for fractional prices. Minor
+ * units are written with their suffix ("1,234.50p"); amounts without a known
+ * currency are plain numbers.
+ *
+ * @param amount - The amount
+ * @param currency - Its currency code, or null if unknown
+ * @param locale - The locale to format for (defaults to the runtime's)
+ * @returns The formatted amount, e.g. "$1,234.56" or "1.234,56 €"
+ */
+export function formatMoney(amount: number, currency: string | null, locale?: string): string {
+  const minor = currency !== null ? MINOR_UNITS[currency] : undefined;
+  const maxDigits = (digits: number) => Math.max(digits, Math.abs(amount) < 10 ? 4 : 2);
+
+  if (currency === null || minor !== undefined) {
+    const number = new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: maxDigits(2) }).format(amount);
+    return minor !== undefined ? `${number}${minor.suffix}` : number;
+  }
+
+  const format = new Intl.NumberFormat(locale, { style: "currency", currency });
+  const digits = format.resolvedOptions().minimumFractionDigits ?? 2;
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: maxDigits(digits),
+  }).format(amount);
+}
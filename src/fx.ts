@@ -0,0 +1,168 @@
+/**
+ * Currency conversion
+ *
+ * This module works out which currency an instrument is quoted in and
+ * converts between currencies with the exchange rates Stooq quotes as
+ * currency pairs (e.g., "eurusd": how many US dollars one euro buys).
+ *
+ * Pairs Stooq does not quote are derived from the inverse pair or, failing
+ * that, crossed through the US dollar. Minor units such as pence (GBX) are
+ * converted through their major currency.
+ */
+
+import { currencyPair, majorUnit, normalizeCurrency } from "./currency.js";
+import { exchangeForSymbol } from "./markets.js";
+import type { QuoteProvider } from "./provider.js";
+import { NoData, QuoteError } from "./stooq.js";
+
+/**
+ * An exchange rate
+ *
+ * @property from - The currency converted from
+ * @property to - The currency converted to
+ * @property rate - Units of `to` per unit of `from`
+ * @property asOf - Timestamp of the quote the rate comes from (the older one for
+ *   crossed rates), or null for a currency converted to itself
+ */
+export type FxRate = {
+  from: string;
+  to: string;
+  rate: number;
+  asOf: string | null;
+};
+
+/**
+ * Currency all rates are crossed through when Stooq has no direct pair
+ */
+const CROSS_CURRENCY = "USD";
+
+/**
+ * Returns the currency a symbol is quoted in
+ *
+ * Currency pairs are quoted in their second currency; other symbols in the
+ * currency of their exchange (see markets.ts), which is "GBX" (pence) for London.
+ *
+ * @param symbol - The symbol (e.g., "vod.uk", "eurusd")
+ * @returns The currency code, or null if unknown (e.g., indices)
+ */
+export function quoteCurrency(symbol: string): string | null {
+  const pair = currencyPair(symbol);
+  if (pair !== null) {
+    return pair.quote;
+  }
+  return exchangeForSymbol(symbol)?.currency ?? null;
+}
+
+/**
+ * Looks up and caches exchange rates
+ */
+export class FxRates {
+  private readonly provider: QuoteProvider;
+  private readonly ttlMs: number;
+  private readonly cache = new Map<string, { rate: FxRate; expiresAt: number }>();
+
+  /**
+   * @param provider - Where to fetch currency pair quotes from
+   * @param ttlMs - How long a fetched rate is reused, in milliseconds (default: 60 seconds)
+   */
+  constructor(provider: QuoteProvider, ttlMs = 60_000) {
+    this.provider = provider;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Returns the rate between two currencies
+   *
+   * @param from - The currency to convert from (e.g., "GBX")
+   * @param to - The currency to convert to (e.g., "EUR")
+   * @returns A promise that resolves to the rate
+   * @throws Error if a currency is not supported
+   * @throws NoData if Stooq has no rate for the currencies
+   * @throws UpstreamHttpError or Timeout if the rate cannot be fetched
+   */
+  async rate(from: string, to: string): Promise<FxRate> {
+    const source = majorUnit(normalizeCurrency(from));
+    const target = majorUnit(normalizeCurrency(to));
+    const major = await this.majorRate(source.currency, target.currency);
+
+    return {
+      from: normalizeCurrency(from),
+      to: normalizeCurrency(to),
+      rate: (major.rate / source.factor) * target.factor,
+      asOf: major.asOf,
+    };
+  }
+
+  /**
+   * Converts an amount between currencies
+   *
+   * @param amount - The amount
+   * @param from - Its currency
+   * @param to - The currency to convert to
+   * @returns A promise that resolves to the converted amount
+   * @throws Error, NoData, UpstreamHttpError or Timeout as for rate()
+   */
+  async convert(amount: number, from: string, to: string): Promise<number> {
+    return amount * (await this.rate(from, to)).rate;
+  }
+
+  /**
+   * Returns the rate between two major currencies, from the cache if fresh
+   */
+  private async majorRate(from: string, to: string): Promise<FxRate> {
+    if (from === to) {
+      return { from, to, rate: 1, asOf: null };
+    }
+
+    const key = `${from}${to}`;
+    const cached = this.cache.get(key);
+    if (cached !== undefined && cached.expiresAt > Date.now()) {
+      return cached.rate;
+    }
+
+    const rate = await this.lookup(from, to);
+    this.cache.set(key, { rate, expiresAt: Date.now() + this.ttlMs });
+    return rate;
+  }
+
+  /**
+   * Fetches a rate: the direct pair, else the inverse pair, else crossed through USD
+   */
+  private async lookup(from: string, to: string): Promise<FxRate> {
+    const direct = await this.pairClose(from, to);
+    if (direct !== null) {
+      return { from, to, rate: direct.close, asOf: direct.timestamp };
+    }
+
+    const inverse = await this.pairClose(to, from);
+    if (inverse !== null) {
+      return { from, to, rate: 1 / inverse.close, asOf: inverse.timestamp };
+    }
+
+    if (from !== CROSS_CURRENCY && to !== CROSS_CURRENCY) {
+      const first = await this.majorRate(from, CROSS_CURRENCY);
+      const second = await this.majorRate(CROSS_CURRENCY, to);
+      const asOf = [first.asOf, second.asOf].filter((t): t is string => t !== null).sort()[0] ?? null;
+      return { from, to, rate: first.rate * second.rate, asOf };
+    }
+
+    throw new NoData(`${from}${to}`.toLowerCase(), `No exchange rate available for ${from}/${to}`);
+  }
+
+  /**
+   * Fetches the latest quote of a currency pair
+   *
+   * @returns The quote, or null if Stooq does not quote the pair; other errors are thrown
+   */
+  private async pairClose(from: string, to: string): Promise<{ close: number; timestamp: string } | null> {
+    try {
+      const quote = await this.provider.fetchQuote(`${from}${to}`.toLowerCase());
+      return quote.close > 0 ? quote : null;
+    } catch (error) {
+      if (error instanceof QuoteError && (error.code === "SYMBOL_NOT_FOUND" || error.code === "NO_DATA")) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Fetches historical price data from Stooq.com
+ *
+ * This module downloads Stooq's historical CSV for a symbol and parses it
+ * into typed daily, weekly or monthly price bars.
+ */
+
+import type { QuoteProvider } from "./provider.js";
+import {
+  fetchUpstream,
+  NoData,
+  ParseError,
+  suggestSymbols,
+  SymbolNotFound,
+  upstreamUrl,
+  type Quote,
+  type UpstreamOptions,
+} from "./stooq.js";
+
+/**
+ * Bar interval supported by Stooq's historical download
+ * - "d": Daily bars
+ * - "w": Weekly bars
+ * - "m": Monthly bars
+ */
+export type Interval = "d" | "w" | "m";
+
+/**
+ * A single historical price bar
+ *
+ * @property date - The bar date (YYYY-MM-DD); for weekly and monthly bars, the last trading day
+ * @property open - The opening price
+ * @property high - The highest price
+ * @property low - The lowest price
+ * @property close - The closing price
+ * @property volume - The traded volume, or null if Stooq has none (e.g., for indices)
+ */
+export type Bar = {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+};
+
+/**
+ * Options for fetching historical data
+ *
+ * @property from - First date to include (Date or "YYYY-MM-DD"); defaults to the earliest available
+ * @property to - Last date to include (Date or "YYYY-MM-DD"); defaults to the latest available
+ * @property interval - Bar interval; defaults to daily
+ */
+export type HistoryOptions = {
+  from?: Date | string;
+  to?: Date | string;
+  interval?: Interval;
+};
+
+/**
+ * Fetches historical price bars for a symbol from Stooq.com
+ *
+ * @param symbol - The stock symbol to fetch (e.g., "aapl.us")
+ * @param options - The date range and interval to fetch
+ * @param upstream - Request options (timeout)
+ * @returns A promise that resolves to the bars in ascending date order
+ * @throws Error if the symbol is empty or the options are invalid
+ * @throws SymbolNotFound, NoData or ParseError if there is no usable history (see parseHistoryCsv)
+ * @throws UpstreamHttpError, Timeout or DailyLimitExceeded if the request fails
+ */
+export async function fetchHistory(
+  symbol: string,
+  options: HistoryOptions = {},
+  upstream: UpstreamOptions = {}
+): Promise<Bar[]> {
+  // Validate that symbol is provided
+  if (!symbol || symbol.trim().length === 0) {
+    throw new Error("Symbol cannot be empty");
+  }
+
+  const interval = options.interval ?? "d";
+  if (interval !== "d" && interval !== "w" && interval !== "m") {
+    throw new Error(`Invalid interval "${interval}". Expected "d", "w" or "m"`);
+  }
+
+  const from = options.from !== undefined ? toStooqDate(options.from, "from") : null;
+  const to = options.to !== undefined ? toStooqDate(options.to, "to") : null;
+
+  if (from !== null && to !== null && from > to) {
+    throw new Error(`Invalid date range: from (${options.from}) is after to (${options.to})`);
+  }
+
+  // Construct the URL for downloading the historical CSV from Stooq
+  // The parameters: s=symbol, i=interval, d1/d2=date range (YYYYMMDD)
+  let url = upstreamUrl(upstream, `/q/d/l/?s=${encodeURIComponent(symbol.trim())}&i=${interval}`);
+  if (from !== null) {
+    url += `&d1=${from}`;
+  }
+  if (to !== null) {
+    url += `&d2=${to}`;
+  }
+
+  // Fetch the CSV data from the API
+  const csvText = await fetchUpstream(url, `history for ${symbol}`, symbol, upstream);
+
+  return parseHistoryCsv(csvText, symbol);
+}
+
+/**
+ * Parses a Stooq historical CSV into price bars
+ *
+ * @param csvText - The CSV text (header: Date,Open,High,Low,Close[,Volume])
+ * @param symbol - The symbol being parsed (used in error messages)
+ * @returns The bars in ascending date order
+ * @throws SymbolNotFound if there is no data and the symbol looks mistyped (e.g., no exchange suffix)
+ * @throws NoData if there is no data otherwise (e.g., an empty date range)
+ * @throws ParseError if the header or a row is malformed
+ */
+export function parseHistoryCsv(csvText: string, symbol: string): Bar[] {
+  // Stooq answers "No data" for unknown symbols or empty ranges
+  if (!csvText || csvText.trim().length === 0 || csvText.trim() === "No data") {
+    const suggestions = suggestSymbols(symbol);
+    if (suggestions.length > 0) {
+      throw new SymbolNotFound(symbol, suggestions);
+    }
+    throw new NoData(symbol, `No historical data available for symbol: ${symbol}. The symbol may be invalid.`);
+  }
+
+  const [headerLine, ...dataLines] = csvText
+    .trim()
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0);
+
+  // Parse the header row to find column indices
+  const header = (headerLine ?? "").split(",").map((column) => column.trim());
+  const dateIndex = header.indexOf("Date");
+  const openIndex = header.indexOf("Open");
+  const highIndex = header.indexOf("High");
+  const lowIndex = header.indexOf("Low");
+  const closeIndex = header.indexOf("Close");
+  const volumeIndex = header.indexOf("Volume");
+
+  // Validate that all required columns exist in the header
+  if (dateIndex === -1 || openIndex === -1 || highIndex === -1 || lowIndex === -1 || closeIndex === -1) {
+    throw new ParseError(
+      `Invalid CSV header format for symbol: ${symbol}. Expected columns: Date, Open, High, Low, Close`,
+      symbol
+    );
+  }
+
+  const bars = dataLines.map((line, index): Bar => {
+    const row = line.split(",");
+    const rowNumber = index + 2;
+
+    // Parse a required price column, reporting the row on failure
+    const price = (columnIndex: number, field: string): number => {
+      const value = parseFloat(row[columnIndex] ?? "");
+      if (isNaN(value)) {
+        throw new ParseError(`Invalid ${field} "${row[columnIndex]}" on row ${rowNumber} for symbol: ${symbol}`, symbol);
+      }
+      return value;
+    };
+
+    const date = row[dateIndex]?.trim() ?? "";
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new ParseError(`Invalid date "${date}" on row ${rowNumber} for symbol: ${symbol}`, symbol);
+    }
+
+    const volume = volumeIndex === -1 ? NaN : parseFloat(row[volumeIndex] ?? "");
+
+    return {
+      date,
+      open: price(openIndex, "open"),
+      high: price(highIndex, "high"),
+      low: price(lowIndex, "low"),
+      close: price(closeIndex, "close"),
+      volume: isNaN(volume) ? null : volume,
+    };
+  });
+
+  // Stooq already returns ascending dates, but don't rely on it
+  return bars.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Figures of the sessions before a quote's date
+ *
+ * @property previousClose - Close of the last session before the date, or null if unknown
+ * @property averageVolume - Average daily volume of the sessions before the date, or null if unknown
+ */
+export type SessionReference = {
+  previousClose: number | null;
+  averageVolume: number | null;
+};
+
+/**
+ * Looks up the previous close and average volume before a quote's date
+ *
+ * Quotes carry neither, so they are taken from daily history. Nothing is
+ * cached here; callers cache successful lookups per symbol and quote date.
+ *
+ * @param provider - Where to fetch history from
+ * @param quote - The latest quote
+ * @param sessions - Number of past sessions averaged for the volume (default: 1)
+ * @returns A promise that resolves to the figures
+ * @throws QuoteError if the history cannot be fetched
+ */
+export async function fetchSessionReference(
+  provider: QuoteProvider,
+  quote: Quote,
+  sessions = 1
+): Promise<SessionReference> {
+  // Calendar days for the sessions needed, plus slack for weekends and holidays
+  const from = new Date(`${quote.date}T00:00:00Z`);
+  from.setUTCDate(from.getUTCDate() - Math.ceil(sessions * 1.5) - 14);
+
+  const bars = (await provider.fetchHistory(quote.symbol, { from, interval: "d" })).filter(
+    (bar) => bar.date < quote.date
+  );
+
+  const volumes = bars
+    .slice(-sessions)
+    .map((bar) => bar.volume)
+    .filter((volume): volume is number => volume !== null);
+
+  return {
+    previousClose: bars[bars.length - 1]?.close ?? null,
+    averageVolume: volumes.length > 0 ? volumes.reduce((sum, volume) => sum + volume, 0) / volumes.length : null,
+  };
+}
+
+/**
+ * Previous closes already looked up, per symbol and quote date
+ */
+const previousCloses = new Map<string, { date: string; close: number | null }>();
+
+/**
+ * Returns the close of the session before a quote's date
+ *
+ * The result is cached until the quote's date changes, so day changes cost
+ * one history request per symbol and session. Failed lookups are not
+ * cached, so the next call tries again.
+ *
+ * @param provider - Where to fetch history from
+ * @param quote - The latest quote
+ * @returns A promise that resolves to the previous close, or null if unknown
+ */
+export async function fetchPreviousClose(provider: QuoteProvider, quote: Quote): Promise<number | null> {
+  const key = quote.symbol.toLowerCase();
+  const cached = previousCloses.get(key);
+  if (cached !== undefined && cached.date === quote.date) {
+    return cached.close;
+  }
+
+  let close: number | null;
+  try {
+    close = (await fetchSessionReference(provider, quote)).previousClose;
+  } catch {
+    // Leave it unknown for now
+    return null;
+  }
+
+  previousCloses.set(key, { date: quote.date, close });
+  return close;
+}
+
+/**
+ * Serializes price bars to CSV in Stooq's historical format
+ *
+ * @param bars - The bars to serialize
+ * @returns The CSV text including a header row
+ */
+export function barsToCsv(bars: Bar[]): string {
+  const lines = ["Date,Open,High,Low,Close,Volume"];
+  for (const bar of bars) {
+    lines.push(
+      [bar.date, bar.open, bar.high, bar.low, bar.close, bar.volume ?? ""].join(",")
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Aggregates daily bars into weekly or monthly bars
+ *
+ * Weeks start on Monday. Each aggregated bar is dated with the last trading
+ * day it contains, matching Stooq's own weekly and monthly downloads.
+ *
+ * @param bars - Daily bars in ascending date order
+ * @param interval - The target interval ("d" returns the bars unchanged)
+ * @returns The aggregated bars in ascending date order
+ */
+export function aggregateBars(bars: Bar[], interval: Interval): Bar[] {
+  if (interval === "d") {
+    return bars;
+  }
+
+  const result: Bar[] = [];
+  let currentKey: string | null = null;
+
+  for (const bar of bars) {
+    const key = interval === "m" ? bar.date.slice(0, 7) : weekStart(bar.date);
+    const last = result[result.length - 1];
+
+    if (key !== currentKey || last === undefined) {
+      // First bar of a new period
+      result.push({ ...bar });
+      currentKey = key;
+      continue;
+    }
+
+    // Extend the current period with this bar
+    last.date = bar.date;
+    last.high = Math.max(last.high, bar.high);
+    last.low = Math.min(last.low, bar.low);
+    last.close = bar.close;
+    last.volume = last.volume === null && bar.volume === null ? null : (last.volume ?? 0) + (bar.volume ?? 0);
+  }
+
+  return result;
+}
+
+/**
+ * Returns the Monday of the week containing the given date
+ *
+ * @param date - The date (YYYY-MM-DD)
+ * @returns The Monday of that week (YYYY-MM-DD)
+ */
+function weekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  day.setUTCDate(day.getUTCDate() - daysSinceMonday);
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a string is a YYYY-MM-DD date that exists
+ *
+ * The date must survive a round trip through Date, so 2024-02-30 (which Date
+ * rolls over to 2024-03-01) and 2024-13-01 are rejected.
+ *
+ * @param value - The string to check
+ * @returns True for a valid calendar date
+ */
+export function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Converts a Date or "YYYY-MM-DD" string to Stooq's YYYYMMDD format
+ *
+ * @param value - The date to convert
+ * @param name - The option name (used in error messages)
+ * @returns The date as YYYYMMDD
+ * @throws Error if the date is invalid
+ */
+function toStooqDate(value: Date | string, name: string): string {
+  const date = typeof value === "string" ? new Date(`${value}T00:00:00Z`) : value;
+
+  if (isNaN(date.getTime()) || (typeof value === "string" && !isCalendarDate(value))) {
+    throw new Error(`Invalid ${name} date "${value}". Expected YYYY-MM-DD`);
+  }
+
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
@@ -2,11 +2,19 @@
  * Stock Price Alert CLI
  * 
  * This is the main entry point for the stock price alert application.
- * It provides a command-line interface for setting up and running price alerts.
+ * Given a subcommand (see cli.ts) it runs non-interactively; without
+ * arguments it starts an interactive wizard for a single price alert.
  */
 
 import * as readline from "node:readline";
+import * as path from "node:path";
 import { runAlert, type AlertConfig, type Direction } from "./alert.js";
+import { loadConfig } from "./config.js";
+import { formatMoney } from "./currency.js";
+import { createProvider, type QuoteProvider } from "./provider.js";
+import { QuoteError } from "./stooq.js";
+import { SymbolDirectory, verifySymbol } from "./symbols.js";
+import { runCli } from "./cli.js";
 
 /**
  * Creates a readline interface for user input
@@ -37,22 +45,40 @@ function askQuestion(rl: readline.Interface, question: string): Promise<string>
 /**
  * Prompts the user for a stock symbol and validates it
  * 
+ * Input such as "AAPL" or "VOD.L" is resolved to the Stooq symbol, which is
+ * then checked by fetching a quote.
+ * 
  * @param rl - The readline interface
+ * @param directory - The symbol directory to resolve input with
+ * @param provider - The provider to check the symbol with
  * @returns A promise that resolves to a valid stock symbol
  */
-async function promptSymbol(rl: readline.Interface): Promise<string> {
+async function promptSymbol(rl: readline.Interface, directory: SymbolDirectory, provider: QuoteProvider): Promise<string> {
   while (true) {
-    const symbol = await askQuestion(
+    const input = await askQuestion(
       rl,
-      "Enter stock symbol (e.g., aapl.us): "
+      `Enter stock symbol (e.g., AAPL or aapl.${directory.defaultMarket}): `
     );
 
     // Validate that symbol is not empty
-    if (symbol.length === 0) {
+    if (input.length === 0) {
       console.log("❌ Symbol cannot be empty. Please try again.\n");
       continue;
     }
 
+    const symbol = directory.resolve(input);
+    try {
+      const quote = await verifySymbol(directory, provider, symbol);
+      console.log(`✔ ${symbol}${quote.name !== null ? ` (${quote.name})` : ""}\n`);
+    } catch (error) {
+      // Unknown symbols are asked for again; if Stooq is down, the alert retries anyway
+      if (error instanceof QuoteError && (error.code === "SYMBOL_NOT_FOUND" || error.code === "NO_DATA")) {
+        console.log(`❌ ${error.message}\n`);
+        continue;
+      }
+      console.log(`⚠️  Could not check ${symbol}: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+
     return symbol;
   }
 }
@@ -111,21 +137,22 @@ async function promptDirection(rl: readline.Interface): Promise<Direction> {
 
 /**
  * Prompts the user for polling interval and validates it
- * Uses a default value of 10 seconds if input is empty
+ * Uses the configured default interval if input is empty
  * 
  * @param rl - The readline interface
+ * @param defaultSeconds - The interval to use if input is empty
  * @returns A promise that resolves to a valid polling interval in seconds
  */
-async function promptInterval(rl: readline.Interface): Promise<number> {
+async function promptInterval(rl: readline.Interface, defaultSeconds: number): Promise<number> {
   while (true) {
     const input = await askQuestion(
       rl,
-      "Enter polling interval in seconds (default: 10): "
+      `Enter polling interval in seconds (default: ${defaultSeconds}): `
     );
 
-    // If empty, use default value of 10
+    // If empty, use the default
     if (input.length === 0) {
-      return 10;
+      return defaultSeconds;
     }
 
     // Try to parse the input as a number
@@ -177,11 +204,16 @@ async function main(): Promise<void> {
   const rl = createReadlineInterface();
 
   try {
+    // Read the settings and select the quote provider (live Stooq data unless configured otherwise)
+    const settings = await loadConfig();
+    const provider = await createProvider(settings.provider);
+    const directory = await SymbolDirectory.open(path.join(settings.dataDir, "symbols.json"), settings.symbols);
+
     // Prompt for all required inputs
-    const symbol = await promptSymbol(rl);
+    const symbol = await promptSymbol(rl, directory, provider);
     const target = await promptTargetPrice(rl);
     const direction = await promptDirection(rl);
-    const intervalSeconds = await promptInterval(rl);
+    const intervalSeconds = await promptInterval(rl, settings.alerts.defaultIntervalMs / 1000);
 
     // Convert interval from seconds to milliseconds
     const intervalMs = intervalSeconds * 1000;
@@ -203,7 +235,7 @@ async function main(): Promise<void> {
     console.log("Alert Started!");
     console.log("=".repeat(50));
     console.log(`Symbol: ${symbol}`);
-    console.log(`Target: $${target.toFixed(2)}`);
+    console.log(`Target: ${formatMoney(target, directory.currency(symbol))}`);
     console.log(`Direction: ${direction}`);
     console.log(`Polling interval: ${intervalSeconds} seconds`);
     console.log("\nCommands:");
@@ -217,7 +249,7 @@ async function main(): Promise<void> {
 
     // Start the alert loop
     // This will run until the price crosses the threshold or user quits
-    await runAlert(config);
+    await runAlert(config, provider);
 
     // If we get here, the alert was triggered (not quit)
     console.log("\n✅ Alert completed successfully!");
@@ -235,9 +267,15 @@ async function main(): Promise<void> {
   }
 }
 
-// Run the main function
-main().catch((error) => {
-  console.error("Fatal error:", error);
-  process.exit(1);
-});
+// Run a subcommand if one was given, otherwise the interactive wizard
+const args = process.argv.slice(2);
+
+if (args.length > 0) {
+  runCli(args).then((code) => process.exit(code));
+} else {
+  main().catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
+}
 
@@ -0,0 +1,613 @@
+/**
+ * Technical indicators
+ *
+ * This module computes SMA, EMA, RSI, MACD, Bollinger Bands, ATR and VWAP
+ * over price bar series. Every indicator is a stream that is fed one bar at
+ * a time, so a series computed from history can be kept up to date with
+ * live ticks: closed bars are committed with update(), while the session's
+ * still-forming bar is evaluated with preview() without changing the stream.
+ *
+ * Like conditions.ts, it has no Node or DOM dependencies so the alert
+ * runner, the server and the browser can all use it.
+ */
+
+/**
+ * The bar fields the indicators use
+ * Structurally compatible with history.ts's Bar, and easy to build from a quote.
+ */
+export type PriceBar = {
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+};
+
+/**
+ * An indicator fed one value at a time
+ *
+ * Outputs are null until the indicator has seen enough input (e.g., the
+ * first period - 1 bars of an SMA).
+ */
+export interface IndicatorStream<I, O> {
+  /**
+   * Adds a closed bar and returns the indicator's new value
+   */
+  update(input: I): O | null;
+
+  /**
+   * Returns the value the indicator would have if `input` were the next
+   * closed bar, without adding it (for a bar that is still forming)
+   */
+  preview(input: I): O | null;
+}
+
+/**
+ * Output of MACD
+ *
+ * @property macd - Fast EMA minus slow EMA
+ * @property signal - EMA of the MACD line, or null while it warms up
+ * @property histogram - MACD minus signal, or null while the signal warms up
+ */
+export type MacdValue = {
+  macd: number;
+  signal: number | null;
+  histogram: number | null;
+};
+
+/**
+ * Output of Bollinger Bands
+ */
+export type BollingerValue = {
+  middle: number;
+  upper: number;
+  lower: number;
+};
+
+/**
+ * An indicator producing one number per bar, as used by alert conditions
+ *
+ * - "sma" / "ema": Moving average of closes over `period` bars
+ * - "rsi": Wilder's relative strength index over `period` bars (0-100)
+ * - "atr": Wilder's average true range over `period` bars
+ * - "vwap": Volume-weighted average of typical prices over `period` bars,
+ *   or over the whole series when `period` is omitted
+ * - "macd": One `line` of MACD(fast, slow, signal) (default: the MACD line)
+ * - "bollinger": One `band` of the Bollinger Bands over `period` bars with
+ *   `stdDev` standard deviations (default: the upper band)
+ */
+export type IndicatorSpec =
+  | { indicator: "sma" | "ema" | "rsi" | "atr"; period: number }
+  | { indicator: "vwap"; period?: number }
+  | { indicator: "macd"; fast?: number; slow?: number; signal?: number; line?: keyof MacdValue }
+  | { indicator: "bollinger"; period?: number; stdDev?: number; band?: keyof BollingerValue };
+
+/**
+ * Indicator names accepted in an IndicatorSpec
+ */
+export const INDICATOR_NAMES = ["sma", "ema", "rsi", "atr", "vwap", "macd", "bollinger"] as const;
+
+/**
+ * Default MACD periods and Bollinger settings
+ */
+const MACD_DEFAULTS = { fast: 12, slow: 26, signal: 9 };
+const BOLLINGER_DEFAULTS = { period: 20, stdDev: 2 };
+
+/**
+ * Simple moving average of the last `period` values
+ */
+export class Sma implements IndicatorStream<number, number> {
+  private window: number[] = [];
+
+  constructor(private readonly period: number) {
+    requirePeriod(period);
+  }
+
+  update(value: number): number | null {
+    this.window = [...this.window, value].slice(-this.period);
+    return this.average(this.window);
+  }
+
+  preview(value: number): number | null {
+    return this.average([...this.window, value].slice(-this.period));
+  }
+
+  private average(window: number[]): number | null {
+    return window.length < this.period ? null : window.reduce((sum, v) => sum + v, 0) / this.period;
+  }
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export class Ema implements IndicatorStream<number, number> {
+  private readonly k: number;
+  private count = 0;
+  private seedSum = 0;
+  private value: number | null = null;
+
+  constructor(private readonly period: number) {
+    requirePeriod(period);
+    this.k = 2 / (period + 1);
+  }
+
+  update(value: number): number | null {
+    const next = this.step(value);
+    this.count += 1;
+    this.seedSum += this.count <= this.period ? value : 0;
+    this.value = next;
+    return next;
+  }
+
+  preview(value: number): number | null {
+    return this.step(value);
+  }
+
+  private step(value: number): number | null {
+    if (this.value !== null) {
+      return value * this.k + this.value * (1 - this.k);
+    }
+    return this.count + 1 === this.period ? (this.seedSum + value) / this.period : null;
+  }
+}
+
+/**
+ * Wilder's relative strength index
+ */
+export class Rsi implements IndicatorStream<number, number> {
+  private previous: number | null = null;
+  private count = 0;
+  private gain = 0;
+  private loss = 0;
+
+  constructor(private readonly period: number) {
+    requirePeriod(period);
+  }
+
+  update(value: number): number | null {
+    const next = this.step(value);
+    if (this.previous !== null) {
+      this.count += 1;
+      this.gain = next.gain;
+      this.loss = next.loss;
+    }
+    this.previous = value;
+    return next.rsi;
+  }
+
+  preview(value: number): number | null {
+    return this.step(value).rsi;
+  }
+
+  /**
+   * Averages gains and losses over the first `period` changes, then smooths them
+   */
+  private step(value: number): { gain: number; loss: number; rsi: number | null } {
+    if (this.previous === null) {
+      return { gain: 0, loss: 0, rsi: null };
+    }
+
+    const change = value - this.previous;
+    const up = Math.max(change, 0);
+    const down = Math.max(-change, 0);
+    const count = this.count + 1;
+
+    let gain: number;
+    let loss: number;
+    if (count < this.period) {
+      // Still summing the first changes
+      return { gain: this.gain + up, loss: this.loss + down, rsi: null };
+    } else if (count === this.period) {
+      gain = (this.gain + up) / this.period;
+      loss = (this.loss + down) / this.period;
+    } else {
+      gain = (this.gain * (this.period - 1) + up) / this.period;
+      loss = (this.loss * (this.period - 1) + down) / this.period;
+    }
+
+    const rsi = loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss);
+    return { gain, loss, rsi };
+  }
+}
+
+/**
+ * Moving average convergence/divergence
+ */
+export class Macd implements IndicatorStream<number, MacdValue> {
+  private readonly fast: Ema;
+  private readonly slow: Ema;
+  private readonly signal: Ema;
+
+  constructor(
+    fast: number = MACD_DEFAULTS.fast,
+    slow: number = MACD_DEFAULTS.slow,
+    signal: number = MACD_DEFAULTS.signal
+  ) {
+    if (!(fast < slow)) {
+      throw new Error("macd: fast period must be less than slow period");
+    }
+    this.fast = new Ema(fast);
+    this.slow = new Ema(slow);
+    this.signal = new Ema(signal);
+  }
+
+  update(value: number): MacdValue | null {
+    const fast = this.fast.update(value);
+    const slow = this.slow.update(value);
+    if (fast === null || slow === null) {
+      return null;
+    }
+    return this.combine(fast - slow, this.signal.update(fast - slow));
+  }
+
+  preview(value: number): MacdValue | null {
+    const fast = this.fast.preview(value);
+    const slow = this.slow.preview(value);
+    if (fast === null || slow === null) {
+      return null;
+    }
+    return this.combine(fast - slow, this.signal.preview(fast - slow));
+  }
+
+  private combine(macd: number, signal: number | null): MacdValue {
+    return { macd, signal, histogram: signal !== null ? macd - signal : null };
+  }
+}
+
+/**
+ * Bollinger Bands: SMA plus and minus a number of (population) standard deviations
+ */
+export class Bollinger implements IndicatorStream<number, BollingerValue> {
+  private window: number[] = [];
+
+  constructor(
+    private readonly period: number = BOLLINGER_DEFAULTS.period,
+    private readonly stdDev: number = BOLLINGER_DEFAULTS.stdDev
+  ) {
+    requirePeriod(period);
+    if (!(stdDev > 0)) {
+      throw new Error("bollinger: stdDev must be greater than 0");
+    }
+  }
+
+  update(value: number): BollingerValue | null {
+    this.window = [...this.window, value].slice(-this.period);
+    return this.bands(this.window);
+  }
+
+  preview(value: number): BollingerValue | null {
+    return this.bands([...this.window, value].slice(-this.period));
+  }
+
+  private bands(window: number[]): BollingerValue | null {
+    if (window.length < this.period) {
+      return null;
+    }
+    const middle = window.reduce((sum, v) => sum + v, 0) / this.period;
+    const deviation = Math.sqrt(window.reduce((sum, v) => sum + (v - middle) ** 2, 0) / this.period);
+    return { middle, upper: middle + this.stdDev * deviation, lower: middle - this.stdDev * deviation };
+  }
+}
+
+/**
+ * Wilder's average true range
+ */
+export class Atr implements IndicatorStream<PriceBar, number> {
+  private previousClose: number | null = null;
+  private count = 0;
+  private value = 0;
+
+  constructor(private readonly period: number) {
+    requirePeriod(period);
+  }
+
+  update(bar: PriceBar): number | null {
+    const next = this.step(bar);
+    this.count += 1;
+    this.value = next.value;
+    this.previousClose = bar.close;
+    return next.atr;
+  }
+
+  preview(bar: PriceBar): number | null {
+    return this.step(bar).atr;
+  }
+
+  /**
+   * Averages the first `period` true ranges, then smooths them
+   */
+  private step(bar: PriceBar): { value: number; atr: number | null } {
+    const range =
+      this.previousClose === null
+        ? bar.high - bar.low
+        : Math.max(bar.high - bar.low, Math.abs(bar.high - this.previousClose), Math.abs(bar.low - this.previousClose));
+    const count = this.count + 1;
+
+    if (count < this.period) {
+      return { value: this.value + range, atr: null };
+    }
+    const value =
+      count === this.period ? (this.value + range) / this.period : (this.value * (this.period - 1) + range) / this.period;
+    return { value, atr: value };
+  }
+}
+
+/**
+ * Volume-weighted average price of the bars' typical prices ((high + low + close) / 3)
+ *
+ * Anchored at the first bar unless a period is given, in which case it
+ * covers the last `period` bars. Bars without volume are skipped.
+ */
+export class Vwap implements IndicatorStream<PriceBar, number> {
+  private window: { value: number; volume: number }[] = [];
+
+  constructor(private readonly period?: number) {
+    if (period !== undefined) {
+      requirePeriod(period);
+    }
+  }
+
+  update(bar: PriceBar): number | null {
+    this.window = this.append(bar);
+    return this.average(this.window);
+  }
+
+  preview(bar: PriceBar): number | null {
+    return this.average(this.append(bar));
+  }
+
+  private append(bar: PriceBar): { value: number; volume: number }[] {
+    const window =
+      bar.volume !== null && bar.volume > 0
+        ? [...this.window, { value: ((bar.high + bar.low + bar.close) / 3) * bar.volume, volume: bar.volume }]
+        : this.window;
+    return this.period !== undefined ? window.slice(-this.period) : window;
+  }
+
+  private average(window: { value: number; volume: number }[]): number | null {
+    const volume = window.reduce((sum, entry) => sum + entry.volume, 0);
+    return volume > 0 ? window.reduce((sum, entry) => sum + entry.value, 0) / volume : null;
+  }
+}
+
+/**
+ * Builds the bar of a session that is still trading from its latest quote
+ *
+ * @param quote - The latest quote (fields the source did not report are null)
+ * @returns The forming bar, to pass to preview()
+ */
+export function sessionBar(quote: { high: number | null; low: number | null; close: number; volume: number | null }): PriceBar {
+  return {
+    high: Math.max(quote.high ?? quote.close, quote.close),
+    low: Math.min(quote.low ?? quote.close, quote.close),
+    close: quote.close,
+    volume: quote.volume,
+  };
+}
+
+/**
+ * Creates the stream of one indicator over bars, producing a single number per bar
+ *
+ * @param spec - The indicator and its parameters
+ * @returns The stream
+ * @throws Error if the spec is invalid
+ */
+export function createIndicator(spec: IndicatorSpec): IndicatorStream<PriceBar, number> {
+  validateIndicatorSpec(spec);
+
+  // Adapts a stream over closes (or with a richer output) to one number per bar
+  const adapt = <I, O>(
+    stream: IndicatorStream<I, O>,
+    input: (bar: PriceBar) => I,
+    output: (value: O) => number | null
+  ): IndicatorStream<PriceBar, number> => ({
+    update: (bar: PriceBar) => {
+      const value = stream.update(input(bar));
+      return value === null ? null : output(value);
+    },
+    preview: (bar: PriceBar) => {
+      const value = stream.preview(input(bar));
+      return value === null ? null : output(value);
+    },
+  });
+  const close = (bar: PriceBar) => bar.close;
+  const same = (value: number) => value;
+
+  switch (spec.indicator) {
+    case "sma":
+      return adapt(new Sma(spec.period), close, same);
+    case "ema":
+      return adapt(new Ema(spec.period), close, same);
+    case "rsi":
+      return adapt(new Rsi(spec.period), close, same);
+    case "atr":
+      return new Atr(spec.period);
+    case "vwap":
+      return new Vwap(spec.period);
+    case "macd": {
+      const line = spec.line ?? "macd";
+      return adapt(new Macd(spec.fast, spec.slow, spec.signal), close, (value) => value[line]);
+    }
+    case "bollinger": {
+      const band = spec.band ?? "upper";
+      return adapt(new Bollinger(spec.period, spec.stdDev), close, (value) => value[band]);
+    }
+  }
+}
+
+/**
+ * Computes an indicator over a whole series
+ *
+ * @param spec - The indicator and its parameters
+ * @param bars - The bars in ascending date order
+ * @returns One value per bar (null while the indicator warms up)
+ */
+export function computeIndicator(spec: IndicatorSpec, bars: PriceBar[]): (number | null)[] {
+  const stream = createIndicator(spec);
+  return bars.map((bar) => stream.update(bar));
+}
+
+/**
+ * Returns how many bars an indicator needs before its values settle
+ *
+ * Exponentially smoothed indicators (EMA, RSI, ATR, MACD) get several
+ * periods so the seed no longer dominates.
+ *
+ * @param spec - The indicator and its parameters
+ * @returns The number of bars of history to feed it
+ */
+export function indicatorLookback(spec: IndicatorSpec): number {
+  switch (spec.indicator) {
+    case "sma":
+      return spec.period;
+    case "ema":
+    case "rsi":
+    case "atr":
+      return spec.period * 4;
+    case "vwap":
+      return spec.period ?? 20;
+    case "macd":
+      return ((spec.slow ?? MACD_DEFAULTS.slow) + (spec.signal ?? MACD_DEFAULTS.signal)) * 3;
+    case "bollinger":
+      return spec.period ?? BOLLINGER_DEFAULTS.period;
+  }
+}
+
+/**
+ * Returns a short label for an indicator, also used as its key (e.g., "SMA(50)", "MACD(12,26,9) signal")
+ *
+ * @param spec - The indicator and its parameters
+ * @returns The label
+ */
+export function describeIndicator(spec: IndicatorSpec): string {
+  switch (spec.indicator) {
+    case "sma":
+    case "ema":
+    case "rsi":
+    case "atr":
+      return `${spec.indicator.toUpperCase()}(${spec.period})`;
+    case "vwap":
+      return spec.period !== undefined ? `VWAP(${spec.period})` : "VWAP";
+    case "macd": {
+      const fast = spec.fast ?? MACD_DEFAULTS.fast;
+      const slow = spec.slow ?? MACD_DEFAULTS.slow;
+      const signal = spec.signal ?? MACD_DEFAULTS.signal;
+      const line = spec.line ?? "macd";
+      return `MACD(${fast},${slow},${signal})${line !== "macd" ? ` ${line}` : ""}`;
+    }
+    case "bollinger": {
+      const period = spec.period ?? BOLLINGER_DEFAULTS.period;
+      const stdDev = spec.stdDev ?? BOLLINGER_DEFAULTS.stdDev;
+      return `Bollinger(${period},${stdDev}) ${spec.band ?? "upper"}`;
+    }
+  }
+}
+
+/**
+ * Validates an indicator spec
+ *
+ * @param spec - The spec to validate (may come from untrusted JSON)
+ * @throws Error describing the first problem found
+ */
+export function validateIndicatorSpec(spec: IndicatorSpec): void {
+  const name = (spec as { indicator?: unknown })?.indicator;
+  if (!INDICATOR_NAMES.includes(name as IndicatorSpec["indicator"])) {
+    throw new Error(`Unknown indicator "${name}". Expected one of ${INDICATOR_NAMES.join(", ")}`);
+  }
+
+  const periods = Object.entries(spec).filter(([key]) => ["period", "fast", "slow", "signal"].includes(key));
+  for (const [key, value] of periods) {
+    if (value !== undefined && !(Number.isInteger(value) && (value as number) > 0)) {
+      throw new Error(`${spec.indicator}: ${key} must be a positive integer`);
+    }
+  }
+
+  switch (spec.indicator) {
+    case "sma":
+    case "ema":
+    case "rsi":
+    case "atr":
+      if (spec.period === undefined) {
+        throw new Error(`${spec.indicator}: period is required`);
+      }
+      return;
+    case "macd":
+      if (spec.line !== undefined && !["macd", "signal", "histogram"].includes(spec.line)) {
+        throw new Error('macd: line must be "macd", "signal" or "histogram"');
+      }
+      if ((spec.fast ?? MACD_DEFAULTS.fast) >= (spec.slow ?? MACD_DEFAULTS.slow)) {
+        throw new Error("macd: fast period must be less than slow period");
+      }
+      return;
+    case "bollinger":
+      if (spec.band !== undefined && !["upper", "middle", "lower"].includes(spec.band)) {
+        throw new Error('bollinger: band must be "upper", "middle" or "lower"');
+      }
+      if (spec.stdDev !== undefined && !(typeof spec.stdDev === "number" && spec.stdDev > 0)) {
+        throw new Error("bollinger: stdDev must be greater than 0");
+      }
+      return;
+  }
+}
+
+/**
+ * Parses the compact indicator notation used in query strings
+ *
+ * Examples: "sma:50", "rsi:14", "vwap", "macd:12:26:9:signal", "bollinger:20:2:lower".
+ *
+ * @param text - The notation
+ * @returns The indicator spec
+ * @throws Error if the notation or the parameters are invalid
+ */
+export function parseIndicatorSpec(text: string): IndicatorSpec {
+  const [name, ...args] = text.trim().toLowerCase().split(":");
+  const numbers = args.filter((arg) => arg !== "" && !isNaN(Number(arg))).map(Number);
+  const word = args.find((arg) => arg !== "" && isNaN(Number(arg)));
+
+  let spec: IndicatorSpec;
+  switch (name) {
+    case "sma":
+    case "ema":
+    case "rsi":
+    case "atr":
+      spec = { indicator: name, period: numbers[0] ?? NaN };
+      break;
+    case "vwap":
+      spec = numbers[0] !== undefined ? { indicator: name, period: numbers[0] } : { indicator: name };
+      break;
+    case "macd": {
+      const [fast, slow, signal] = numbers;
+      spec = {
+        indicator: name,
+        ...(fast !== undefined ? { fast } : {}),
+        ...(slow !== undefined ? { slow } : {}),
+        ...(signal !== undefined ? { signal } : {}),
+        ...(word !== undefined ? { line: word as keyof MacdValue } : {}),
+      };
+      break;
+    }
+    case "bollinger": {
+      const [period, stdDev] = numbers;
+      spec = {
+        indicator: name,
+        ...(period !== undefined ? { period } : {}),
+        ...(stdDev !== undefined ? { stdDev } : {}),
+        ...(word !== undefined ? { band: word as keyof BollingerValue } : {}),
+      };
+      break;
+    }
+    default:
+      throw new Error(`Unknown indicator "${name}". Expected one of ${INDICATOR_NAMES.join(", ")}`);
+  }
+
+  validateIndicatorSpec(spec);
+  return spec;
+}
+
+/**
+ * Throws unless a period is a positive integer
+ */
+function requirePeriod(period: number): void {
+  if (!(Number.isInteger(period) && period > 0)) {
+    throw new Error("period must be a positive integer");
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * JSON file persistence helpers
+ *
+ * Shared by the local stores (alerts, portfolio, ...) that keep their data
+ * in a single JSON file.
+ */
+
+import { unlinkSync } from "node:fs";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import * as path from "node:path";
+
+/**
+ * Reads and parses a JSON file
+ *
+ * @param file - Path to the file
+ * @returns A promise that resolves to the parsed data, or null if the file does not exist
+ * @throws Error if the file cannot be read or is not valid JSON
+ */
+export async function readJsonFile(file: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  return JSON.parse(text);
+}
+
+/**
+ * Writes JSON files atomically and in order
+ *
+ * Writes go to a temporary file that is then renamed over the original, so
+ * a crash mid-write never leaves a truncated file behind. Writes are queued
+ * so concurrent changes never interleave.
+ */
+export class JsonFileWriter {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly file: string) {}
+
+  /**
+   * Writes a snapshot of the data
+   *
+   * @param data - The data to write (serialized immediately)
+   * @returns A promise that resolves once this snapshot is on disk
+   */
+  write(data: unknown): Promise<void> {
+    const snapshot = JSON.stringify(data, null, 2);
+
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(path.dirname(this.file), { recursive: true });
+        const temp = `${this.file}.${process.pid}.tmp`;
+        await writeFile(temp, snapshot + "\n", "utf8");
+        await rename(temp, this.file);
+      });
+
+    return this.writing;
+  }
+}
+
+/** File a running server keeps in its data directory, holding its process ID */
+const LOCK_FILE = "server.lock";
+
+/**
+ * Error thrown when another process (a running server) owns a data directory
+ *
+ * The stores keep their data in memory and save whole snapshots, so a second
+ * process writing the same files would lose its changes (or the server's) on
+ * the next save.
+ */
+export class DataDirLockedError extends Error {
+  /**
+   * @param dataDir - The locked data directory
+   * @param pid - Process ID of the owner
+   */
+  constructor(readonly dataDir: string, readonly pid: number) {
+    super(`A server (process ${pid}) is running on the data directory ${dataDir}`);
+    this.name = "DataDirLockedError";
+  }
+}
+
+/**
+ * Reads the process ID written to a data directory's lock file
+ *
+ * @param dataDir - The data directory
+ * @returns A promise that resolves to the process ID, or null if there is no (readable) lock
+ */
+async function lockPid(dataDir: string): Promise<number | null> {
+  let text: string;
+  try {
+    text = await readFile(path.join(dataDir, LOCK_FILE), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const pid = Number(text.trim());
+  return Number.isInteger(pid) && pid > 0 ? pid : null;
+}
+
+/**
+ * Reads the process ID of a live process that owns a data directory
+ *
+ * A lock left behind by a process that is no longer running (e.g., after a
+ * crash) or by this process does not count.
+ *
+ * @param dataDir - The data directory
+ * @returns A promise that resolves to the owner's process ID, or null if no other live process owns it
+ */
+async function lockOwner(dataDir: string): Promise<number | null> {
+  const pid = await lockPid(dataDir);
+  if (pid === null || pid === process.pid) {
+    return null;
+  }
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM" ? pid : null;
+  }
+  return pid;
+}
+
+/**
+ * Claims a data directory for this process until it exits
+ *
+ * Used by the server, so that the CLI (see assertDataDirUnlocked) and a
+ * second server do not write the files it keeps in memory.
+ *
+ * @param dataDir - The data directory
+ * @returns A promise that resolves once the lock file is written
+ * @throws DataDirLockedError if another live process owns the directory
+ */
+export async function lockDataDir(dataDir: string): Promise<void> {
+  const file = path.join(dataDir, LOCK_FILE);
+  await mkdir(dataDir, { recursive: true });
+
+  // Creating the file fails if it exists, so two servers starting together cannot both claim it
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await writeFile(file, `${process.pid}\n`, { encoding: "utf8", flag: "wx" });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    const owner = await lockOwner(dataDir);
+    if (owner !== null || attempt > 0) {
+      throw new DataDirLockedError(dataDir, owner ?? (await lockPid(dataDir)) ?? 0);
+    }
+    // Left behind by a process that is no longer running
+    await rm(file, { force: true });
+  }
+
+  process.once("exit", () => {
+    try {
+      unlinkSync(file);
+    } catch {
+      // Already gone; a stale lock is ignored anyway
+    }
+  });
+}
+
+/**
+ * Checks that no running server owns a data directory
+ *
+ * Used by the CLI before it changes the stores' files.
+ *
+ * @param dataDir - The data directory
+ * @returns A promise that resolves if the files are safe to write
+ * @throws DataDirLockedError if a live process owns the directory
+ */
+export async function assertDataDirUnlocked(dataDir: string): Promise<void> {
+  const owner = await lockOwner(dataDir);
+  if (owner !== null) {
+    throw new DataDirLockedError(dataDir, owner);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Structured logging
+ *
+ * This module writes log entries as one JSON object per line, so a log
+ * collector can filter and search them by field:
+ *
+ *   {"time":"2025-03-03T15:30:00.000Z","level":"info","msg":"Request","requestId":"…","status":200}
+ *
+ * Errors are written to stderr and everything else to stdout. Child loggers
+ * add fields (e.g., a request id) to every entry they write.
+ */
+
+/**
+ * Severity of a log entry, from least to most severe
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * The log levels in order of severity
+ */
+export const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * Extra fields of a log entry
+ *
+ * A field named `error` holding an Error is written as { name, message, code?, stack? }.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Options for a Logger
+ *
+ * @property level - Entries below this level are dropped (default: "info")
+ * @property fields - Fields added to every entry
+ * @property write - Writes a finished line (default: stdout, stderr for warn and error)
+ */
+export type LoggerOptions = {
+  level?: LogLevel;
+  fields?: LogFields;
+  write?: (line: string, level: LogLevel) => void;
+};
+
+/**
+ * Writes structured log entries
+ */
+export class Logger {
+  private minLevel: LogLevel;
+  private readonly fields: LogFields;
+  private readonly write: (line: string, level: LogLevel) => void;
+
+  /**
+   * @param options - Level, fields and output
+   */
+  constructor(options: LoggerOptions = {}) {
+    this.minLevel = options.level ?? "info";
+    this.fields = options.fields ?? {};
+    this.write = options.write ?? writeLine;
+  }
+
+  /**
+   * Returns a logger that adds fields to every entry
+   *
+   * @param fields - The fields to add
+   * @returns The child logger, sharing this logger's level and output
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ level: this.minLevel, fields: { ...this.fields, ...fields }, write: this.write });
+  }
+
+  /**
+   * The lowest level written
+   */
+  get level(): LogLevel {
+    return this.minLevel;
+  }
+
+  /**
+   * Changes the lowest level written (child loggers created earlier keep theirs)
+   *
+   * @param level - The new level
+   */
+  setLevel(level: LogLevel): void {
+    this.minLevel = level;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log("error", message, fields);
+  }
+
+  /**
+   * Writes an entry if its level is enabled
+   *
+   * @param level - The entry's level
+   * @param message - What happened
+   * @param fields - Extra fields
+   */
+  log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.minLevel)) {
+      return;
+    }
+
+    const entry: LogFields = { time: new Date().toISOString(), level, msg: message, ...this.fields };
+    for (const [key, value] of Object.entries(fields)) {
+      entry[key] = value instanceof Error ? serializeError(value) : value;
+    }
+    this.write(JSON.stringify(entry), level);
+  }
+}
+
+/**
+ * The process-wide logger
+ *
+ * It writes "info" and above until the server applies the configured level.
+ */
+export const log = new Logger();
+
+/**
+ * Writes a line to stdout, or to stderr for warnings and errors
+ */
+function writeLine(line: string, level: LogLevel): void {
+  (level === "warn" || level === "error" ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+/**
+ * Turns an Error into plain fields
+ *
+ * Errors with a code (e.g., QuoteErrors) are expected failures and are
+ * written without a stack trace.
+ */
+function serializeError(error: Error): LogFields {
+  const code = (error as { code?: unknown }).code;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(typeof code === "string" ? { code } : { stack: error.stack }),
+  };
+}
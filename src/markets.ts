@@ -0,0 +1,475 @@
+/**
+ * Exchange calendar
+ *
+ * This module knows the trading sessions, timezones and holidays of the
+ * exchanges behind Stooq's symbol suffixes (".us", ".uk", ".de", ...), so
+ * callers can tell whether a market is open and when it opens next.
+ *
+ * Holidays follow each exchange's published rules; the lunar holidays of the
+ * Hong Kong exchange are listed per year. Early closes (e.g. the day after
+ * Thanksgiving) are not modeled and count as full sessions.
+ */
+
+import { exchangeTimezone, zonedTimeToUtc } from "./stooq.js";
+
+/**
+ * A trading session in exchange-local time (HH:MM, 24-hour clock)
+ */
+export type Session = {
+  open: string;
+  close: string;
+};
+
+/**
+ * An exchange and its trading calendar
+ *
+ * @property code - The Stooq symbol suffix (e.g., "us")
+ * @property name - Human-readable name
+ * @property timezone - IANA timezone the sessions are expressed in
+ * @property currency - ISO 4217 code of the currency prices are quoted in
+ *   ("GBX" for London, which Stooq quotes in pence)
+ * @property sessions - The day's sessions in order (several when there is a lunch break)
+ * @property holidays - Returns the full-day closures of a year as YYYY-MM-DD dates
+ */
+export type Exchange = {
+  code: string;
+  name: string;
+  timezone: string;
+  currency: string;
+  sessions: Session[];
+  holidays: (year: number) => string[];
+};
+
+/**
+ * Whether a symbol's market is open
+ *
+ * @property exchange - The exchange code, or null if the symbol has no known exchange
+ * @property timezone - The exchange timezone
+ * @property open - Whether a session is in progress (always true for unknown exchanges)
+ * @property nextOpen - Start of the next session (ISO timestamp), or null if unknown
+ * @property nextClose - End of the current or next session (ISO timestamp), or null if unknown
+ */
+export type MarketStatus = {
+  exchange: string | null;
+  timezone: string;
+  open: boolean;
+  nextOpen: string | null;
+  nextClose: string | null;
+};
+
+/**
+ * How many days ahead to look for the next session
+ * Long enough to get past any run of weekends and holidays
+ */
+const LOOKAHEAD_DAYS = 14;
+
+/**
+ * Known exchanges, keyed by Stooq symbol suffix
+ */
+const EXCHANGES: Record<string, Exchange> = {
+  us: {
+    code: "us",
+    name: "New York Stock Exchange / Nasdaq",
+    timezone: "America/New_York",
+    currency: "USD",
+    sessions: [{ open: "09:30", close: "16:00" }],
+    holidays: (year) => [
+      // New Year's Day falling on a Saturday is not observed on the Friday before
+      ...(weekday(year, 1, 1) === 6 ? [] : [observedNearest(year, 1, 1)]),
+      nthWeekday(year, 1, 1, 3), // Martin Luther King Jr. Day
+      nthWeekday(year, 2, 1, 3), // Washington's Birthday
+      easter(year, -2), // Good Friday
+      lastWeekday(year, 5, 1), // Memorial Day
+      ...(year >= 2022 ? [observedNearest(year, 6, 19)] : []), // Juneteenth
+      observedNearest(year, 7, 4), // Independence Day
+      nthWeekday(year, 9, 1, 1), // Labor Day
+      nthWeekday(year, 11, 4, 4), // Thanksgiving
+      observedNearest(year, 12, 25), // Christmas
+    ],
+  },
+  uk: {
+    code: "uk",
+    name: "London Stock Exchange",
+    timezone: "Europe/London",
+    currency: "GBX",
+    sessions: [{ open: "08:00", close: "16:30" }],
+    holidays: (year) => [
+      observedNext(year, 1, 1, []),
+      easter(year, -2), // Good Friday
+      easter(year, 1), // Easter Monday
+      nthWeekday(year, 5, 1, 1), // Early May bank holiday
+      lastWeekday(year, 5, 1), // Spring bank holiday
+      lastWeekday(year, 8, 1), // Summer bank holiday
+      ...christmasAndBoxingDay(year),
+    ],
+  },
+  de: {
+    code: "de",
+    name: "Xetra (Deutsche Börse)",
+    timezone: "Europe/Berlin",
+    currency: "EUR",
+    sessions: [{ open: "09:00", close: "17:30" }],
+    holidays: (year) => [
+      date(year, 1, 1),
+      easter(year, -2),
+      easter(year, 1),
+      date(year, 5, 1),
+      date(year, 12, 24),
+      date(year, 12, 25),
+      date(year, 12, 26),
+      date(year, 12, 31),
+    ],
+  },
+  pl: {
+    code: "pl",
+    name: "Warsaw Stock Exchange",
+    timezone: "Europe/Warsaw",
+    currency: "PLN",
+    sessions: [{ open: "09:00", close: "17:00" }],
+    holidays: (year) => [
+      date(year, 1, 1),
+      date(year, 1, 6),
+      easter(year, -2),
+      easter(year, 1),
+      date(year, 5, 1),
+      date(year, 5, 3),
+      easter(year, 60), // Corpus Christi
+      date(year, 8, 15),
+      date(year, 11, 1),
+      date(year, 11, 11),
+      date(year, 12, 24),
+      date(year, 12, 25),
+      date(year, 12, 26),
+      date(year, 12, 31),
+    ],
+  },
+  hu: {
+    code: "hu",
+    name: "Budapest Stock Exchange",
+    timezone: "Europe/Budapest",
+    currency: "HUF",
+    sessions: [{ open: "09:00", close: "17:00" }],
+    holidays: (year) => [
+      date(year, 1, 1),
+      date(year, 3, 15),
+      easter(year, -2),
+      easter(year, 1),
+      date(year, 5, 1),
+      easter(year, 50), // Whit Monday
+      date(year, 8, 20),
+      date(year, 10, 23),
+      date(year, 11, 1),
+      date(year, 12, 24),
+      date(year, 12, 25),
+      date(year, 12, 26),
+    ],
+  },
+  jp: {
+    code: "jp",
+    name: "Tokyo Stock Exchange",
+    timezone: "Asia/Tokyo",
+    currency: "JPY",
+    sessions: [
+      { open: "09:00", close: "11:30" },
+      { open: "12:30", close: "15:30" },
+    ],
+    holidays: japaneseHolidays,
+  },
+  hk: {
+    code: "hk",
+    name: "Hong Kong Exchanges",
+    timezone: "Asia/Hong_Kong",
+    currency: "HKD",
+    sessions: [
+      { open: "09:30", close: "12:00" },
+      { open: "13:00", close: "16:00" },
+    ],
+    holidays: (year) => [
+      observedNext(year, 1, 1, []),
+      easter(year, -2), // Good Friday
+      easter(year, -1), // The day following Good Friday
+      easter(year, 1), // Easter Monday
+      observedNext(year, 5, 1, []),
+      observedNext(year, 7, 1, []),
+      observedNext(year, 10, 1, []),
+      date(year, 12, 25),
+      observedNext(year, 12, 26, [date(year, 12, 25)]),
+      ...(HONG_KONG_LUNAR_HOLIDAYS[year] ?? []),
+    ],
+  },
+};
+
+/**
+ * Hong Kong holidays that follow the lunar calendar (Lunar New Year, Ching Ming,
+ * Buddha's Birthday, Tuen Ng, the day after Mid-Autumn and Chung Yeung),
+ * as published by HKEX; extend this list every year
+ */
+const HONG_KONG_LUNAR_HOLIDAYS: Record<number, string[]> = {
+  2025: ["2025-01-29", "2025-01-30", "2025-01-31", "2025-04-04", "2025-05-05", "2025-05-31", "2025-10-07", "2025-10-29"],
+  2026: ["2026-02-17", "2026-02-18", "2026-02-19", "2026-04-07", "2026-05-25", "2026-06-19", "2026-09-26", "2026-10-19"],
+};
+
+/**
+ * Holidays computed per exchange and year
+ */
+const holidayCache = new Map<string, Set<string>>();
+
+/**
+ * Returns the exchange a symbol trades on, based on its Stooq suffix
+ *
+ * @param symbol - The stock symbol (e.g., "aapl.us")
+ * @returns The exchange, or undefined for symbols without a known suffix (indices, currencies, ...)
+ */
+export function exchangeForSymbol(symbol: string): Exchange | undefined {
+  const parts = symbol.trim().toLowerCase().split(".");
+  return parts.length > 1 ? EXCHANGES[parts[parts.length - 1] ?? ""] : undefined;
+}
+
+/**
+ * Returns an exchange by its Stooq suffix
+ *
+ * @param code - The suffix (e.g., "uk")
+ * @returns The exchange, or undefined if the suffix is not known
+ */
+export function findExchange(code: string): Exchange | undefined {
+  return EXCHANGES[code.trim().toLowerCase()];
+}
+
+/**
+ * Whether a local date is a holiday of an exchange
+ *
+ * @param exchange - The exchange
+ * @param day - The exchange-local date (YYYY-MM-DD)
+ */
+export function isHoliday(exchange: Exchange, day: string): boolean {
+  const year = Number(day.slice(0, 4));
+  const key = `${exchange.code}:${year}`;
+
+  let holidays = holidayCache.get(key);
+  if (holidays === undefined) {
+    holidays = new Set(exchange.holidays(year));
+    holidayCache.set(key, holidays);
+  }
+
+  return holidays.has(day);
+}
+
+/**
+ * Reports whether a symbol's market is open at the given time
+ *
+ * Symbols without a known exchange are reported as always open, so callers
+ * keep polling them as before.
+ *
+ * @param symbol - The stock symbol
+ * @param at - The time to check (defaults to now)
+ * @returns The market status
+ */
+export function marketStatus(symbol: string, at: Date = new Date()): MarketStatus {
+  const exchange = exchangeForSymbol(symbol);
+  if (exchange === undefined) {
+    return { exchange: null, timezone: exchangeTimezone(symbol), open: true, nextOpen: null, nextClose: null };
+  }
+
+  let open = false;
+  let nextOpen: Date | null = null;
+  let nextClose: Date | null = null;
+
+  // Walk the sessions from today (exchange-local) onwards
+  const today = localDate(at, exchange.timezone);
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS && nextOpen === null; offset++) {
+    const day = addDays(today, offset);
+    const [year, month, dayOfMonth] = day.split("-").map(Number) as [number, number, number];
+
+    if (weekday(year, month, dayOfMonth) % 6 === 0 || isHoliday(exchange, day)) {
+      continue;
+    }
+
+    for (const session of exchange.sessions) {
+      const start = zonedTimeToUtc([year, month, dayOfMonth, ...hoursAndMinutes(session.open), 0], exchange.timezone);
+      const end = zonedTimeToUtc([year, month, dayOfMonth, ...hoursAndMinutes(session.close), 0], exchange.timezone);
+
+      if (end <= at) {
+        continue;
+      }
+
+      if (start <= at) {
+        // In session: report its end, then keep looking for the next start
+        open = true;
+        nextClose = end;
+      } else if (nextOpen === null) {
+        nextOpen = start;
+        nextClose ??= end;
+        break;
+      }
+    }
+  }
+
+  return {
+    exchange: exchange.code,
+    timezone: exchange.timezone,
+    open,
+    nextOpen: nextOpen?.toISOString() ?? null,
+    nextClose: nextClose?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Returns the date (YYYY-MM-DD) of an instant in a timezone
+ */
+function localDate(at: Date, timeZone: string): string {
+  // The en-CA locale formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(at);
+}
+
+/**
+ * Splits "HH:MM" into hours and minutes
+ */
+function hoursAndMinutes(time: string): [number, number] {
+  const [hours, minutes] = time.split(":").map(Number);
+  return [hours ?? 0, minutes ?? 0];
+}
+
+/**
+ * Formats a calendar date as YYYY-MM-DD
+ */
+function date(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date
+ */
+function addDays(day: string, days: number): string {
+  const result = new Date(`${day}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Day of the week of a calendar date (0 = Sunday, 6 = Saturday)
+ */
+function weekday(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * The nth given weekday of a month (e.g., the third Monday of January)
+ */
+function nthWeekday(year: number, month: number, dayOfWeek: number, n: number): string {
+  const first = weekday(year, month, 1);
+  return date(year, month, 1 + ((dayOfWeek - first + 7) % 7) + (n - 1) * 7);
+}
+
+/**
+ * The last given weekday of a month (e.g., the last Monday of May)
+ */
+function lastWeekday(year: number, month: number, dayOfWeek: number): string {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const last = weekday(year, month, lastDay);
+  return date(year, month, lastDay - ((last - dayOfWeek + 7) % 7));
+}
+
+/**
+ * A date relative to Easter Sunday (Gregorian calendar)
+ */
+function easter(year: number, offsetDays: number): string {
+  // Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return addDays(date(year, month, day), offsetDays);
+}
+
+/**
+ * A fixed holiday observed on the nearest weekday (Saturday -> Friday, Sunday -> Monday)
+ */
+function observedNearest(year: number, month: number, day: number): string {
+  const dayOfWeek = weekday(year, month, day);
+  const shift = dayOfWeek === 6 ? -1 : dayOfWeek === 0 ? 1 : 0;
+  return addDays(date(year, month, day), shift);
+}
+
+/**
+ * A fixed holiday that moves to the next free weekday when it falls on a weekend
+ * or on one of the given other holidays
+ */
+function observedNext(year: number, month: number, day: number, taken: string[]): string {
+  let result = date(year, month, day);
+  while (isWeekend(result) || taken.includes(result)) {
+    result = addDays(result, 1);
+  }
+  return result;
+}
+
+/**
+ * Christmas Day and Boxing Day, moved to the following weekdays when they fall on a weekend
+ */
+function christmasAndBoxingDay(year: number): string[] {
+  const christmas = observedNext(year, 12, 25, []);
+  return [christmas, observedNext(year, 12, 26, [christmas])];
+}
+
+/**
+ * Whether a YYYY-MM-DD date is a Saturday or Sunday
+ */
+function isWeekend(day: string): boolean {
+  return new Date(`${day}T00:00:00Z`).getUTCDay() % 6 === 0;
+}
+
+/**
+ * Days the Tokyo Stock Exchange is closed: the year-end break and Japan's national holidays
+ *
+ * Equinox days use the standard approximation, valid from 1980 to 2099.
+ * A holiday on a Sunday moves to the next weekday that is not a holiday.
+ */
+function japaneseHolidays(year: number): string[] {
+  const yearsSince1980 = year - 1980;
+  const leapDays = Math.floor(yearsSince1980 / 4);
+  const vernalEquinox = Math.floor(20.8431 + 0.242194 * yearsSince1980 - leapDays);
+  const autumnalEquinox = Math.floor(23.2488 + 0.242194 * yearsSince1980 - leapDays);
+
+  const national = [
+    date(year, 1, 1),
+    nthWeekday(year, 1, 1, 2), // Coming of Age Day
+    date(year, 2, 11),
+    date(year, 2, 23),
+    date(year, 3, vernalEquinox),
+    date(year, 4, 29),
+    date(year, 5, 3),
+    date(year, 5, 4),
+    date(year, 5, 5),
+    nthWeekday(year, 7, 1, 3), // Marine Day
+    date(year, 8, 11),
+    nthWeekday(year, 9, 1, 3), // Respect for the Aged Day
+    date(year, 9, autumnalEquinox),
+    nthWeekday(year, 10, 1, 2), // Sports Day
+    date(year, 11, 3),
+    date(year, 11, 23),
+  ];
+
+  // Substitute holidays for those that fall on a Sunday
+  const substitutes: string[] = [];
+  for (const holiday of national) {
+    if (new Date(`${holiday}T00:00:00Z`).getUTCDay() === 0) {
+      let substitute = addDays(holiday, 1);
+      while (national.includes(substitute) || substitutes.includes(substitute)) {
+        substitute = addDays(substitute, 1);
+      }
+      substitutes.push(substitute);
+    }
+  }
+
+  return [...national, ...substitutes, date(year, 1, 2), date(year, 1, 3), date(year, 12, 31)];
+}
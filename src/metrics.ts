@@ -0,0 +1,345 @@
+/**
+ * Prometheus metrics
+ *
+ * This module keeps counters, gauges and histograms in memory and renders
+ * them in the Prometheus text exposition format for a /metrics endpoint:
+ * - MetricsRegistry: Creates the metrics and renders all of them
+ * - MeteredProvider: A QuoteProvider decorator that measures upstream
+ *   latency and counts upstream errors per known symbol
+ */
+
+import type { Bar, HistoryOptions } from "./history.js";
+import type { ProviderHealth, QuoteProvider } from "./provider.js";
+import { QuoteError, type Quote, type QuoteResult } from "./stooq.js";
+
+/**
+ * Label values of one series, keyed by label name
+ */
+export type Labels = Record<string, string>;
+
+/**
+ * Default histogram buckets, in seconds: suited to HTTP round trips
+ */
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * A metric the registry can render
+ */
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+/**
+ * Base of the metric types: a name, help text and one value per label set
+ */
+abstract class LabeledMetric<T> implements Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[],
+    private readonly type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+
+  /**
+   * Returns the entry for a label set, creating it if needed
+   *
+   * @throws Error if the labels do not match the metric's label names
+   */
+  protected entry(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const names = Object.keys(labels);
+    if (names.length !== this.labelNames.length || !this.labelNames.every((name) => name in labels)) {
+      throw new Error(`${this.name} expects labels ${this.labelNames.join(", ") || "(none)"}, got ${names.join(", ") || "(none)"}`);
+    }
+
+    const key = this.labelNames.map((name) => labels[name]).join("\u0000");
+    let entry = this.series.get(key);
+    if (entry === undefined) {
+      entry = { labels: { ...labels }, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * A value that only goes up (e.g., requests served)
+ */
+export class Counter extends LabeledMetric<number> {
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    super(name, help, labelNames, "counter");
+  }
+
+  /**
+   * Adds to the counter
+   *
+   * @param labels - The series to add to
+   * @param value - How much to add (default: 1)
+   * @throws Error if the value is negative
+   */
+  inc(labels: Labels = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`${this.name} is a counter and cannot decrease`);
+    }
+    this.entry(labels, () => 0).value += value;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+/**
+ * A value that goes up and down (e.g., active alerts)
+ *
+ * A gauge with a collect function asks it for its value whenever it is
+ * rendered, instead of being set.
+ */
+export class Gauge extends LabeledMetric<number> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[] = [],
+    private readonly collect?: (gauge: Gauge) => void
+  ) {
+    super(name, help, labelNames, "gauge");
+  }
+
+  /**
+   * Sets the value of a series
+   */
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  render(): string[] {
+    if (this.collect !== undefined) {
+      this.series.clear();
+      this.collect(this);
+    }
+    return super.render();
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+/**
+ * Observations counted into buckets (e.g., request durations in seconds)
+ */
+export class Histogram extends LabeledMetric<{ counts: number[]; sum: number; count: number }> {
+  private readonly buckets: number[];
+
+  constructor(name: string, help: string, labelNames: readonly string[] = [], buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames, "histogram");
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  /**
+   * Records an observation
+   *
+   * @param labels - The series to record in
+   * @param value - The observed value
+   */
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index] = (entry.counts[index] ?? 0) + 1;
+      }
+    });
+    entry.sum += value;
+    entry.count += 1;
+  }
+
+  protected renderSeries(labels: Labels, value: { counts: number[]; sum: number; count: number }): string[] {
+    return [
+      ...this.buckets.map(
+        (bound, index) => `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.counts[index] ?? 0}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
+
+/**
+ * Creates metrics and renders them together
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = [], collect?: (gauge: Gauge) => void): Gauge {
+    return this.register(new Gauge(name, help, labelNames, collect));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Renders every metric in the Prometheus text format
+   */
+  render(): string {
+    return [...this.metrics.values()].flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+
+  /**
+   * Adds a metric
+   *
+   * @throws Error if the name is invalid or already taken
+   */
+  private register<T extends Metric>(metric: T): T {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(metric.name)) {
+      throw new Error(`Invalid metric name "${metric.name}"`);
+    }
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric "${metric.name}" is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+/**
+ * Label value shared by the symbols a MeteredProvider does not know
+ */
+export const OTHER_SYMBOL = "other";
+
+/**
+ * QuoteProvider decorator that measures the provider it wraps
+ *
+ * Records the duration of every call per symbol (a batch counts once for
+ * each of its symbols) and counts failures per symbol and error code
+ * ("UNKNOWN" for errors that are not QuoteErrors). Wrap the provider that
+ * talks to the upstream, below any cache, so only real fetches are measured.
+ *
+ * Anyone who can request a quote can make up symbols, so only known symbols
+ * get series of their own; the others share symbol="other" (OTHER_SYMBOL)
+ * and the number of series stays bounded.
+ */
+export class MeteredProvider implements QuoteProvider {
+  readonly name: string;
+  private readonly duration: Histogram;
+  private readonly errors: Counter;
+
+  /** The wrapped provider's upstream state, if it reports one */
+  readonly health?: () => ProviderHealth;
+
+  /**
+   * @param provider - The provider to measure
+   * @param registry - Where to register the upstream metrics
+   * @param knownSymbol - Whether a (lowercase) symbol gets its own series, e.g.
+   *   because it is in the symbol directory or watched (default: every symbol)
+   */
+  constructor(
+    private readonly provider: QuoteProvider,
+    registry: MetricsRegistry,
+    private readonly knownSymbol: (symbol: string) => boolean = () => true
+  ) {
+    this.name = provider.name;
+    this.duration = registry.histogram(
+      "stocks_upstream_request_duration_seconds",
+      "Duration of upstream quote and history requests per symbol",
+      ["operation", "symbol"]
+    );
+    this.errors = registry.counter(
+      "stocks_upstream_errors_total",
+      "Failed upstream quote and history requests per symbol and error code",
+      ["operation", "symbol", "code"]
+    );
+
+    if (provider.health !== undefined) {
+      this.health = () => provider.health!();
+    }
+  }
+
+  fetchQuote(symbol: string): Promise<Quote> {
+    return this.measure("quote", [symbol], () => this.provider.fetchQuote(symbol));
+  }
+
+  async fetchQuotes(symbols: string[]): Promise<QuoteResult[]> {
+    const results = await this.measure("quote", symbols, () => this.provider.fetchQuotes(symbols));
+    for (const result of results) {
+      if (!result.ok) {
+        this.errors.inc({ operation: "quote", symbol: this.symbolLabel(result.symbol), code: result.code ?? "UNKNOWN" });
+      }
+    }
+    return results;
+  }
+
+  fetchHistory(symbol: string, options?: HistoryOptions): Promise<Bar[]> {
+    return this.measure("history", [symbol], () => this.provider.fetchHistory(symbol, options));
+  }
+
+  now(): Date {
+    return this.provider.now?.() ?? new Date();
+  }
+
+  /**
+   * Times a call and counts it as failed for every symbol if it throws
+   */
+  private async measure<T>(operation: string, symbols: string[], call: () => Promise<T>): Promise<T> {
+    const started = performance.now();
+    try {
+      return await call();
+    } catch (error) {
+      const code = error instanceof QuoteError ? error.code : "UNKNOWN";
+      symbols.forEach((symbol) => this.errors.inc({ operation, symbol: this.symbolLabel(symbol), code }));
+      throw error;
+    } finally {
+      const seconds = (performance.now() - started) / 1000;
+      symbols.forEach((symbol) => this.duration.observe({ operation, symbol: this.symbolLabel(symbol) }, seconds));
+    }
+  }
+
+  /**
+   * Returns the label value of a symbol: normalized, so "AAPL.US" and
+   * "aapl.us" share a series, or OTHER_SYMBOL if the symbol is not known
+   */
+  private symbolLabel(symbol: string): string {
+    const normalized = symbol.trim().toLowerCase();
+    return this.knownSymbol(normalized) ? normalized : OTHER_SYMBOL;
+  }
+}
+
+/**
+ * Formats a label set as {name="value",...}, escaping the values
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Formats a sample value, including the special values Prometheus spells out
+ */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "+Inf" : "-Inf";
+  }
+  return String(value);
+}
@@ -0,0 +1,583 @@
+/**
+ * Notifications for triggered alerts
+ *
+ * This module delivers alert triggers to the outside world through pluggable
+ * channels:
+ * - "webhook": JSON POST signed with an HMAC-SHA256 signature
+ * - "slack": Slack-compatible incoming webhook ({ text })
+ * - "email": Plain-text email over SMTP
+ * - "command": A shell command run with the trigger in its environment
+ *
+ * Every delivery is retried with exponential backoff and recorded in a
+ * delivery log, whether it succeeds or not.
+ */
+
+import { createHmac, randomUUID } from "node:crypto";
+import { spawn } from "node:child_process";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import * as path from "node:path";
+import nodemailer, { type Transporter } from "nodemailer";
+import addressparser from "nodemailer/lib/addressparser";
+import { formatMoney } from "./currency.js";
+import { log } from "./logger.js";
+import type { Quote } from "./stooq.js";
+
+/**
+ * A triggered alert, as handed to every channel
+ *
+ * @property alertId - The alert that fired
+ * @property symbol - The symbol of the quote that fired it
+ * @property price - The price at trigger
+ * @property currency - The currency of the price, or null if unknown
+ * @property description - What the alert watched for (e.g., "crosses above 150.00")
+ * @property quote - The full quote at trigger
+ * @property firedAt - When the alert fired (ISO timestamp)
+ */
+export type Notification = {
+  alertId: string;
+  symbol: string;
+  price: number;
+  currency: string | null;
+  description: string;
+  quote: Quote;
+  firedAt: string;
+};
+
+/**
+ * Settings shared by all channel types
+ *
+ * @property name - Unique name alerts refer to the channel by
+ * @property default - Whether alerts without their own channel list use this channel
+ * @property users - Usernames that may use the channel (default: everyone)
+ */
+type BaseChannelConfig = {
+  name: string;
+  default?: boolean;
+  users?: string[];
+};
+
+/**
+ * Configuration of a notification channel
+ *
+ * - webhook: `secret` signs the body; receivers verify the `X-Stocks-Signature`
+ *   header, which is `sha256=` + HMAC-SHA256(secret, `${timestamp}.${body}`)
+ *   with the timestamp from the `X-Stocks-Timestamp` header
+ * - email: `smtp` is passed to the SMTP transport (host, port, secure, auth)
+ * - command: The trigger is passed as ALERT_* environment variables and as
+ *   JSON on stdin; a non-zero exit status counts as a failed delivery
+ */
+export type ChannelConfig =
+  | (BaseChannelConfig & { type: "webhook"; url: string; secret?: string })
+  | (BaseChannelConfig & { type: "slack"; url: string })
+  | (BaseChannelConfig & {
+      type: "email";
+      from: string;
+      to: string | string[];
+      smtp: { host: string; port?: number; secure?: boolean; auth?: { user: string; pass: string } };
+    })
+  | (BaseChannelConfig & { type: "command"; command: string; timeoutMs?: number });
+
+/**
+ * A destination for notifications
+ */
+export interface NotificationChannel {
+  readonly name: string;
+  readonly type: ChannelConfig["type"];
+  /**
+   * Delivers a notification once
+   * @throws Error if the delivery failed
+   */
+  send(notification: Notification): Promise<void>;
+}
+
+/**
+ * One delivery of a notification to a channel
+ *
+ * @property id - Unique identifier of the delivery
+ * @property channel - The channel name
+ * @property alertId - The alert that fired
+ * @property status - Whether the notification eventually got through
+ * @property attempts - How many attempts were made
+ * @property error - The last error message, if the delivery failed
+ * @property at - When the delivery finished (ISO timestamp)
+ * @property user - Username of the alert's owner, if it has one
+ */
+export type DeliveryRecord = {
+  id: string;
+  channel: string;
+  alertId: string;
+  status: "delivered" | "failed";
+  attempts: number;
+  error: string | null;
+  at: string;
+  user?: string;
+};
+
+/**
+ * Retry settings for deliveries
+ *
+ * @property maxAttempts - Attempts per delivery, including the first (default: 3)
+ * @property baseDelayMs - Delay before the first retry; doubled for each further retry (default: 1000)
+ */
+export type RetryOptions = {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+};
+
+/**
+ * Timeout for HTTP deliveries, in milliseconds
+ */
+const HTTP_TIMEOUT_MS = 10_000;
+
+/**
+ * Channel that POSTs the notification as JSON, signed with HMAC-SHA256
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly type = "webhook";
+
+  constructor(
+    readonly name: string,
+    private readonly url: string,
+    private readonly secret: string | null = null
+  ) {}
+
+  async send(notification: Notification): Promise<void> {
+    const body = JSON.stringify(notification);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Stocks-Timestamp": timestamp,
+    };
+
+    if (this.secret !== null) {
+      headers["X-Stocks-Signature"] = signPayload(this.secret, timestamp, body);
+    }
+
+    await postOrThrow(this.url, headers, body);
+  }
+}
+
+/**
+ * Channel that posts a message to a Slack-compatible incoming webhook
+ */
+export class SlackChannel implements NotificationChannel {
+  readonly type = "slack";
+
+  constructor(readonly name: string, private readonly url: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    const body = JSON.stringify({ text: `🚨 ${formatMessage(notification)}` });
+    await postOrThrow(this.url, { "Content-Type": "application/json" }, body);
+  }
+}
+
+/**
+ * Channel that sends a plain-text email over SMTP
+ */
+export class EmailChannel implements NotificationChannel {
+  readonly type = "email";
+  private readonly transport: Transporter;
+
+  constructor(
+    readonly name: string,
+    private readonly from: string,
+    private readonly to: string | string[],
+    smtp: Extract<ChannelConfig, { type: "email" }>["smtp"]
+  ) {
+    this.transport = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port ?? 25,
+      secure: smtp.secure ?? false,
+      ...(smtp.auth !== undefined ? { auth: smtp.auth } : {}),
+    });
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const { quote } = notification;
+
+    await this.transport.sendMail({
+      from: this.from,
+      to: this.to,
+      subject: `Alert: ${notification.symbol} ${notification.description}`,
+      text: [
+        formatMessage(notification),
+        "",
+        `Quote: ${quote.date} ${quote.time}`,
+        `Open/High/Low: ${quote.open ?? "N/A"} / ${quote.high ?? "N/A"} / ${quote.low ?? "N/A"}`,
+        `Volume: ${quote.volume ?? "N/A"}`,
+        `Alert: ${notification.alertId}`,
+      ].join("\n"),
+    });
+  }
+}
+
+/**
+ * Channel that runs a shell command for each notification
+ *
+ * This is also the way to get desktop notifications, e.g.
+ * `notify-send "$ALERT_SYMBOL" "$ALERT_DESCRIPTION"` on Linux.
+ */
+export class CommandChannel implements NotificationChannel {
+  readonly type = "command";
+
+  constructor(
+    readonly name: string,
+    private readonly command: string,
+    private readonly timeoutMs = 30_000
+  ) {}
+
+  send(notification: Notification): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, {
+        shell: true,
+        stdio: ["pipe", "ignore", "pipe"],
+        timeout: this.timeoutMs,
+        env: {
+          ...process.env,
+          ALERT_ID: notification.alertId,
+          ALERT_SYMBOL: notification.symbol,
+          ALERT_PRICE: String(notification.price),
+          ALERT_CURRENCY: notification.currency ?? "",
+          ALERT_DESCRIPTION: notification.description,
+          ALERT_FIRED_AT: notification.firedAt,
+        },
+      });
+
+      // Keep the tail of stderr for the error message
+      let stderr = "";
+      child.stderr.on("data", (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-500);
+      });
+
+      child.on("error", reject);
+      child.on("close", (code, signal) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          const reason = signal !== null ? `killed by ${signal}` : `exited with code ${code}`;
+          reject(new Error(`Command ${reason}${stderr.trim() ? `: ${stderr.trim()}` : ""}`));
+        }
+      });
+
+      // The command may not read stdin; ignore the resulting broken pipe
+      child.stdin.on("error", () => undefined);
+      child.stdin.end(JSON.stringify(notification));
+    });
+  }
+}
+
+/**
+ * Creates a channel from its configuration
+ *
+ * @param config - The channel configuration
+ * @returns The channel
+ * @throws Error if the configuration is invalid
+ */
+export function createChannel(config: ChannelConfig): NotificationChannel {
+  if (!config.name || typeof config.name !== "string") {
+    throw new Error("Notification channel needs a name");
+  }
+
+  switch (config.type) {
+    case "webhook":
+      requireString(config, "url");
+      return new WebhookChannel(config.name, config.url, config.secret ?? null);
+    case "slack":
+      requireString(config, "url");
+      return new SlackChannel(config.name, config.url);
+    case "email":
+      requireAddresses(config, "from", false);
+      requireAddresses(config, "to", true);
+      if (typeof config.smtp?.host !== "string") {
+        throw new Error(`Notification channel "${config.name}": smtp.host is required`);
+      }
+      return new EmailChannel(config.name, config.from, config.to, config.smtp);
+    case "command":
+      requireString(config, "command");
+      return new CommandChannel(config.name, config.command, config.timeoutMs);
+    default:
+      throw new Error(
+        `Notification channel "${(config as BaseChannelConfig).name}": unknown type "${(config as { type?: unknown }).type}"`
+      );
+  }
+}
+
+/**
+ * Append-only log of deliveries, stored as JSON lines
+ */
+export class DeliveryLog {
+  constructor(private readonly file: string) {}
+
+  /**
+   * Appends a delivery record
+   *
+   * @param record - The record to append
+   */
+  async append(record: DeliveryRecord): Promise<void> {
+    await mkdir(path.dirname(this.file), { recursive: true });
+    await appendFile(this.file, JSON.stringify(record) + "\n", "utf8");
+  }
+
+  /**
+   * Returns the most recent delivery records, newest last
+   *
+   * @param limit - Maximum number of records to return
+   * @param user - Optional username to filter by
+   * @returns The records (empty if the log does not exist yet)
+   */
+  async recent(limit = 100, user?: string): Promise<DeliveryRecord[]> {
+    let text: string;
+    try {
+      text = await readFile(this.file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return text
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as DeliveryRecord)
+      .filter((record) => user === undefined || record.user === user)
+      .slice(-limit);
+  }
+}
+
+/**
+ * Sends notifications to channels with retries and logs every delivery
+ */
+export class Notifier {
+  private readonly byName = new Map<string, NotificationChannel>();
+  private readonly users = new Map<string, string[]>();
+  private readonly defaults: string[];
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+
+  /**
+   * @param configs - The channel configurations
+   * @param log - Where to record deliveries
+   * @param retry - Retry settings
+   * @throws Error if a channel configuration is invalid or a name is used twice
+   */
+  constructor(configs: ChannelConfig[], readonly log: DeliveryLog, retry: RetryOptions = {}) {
+    for (const config of configs) {
+      if (this.byName.has(config.name)) {
+        throw new Error(`Duplicate notification channel name "${config.name}"`);
+      }
+      this.byName.set(config.name, createChannel(config));
+      if (config.users !== undefined) {
+        if (!Array.isArray(config.users) || !config.users.every((user) => typeof user === "string")) {
+          throw new Error(`Notification channel "${config.name}": users must be a list of usernames`);
+        }
+        this.users.set(config.name, config.users.map((user) => user.toLowerCase()));
+      }
+    }
+
+    this.defaults = configs.filter((config) => config.default === true).map((config) => config.name);
+    this.maxAttempts = retry.maxAttempts ?? 3;
+    this.baseDelayMs = retry.baseDelayMs ?? 1000;
+  }
+
+  /**
+   * Loads channel configurations from a JSON file ({ "channels": [...] })
+   *
+   * @param file - Path to the JSON file
+   * @returns A promise that resolves to the configurations (empty if the file does not exist)
+   * @throws Error if the file exists but is malformed
+   */
+  static async loadChannels(file: string): Promise<ChannelConfig[]> {
+    let text: string;
+    try {
+      text = await readFile(file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const data = JSON.parse(text) as { channels?: unknown };
+    if (!Array.isArray(data.channels)) {
+      throw new Error(`Invalid notifier config ${file}: expected a "channels" array`);
+    }
+    return data.channels as ChannelConfig[];
+  }
+
+  /**
+   * Returns the configured channels
+   *
+   * @param user - Optional username; only the channels this user may use are returned
+   */
+  channels(user?: string): { name: string; type: ChannelConfig["type"]; default: boolean }[] {
+    return [...this.byName.values()]
+      .filter((channel) => user === undefined || this.allows(channel.name, user))
+      .map((channel) => ({
+        name: channel.name,
+        type: channel.type,
+        default: this.defaults.includes(channel.name),
+      }));
+  }
+
+  /**
+   * Sends a notification to the given channels (or the default channels)
+   *
+   * Unknown channel names are logged as failed deliveries rather than thrown,
+   * so one misconfigured alert never blocks the others. For a user, channels
+   * they may not use count as unknown.
+   *
+   * @param notification - The notification to send
+   * @param channelNames - The channels to use; defaults to the channels marked as default
+   * @param user - Optional username of the alert's owner, recorded with each delivery
+   * @returns A promise that resolves to one record per channel once all deliveries finished
+   */
+  async notify(notification: Notification, channelNames?: string[], user?: string): Promise<DeliveryRecord[]> {
+    const names =
+      channelNames ?? this.defaults.filter((name) => user === undefined || this.allows(name, user));
+    return Promise.all(names.map((name) => this.deliver(name, notification, user)));
+  }
+
+  /**
+   * Whether a user may use a channel
+   */
+  private allows(name: string, user: string): boolean {
+    return this.users.get(name)?.includes(user.toLowerCase()) ?? true;
+  }
+
+  /**
+   * Delivers to one channel with retries and records the outcome
+   */
+  private async deliver(name: string, notification: Notification, user?: string): Promise<DeliveryRecord> {
+    const channel = user === undefined || this.allows(name, user) ? this.byName.get(name) : undefined;
+    let attempts = 0;
+    let lastError: string | null = null;
+
+    if (channel === undefined) {
+      lastError = `Unknown notification channel "${name}"`;
+    } else {
+      while (attempts < this.maxAttempts) {
+        attempts += 1;
+        try {
+          await channel.send(notification);
+          lastError = null;
+          break;
+        } catch (error) {
+          lastError = error instanceof Error ? error.message : String(error);
+
+          // Back off exponentially before the next attempt
+          if (attempts < this.maxAttempts) {
+            await sleep(this.baseDelayMs * 2 ** (attempts - 1));
+          }
+        }
+      }
+    }
+
+    const record: DeliveryRecord = {
+      id: randomUUID(),
+      channel: name,
+      alertId: notification.alertId,
+      status: lastError === null ? "delivered" : "failed",
+      attempts,
+      error: lastError,
+      at: new Date().toISOString(),
+      ...(user !== undefined ? { user } : {}),
+    };
+
+    await this.log.append(record).catch((error) => {
+      log.error("Error writing delivery log", { error });
+    });
+
+    return record;
+  }
+}
+
+/**
+ * Computes the webhook signature header value
+ *
+ * @param secret - The shared secret
+ * @param timestamp - The X-Stocks-Timestamp header value
+ * @param body - The raw request body
+ * @returns The signature as "sha256=<hex>"
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Formats the one-line message used by the text channels
+ */
+function formatMessage(notification: Notification): string {
+  const price = formatMoney(notification.price, notification.currency);
+  return `ALERT: ${notification.symbol} price (${price}) is ${notification.description}`;
+}
+
+/**
+ * POSTs a body and throws unless the response is 2xx
+ */
+async function postOrThrow(url: string, headers: Record<string, string>, body: string): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers,
+    body,
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${new URL(url).host}`);
+  }
+}
+
+/**
+ * Throws unless the given field of a channel config is a non-empty string
+ */
+function requireString(config: ChannelConfig, field: string): void {
+  const value = (config as Record<string, unknown>)[field];
+  if (typeof value !== "string" || value.length === 0) {
+    throw new Error(`Notification channel "${config.name}": ${field} is required`);
+  }
+}
+
+/**
+ * Throws unless a channel's field holds email addresses
+ *
+ * Addresses may be bare ("ops@example.com") or with a display name
+ * ('"Doe, Jane" <jane@example.com>'); a string may list several separated by
+ * commas.
+ *
+ * @param config - The channel configuration
+ * @param field - The field to check
+ * @param multiple - Whether several addresses (or a list of them) are allowed
+ */
+function requireAddresses(config: ChannelConfig, field: string, multiple: boolean): void {
+  const value = (config as Record<string, unknown>)[field];
+  const entries = typeof value === "string" ? [value] : multiple && Array.isArray(value) ? value : null;
+  if (entries === null || entries.length === 0 || !entries.every((entry) => typeof entry === "string")) {
+    throw new Error(
+      `Notification channel "${config.name}": ${field} is required${multiple ? " (an address or a list of them)" : ""}`
+    );
+  }
+
+  // Parse rather than split on commas, which may also appear in quoted display names
+  const addresses = (entries as string[]).flatMap((entry) => addressparser(entry, { flatten: true }));
+  if (addresses.length === 0) {
+    throw new Error(`Notification channel "${config.name}": ${field} is required`);
+  }
+  if (!multiple && addresses.length !== 1) {
+    throw new Error(`Notification channel "${config.name}": ${field} must be a single email address`);
+  }
+  for (const { name, address } of addresses) {
+    if (!/^[^\s@<>,]+@[^\s@<>,]+\.[^\s@<>,]+$/.test(address)) {
+      throw new Error(
+        `Notification channel "${config.name}": ${field} has an invalid email address "${address || name}"`
+      );
+    }
+  }
+}
+
+/**
+ * Helper function to sleep for a specified number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,545 @@
+/**
+ * Portfolio tracking
+ *
+ * This module keeps a local ledger of buy and sell transactions and derives
+ * positions from it: open lots, cost basis and realized P&L (lots are
+ * matched first-in, first-out). Valuing the positions against live quotes
+ * gives unrealized P&L, day change and allocation.
+ */
+
+import { randomUUID } from "node:crypto";
+import { fetchPreviousClose } from "./history.js";
+import { JsonFileWriter, readJsonFile } from "./jsonfile.js";
+import { exchangeForSymbol } from "./markets.js";
+import type { QuoteProvider } from "./provider.js";
+import type { Quote } from "./stooq.js";
+
+/**
+ * A recorded trade
+ *
+ * @property id - Unique identifier
+ * @property symbol - The stock symbol (lowercase)
+ * @property side - "buy" or "sell"
+ * @property quantity - Number of shares (positive)
+ * @property price - Price per share, in the position's currency
+ * @property fees - Commissions and fees paid, in the position's currency
+ * @property currency - ISO 4217 currency code
+ * @property date - Trade date (YYYY-MM-DD)
+ * @property createdAt - When the transaction was recorded (ISO timestamp)
+ * @property owner - Id of the user the transaction belongs to (absent on
+ *   transactions recorded without an account; see adopt())
+ */
+export type Transaction = {
+  id: string;
+  symbol: string;
+  side: "buy" | "sell";
+  quantity: number;
+  price: number;
+  fees: number;
+  currency: string;
+  date: string;
+  createdAt: string;
+  owner?: string;
+};
+
+/**
+ * Fields needed to record a transaction
+ *
+ * The currency defaults to the one of the symbol's exchange (USD if unknown),
+ * the date to today and the fees to 0.
+ */
+export type TransactionInput = Pick<Transaction, "symbol" | "side" | "quantity" | "price"> &
+  Partial<Pick<Transaction, "fees" | "currency" | "date">>;
+
+/**
+ * Shares still held from one purchase
+ *
+ * @property transactionId - The buy transaction
+ * @property date - Purchase date
+ * @property quantity - Shares of the purchase not sold yet
+ * @property price - Purchase price per share
+ * @property cost - Cost of the remaining shares, including their share of the fees
+ */
+export type Lot = {
+  transactionId: string;
+  date: string;
+  quantity: number;
+  price: number;
+  cost: number;
+};
+
+/**
+ * Holdings in one symbol
+ *
+ * @property symbol - The stock symbol (lowercase)
+ * @property currency - The currency of the position
+ * @property quantity - Shares held (0 for closed positions)
+ * @property costBasis - Total cost of the shares held
+ * @property averageCost - Cost per share held, or null if none are held
+ * @property realizedPnl - Profit or loss from the shares sold so far
+ * @property lots - The open lots, oldest first
+ */
+export type Position = {
+  symbol: string;
+  currency: string;
+  quantity: number;
+  costBasis: number;
+  averageCost: number | null;
+  realizedPnl: number;
+  lots: Lot[];
+};
+
+/**
+ * A position valued at the latest quote
+ *
+ * The market-dependent fields are null when the quote (or, for the day
+ * change, the previous close) could not be fetched.
+ *
+ * @property quote - The quote used, or null
+ * @property error - Why the quote is missing, or null
+ * @property previousClose - Close of the previous session
+ * @property marketValue - Value of the shares held
+ * @property unrealizedPnl - Market value minus cost basis
+ * @property unrealizedPercent - Unrealized P&L relative to cost basis
+ * @property dayChange - Change in value since the previous close
+ * @property dayChangePercent - Price change since the previous close
+ * @property allocation - Share of the portfolio's market value in the same currency (percent)
+ */
+export type PositionValuation = Position & {
+  quote: Quote | null;
+  error: string | null;
+  previousClose: number | null;
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPercent: number | null;
+  dayChange: number | null;
+  dayChangePercent: number | null;
+  allocation: number | null;
+};
+
+/**
+ * Portfolio totals in one currency (positions without a quote are left out of
+ * the market-dependent totals)
+ */
+export type CurrencyTotals = {
+  currency: string;
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  dayChange: number;
+};
+
+/**
+ * The whole portfolio valued at the latest quotes
+ *
+ * @property positions - Every position, open ones first
+ * @property totals - Totals per currency
+ * @property valuedAt - When the valuation was made (ISO timestamp)
+ */
+export type PortfolioValuation = {
+  positions: PositionValuation[];
+  totals: CurrencyTotals[];
+  valuedAt: string;
+};
+
+/**
+ * Layout of the JSON file
+ */
+type PortfolioFile = {
+  transactions: Transaction[];
+};
+
+/**
+ * Transaction ledger backed by a JSON file
+ *
+ * Each user has a ledger of their own: positions are derived from one
+ * owner's transactions only. Methods that take an optional owner cover every
+ * transaction when it is omitted (the CLI before any account exists).
+ */
+export class PortfolioStore {
+  private readonly writer: JsonFileWriter;
+  private data: PortfolioFile = { transactions: [] };
+
+  private constructor(file: string) {
+    this.writer = new JsonFileWriter(file);
+  }
+
+  /**
+   * Opens the store, creating an empty one if the file does not exist yet
+   *
+   * @param file - Path to the JSON file
+   * @returns A promise that resolves to the store
+   * @throws Error if the file exists but is not a valid portfolio
+   */
+  static async open(file: string): Promise<PortfolioStore> {
+    const store = new PortfolioStore(file);
+    const data = (await readJsonFile(file)) as Partial<PortfolioFile> | null;
+
+    if (data !== null) {
+      if (!Array.isArray(data.transactions)) {
+        throw new Error(`Invalid portfolio ${file}: expected a "transactions" array`);
+      }
+      store.data = { transactions: data.transactions };
+    }
+
+    return store;
+  }
+
+  /**
+   * Returns the transactions in trade date order
+   *
+   * @param owner - Optional user id to filter by
+   * @param symbol - Optional symbol to filter by (case-insensitive)
+   */
+  transactions(owner?: string, symbol?: string): Transaction[] {
+    const key = symbol?.trim().toLowerCase();
+    return sortTransactions(this.ledger(owner)).filter((t) => key === undefined || t.symbol === key);
+  }
+
+  /**
+   * Records a transaction
+   *
+   * @param input - The trade
+   * @param owner - Id of the user the transaction belongs to
+   * @returns A promise that resolves to the stored transaction
+   * @throws Error if the trade is invalid, sells more shares than the owner
+   *   held at the time, or uses a different currency than the existing position
+   */
+  async addTransaction(input: TransactionInput, owner?: string): Promise<Transaction> {
+    validateTransactionInput(input);
+
+    const symbol = input.symbol.trim().toLowerCase();
+    const transaction: Transaction = {
+      id: randomUUID(),
+      symbol,
+      side: input.side,
+      quantity: input.quantity,
+      price: input.price,
+      fees: input.fees ?? 0,
+      currency: (input.currency ?? exchangeForSymbol(symbol)?.currency ?? "USD").toUpperCase(),
+      date: input.date ?? new Date().toISOString().slice(0, 10),
+      createdAt: new Date().toISOString(),
+      ...(owner !== undefined ? { owner } : {}),
+    };
+
+    // Check the owner's ledger still adds up before accepting the trade
+    computePositions([...this.ledger(owner), transaction]);
+
+    this.data.transactions.push(transaction);
+    await this.writer.write(this.data);
+    return transaction;
+  }
+
+  /**
+   * Deletes a transaction
+   *
+   * @param id - The transaction id
+   * @param owner - Only delete the transaction if it belongs to this user
+   * @returns A promise that resolves to true if the transaction existed (and
+   *   belongs to the owner)
+   * @throws Error if removing it would leave a later sale without shares
+   */
+  async removeTransaction(id: string, owner?: string): Promise<boolean> {
+    const transaction = this.ledger(owner).find((t) => t.id === id);
+    if (transaction === undefined) {
+      return false;
+    }
+
+    computePositions(this.data.transactions.filter((t) => t.owner === transaction.owner && t.id !== id));
+
+    this.data.transactions = this.data.transactions.filter((t) => t.id !== id);
+    await this.writer.write(this.data);
+    return true;
+  }
+
+  /**
+   * Deletes every transaction of a user
+   *
+   * @param owner - The user id
+   * @returns A promise that resolves to the number of transactions deleted
+   */
+  async removeAll(owner: string): Promise<number> {
+    const remaining = this.data.transactions.filter((t) => t.owner !== owner);
+    const removed = this.data.transactions.length - remaining.length;
+
+    if (removed > 0) {
+      this.data.transactions = remaining;
+      await this.writer.write(this.data);
+    }
+    return removed;
+  }
+
+  /**
+   * Gives every transaction without an owner to a user
+   *
+   * @param owner - The user id
+   * @returns A promise that resolves to the number of transactions adopted
+   * @throws Error if the adopted trades do not add up with the user's own
+   */
+  async adopt(owner: string): Promise<number> {
+    const orphans = this.data.transactions.filter((t) => t.owner === undefined);
+    if (orphans.length === 0) {
+      return 0;
+    }
+
+    computePositions([...this.ledger(owner), ...orphans]);
+
+    orphans.forEach((t) => (t.owner = owner));
+    await this.writer.write(this.data);
+    return orphans.length;
+  }
+
+  /**
+   * Returns all positions, including closed ones
+   *
+   * @param owner - Optional user id whose positions to return
+   */
+  positions(owner?: string): Position[] {
+    return computePositions(this.ledger(owner));
+  }
+
+  /**
+   * Returns the position in a symbol
+   *
+   * @param symbol - The symbol (case-insensitive)
+   * @param owner - Optional user id whose position to return
+   * @returns The position, or undefined if the symbol was never traded
+   */
+  position(symbol: string, owner?: string): Position | undefined {
+    const key = symbol.trim().toLowerCase();
+    return computePositions(this.ledger(owner).filter((t) => t.symbol === key))[0];
+  }
+
+  /**
+   * Returns the average cost per share held in a symbol (see AlertEngineOptions.costBasis)
+   *
+   * @param symbol - The symbol (case-insensitive)
+   * @param owner - Optional user id whose shares to look at
+   * @returns The average cost, or null if no shares are held
+   */
+  averageCost(symbol: string, owner?: string): number | null {
+    return this.position(symbol, owner)?.averageCost ?? null;
+  }
+
+  /**
+   * Returns a user's transactions, or every transaction without an owner to filter by
+   */
+  private ledger(owner: string | undefined): Transaction[] {
+    return this.data.transactions.filter((t) => owner === undefined || t.owner === owner);
+  }
+}
+
+/**
+ * Validates the fields of a transaction
+ *
+ * @param input - The trade (may come from untrusted JSON)
+ * @throws Error describing the first invalid field
+ */
+export function validateTransactionInput(input: TransactionInput): void {
+  if (typeof input.symbol !== "string" || input.symbol.trim().length === 0) {
+    throw new Error("symbol cannot be empty");
+  }
+
+  if (input.side !== "buy" && input.side !== "sell") {
+    throw new Error('side must be "buy" or "sell"');
+  }
+
+  if (typeof input.quantity !== "number" || !(input.quantity > 0) || !isFinite(input.quantity)) {
+    throw new Error("quantity must be greater than 0");
+  }
+
+  if (typeof input.price !== "number" || !(input.price > 0) || !isFinite(input.price)) {
+    throw new Error("price must be greater than 0");
+  }
+
+  if (input.fees !== undefined && (typeof input.fees !== "number" || !(input.fees >= 0))) {
+    throw new Error("fees cannot be negative");
+  }
+
+  if (input.currency !== undefined && (typeof input.currency !== "string" || !/^[A-Za-z]{3}$/.test(input.currency))) {
+    throw new Error("currency must be a 3-letter currency code");
+  }
+
+  if (input.date !== undefined && (typeof input.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(input.date))) {
+    throw new Error("date must be in YYYY-MM-DD format");
+  }
+}
+
+/**
+ * Shares below which a quantity counts as none
+ *
+ * Fractional quantities are floats, so e.g. selling 0.1 and then 0.2 of 0.3
+ * shares leaves 0.2 - 0.19999999999999998 to sell.
+ */
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * Derives positions from a ledger, matching sales to lots first-in, first-out
+ *
+ * Buy fees are added to the lot's cost; sell fees reduce the proceeds.
+ * Quantities are compared with a tolerance of QUANTITY_EPSILON.
+ *
+ * @param transactions - The ledger, in any order
+ * @returns One position per symbol, sorted by symbol
+ * @throws Error if a sale exceeds the shares held at the time or a symbol mixes currencies
+ */
+export function computePositions(transactions: Transaction[]): Position[] {
+  const positions = new Map<string, Position>();
+
+  for (const t of sortTransactions(transactions)) {
+    let position = positions.get(t.symbol);
+    if (position === undefined) {
+      position = { symbol: t.symbol, currency: t.currency, quantity: 0, costBasis: 0, averageCost: null, realizedPnl: 0, lots: [] };
+      positions.set(t.symbol, position);
+    }
+
+    if (t.currency !== position.currency) {
+      throw new Error(`${t.symbol} is held in ${position.currency}; cannot record a trade in ${t.currency}`);
+    }
+
+    if (t.side === "buy") {
+      position.lots.push({
+        transactionId: t.id,
+        date: t.date,
+        quantity: t.quantity,
+        price: t.price,
+        cost: t.quantity * t.price + t.fees,
+      });
+    } else {
+      // Consume the oldest lots first
+      let remaining = t.quantity;
+      let soldCost = 0;
+
+      while (remaining > QUANTITY_EPSILON) {
+        const lot = position.lots[0];
+        if (lot === undefined) {
+          const held = t.quantity - remaining;
+          throw new Error(`Cannot sell ${t.quantity} ${t.symbol} on ${t.date}: only ${held} held`);
+        }
+
+        // A lot that is (nearly) used up is sold whole, cost and all
+        if (lot.quantity <= remaining + QUANTITY_EPSILON) {
+          soldCost += lot.cost;
+          remaining -= lot.quantity;
+          position.lots.shift();
+          continue;
+        }
+
+        const usedCost = (lot.cost / lot.quantity) * remaining;
+        soldCost += usedCost;
+        lot.cost -= usedCost;
+        lot.quantity -= remaining;
+        remaining = 0;
+      }
+
+      position.realizedPnl += t.quantity * t.price - t.fees - soldCost;
+    }
+
+    position.quantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    position.costBasis = position.lots.reduce((sum, lot) => sum + lot.cost, 0);
+    position.averageCost = position.quantity > 0 ? position.costBasis / position.quantity : null;
+  }
+
+  return [...positions.values()].sort((a, b) => a.symbol.localeCompare(b.symbol));
+}
+
+/**
+ * Values positions at the latest quotes
+ *
+ * Quotes for all open positions are fetched in one batch; previous closes
+ * for the day change come from daily history and are cached per session.
+ *
+ * @param positions - The positions to value
+ * @param provider - Where to fetch quotes and history from
+ * @returns A promise that resolves to the valuation
+ */
+export async function valuePortfolio(positions: Position[], provider: QuoteProvider): Promise<PortfolioValuation> {
+  const open = positions.filter((p) => p.quantity > 0);
+  const results = open.length > 0 ? await provider.fetchQuotes(open.map((p) => p.symbol)) : [];
+  const bySymbol = new Map(results.map((result) => [result.symbol.toLowerCase(), result]));
+
+  const valued = await Promise.all(
+    positions.map(async (position): Promise<PositionValuation> => {
+      const result = bySymbol.get(position.symbol);
+      const valuation: PositionValuation = {
+        ...position,
+        quote: null,
+        error: null,
+        previousClose: null,
+        marketValue: null,
+        unrealizedPnl: null,
+        unrealizedPercent: null,
+        dayChange: null,
+        dayChangePercent: null,
+        allocation: null,
+      };
+
+      if (position.quantity === 0 || result === undefined) {
+        return valuation;
+      }
+
+      if (!result.ok) {
+        valuation.error = result.error;
+        return valuation;
+      }
+
+      const { quote } = result;
+      valuation.quote = quote;
+      valuation.marketValue = quote.close * position.quantity;
+      valuation.unrealizedPnl = valuation.marketValue - position.costBasis;
+      valuation.unrealizedPercent = position.costBasis > 0 ? (valuation.unrealizedPnl / position.costBasis) * 100 : null;
+
+      const previousClose = await fetchPreviousClose(provider, quote);
+      valuation.previousClose = previousClose;
+      if (previousClose !== null) {
+        valuation.dayChange = (quote.close - previousClose) * position.quantity;
+        valuation.dayChangePercent = ((quote.close - previousClose) / previousClose) * 100;
+      }
+
+      return valuation;
+    })
+  );
+
+  // Total up per currency, then work out each position's share of its currency's value
+  const totals = new Map<string, CurrencyTotals>();
+  for (const v of valued) {
+    const total = totals.get(v.currency) ?? {
+      currency: v.currency,
+      marketValue: 0,
+      costBasis: 0,
+      unrealizedPnl: 0,
+      realizedPnl: 0,
+      dayChange: 0,
+    };
+
+    total.realizedPnl += v.realizedPnl;
+    if (v.marketValue !== null) {
+      total.marketValue += v.marketValue;
+      total.costBasis += v.costBasis;
+      total.unrealizedPnl += v.unrealizedPnl ?? 0;
+      total.dayChange += v.dayChange ?? 0;
+    }
+    totals.set(v.currency, total);
+  }
+
+  for (const v of valued) {
+    const total = totals.get(v.currency);
+    if (v.marketValue !== null && total !== undefined && total.marketValue > 0) {
+      v.allocation = (v.marketValue / total.marketValue) * 100;
+    }
+  }
+
+  return {
+    positions: valued.sort((a, b) => Number(b.quantity > 0) - Number(a.quantity > 0)),
+    totals: [...totals.values()],
+    valuedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Sorts transactions by trade date, keeping the recording order within a day
+ */
+function sortTransactions(transactions: Transaction[]): Transaction[] {
+  return [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+}
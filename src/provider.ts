@@ -0,0 +1,469 @@
+/**
+ * Quote providers
+ *
+ * This module defines the QuoteProvider interface that the alert runner,
+ * the server and the CLI fetch data through, together with the two built-in
+ * implementations:
+ * - "stooq": Live data from Stooq.com
+ * - "replay": Recorded CSV/JSON fixtures replayed against a controllable clock
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import * as path from "node:path";
+import {
+  fetchQuote,
+  fetchQuotes,
+  parseQuoteCsv,
+  parseStooqTimestamp,
+  exchangeTimezone,
+  NoData,
+  quoteFailure,
+  SymbolNotFound,
+  type Quote,
+  type QuoteResult,
+  type UpstreamOptions,
+} from "./stooq.js";
+import {
+  aggregateBars,
+  fetchHistory,
+  parseHistoryCsv,
+  type Bar,
+  type HistoryOptions,
+} from "./history.js";
+import { ResilientProvider, type CircuitSnapshot } from "./resilience.js";
+import { DEFAULT_REPLAY_SPEED } from "./config.js";
+
+/**
+ * A source of quotes and historical bars
+ *
+ * Implementations must behave like the Stooq functions they mirror:
+ * fetchQuote throws for unknown symbols, fetchQuotes reports failures per symbol.
+ */
+export interface QuoteProvider {
+  /** Short name of the provider (e.g., "stooq") */
+  readonly name: string;
+  fetchQuote(symbol: string): Promise<Quote>;
+  fetchQuotes(symbols: string[]): Promise<QuoteResult[]>;
+  fetchHistory(symbol: string, options?: HistoryOptions): Promise<Bar[]>;
+  /**
+   * The provider's current time, for providers whose data is not live
+   * (e.g., replays); callers fall back to the wall clock when absent
+   */
+  now?(): Date;
+  /**
+   * The state of the provider's connection to its upstream, for health
+   * checks; absent for providers without one (e.g., replays)
+   */
+  health?(): ProviderHealth;
+}
+
+/**
+ * Upstream state reported by a provider
+ *
+ * @property circuit - The circuit breaker guarding the upstream
+ */
+export type ProviderHealth = {
+  circuit: CircuitSnapshot;
+};
+
+/**
+ * Provider selection
+ *
+ * @property provider - Which provider to use
+ * @property baseUrl - Where to reach Stooq (stooq provider only)
+ * @property timeoutMs - How long to wait for an upstream response (stooq provider only)
+ * @property retries - Retries of a transient upstream failure (stooq provider only)
+ * @property failureThreshold - Consecutive failures that open the circuit breaker (stooq provider only)
+ * @property resetMs - How long the circuit breaker stays open before a probe (stooq provider only)
+ * @property fixturesDir - Directory with recorded fixtures (replay provider only)
+ * @property startAt - Initial clock time for the replay provider; defaults to the first recorded tick
+ * @property speed - How fast the replay clock runs relative to the wall clock
+ *   (0 = manual only; default: DEFAULT_REPLAY_SPEED)
+ */
+export type ProviderConfig =
+  | {
+      provider: "stooq";
+      baseUrl?: string;
+      timeoutMs?: number;
+      retries?: number;
+      failureThreshold?: number;
+      resetMs?: number;
+    }
+  | { provider: "replay"; fixturesDir: string; startAt?: Date; speed?: number };
+
+/**
+ * Provider backed by live Stooq.com data
+ */
+export class StooqProvider implements QuoteProvider {
+  readonly name = "stooq";
+
+  /**
+   * @param upstream - Request options, e.g. the timeout
+   */
+  constructor(private readonly upstream: UpstreamOptions = {}) {}
+
+  fetchQuote(symbol: string): Promise<Quote> {
+    return fetchQuote(symbol, this.upstream);
+  }
+
+  fetchQuotes(symbols: string[]): Promise<QuoteResult[]> {
+    return fetchQuotes(symbols, this.upstream);
+  }
+
+  fetchHistory(symbol: string, options?: HistoryOptions): Promise<Bar[]> {
+    return fetchHistory(symbol, options, this.upstream);
+  }
+}
+
+/**
+ * A controllable clock for replaying fixtures
+ *
+ * With a positive speed the clock runs along with the wall clock, e.g. a
+ * speed of 60 replays an hour of ticks per minute (default:
+ * DEFAULT_REPLAY_SPEED, the same as the server's). With a speed of 0 it
+ * only moves when set() or advance() is called, which is what tests want.
+ */
+export class ReplayClock {
+  private anchor: number;
+  private anchorWall: number;
+  private readonly speed: number;
+
+  constructor(start: Date = new Date(0), speed = DEFAULT_REPLAY_SPEED) {
+    if (speed < 0) {
+      throw new Error("Replay speed cannot be negative");
+    }
+    this.anchor = start.getTime();
+    this.anchorWall = Date.now();
+    this.speed = speed;
+  }
+
+  /**
+   * Returns the current replay time
+   */
+  now(): Date {
+    return new Date(this.anchor + (Date.now() - this.anchorWall) * this.speed);
+  }
+
+  /**
+   * Moves the clock to the given time (backwards is allowed)
+   *
+   * @param time - The new replay time
+   */
+  set(time: Date): void {
+    this.anchor = time.getTime();
+    this.anchorWall = Date.now();
+  }
+
+  /**
+   * Moves the clock forward
+   *
+   * @param ms - Milliseconds to advance by
+   */
+  advance(ms: number): void {
+    this.set(new Date(this.now().getTime() + ms));
+  }
+}
+
+/**
+ * Provider that serves quotes from recorded fixtures
+ *
+ * The fixtures directory holds one file per symbol, named after the symbol:
+ * - `<symbol>.json`: An array of quotes (each needs `close` and either
+ *   `timestamp` or `date` + `time`)
+ * - `<symbol>.csv`: Either a Stooq quote CSV (Symbol,Date,Time,...) with one
+ *   row per tick, or a Stooq historical CSV (Date,Open,High,Low,Close,Volume)
+ *   with one row per day
+ *
+ * A quote request returns the latest recorded tick at or before the clock's
+ * current time, so advancing the clock steps through the recording.
+ */
+export class ReplayProvider implements QuoteProvider {
+  readonly name = "replay";
+  readonly clock: ReplayClock;
+  private readonly ticks: Map<string, Quote[]>;
+
+  private constructor(ticks: Map<string, Quote[]>, clock: ReplayClock) {
+    this.ticks = ticks;
+    this.clock = clock;
+  }
+
+  /**
+   * Loads all fixtures from a directory
+   *
+   * @param fixturesDir - The directory to load fixtures from
+   * @param startAt - Initial clock time; defaults to the earliest recorded tick
+   * @param speed - Clock speed relative to the wall clock (0: manual only; default: DEFAULT_REPLAY_SPEED)
+   * @returns A promise that resolves to the provider
+   * @throws Error if the directory cannot be read or a fixture is malformed
+   */
+  static async load(fixturesDir: string, startAt?: Date, speed = DEFAULT_REPLAY_SPEED): Promise<ReplayProvider> {
+    const ticks = new Map<string, Quote[]>();
+
+    for (const file of await readdir(fixturesDir)) {
+      const extension = path.extname(file).toLowerCase();
+      if (extension !== ".csv" && extension !== ".json") {
+        continue;
+      }
+
+      const symbol = path.basename(file, path.extname(file)).toLowerCase();
+      const text = await readFile(path.join(fixturesDir, file), "utf8");
+
+      try {
+        const quotes = extension === ".json" ? parseJsonFixture(text, symbol) : parseCsvFixture(text, symbol);
+        ticks.set(symbol, quotes.sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+      } catch (error) {
+        throw new Error(
+          `Invalid fixture ${file}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    // Start the clock at the first recorded tick unless told otherwise
+    const first = [...ticks.values()]
+      .map((quotes) => quotes[0]?.timestamp)
+      .filter((timestamp): timestamp is string => timestamp !== undefined)
+      .sort()[0];
+
+    const clock = new ReplayClock(startAt ?? (first !== undefined ? new Date(first) : new Date()), speed);
+    return new ReplayProvider(ticks, clock);
+  }
+
+  /**
+   * Returns the replay clock's current time
+   */
+  now(): Date {
+    return this.clock.now();
+  }
+
+  /**
+   * Returns the symbols that have fixtures
+   */
+  symbols(): string[] {
+    return [...this.ticks.keys()];
+  }
+
+  /**
+   * Suggests recorded symbols for one without fixtures (e.g., "aapl.us" for "aapl")
+   */
+  private suggest(symbol: string): string[] {
+    const base = symbol.trim().toLowerCase().replace(/^\$/, "").split(".")[0];
+    return this.symbols().filter((known) => known.split(".")[0] === base);
+  }
+
+  /**
+   * Advances the clock to the next recorded tick of any symbol
+   *
+   * @returns True if the clock moved, false if the recording is exhausted
+   */
+  step(): boolean {
+    const now = this.clock.now().toISOString();
+    let next: string | undefined;
+
+    for (const quotes of this.ticks.values()) {
+      const candidate = quotes.find((quote) => quote.timestamp > now)?.timestamp;
+      if (candidate !== undefined && (next === undefined || candidate < next)) {
+        next = candidate;
+      }
+    }
+
+    if (next === undefined) {
+      return false;
+    }
+
+    this.clock.set(new Date(next));
+    return true;
+  }
+
+  async fetchQuote(symbol: string): Promise<Quote> {
+    // Validate that symbol is provided
+    if (!symbol || symbol.trim().length === 0) {
+      throw new Error("Symbol cannot be empty");
+    }
+
+    const quotes = this.ticks.get(symbol.trim().toLowerCase());
+    if (quotes === undefined) {
+      throw new SymbolNotFound(symbol, this.suggest(symbol));
+    }
+
+    const now = this.clock.now().toISOString();
+    const quote = quotes.filter((q) => q.timestamp <= now).pop();
+
+    if (quote === undefined) {
+      throw new NoData(symbol, `No data recorded for symbol: ${symbol} at ${now}`);
+    }
+
+    return quote;
+  }
+
+  async fetchQuotes(symbols: string[]): Promise<QuoteResult[]> {
+    const requested = [...new Set(symbols.map((s) => s.trim()).filter((s) => s.length > 0))];
+
+    if (requested.length === 0) {
+      throw new Error("At least one symbol is required");
+    }
+
+    return Promise.all(
+      requested.map(async (symbol): Promise<QuoteResult> => {
+        try {
+          return { symbol, ok: true, quote: await this.fetchQuote(symbol) };
+        } catch (error) {
+          return quoteFailure(symbol, error);
+        }
+      })
+    );
+  }
+
+  async fetchHistory(symbol: string, options: HistoryOptions = {}): Promise<Bar[]> {
+    const quotes = this.ticks.get(symbol.trim().toLowerCase());
+    if (quotes === undefined) {
+      throw new SymbolNotFound(symbol, this.suggest(symbol));
+    }
+
+    // Only ticks up to the clock's current time are "history"
+    const now = this.clock.now().toISOString();
+    const from = options.from === undefined ? null : toIsoDate(options.from);
+    const to = options.to === undefined ? null : toIsoDate(options.to);
+
+    // Collapse the ticks of each day into a daily bar
+    const daily: Bar[] = [];
+    for (const quote of quotes) {
+      if (quote.timestamp > now || (from !== null && quote.date < from) || (to !== null && quote.date > to)) {
+        continue;
+      }
+
+      const last = daily[daily.length - 1];
+      if (last !== undefined && last.date === quote.date) {
+        last.high = Math.max(last.high, quote.high ?? quote.close);
+        last.low = Math.min(last.low, quote.low ?? quote.close);
+        last.close = quote.close;
+        last.volume = quote.volume ?? last.volume;
+      } else {
+        daily.push({
+          date: quote.date,
+          open: quote.open ?? quote.close,
+          high: quote.high ?? quote.close,
+          low: quote.low ?? quote.close,
+          close: quote.close,
+          volume: quote.volume,
+        });
+      }
+    }
+
+    return aggregateBars(daily, options.interval ?? "d");
+  }
+}
+
+/**
+ * Creates the provider described by the configuration
+ *
+ * The stooq provider retries transient failures and sits behind a circuit
+ * breaker (see ResilientProvider).
+ *
+ * @param config - The provider selection
+ * @returns A promise that resolves to the provider
+ */
+export async function createProvider(config: ProviderConfig): Promise<QuoteProvider> {
+  if (config.provider === "replay") {
+    return ReplayProvider.load(config.fixturesDir, config.startAt, config.speed);
+  }
+
+  const stooq = new StooqProvider({
+    ...(config.baseUrl !== undefined ? { baseUrl: config.baseUrl } : {}),
+    ...(config.timeoutMs !== undefined ? { timeoutMs: config.timeoutMs } : {}),
+  });
+  return new ResilientProvider(stooq, {
+    ...(config.retries !== undefined ? { retries: config.retries } : {}),
+    circuit: {
+      ...(config.failureThreshold !== undefined ? { failureThreshold: config.failureThreshold } : {}),
+      ...(config.resetMs !== undefined ? { resetMs: config.resetMs } : {}),
+    },
+  });
+}
+
+/**
+ * Parses a JSON fixture into quotes
+ *
+ * @param text - The JSON text (an array of quote objects)
+ * @param symbol - The symbol the fixture is for
+ * @returns The quotes
+ * @throws Error if the JSON is not an array of valid quotes
+ */
+function parseJsonFixture(text: string, symbol: string): Quote[] {
+  const data: unknown = JSON.parse(text);
+
+  if (!Array.isArray(data)) {
+    throw new Error("Expected an array of quotes");
+  }
+
+  return data.map((entry: Partial<Quote>, index): Quote => {
+    if (typeof entry?.close !== "number") {
+      throw new Error(`Entry ${index} has no numeric close`);
+    }
+
+    let { date, time, timestamp } = entry;
+
+    // Fill in whichever of timestamp or date/time is missing
+    if (timestamp === undefined) {
+      if (date === undefined || time === undefined) {
+        throw new Error(`Entry ${index} needs a timestamp or date and time`);
+      }
+      timestamp = parseStooqTimestamp(date, time, symbol);
+    } else if (date === undefined || time === undefined) {
+      const iso = new Date(timestamp).toISOString();
+      date = iso.slice(0, 10);
+      time = iso.slice(11, 19);
+    }
+
+    return {
+      symbol: entry.symbol ?? symbol.toUpperCase(),
+      name: entry.name ?? null,
+      date,
+      time,
+      timestamp: new Date(timestamp).toISOString(),
+      timezone: entry.timezone ?? exchangeTimezone(symbol),
+      open: entry.open ?? null,
+      high: entry.high ?? null,
+      low: entry.low ?? null,
+      close: entry.close,
+      volume: entry.volume ?? null,
+    };
+  });
+}
+
+/**
+ * Parses a CSV fixture (quote or historical format) into quotes
+ *
+ * @param text - The CSV text
+ * @param symbol - The symbol the fixture is for
+ * @returns The quotes
+ * @throws Error if the CSV is malformed
+ */
+function parseCsvFixture(text: string, symbol: string): Quote[] {
+  const header = text.trimStart().split(/\r?\n/, 1)[0] ?? "";
+
+  if (header.split(",").includes("Symbol")) {
+    return parseQuoteCsv(text);
+  }
+
+  // Historical bars become one tick per day, stamped at the end of the day
+  return parseHistoryCsv(text, symbol).map((bar) => ({
+    symbol: symbol.toUpperCase(),
+    name: null,
+    date: bar.date,
+    time: "23:59:59",
+    timestamp: parseStooqTimestamp(bar.date, "23:59:59", symbol),
+    timezone: exchangeTimezone(symbol),
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume,
+  }));
+}
+
+/**
+ * Converts a Date or "YYYY-MM-DD" string to "YYYY-MM-DD"
+ */
+function toIsoDate(value: Date | string): string {
+  return typeof value === "string" ? value : value.toISOString().slice(0, 10);
+}
@@ -0,0 +1,78 @@
+/**
+ * Token bucket rate limiting
+ *
+ * A bucket holds up to `capacity` tokens and refills continuously at
+ * `refillPerSecond`. Each request takes one token, so short bursts up to the
+ * capacity are allowed while the long-run rate stays bounded.
+ */
+
+/**
+ * A token bucket
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  /**
+   * @param capacity - Maximum number of tokens (the burst size)
+   * @param refillPerSecond - Tokens added per second
+   * @param now - Clock in milliseconds (for tests)
+   * @throws Error if capacity or refill rate is not positive
+   */
+  constructor(
+    readonly capacity: number,
+    readonly refillPerSecond: number,
+    private readonly now: () => number = Date.now
+  ) {
+    if (!(capacity > 0) || !(refillPerSecond > 0)) {
+      throw new Error("Token bucket capacity and refill rate must be greater than 0");
+    }
+
+    this.tokens = capacity;
+    this.updatedAt = now();
+  }
+
+  /**
+   * Takes a token if one is available
+   *
+   * @returns 0 if a token was taken, otherwise how many milliseconds until one is available
+   */
+  tryTake(): number {
+    this.refill();
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+
+    return Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+  }
+
+  /**
+   * Takes a token, waiting until one is available
+   *
+   * @returns A promise that resolves once a token was taken
+   */
+  async take(): Promise<void> {
+    for (let waitMs = this.tryTake(); waitMs > 0; waitMs = this.tryTake()) {
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /**
+   * Whether the bucket is full, i.e. indistinguishable from a new bucket
+   */
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.capacity;
+  }
+
+  /**
+   * Adds the tokens accumulated since the last update
+   */
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+    this.updatedAt = now;
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * Resilient upstream access
+ *
+ * This module keeps a flaky or unavailable upstream from stalling or
+ * hammering the app:
+ * - backoffDelay(): exponential backoff with jitter for retries
+ * - CircuitBreaker: stops sending requests after repeated failures and lets
+ *   a single probe through once a cool-down has passed
+ * - ResilientProvider: a QuoteProvider decorator that retries transient
+ *   failures and sends every request through a circuit breaker
+ */
+
+import type { Bar, HistoryOptions } from "./history.js";
+import type { ProviderHealth, QuoteProvider } from "./provider.js";
+import { CircuitOpen, DailyLimitExceeded, QuoteError, UpstreamHttpError, type Quote, type QuoteResult } from "./stooq.js";
+
+/**
+ * Exponential backoff settings
+ *
+ * @property baseMs - Delay before the first retry
+ * @property maxMs - Upper bound of the delay
+ */
+export type BackoffOptions = {
+  baseMs: number;
+  maxMs: number;
+};
+
+/**
+ * Returns how long to wait before a retry
+ *
+ * The delay doubles with every attempt up to maxMs. "Equal jitter" keeps half
+ * of it fixed and randomizes the other half, so clients that failed together
+ * do not all retry at the same moment, yet every delay still grows.
+ *
+ * @param attempt - Number of retries made so far (0 for the first retry)
+ * @param options - Base and maximum delay
+ * @param random - Source of randomness in [0, 1) (for tests)
+ * @returns The delay in milliseconds
+ */
+export function backoffDelay(attempt: number, options: BackoffOptions, random: () => number = Math.random): number {
+  const delay = Math.min(options.maxMs, options.baseMs * 2 ** attempt);
+  return Math.round(delay / 2 + random() * (delay / 2));
+}
+
+/**
+ * Whether an error is a transient upstream failure that a retry may fix
+ *
+ * Timeouts, network failures, 5xx and 429 responses and error pages are;
+ * unknown symbols, client errors, the daily limit and an open circuit are not.
+ *
+ * @param error - The error
+ */
+export function isTransient(error: unknown): boolean {
+  if (error instanceof UpstreamHttpError) {
+    return error.status === null || error.status === 429 || !(error.status >= 400 && error.status < 500);
+  }
+  return error instanceof QuoteError && error.code === "TIMEOUT";
+}
+
+/**
+ * State of a circuit breaker
+ * - "closed": Requests go through
+ * - "open": Requests fail right away with CircuitOpen until retryAt
+ * - "halfOpen": One probe request goes through; its outcome closes or reopens the circuit
+ */
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+/**
+ * A circuit breaker's state, for health checks
+ *
+ * @property state - The current state
+ * @property failures - Consecutive upstream failures
+ * @property openedAt - When the circuit last opened (ISO timestamp), or null
+ * @property retryAt - When an open circuit lets a probe through (ISO timestamp), or null
+ * @property lastError - Message of the last upstream failure, or null
+ */
+export type CircuitSnapshot = {
+  state: CircuitState;
+  failures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastError: string | null;
+};
+
+/**
+ * Options for a CircuitBreaker
+ *
+ * @property failureThreshold - Consecutive failures that open the circuit (default: 5)
+ * @property resetMs - How long the circuit stays open before a probe (default: 30000)
+ * @property limitResetMs - How long it stays open after the upstream's daily limit
+ *   was hit (default: 1 hour)
+ */
+export type CircuitBreakerOptions = {
+  failureThreshold?: number;
+  resetMs?: number;
+  limitResetMs?: number;
+};
+
+/**
+ * Stops calling an upstream that keeps failing
+ *
+ * Transient failures and unreadable responses count as failures; any other
+ * outcome (including errors such as an unknown symbol) shows the upstream is
+ * answering and resets the count. The daily-limit error opens the circuit at
+ * once for limitResetMs.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetMs: number;
+  private readonly limitResetMs: number;
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt: number | null = null;
+  private retryAt: number | null = null;
+  private lastError: string | null = null;
+  private probing = false;
+
+  /**
+   * @param options - Thresholds and cool-downs
+   * @param now - Clock in milliseconds (for tests)
+   * @throws Error if an option is not positive
+   */
+  constructor(options: CircuitBreakerOptions = {}, private readonly now: () => number = Date.now) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetMs = options.resetMs ?? 30_000;
+    this.limitResetMs = options.limitResetMs ?? 3_600_000;
+
+    if (!(this.failureThreshold > 0) || !(this.resetMs > 0) || !(this.limitResetMs > 0)) {
+      throw new Error("Circuit breaker thresholds and reset times must be greater than 0");
+    }
+  }
+
+  /**
+   * Runs an upstream call unless the circuit is open
+   *
+   * @param call - The call to make
+   * @returns A promise that resolves to the call's result
+   * @throws CircuitOpen if the circuit is open (or a probe is already in flight)
+   * @throws Whatever the call throws
+   */
+  async run<T>(call: () => Promise<T>): Promise<T> {
+    const probe = this.admit();
+
+    try {
+      const result = await call();
+      this.succeed();
+      return result;
+    } catch (error) {
+      if (error instanceof DailyLimitExceeded) {
+        this.lastError = error.message;
+        this.open(this.limitResetMs);
+      } else if (isTransient(error) || (error instanceof QuoteError && error.code === "PARSE_ERROR")) {
+        this.fail(error);
+      } else {
+        this.succeed();
+      }
+      throw error;
+    } finally {
+      if (probe) {
+        this.probing = false;
+      }
+    }
+  }
+
+  /**
+   * Returns the current state, for health checks
+   */
+  snapshot(): CircuitSnapshot {
+    this.admitAfterReset();
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retryAt: this.retryAt !== null ? new Date(this.retryAt).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Lets a call through or throws CircuitOpen
+   *
+   * @returns Whether the call is the half-open probe
+   */
+  private admit(): boolean {
+    this.admitAfterReset();
+
+    if (this.state === "open" || (this.state === "halfOpen" && this.probing)) {
+      throw new CircuitOpen(new Date(this.retryAt ?? this.now()), this.lastError);
+    }
+
+    if (this.state === "halfOpen") {
+      this.probing = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Moves an open circuit whose cool-down has passed to half-open
+   */
+  private admitAfterReset(): void {
+    if (this.state === "open" && this.retryAt !== null && this.now() >= this.retryAt) {
+      this.state = "halfOpen";
+    }
+  }
+
+  /**
+   * Records an answer from the upstream
+   */
+  private succeed(): void {
+    this.state = "closed";
+    this.failures = 0;
+    this.retryAt = null;
+  }
+
+  /**
+   * Records a failure, opening the circuit at the threshold or when a probe fails
+   */
+  private fail(error: unknown): void {
+    this.failures += 1;
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    if (this.state === "halfOpen" || this.failures >= this.failureThreshold) {
+      this.open(this.resetMs);
+    }
+  }
+
+  /**
+   * Opens the circuit for a while
+   */
+  private open(forMs: number): void {
+    this.state = "open";
+    this.openedAt = this.now();
+    this.retryAt = this.openedAt + forMs;
+  }
+}
+
+/**
+ * Options for a ResilientProvider
+ *
+ * @property retries - Retries of a transient failure within one call (default: 2)
+ * @property backoff - Delays between those retries (default: 500ms doubling up to 4s)
+ * @property circuit - Circuit breaker settings
+ */
+export type ResilienceOptions = {
+  retries?: number;
+  backoff?: BackoffOptions;
+  circuit?: CircuitBreakerOptions;
+};
+
+/**
+ * QuoteProvider decorator that retries transient failures behind a circuit breaker
+ *
+ * A call is retried with backoff while it fails transiently; only its final
+ * outcome counts towards the circuit breaker. While the circuit is open calls
+ * fail at once with CircuitOpen, which tells callers when to try again.
+ */
+export class ResilientProvider implements QuoteProvider {
+  readonly name: string;
+  readonly breaker: CircuitBreaker;
+  private readonly retries: number;
+  private readonly backoff: BackoffOptions;
+
+  /**
+   * @param provider - The provider to protect
+   * @param options - Retry and circuit breaker settings
+   * @param sleep - Waits between retries (for tests)
+   * @throws Error if retries is negative or a circuit option is not positive
+   */
+  constructor(
+    private readonly provider: QuoteProvider,
+    options: ResilienceOptions = {},
+    private readonly sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+  ) {
+    this.name = provider.name;
+    this.breaker = new CircuitBreaker(options.circuit);
+    this.retries = options.retries ?? 2;
+    this.backoff = options.backoff ?? { baseMs: 500, maxMs: 4000 };
+
+    if (!(Number.isInteger(this.retries) && this.retries >= 0)) {
+      throw new Error("retries must be a whole number of 0 or more");
+    }
+  }
+
+  fetchQuote(symbol: string): Promise<Quote> {
+    return this.call(() => this.provider.fetchQuote(symbol));
+  }
+
+  fetchQuotes(symbols: string[]): Promise<QuoteResult[]> {
+    return this.call(() => this.provider.fetchQuotes(symbols));
+  }
+
+  fetchHistory(symbol: string, options?: HistoryOptions): Promise<Bar[]> {
+    return this.call(() => this.provider.fetchHistory(symbol, options));
+  }
+
+  now(): Date {
+    return this.provider.now?.() ?? new Date();
+  }
+
+  health(): ProviderHealth {
+    return { circuit: this.breaker.snapshot() };
+  }
+
+  /**
+   * Makes a call through the circuit breaker, retrying transient failures
+   */
+  private call<T>(call: () => Promise<T>): Promise<T> {
+    return this.breaker.run(async () => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await call();
+        } catch (error) {
+          if (attempt >= this.retries || !isTransient(error)) {
+            throw error;
+          }
+          await this.sleep(backoffDelay(attempt, this.backoff));
+        }
+      }
+    });
+  }
+}
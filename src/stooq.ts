@@ -1,112 +1,760 @@
 /**
  * Fetches stock quote data from Stooq.com
- * 
- * This function retrieves the latest stock quote for a given symbol
- * and returns the symbol, date, time, and closing price.
+ *
+ * This module retrieves the latest stock quote for a given symbol
+ * and returns the full OHLCV bar together with the instrument name.
+ *
+ * Failures are reported as QuoteError subclasses, so callers can tell an
+ * unknown symbol from a symbol without data, an HTTP error, an unreadable
+ * response or a timeout:
+ * - SymbolNotFound: Stooq does not know the symbol (with suggestions)
+ * - NoData: The symbol exists but has no usable price (e.g., delisted)
+ * - UpstreamHttpError: Stooq answered with an HTTP error or an HTML error page,
+ *   or could not be reached
+ * - ParseError: The response is not in the expected format
+ * - Timeout: Stooq did not answer in time
+ * - DailyLimitExceeded: Stooq refuses requests until its daily hits limit resets
+ * - CircuitOpen: Requests are not sent because Stooq failed repeatedly (see resilience.ts)
  */
 
+/**
+ * A single stock quote as returned by Stooq
+ *
+ * Stooq reports "N/A" (or "N/D") for fields it has no data for, e.g. indices
+ * have no volume and some instruments have no name. Those fields are null here
+ * so callers can tell "missing" apart from a real zero.
+ *
+ * @property symbol - The symbol as reported by Stooq (e.g., "AAPL.US")
+ * @property name - The instrument name (e.g., "APPLE"), or null if unavailable
+ * @property date - The quote date as reported by Stooq (YYYY-MM-DD)
+ * @property time - The quote time as reported by Stooq (HH:MM:SS)
+ * @property timestamp - The quote date/time as an ISO 8601 UTC timestamp
+ * @property timezone - The IANA timezone of the instrument's exchange
+ * @property open - The opening price of the session
+ * @property high - The highest price of the session
+ * @property low - The lowest price of the session
+ * @property close - The latest (closing) price
+ * @property volume - The traded volume of the session
+ */
+export type Quote = {
+  symbol: string;
+  name: string | null;
+  date: string;
+  time: string;
+  timestamp: string;
+  timezone: string;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number;
+  volume: number | null;
+};
+
+/**
+ * Timezone in which Stooq reports the Date and Time columns
+ */
+const STOOQ_TIMEZONE = "Europe/Warsaw";
+
+/**
+ * Exchange timezones keyed by Stooq symbol suffix
+ * Symbols without a known suffix fall back to Stooq's own timezone
+ */
+const EXCHANGE_TIMEZONES: Record<string, string> = {
+  us: "America/New_York",
+  uk: "Europe/London",
+  de: "Europe/Berlin",
+  pl: "Europe/Warsaw",
+  hu: "Europe/Budapest",
+  jp: "Asia/Tokyo",
+  hk: "Asia/Hong_Kong",
+};
+
+/**
+ * Values Stooq uses for fields without data
+ */
+const MISSING_VALUES = new Set(["", "N/A", "N/D"]);
+
+/**
+ * How long to wait for Stooq to answer by default, in milliseconds
+ */
+export const UPSTREAM_TIMEOUT_MS = 10_000;
+
+/**
+ * Where Stooq is reached by default
+ */
+export const STOOQ_BASE_URL = "https://stooq.com";
+
+/**
+ * Options for requests to Stooq
+ *
+ * @property timeoutMs - How long to wait for the complete response (default: UPSTREAM_TIMEOUT_MS)
+ * @property baseUrl - Scheme and host to send requests to, e.g. a caching proxy (default: STOOQ_BASE_URL)
+ */
+export type UpstreamOptions = {
+  timeoutMs?: number;
+  baseUrl?: string;
+};
+
+/**
+ * Builds the URL of a Stooq path under the configured base URL
+ *
+ * @param options - Request options
+ * @param pathAndQuery - The path and query string, e.g. "/q/l/?s=aapl.us"
+ */
+export function upstreamUrl(options: UpstreamOptions, pathAndQuery: string): string {
+  return `${(options.baseUrl ?? STOOQ_BASE_URL).replace(/\/+$/, "")}${pathAndQuery}`;
+}
+
+/**
+ * Machine-readable kind of a QuoteError
+ */
+export type QuoteErrorCode =
+  | "SYMBOL_NOT_FOUND"
+  | "NO_DATA"
+  | "UPSTREAM_HTTP"
+  | "PARSE_ERROR"
+  | "TIMEOUT"
+  | "DAILY_LIMIT"
+  | "CIRCUIT_OPEN";
+
+/**
+ * Base class of the errors raised while fetching quotes and history
+ *
+ * @property code - What went wrong, for programs (e.g., to pick an HTTP status)
+ * @property symbol - The symbol concerned, or null if the error is not about one symbol
+ */
+export class QuoteError extends Error {
+  constructor(
+    readonly code: QuoteErrorCode,
+    message: string,
+    readonly symbol: string | null = null
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The symbol is not known upstream
+ *
+ * @property suggestions - Symbols the user may have meant (e.g., "aapl.us" for "aapl")
+ */
+export class SymbolNotFound extends QuoteError {
+  constructor(
+    symbol: string,
+    readonly suggestions: string[] = suggestSymbols(symbol)
+  ) {
+    const hint = suggestions.length > 0 ? ` Did you mean ${suggestions.join(" or ")}?` : "";
+    super("SYMBOL_NOT_FOUND", `Invalid symbol: ${symbol}. The symbol was not found or is not recognized.${hint}`, symbol);
+  }
+}
+
+/**
+ * The symbol exists but there is no usable data for it
+ */
+export class NoData extends QuoteError {
+  constructor(symbol: string, message: string) {
+    super("NO_DATA", message, symbol);
+  }
+}
+
+/**
+ * The upstream request failed with an HTTP error or did not get a response
+ *
+ * @property status - The HTTP status, or null if no response arrived (e.g., network failure)
+ */
+export class UpstreamHttpError extends QuoteError {
+  constructor(
+    readonly status: number | null,
+    message: string,
+    symbol: string | null = null
+  ) {
+    super("UPSTREAM_HTTP", message, symbol);
+  }
+}
+
+/**
+ * The response could not be parsed
+ */
+export class ParseError extends QuoteError {
+  constructor(message: string, symbol: string | null = null) {
+    super("PARSE_ERROR", message, symbol);
+  }
+}
+
+/**
+ * The upstream request took longer than allowed
+ *
+ * @property timeoutMs - How long the request was given, in milliseconds
+ */
+export class Timeout extends QuoteError {
+  constructor(
+    readonly timeoutMs: number,
+    label: string,
+    symbol: string | null = null
+  ) {
+    super("TIMEOUT", `Request for ${label} timed out after ${timeoutMs / 1000}s. Try again later.`, symbol);
+  }
+}
+
+/**
+ * Stooq answered that the daily hits limit is exceeded
+ *
+ * Stooq sends this as a plain-text page with a 200 status; requests keep
+ * failing until the limit resets.
+ */
+export class DailyLimitExceeded extends QuoteError {
+  constructor(label: string, symbol: string | null = null) {
+    super("DAILY_LIMIT", `Stooq's daily request limit was exceeded while fetching ${label}`, symbol);
+  }
+}
+
+/**
+ * The request was not sent because the circuit breaker in front of Stooq is open
+ *
+ * @property retryAt - When requests are let through again
+ */
+export class CircuitOpen extends QuoteError {
+  constructor(
+    readonly retryAt: Date,
+    reason: string | null = null
+  ) {
+    const cause = reason !== null ? ` (last error: ${reason})` : "";
+    super("CIRCUIT_OPEN", `Stooq is unavailable${cause}; not retrying before ${retryAt.toISOString()}`);
+  }
+}
+
+/**
+ * Result of fetching one symbol as part of a batch
+ *
+ * A batch never fails because of a single bad symbol; instead that symbol's
+ * entry carries the error and the other entries carry their quotes. `code`
+ * is null for errors that are not QuoteErrors; `suggestions` is only set for
+ * SYMBOL_NOT_FOUND.
+ */
+export type QuoteResult =
+  | { symbol: string; ok: true; quote: Quote }
+  | QuoteFailure;
+
+/**
+ * A failed entry of a batch (see QuoteResult)
+ */
+export type QuoteFailure = {
+  symbol: string;
+  ok: false;
+  error: string;
+  code: QuoteErrorCode | null;
+  suggestions?: string[];
+};
+
+/**
+ * Describes an error as a failed batch entry
+ *
+ * @param symbol - The symbol of the entry
+ * @param error - The error raised for it
+ * @returns The failed entry
+ */
+export function quoteFailure(symbol: string, error: unknown): QuoteFailure {
+  return {
+    symbol,
+    ok: false,
+    error: error instanceof Error ? error.message : String(error),
+    code: error instanceof QuoteError ? error.code : null,
+    ...(error instanceof SymbolNotFound ? { suggestions: error.suggestions } : {}),
+  };
+}
+
+/**
+ * Turns a failed batch entry back into an error of the same kind
+ *
+ * @param failure - The failed entry
+ * @returns The error (a plain Error if the entry has no code)
+ */
+export function quoteErrorFromFailure(failure: QuoteFailure): Error {
+  switch (failure.code) {
+    case "SYMBOL_NOT_FOUND":
+      return new SymbolNotFound(failure.symbol, failure.suggestions ?? []);
+    case "NO_DATA":
+      return new NoData(failure.symbol, failure.error);
+    case "UPSTREAM_HTTP":
+      return new UpstreamHttpError(null, failure.error, failure.symbol);
+    case "PARSE_ERROR":
+      return new ParseError(failure.error, failure.symbol);
+    case "TIMEOUT": {
+      const error = new Timeout(UPSTREAM_TIMEOUT_MS, failure.symbol, failure.symbol);
+      error.message = failure.error;
+      return error;
+    }
+    case "DAILY_LIMIT": {
+      const error = new DailyLimitExceeded(failure.symbol, failure.symbol);
+      error.message = failure.error;
+      return error;
+    }
+    case "CIRCUIT_OPEN": {
+      const error = new CircuitOpen(new Date());
+      error.message = failure.error;
+      return error;
+    }
+    default:
+      return new Error(failure.error);
+  }
+}
+
+/**
+ * Suggests correctly written symbols for one Stooq did not recognize
+ *
+ * Stooq symbols carry an exchange suffix (e.g., "aapl.us"); the most common
+ * mistakes are leaving it out and typing a ticker as "$AAPL".
+ *
+ * @param symbol - The symbol as entered
+ * @returns The suggestions (empty if the symbol already looks right)
+ */
+export function suggestSymbols(symbol: string): string[] {
+  const cleaned = symbol.trim().toLowerCase().replace(/^\$/, "");
+  if (cleaned.length === 0 || cleaned.startsWith("^")) {
+    return [];
+  }
+
+  const dot = cleaned.lastIndexOf(".");
+  const suffix = dot === -1 ? null : cleaned.slice(dot + 1);
+  if (suffix !== null && suffix in EXCHANGE_TIMEZONES) {
+    return cleaned !== symbol.trim().toLowerCase() ? [cleaned] : [];
+  }
+
+  // No known exchange suffix: assume a US ticker, which is what most people look up
+  const base = dot === -1 ? cleaned : cleaned.slice(0, dot);
+  return /^[a-z0-9-]+$/.test(base) ? [`${base}.us`] : [];
+}
+
+/**
+ * Fetches a Stooq URL with a timeout and returns the response body
+ *
+ * The timeout covers the whole exchange, including reading the body, so a
+ * connection that hangs halfway is aborted too. Stooq reports some failures
+ * with a 200 status, so the body is checked for its daily-limit notice and
+ * for HTML error pages where CSV is expected.
+ *
+ * @param url - The URL to fetch
+ * @param label - What is being fetched (used in error messages, e.g., "quote for aapl.us")
+ * @param symbol - The symbol concerned, if there is exactly one
+ * @param options - Request options (timeout)
+ * @returns A promise that resolves to the response text
+ * @throws Timeout if Stooq does not answer within the timeout
+ * @throws UpstreamHttpError if the request fails, the status is not 2xx or Stooq sends an HTML page
+ * @throws DailyLimitExceeded if Stooq's daily hits limit is exceeded
+ */
+export async function fetchUpstream(
+  url: string,
+  label: string,
+  symbol: string | null = null,
+  options: UpstreamOptions = {}
+): Promise<string> {
+  const timeoutMs = options.timeoutMs ?? UPSTREAM_TIMEOUT_MS;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let response: Response;
+  let body: string;
+  try {
+    response = await fetch(url, { signal: controller.signal });
+    body = await response.text();
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Timeout(timeoutMs, label, symbol);
+    }
+    const reason = error instanceof Error ? ((error.cause as Error | undefined)?.message ?? error.message) : String(error);
+    throw new UpstreamHttpError(null, `Failed to fetch ${label}: ${reason}`, symbol);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  // Check if the request was successful
+  if (!response.ok) {
+    throw new UpstreamHttpError(response.status, `Failed to fetch ${label}: HTTP ${response.status}`, symbol);
+  }
+
+  if (/exceeded the daily hits limit/i.test(body.slice(0, 500))) {
+    throw new DailyLimitExceeded(label, symbol);
+  }
+
+  if (/^\s*<(!doctype html|html|head|body)\b/i.test(body)) {
+    throw new UpstreamHttpError(response.status, `Failed to fetch ${label}: Stooq sent an HTML page instead of CSV`, symbol);
+  }
+
+  return body;
+}
+
 /**
  * Fetches a stock quote from Stooq.com
- * 
+ *
  * @param symbol - The stock symbol to fetch (e.g., "AAPL", "MSFT")
- * @returns A promise that resolves to an object containing symbol, date, time, and close price
- * @throws Error if the symbol is invalid, response is empty, or close price is not a number
+ * @param options - Request options (timeout)
+ * @returns A promise that resolves to the full quote for the symbol
+ * @throws SymbolNotFound if Stooq does not know the symbol
+ * @throws NoData if the symbol has no close price
+ * @throws ParseError if the response is malformed
+ * @throws UpstreamHttpError, Timeout or DailyLimitExceeded if the request fails
  */
-export async function fetchQuote(
-  symbol: string
-): Promise<{ symbol: string; date: string; time: string; close: number }> {
+export async function fetchQuote(symbol: string, options: UpstreamOptions = {}): Promise<Quote> {
   // Validate that symbol is provided
   if (!symbol || symbol.trim().length === 0) {
     throw new Error("Symbol cannot be empty");
   }
 
-  // Construct the URL for fetching CSV data from Stooq
-  // The parameters: s=symbol, f=sd2t2ohlcvn (format), h (header), e=csv (export format)
-  const url = `https://stooq.com/q/l/?s=${encodeURIComponent(symbol)}&f=sd2t2ohlcvn&h&e=csv`;
+  const lines = await fetchQuoteCsv([symbol], options);
 
-  // Fetch the CSV data from the API
-  const response = await fetch(url);
+  // We expect at least 2 lines: header row + 1 data row
+  const [headerLine, dataLine] = lines;
+  if (headerLine === undefined || dataLine === undefined) {
+    throw new ParseError(
+      `Invalid response format for symbol: ${symbol}. Expected at least 2 lines (header + data), got ${lines.length}`,
+      symbol
+    );
+  }
 
-  // Check if the request was successful
-  if (!response.ok) {
-    throw new Error(`Failed to fetch quote for ${symbol}: HTTP ${response.status}`);
+  return parseQuoteRow(parseQuoteHeader(headerLine), dataLine, symbol);
+}
+
+/**
+ * Fetches quotes for many symbols from Stooq.com in a single request
+ *
+ * Stooq's quote endpoint accepts several symbols joined with "+" and returns
+ * one CSV row per symbol. Each row is parsed on its own, so an unknown or
+ * delisted symbol only produces an error entry for that symbol.
+ *
+ * @param symbols - The stock symbols to fetch (e.g., ["aapl.us", "msft.us"])
+ * @param options - Request options (timeout)
+ * @returns A promise that resolves to one result per distinct symbol, in request order
+ * @throws Error if no symbols are given
+ * @throws UpstreamHttpError, Timeout, DailyLimitExceeded or ParseError if the upstream request itself fails
+ */
+export async function fetchQuotes(symbols: string[], options: UpstreamOptions = {}): Promise<QuoteResult[]> {
+  // Drop empty entries and duplicates (case-insensitive), keeping the first spelling
+  const requested: string[] = [];
+  const seen = new Set<string>();
+  for (const raw of symbols) {
+    const symbol = raw.trim();
+    if (symbol.length > 0 && !seen.has(symbol.toLowerCase())) {
+      seen.add(symbol.toLowerCase());
+      requested.push(symbol);
+    }
   }
 
-  // Get the response text (CSV format)
-  const csvText = await response.text();
+  // Validate that at least one symbol is provided
+  if (requested.length === 0) {
+    throw new Error("At least one symbol is required");
+  }
+
+  const [headerLine, ...dataLines] = await fetchQuoteCsv(requested, options);
+  if (headerLine === undefined) {
+    throw new ParseError(`Invalid response format for symbols: ${requested.join(", ")}. Missing header row.`);
+  }
+  const columns = parseQuoteHeader(headerLine);
+
+  // Index the rows by the symbol Stooq echoes back
+  // Stooq returns rows in request order, which is the fallback when a row has no symbol
+  const rowsBySymbol = new Map<string, string>();
+  const rowsWithoutSymbol = new Map<number, string>();
+  dataLines.forEach((line, index) => {
+    const rowSymbol = line.split(",")[columns.symbol]?.trim().toLowerCase();
+    if (rowSymbol && !MISSING_VALUES.has(rowSymbol.toUpperCase())) {
+      rowsBySymbol.set(rowSymbol, line);
+    } else {
+      rowsWithoutSymbol.set(index, line);
+    }
+  });
+
+  return requested.map((symbol, index): QuoteResult => {
+    const line = rowsBySymbol.get(symbol.toLowerCase()) ?? rowsWithoutSymbol.get(index);
+
+    if (line === undefined) {
+      return quoteFailure(symbol, new NoData(symbol, `No data returned for symbol: ${symbol}`));
+    }
+
+    try {
+      return { symbol, ok: true, quote: parseQuoteRow(columns, line, symbol) };
+    } catch (error) {
+      return quoteFailure(symbol, error);
+    }
+  });
+}
+
+/**
+ * Requests the quote CSV for one or more symbols from Stooq.com
+ *
+ * @param symbols - The symbols to request
+ * @param options - Request options (timeout)
+ * @returns A promise that resolves to the non-empty lines of the CSV
+ * @throws UpstreamHttpError, Timeout or DailyLimitExceeded if the request fails
+ * @throws ParseError if the response is empty
+ */
+async function fetchQuoteCsv(symbols: string[], options: UpstreamOptions): Promise<string[]> {
+  const label = symbols.join(", ");
+  const single = symbols.length === 1 ? symbols[0]! : null;
+
+  // Construct the URL for fetching CSV data from Stooq
+  // The parameters: s=symbols joined by "+", f=sd2t2ohlcvn (format), h (header), e=csv (export format)
+  const url = upstreamUrl(options, `/q/l/?s=${symbols.map(encodeURIComponent).join("+")}&f=sd2t2ohlcvn&h&e=csv`);
+
+  // Fetch the CSV data from the API (CSV format)
+  const csvText = await fetchUpstream(url, `quote for ${label}`, single, options);
 
   // Check if the response is empty
   if (!csvText || csvText.trim().length === 0) {
-    throw new Error(`Empty response received for symbol: ${symbol}. The symbol may be invalid.`);
+    throw new ParseError(`Empty response received for symbol: ${label}. The symbol may be invalid.`, single);
   }
 
-  // Split the CSV into lines
-  const lines = csvText.trim().split("\n");
+  // Split the CSV into lines, tolerating Windows line endings
+  return csvText.trim().split(/\r?\n/).filter((line) => line.trim().length > 0);
+}
 
-  // We expect at least 2 lines: header row + 1 data row
-  if (lines.length < 2) {
-    throw new Error(
-      `Invalid response format for symbol: ${symbol}. Expected at least 2 lines (header + data), got ${lines.length}`
-    );
+/**
+ * Parses every data row of a Stooq quote CSV
+ *
+ * This is used for recorded quote fixtures, where each row is one tick.
+ *
+ * @param csvText - The CSV text including the header row
+ * @returns The parsed quotes in file order
+ * @throws Error if the header is malformed or any row cannot be parsed
+ */
+export function parseQuoteCsv(csvText: string): Quote[] {
+  const [headerLine, ...dataLines] = csvText
+    .trim()
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0);
+
+  if (headerLine === undefined) {
+    throw new ParseError("Empty quote CSV");
   }
 
-  // Parse the header row to find column indices
+  const columns = parseQuoteHeader(headerLine);
+  return dataLines.map((line, index) => parseQuoteRow(columns, line, `row ${index + 2}`));
+}
+
+/**
+ * Column indices of a Stooq quote CSV
+ */
+type QuoteColumns = {
+  symbol: number;
+  date: number;
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  name: number;
+};
+
+/**
+ * Parses the header row of a Stooq quote CSV to find column indices
+ *
+ * @param headerLine - The first line of the CSV
+ * @returns The index of each column (-1 for optional columns that are absent)
+ * @throws ParseError if a required column is missing
+ */
+function parseQuoteHeader(headerLine: string): QuoteColumns {
   // Header format: Symbol,Date,Time,Open,High,Low,Close,Volume,Name
-  const header = lines[0].split(",");
-  const symbolIndex = header.indexOf("Symbol");
-  const dateIndex = header.indexOf("Date");
-  const timeIndex = header.indexOf("Time");
-  const closeIndex = header.indexOf("Close");
+  const header = headerLine.trim().split(",");
+  const columns: QuoteColumns = {
+    symbol: header.indexOf("Symbol"),
+    date: header.indexOf("Date"),
+    time: header.indexOf("Time"),
+    open: header.indexOf("Open"),
+    high: header.indexOf("High"),
+    low: header.indexOf("Low"),
+    close: header.indexOf("Close"),
+    volume: header.indexOf("Volume"),
+    name: header.indexOf("Name"),
+  };
 
   // Validate that all required columns exist in the header
-  if (symbolIndex === -1 || dateIndex === -1 || timeIndex === -1 || closeIndex === -1) {
-    throw new Error(
+  if (columns.symbol === -1 || columns.date === -1 || columns.time === -1 || columns.close === -1) {
+    throw new ParseError(
       `Invalid CSV header format. Expected columns: Symbol, Date, Time, Close`
     );
   }
 
-  // Parse the data row (second line)
-  const dataRow = lines[1].split(",");
+  return columns;
+}
+
+/**
+ * Parses a single data row of a Stooq quote CSV into a Quote
+ *
+ * @param columns - The column indices from the header row
+ * @param line - The data row to parse
+ * @param requested - The symbol that was requested (used in error messages)
+ * @returns The parsed quote
+ * @throws SymbolNotFound if the symbol was not found
+ * @throws NoData if the row has no date, time or close price
+ * @throws ParseError if a field is malformed
+ */
+function parseQuoteRow(columns: QuoteColumns, line: string, requested: string): Quote {
+  const dataRow = line.trim().split(",");
+
+  // Extract a trimmed cell, treating Stooq's placeholders as missing
+  const cell = (index: number): string | null => {
+    const value = index === -1 ? undefined : dataRow[index]?.trim();
+    return value === undefined || MISSING_VALUES.has(value) ? null : value;
+  };
 
-  // Extract values from the data row
-  const symbolValue = dataRow[symbolIndex]?.trim();
-  const dateValue = dataRow[dateIndex]?.trim();
-  const timeValue = dataRow[timeIndex]?.trim();
-  const closeValue = dataRow[closeIndex]?.trim();
+  const symbolValue = cell(columns.symbol);
+  const dateValue = cell(columns.date);
+  const timeValue = cell(columns.time);
 
   // Check if the symbol in the response matches what we requested
   // (Sometimes invalid symbols return "N/A" or empty values)
-  if (!symbolValue || symbolValue === "N/A" || symbolValue.length === 0) {
-    throw new Error(`Invalid symbol: ${symbol}. The symbol was not found or is not recognized.`);
+  if (symbolValue === null) {
+    throw new SymbolNotFound(requested);
   }
 
   // Validate that we have date and time values
-  if (!dateValue || !timeValue) {
-    throw new Error(`Missing date or time data for symbol: ${symbol}`);
+  if (dateValue === null || timeValue === null) {
+    throw new NoData(requested, `Missing date or time data for symbol: ${requested}`);
   }
 
   // Parse and validate the close price
-  // The close price should be a valid number
-  if (!closeValue || closeValue === "N/A" || closeValue.length === 0) {
-    throw new Error(`No close price available for symbol: ${symbol}. The symbol may be invalid or delisted.`);
+  // The close price is required; without it there is nothing to alert on
+  const close = parseNumberField(cell(columns.close), "close", requested);
+  if (close === null) {
+    throw new NoData(requested, `No close price available for symbol: ${requested}. The symbol may be invalid or delisted.`);
   }
 
-  // Convert close price string to number
-  const closeNumber = parseFloat(closeValue);
-
-  // Validate that the close price is actually a number
-  if (isNaN(closeNumber)) {
-    throw new Error(
-      `Invalid close price "${closeValue}" for symbol: ${symbol}. Expected a number, but got: ${closeValue}`
-    );
-  }
+  // The name is the last column and may itself contain commas
+  const name = cell(columns.name) === null ? null : dataRow.slice(columns.name).join(",").trim();
 
-  // Return the parsed quote data
   return {
     symbol: symbolValue,
+    name,
     date: dateValue,
     time: timeValue,
-    close: closeNumber,
+    timestamp: parseStooqTimestamp(dateValue, timeValue, requested),
+    timezone: exchangeTimezone(symbolValue),
+    open: parseNumberField(cell(columns.open), "open", requested),
+    high: parseNumberField(cell(columns.high), "high", requested),
+    low: parseNumberField(cell(columns.low), "low", requested),
+    close,
+    volume: parseNumberField(cell(columns.volume), "volume", requested),
   };
 }
 
+/**
+ * Parses a numeric CSV field
+ *
+ * @param value - The cell value, or null if Stooq reported it as missing
+ * @param field - The field name (used in error messages)
+ * @param symbol - The symbol being parsed (used in error messages)
+ * @returns The parsed number, or null if the field is missing
+ * @throws ParseError if the field is present but not a number
+ */
+function parseNumberField(value: string | null, field: string, symbol: string): number | null {
+  if (value === null) {
+    return null;
+  }
+
+  const parsed = parseFloat(value);
+
+  // Validate that the value is actually a number
+  if (isNaN(parsed)) {
+    throw new ParseError(
+      `Invalid ${field} "${value}" for symbol: ${symbol}. Expected a number, but got: ${value}`,
+      symbol
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Returns the exchange timezone for a Stooq symbol based on its suffix
+ *
+ * @param symbol - The Stooq symbol (e.g., "aapl.us")
+ * @returns The IANA timezone of the exchange
+ */
+export function exchangeTimezone(symbol: string): string {
+  const suffix = symbol.toLowerCase().split(".").pop() ?? "";
+  return EXCHANGE_TIMEZONES[suffix] ?? STOOQ_TIMEZONE;
+}
+
+/**
+ * Converts Stooq's date and time columns to an ISO 8601 UTC timestamp
+ *
+ * @param date - The date column (YYYY-MM-DD)
+ * @param time - The time column (HH:MM:SS)
+ * @param symbol - The symbol being parsed (used in error messages)
+ * @returns The ISO timestamp
+ * @throws ParseError if the date or time cannot be parsed
+ */
+export function parseStooqTimestamp(date: string, time: string, symbol: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  const timeMatch = /^(\d{2}):(\d{2}):(\d{2})$/.exec(time);
+
+  if (!match || !timeMatch) {
+    throw new ParseError(`Invalid date/time "${date} ${time}" for symbol: ${symbol}`, symbol);
+  }
+
+  const [, year, month, day] = match.map(Number);
+  const [, hour, minute, second] = timeMatch.map(Number);
+
+  return zonedTimeToUtc(
+    [year!, month!, day!, hour!, minute!, second!],
+    STOOQ_TIMEZONE
+  ).toISOString();
+}
+
+/**
+ * Converts a wall-clock time in the given timezone to a UTC Date
+ *
+ * @param parts - Year, month (1-12), day, hour, minute and second
+ * @param timeZone - The IANA timezone the wall-clock time is expressed in
+ * @returns The corresponding instant
+ */
+export function zonedTimeToUtc(
+  parts: [number, number, number, number, number, number],
+  timeZone: string
+): Date {
+  const [year, month, day, hour, minute, second] = parts;
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // Work out the zone's offset at that instant and shift by it
+  // Doing this twice settles the result around daylight saving transitions
+  let utc = asUtc - timezoneOffsetMs(new Date(asUtc), timeZone);
+  utc = asUtc - timezoneOffsetMs(new Date(utc), timeZone);
+  return new Date(utc);
+}
+
+/**
+ * Returns the offset of a timezone from UTC at the given instant
+ *
+ * @param instant - The instant to compute the offset for
+ * @param timeZone - The IANA timezone
+ * @returns The offset in milliseconds (positive east of UTC)
+ */
+function timezoneOffsetMs(instant: Date, timeZone: string): number {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+  const values: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    values[part.type] = Number(part.value);
+  }
+
+  const wallClock = Date.UTC(
+    values.year ?? 0,
+    (values.month ?? 1) - 1,
+    values.day ?? 1,
+    values.hour ?? 0,
+    values.minute ?? 0,
+    values.second ?? 0
+  );
+
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
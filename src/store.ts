@@ -0,0 +1,401 @@
+/**
+ * Persistent alert storage
+ *
+ * This module keeps alert definitions and their trigger history in a local
+ * JSON file so they survive restarts of the server.
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+  validateAlertConfig,
+  type AlertConfig,
+  type AlertLifecycle,
+  type AlertStatus,
+  type RearmState,
+} from "./alert.js";
+import { JsonFileWriter, readJsonFile } from "./jsonfile.js";
+import type { Quote } from "./stooq.js";
+
+/**
+ * An alert as stored on disk
+ *
+ * @property id - Unique identifier
+ * @property config - The alert configuration
+ * @property status - Current state of the alert
+ * @property createdAt - When the alert was created (ISO timestamp)
+ * @property updatedAt - When the alert was last changed (ISO timestamp)
+ * @property triggeredAt - When the alert last fired (ISO timestamp), or null
+ * @property triggerCount - How often it fired since it was created or re-armed by hand
+ *   (absent on older records)
+ * @property rearm - What a recurring alert that fired waits for before it can fire
+ *   again; absent while it is armed
+ * @property snoozedUntil - Until when the alert is snoozed (ISO timestamp)
+ * @property owner - Id of the user the alert belongs to (absent on alerts
+ *   created without an account; see adopt())
+ */
+export type StoredAlert = {
+  id: string;
+  config: AlertConfig;
+  status: AlertStatus;
+  createdAt: string;
+  updatedAt: string;
+  triggeredAt: string | null;
+  triggerCount?: number;
+  rearm?: RearmState;
+  snoozedUntil?: string;
+  owner?: string;
+};
+
+/**
+ * A single firing of an alert
+ *
+ * @property id - Unique identifier of the trigger
+ * @property alertId - The alert that fired
+ * @property symbol - The symbol of the quote that fired it
+ * @property price - The price at trigger
+ * @property quoteDate - The quote date at trigger (as reported by Stooq)
+ * @property quoteTime - The quote time at trigger (as reported by Stooq)
+ * @property quoteTimestamp - The quote time at trigger as an ISO timestamp (absent on older records)
+ * @property firedAt - When the alert fired (ISO timestamp)
+ */
+export type TriggerRecord = {
+  id: string;
+  alertId: string;
+  symbol: string;
+  price: number;
+  quoteDate: string;
+  quoteTime: string;
+  quoteTimestamp?: string;
+  firedAt: string;
+};
+
+/**
+ * Optional configuration fields a patch removes by setting them to null
+ */
+type ClearableField = "currency" | "cooldownMs" | "rearmPercent" | "maxTriggers" | "expiresAt";
+
+/**
+ * Changes that can be applied to a stored alert
+ *
+ * `config.currency: null` goes back to the symbol's own currency; null
+ * removes the other optional lifecycle fields too. `snoozedUntil: null` ends
+ * a snooze.
+ */
+export type AlertPatch = {
+  config?: Partial<Omit<AlertConfig, ClearableField>> & { [K in ClearableField]?: AlertConfig[K] | null };
+  status?: AlertStatus;
+  snoozedUntil?: string | null;
+};
+
+/**
+ * Layout of the JSON file
+ */
+type StoreFile = {
+  alerts: StoredAlert[];
+  triggers: TriggerRecord[];
+};
+
+/**
+ * Alert definitions and trigger history backed by a JSON file
+ *
+ * All changes are written to disk (atomically, see JsonFileWriter) before
+ * the returned promise resolves.
+ */
+export class AlertStore {
+  private readonly writer: JsonFileWriter;
+  private data: StoreFile = { alerts: [], triggers: [] };
+
+  private constructor(file: string) {
+    this.writer = new JsonFileWriter(file);
+  }
+
+  /**
+   * Opens the store, creating an empty one if the file does not exist yet
+   *
+   * @param file - Path to the JSON file
+   * @returns A promise that resolves to the store
+   * @throws Error if the file exists but is not a valid store
+   */
+  static async open(file: string): Promise<AlertStore> {
+    const store = new AlertStore(file);
+    const data = (await readJsonFile(file)) as Partial<StoreFile> | null;
+
+    if (data !== null) {
+      if (!Array.isArray(data.alerts) || !Array.isArray(data.triggers)) {
+        throw new Error(`Invalid alert store ${file}: expected "alerts" and "triggers" arrays`);
+      }
+      store.data = { alerts: data.alerts, triggers: data.triggers };
+    }
+
+    return store;
+  }
+
+  /**
+   * Returns alerts in creation order
+   *
+   * @param owner - Optional user id to filter by
+   */
+  list(owner?: string): StoredAlert[] {
+    return this.data.alerts.filter((alert) => owner === undefined || alert.owner === owner);
+  }
+
+  /**
+   * Returns an alert by id
+   *
+   * @param id - The alert id
+   * @returns The alert, or undefined if it does not exist
+   */
+  get(id: string): StoredAlert | undefined {
+    return this.data.alerts.find((alert) => alert.id === id);
+  }
+
+  /**
+   * Creates a new active alert
+   *
+   * @param config - The alert configuration
+   * @param owner - Id of the user the alert belongs to
+   * @param now - The current time, which expiresAt must be after (defaults to the wall clock)
+   * @returns A promise that resolves to the stored alert
+   * @throws Error if the configuration is invalid
+   */
+  async create(config: AlertConfig, owner?: string, now: Date = new Date()): Promise<StoredAlert> {
+    validateAlertConfig(config);
+    rejectPastExpiry(config, now);
+
+    const createdAt = new Date().toISOString();
+    const alert: StoredAlert = {
+      id: randomUUID(),
+      config: { ...config, symbol: config.symbol.trim() },
+      status: "active",
+      createdAt,
+      updatedAt: createdAt,
+      triggeredAt: null,
+      ...(owner !== undefined ? { owner } : {}),
+    };
+
+    this.data.alerts.push(alert);
+    await this.save();
+    return alert;
+  }
+
+  /**
+   * Updates an alert's configuration, status and/or snooze
+   *
+   * Setting `condition` replaces target/direction and vice versa, since the
+   * condition always wins when both are present. Re-activating a triggered
+   * or expired alert re-arms it and starts its trigger count over.
+   *
+   * @param id - The alert id
+   * @param patch - The changes to apply
+   * @param now - The current time, which expiresAt must be after (defaults to the wall clock)
+   * @returns A promise that resolves to the updated alert, or undefined if it does not exist
+   * @throws Error if the resulting configuration is invalid, or an alert would be
+   *   re-activated with an expiry in the past
+   */
+  async update(id: string, patch: AlertPatch, now: Date = new Date()): Promise<StoredAlert | undefined> {
+    const alert = this.get(id);
+    if (alert === undefined) {
+      return undefined;
+    }
+
+    const fields: Record<string, unknown> = { ...alert.config };
+    for (const [key, value] of Object.entries(patch.config ?? {})) {
+      if (value === null) {
+        delete fields[key];
+      } else if (value !== undefined) {
+        fields[key] = value;
+      }
+    }
+    const config = fields as AlertConfig;
+    if (patch.config?.target !== undefined || patch.config?.direction !== undefined) {
+      if (patch.config.condition === undefined) {
+        delete config.condition;
+      }
+    }
+    validateAlertConfig(config);
+
+    const reopened = patch.status === "active" && (alert.status === "triggered" || alert.status === "expired");
+    if (reopened || (alert.status === "active" && patch.config?.expiresAt !== undefined)) {
+      rejectPastExpiry(config, now);
+    }
+
+    alert.config = config;
+    if (patch.status !== undefined) {
+      alert.status = patch.status;
+    }
+    if (reopened) {
+      alert.triggerCount = 0;
+      delete alert.rearm;
+    }
+    if (patch.snoozedUntil === null) {
+      delete alert.snoozedUntil;
+    } else if (patch.snoozedUntil !== undefined) {
+      alert.snoozedUntil = patch.snoozedUntil;
+    }
+    alert.updatedAt = new Date().toISOString();
+
+    await this.save();
+    return alert;
+  }
+
+  /**
+   * Deletes an alert (its trigger history is kept)
+   *
+   * @param id - The alert id
+   * @returns A promise that resolves to true if the alert existed
+   */
+  async remove(id: string): Promise<boolean> {
+    const before = this.data.alerts.length;
+    this.data.alerts = this.data.alerts.filter((alert) => alert.id !== id);
+
+    if (this.data.alerts.length === before) {
+      return false;
+    }
+
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Gives every alert without an owner to a user
+   *
+   * @param owner - The user id
+   * @returns A promise that resolves to the number of alerts adopted
+   */
+  async adopt(owner: string): Promise<number> {
+    const orphans = this.data.alerts.filter((alert) => alert.owner === undefined);
+    orphans.forEach((alert) => (alert.owner = owner));
+
+    if (orphans.length > 0) {
+      await this.save();
+    }
+    return orphans.length;
+  }
+
+  /**
+   * Records that an alert fired, along with its lifecycle state after firing
+   *
+   * @param id - The alert id
+   * @param quote - The quote that fired the alert
+   * @param firedAt - When the alert fired
+   * @param lifecycle - The engine's lifecycle state of the alert (default: triggered
+   *   for the last time)
+   * @returns A promise that resolves to the trigger record
+   */
+  async recordTrigger(
+    id: string,
+    quote: Quote,
+    firedAt: Date,
+    lifecycle?: AlertLifecycle
+  ): Promise<TriggerRecord> {
+    const record: TriggerRecord = {
+      id: randomUUID(),
+      alertId: id,
+      symbol: quote.symbol,
+      price: quote.close,
+      quoteDate: quote.date,
+      quoteTime: quote.time,
+      quoteTimestamp: quote.timestamp,
+      firedAt: firedAt.toISOString(),
+    };
+
+    this.data.triggers.push(record);
+
+    const alert = this.get(id);
+    if (alert !== undefined) {
+      applyLifecycle(alert, lifecycle ?? {
+        status: "triggered",
+        triggeredAt: firedAt,
+        triggerCount: (alert.triggerCount ?? 0) + 1,
+        rearm: null,
+        snoozedUntil: alert.snoozedUntil !== undefined ? new Date(alert.snoozedUntil) : null,
+      });
+      alert.updatedAt = record.firedAt;
+    }
+
+    await this.save();
+    return record;
+  }
+
+  /**
+   * Saves an alert's lifecycle state, e.g. after it re-armed or expired
+   *
+   * @param id - The alert id
+   * @param lifecycle - The engine's lifecycle state of the alert
+   * @returns A promise that resolves to the alert, or undefined if it does not exist
+   */
+  async saveLifecycle(id: string, lifecycle: AlertLifecycle): Promise<StoredAlert | undefined> {
+    const alert = this.get(id);
+    if (alert === undefined) {
+      return undefined;
+    }
+
+    applyLifecycle(alert, lifecycle);
+    alert.updatedAt = new Date().toISOString();
+
+    await this.save();
+    return alert;
+  }
+
+  /**
+   * Returns trigger history, oldest first
+   *
+   * @param alertId - Optional alert id to filter by
+   */
+  triggers(alertId?: string): TriggerRecord[] {
+    return this.data.triggers.filter((record) => alertId === undefined || record.alertId === alertId);
+  }
+
+  /**
+   * Writes the current data to disk
+   */
+  private save(): Promise<void> {
+    return this.writer.write(this.data);
+  }
+}
+
+/**
+ * Returns what an AlertEngine needs to continue a stored alert where it left off
+ *
+ * @param alert - The stored alert
+ * @returns The lifecycle state to pass to AlertEngine.add()
+ */
+export function storedLifecycle(alert: StoredAlert): AlertLifecycle {
+  return {
+    status: alert.status,
+    triggeredAt: alert.triggeredAt !== null ? new Date(alert.triggeredAt) : null,
+    triggerCount: alert.triggerCount ?? 0,
+    rearm: alert.rearm ?? null,
+    snoozedUntil: alert.snoozedUntil !== undefined ? new Date(alert.snoozedUntil) : null,
+  };
+}
+
+/**
+ * Copies an engine's lifecycle state onto a stored alert
+ */
+function applyLifecycle(alert: StoredAlert, lifecycle: AlertLifecycle): void {
+  alert.status = lifecycle.status;
+  alert.triggeredAt = lifecycle.triggeredAt?.toISOString() ?? null;
+  alert.triggerCount = lifecycle.triggerCount;
+
+  if (lifecycle.rearm !== null) {
+    alert.rearm = lifecycle.rearm;
+  } else {
+    delete alert.rearm;
+  }
+
+  if (lifecycle.snoozedUntil !== null) {
+    alert.snoozedUntil = lifecycle.snoozedUntil.toISOString();
+  } else {
+    delete alert.snoozedUntil;
+  }
+}
+
+/**
+ * Throws if an alert's expiry has already passed, which would expire it right away
+ */
+function rejectPastExpiry(config: AlertConfig, now: Date): void {
+  if (config.expiresAt !== undefined && Date.parse(config.expiresAt) <= now.getTime()) {
+    throw new Error("expiresAt must be in the future");
+  }
+}
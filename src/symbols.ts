@@ -0,0 +1,418 @@
+/**
+ * Symbol directory
+ *
+ * Stooq symbols are lowercase tickers with an exchange suffix ("aapl.us",
+ * "vod.uk"); people type "AAPL", "$aapl" or "VOD.L". This module turns such
+ * input into Stooq symbols and keeps a local, searchable list of instruments
+ * with their name, exchange and currency.
+ *
+ * The list is seeded from a CSV file (by default fixtures/symbols/instruments.csv,
+ * in Stooq's column naming) and grows with every symbol a quote is fetched for.
+ */
+
+import { readFile } from "node:fs/promises";
+import { currencyPair, normalizeCurrency } from "./currency.js";
+import { quoteCurrency } from "./fx.js";
+import { readJsonFile, JsonFileWriter } from "./jsonfile.js";
+import { exchangeForSymbol, findExchange } from "./markets.js";
+import type { QuoteProvider } from "./provider.js";
+import { SymbolNotFound, type Quote } from "./stooq.js";
+
+/**
+ * An instrument in the directory
+ *
+ * @property symbol - The Stooq symbol (lowercase, e.g., "aapl.us")
+ * @property name - The instrument name
+ * @property exchange - The exchange code (the symbol suffix), or null for indices and currencies
+ * @property currency - The currency prices are quoted in, or null if unknown (e.g., indices)
+ */
+export type Instrument = {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  currency: string | null;
+};
+
+/**
+ * Options for opening a SymbolDirectory
+ *
+ * @property defaultMarket - Exchange suffix added to symbols without one (default: "us")
+ * @property seedFile - CSV file of instruments to start from, or null for none
+ *   (default: DEFAULT_SEED_FILE; a missing file is ignored)
+ */
+export type SymbolDirectoryOptions = {
+  defaultMarket?: string;
+  seedFile?: string | null;
+};
+
+/**
+ * CSV file the directory is seeded from unless told otherwise
+ */
+export const DEFAULT_SEED_FILE = "fixtures/symbols/instruments.csv";
+
+/**
+ * Exchange suffixes used by other data vendors, mapped to Stooq's
+ * (e.g., "VOD.L" on Yahoo Finance is "vod.uk" on Stooq)
+ */
+const SUFFIX_ALIASES: Record<string, string> = {
+  l: "uk",
+  ln: "uk",
+  t: "jp",
+  f: "de",
+  wa: "pl",
+  bd: "hu",
+  n: "us",
+  o: "us",
+};
+
+/**
+ * Most results search() returns
+ */
+const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Shape of the directory's JSON file
+ */
+type SymbolFile = {
+  instruments: Instrument[];
+};
+
+/**
+ * Turns a symbol as people type it into a Stooq symbol
+ *
+ * - Case and a leading "$" are dropped: "$AAPL" → "aapl.us"
+ * - Other vendors' suffixes are translated: "VOD.L" → "vod.uk"
+ * - Symbols without an exchange get the default market: "msft" → "msft.us"
+ * - Share classes use a dash: "BRK.B" → "brk-b.us"
+ * - Indices ("^spx") and currency pairs ("eurusd") are left as they are
+ *
+ * @param input - The symbol as entered
+ * @param defaultMarket - Exchange suffix for symbols without one (default: "us")
+ * @returns The Stooq symbol
+ * @throws Error if the input is empty
+ */
+export function normalizeSymbol(input: string, defaultMarket = "us"): string {
+  const cleaned = input.trim().toLowerCase().replace(/^\$/, "");
+  if (cleaned.length === 0) {
+    throw new Error("Symbol cannot be empty");
+  }
+
+  if (cleaned.startsWith("^") || currencyPair(cleaned) !== null) {
+    return cleaned;
+  }
+
+  const dot = cleaned.lastIndexOf(".");
+  if (dot > 0) {
+    const base = cleaned.slice(0, dot);
+    const suffix = cleaned.slice(dot + 1);
+    if (findExchange(suffix) !== undefined) {
+      return cleaned;
+    }
+    const alias = SUFFIX_ALIASES[suffix];
+    if (alias !== undefined) {
+      return `${base}.${alias}`;
+    }
+  }
+
+  return `${cleaned.replace(/\./g, "-")}.${defaultMarket}`;
+}
+
+/**
+ * Builds an instrument, deriving the exchange and currency from the symbol
+ *
+ * @param symbol - The Stooq symbol
+ * @param name - The instrument name
+ * @param currency - The quote currency if it differs from the exchange's (e.g., a USD ETF in London)
+ * @returns The instrument
+ */
+export function instrumentOf(symbol: string, name: string, currency?: string): Instrument {
+  const key = symbol.trim().toLowerCase();
+  return {
+    symbol: key,
+    name: name.trim(),
+    exchange: exchangeForSymbol(key)?.code ?? null,
+    currency: currency !== undefined ? normalizeCurrency(currency) : quoteCurrency(key),
+  };
+}
+
+/**
+ * Parses a CSV list of instruments
+ *
+ * The header needs Symbol and Name columns; a Currency column overrides the
+ * exchange's currency where it is not empty. Stooq's quote CSV (e.g., from
+ * the "f=sn" download) has these columns too. Rows without a name, such as
+ * Stooq's "N/D" rows for unknown symbols, are skipped.
+ *
+ * @param csvText - The CSV text
+ * @returns The instruments
+ * @throws Error if the header has no Symbol or Name column, or a currency is not supported
+ */
+export function parseInstrumentCsv(csvText: string): Instrument[] {
+  const [headerLine, ...lines] = csvText.trim().split(/\r?\n/).filter((line) => line.trim().length > 0);
+  const header = (headerLine ?? "").split(",").map((column) => column.trim().toLowerCase());
+  const symbolIndex = header.indexOf("symbol");
+  const nameIndex = header.indexOf("name");
+  const currencyIndex = header.indexOf("currency");
+
+  if (symbolIndex === -1 || nameIndex === -1) {
+    throw new Error("Invalid instrument CSV header. Expected columns: Symbol, Name");
+  }
+
+  const instruments: Instrument[] = [];
+  lines.forEach((line, index) => {
+    const row = line.split(",").map((value) => value.trim());
+    const symbol = row[symbolIndex] ?? "";
+    const name = row[nameIndex] ?? "";
+    const currency = currencyIndex !== -1 ? row[currencyIndex] ?? "" : "";
+    if (symbol.length === 0 || name.length === 0 || name === "N/D") {
+      return;
+    }
+
+    try {
+      instruments.push(instrumentOf(symbol, name, currency.length > 0 ? currency : undefined));
+    } catch (error) {
+      throw new Error(`Row ${index + 2}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return instruments;
+}
+
+/**
+ * Searchable list of instruments backed by a JSON file
+ */
+export class SymbolDirectory {
+  private readonly writer: JsonFileWriter;
+  private readonly instruments = new Map<string, Instrument>();
+  readonly defaultMarket: string;
+
+  private constructor(file: string, defaultMarket: string) {
+    this.writer = new JsonFileWriter(file);
+    this.defaultMarket = defaultMarket;
+  }
+
+  /**
+   * Opens the directory
+   *
+   * Seed instruments are loaded first, so names and currencies stored in the
+   * file win over the seed's.
+   *
+   * @param file - Path to the JSON file
+   * @param options - Default market and seed file
+   * @returns A promise that resolves to the directory
+   * @throws Error if the default market is unknown, or the file or the seed is invalid
+   */
+  static async open(file: string, options: SymbolDirectoryOptions = {}): Promise<SymbolDirectory> {
+    const defaultMarket = (options.defaultMarket ?? "us").trim().toLowerCase();
+    if (findExchange(defaultMarket) === undefined) {
+      throw new Error(`Unknown default market "${options.defaultMarket}". Expected an exchange suffix such as "us"`);
+    }
+
+    const directory = new SymbolDirectory(file, defaultMarket);
+
+    const seedFile = options.seedFile === undefined ? DEFAULT_SEED_FILE : options.seedFile;
+    if (seedFile !== null) {
+      const text = await readFile(seedFile, "utf8").catch((error: NodeJS.ErrnoException) => {
+        if (error.code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      });
+      if (text !== null) {
+        try {
+          parseInstrumentCsv(text).forEach((instrument) => directory.instruments.set(instrument.symbol, instrument));
+        } catch (error) {
+          throw new Error(`Invalid symbol seed ${seedFile}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    const data = (await readJsonFile(file)) as Partial<SymbolFile> | null;
+    if (data !== null) {
+      if (!Array.isArray(data.instruments)) {
+        throw new Error(`Invalid symbol directory ${file}: expected an "instruments" array`);
+      }
+      data.instruments.forEach((instrument) => directory.instruments.set(instrument.symbol, instrument));
+    }
+
+    return directory;
+  }
+
+  /**
+   * Returns all instruments ordered by symbol
+   */
+  list(): Instrument[] {
+    return [...this.instruments.values()].sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  /**
+   * Returns an instrument by symbol (case-insensitive)
+   */
+  get(symbol: string): Instrument | undefined {
+    return this.instruments.get(symbol.trim().toLowerCase());
+  }
+
+  /**
+   * Returns the currency a symbol is quoted in
+   *
+   * @param symbol - The Stooq symbol
+   * @returns The directory's currency for the symbol, else the one derived from it (see quoteCurrency)
+   */
+  currency(symbol: string): string | null {
+    return this.get(symbol)?.currency ?? quoteCurrency(symbol);
+  }
+
+  /**
+   * Turns a symbol as people type it into the Stooq symbol it most likely means
+   *
+   * Known instruments are preferred: input that is already in the directory
+   * is kept, and a bare ticker listed on exactly one known market other than
+   * the default one resolves to that listing ("vod" → "vod.uk"). Anything
+   * else is normalized with the default market (see normalizeSymbol).
+   *
+   * @param input - The symbol as entered
+   * @returns The Stooq symbol (not checked against Stooq)
+   * @throws Error if the input is empty
+   */
+  resolve(input: string): string {
+    const cleaned = input.trim().toLowerCase().replace(/^\$/, "");
+    if (this.instruments.has(cleaned)) {
+      return cleaned;
+    }
+
+    const normalized = normalizeSymbol(input, this.defaultMarket);
+    if (this.instruments.has(normalized)) {
+      return normalized;
+    }
+
+    if (!cleaned.includes(".")) {
+      const listings = this.list().filter((instrument) => instrument.symbol.split(".")[0] === cleaned);
+      if (listings.length === 1) {
+        return listings[0]!.symbol;
+      }
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Finds instruments by symbol or name
+   *
+   * Exact symbol matches come first, then symbols starting with the query,
+   * then names with a word starting with it, then names containing it.
+   * Within each group, listings on the default market come first.
+   *
+   * @param query - What the user typed (case-insensitive)
+   * @param limit - Most results to return (default: 10, at most 50)
+   * @returns The matching instruments, best first
+   */
+  search(query: string, limit = 10): Instrument[] {
+    const q = query.trim().toLowerCase().replace(/^\$/, "");
+    if (q.length === 0) {
+      return [];
+    }
+
+    const rank = (instrument: Instrument): number => {
+      const base = instrument.symbol.split(".")[0] ?? instrument.symbol;
+      const name = instrument.name.toLowerCase();
+      if (instrument.symbol === q || base === q) {
+        return 0;
+      }
+      if (instrument.symbol.startsWith(q)) {
+        return 1;
+      }
+      if (name.split(/[\s.&/-]+/).some((word) => word.startsWith(q))) {
+        return 2;
+      }
+      return name.includes(q) ? 3 : -1;
+    };
+
+    return [...this.instruments.values()]
+      .map((instrument) => ({ instrument, rank: rank(instrument) }))
+      .filter(({ rank }) => rank !== -1)
+      .sort(
+        (a, b) =>
+          a.rank - b.rank ||
+          Number(b.instrument.exchange === this.defaultMarket) - Number(a.instrument.exchange === this.defaultMarket) ||
+          a.instrument.symbol.localeCompare(b.instrument.symbol)
+      )
+      .slice(0, Math.max(1, Math.min(limit, MAX_SEARCH_RESULTS)))
+      .map(({ instrument }) => instrument);
+  }
+
+  /**
+   * Adds the instruments of fetched quotes that are not in the directory yet
+   *
+   * Known instruments are left alone, so curated names are not replaced by
+   * Stooq's uppercase short names.
+   *
+   * @param quotes - Quotes fetched from the provider
+   * @returns A promise that resolves once new instruments are on disk
+   */
+  async learn(quotes: Quote[]): Promise<void> {
+    let added = false;
+    for (const quote of quotes) {
+      const key = quote.symbol.toLowerCase();
+      if (!this.instruments.has(key) && quote.name !== null) {
+        this.instruments.set(key, instrumentOf(key, quote.name));
+        added = true;
+      }
+    }
+
+    if (added) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Adds or replaces instruments
+   *
+   * @param instruments - The instruments (e.g., from parseInstrumentCsv)
+   * @returns A promise that resolves to the number of instruments added or changed
+   */
+  async import(instruments: Instrument[]): Promise<number> {
+    let changed = 0;
+    for (const instrument of instruments) {
+      const existing = this.instruments.get(instrument.symbol);
+      if (existing === undefined || JSON.stringify(existing) !== JSON.stringify(instrument)) {
+        this.instruments.set(instrument.symbol, instrument);
+        changed += 1;
+      }
+    }
+
+    if (changed > 0) {
+      await this.save();
+    }
+    return changed;
+  }
+
+  /**
+   * Writes the directory to disk
+   */
+  private save(): Promise<void> {
+    return this.writer.write({ instruments: this.list() } satisfies SymbolFile);
+  }
+}
+
+/**
+ * Resolves what the user typed and checks that the provider has a quote for it
+ *
+ * @param directory - The directory to resolve the input with
+ * @param provider - The provider to fetch the quote from
+ * @param input - What the user typed (e.g., "AAPL")
+ * @returns A promise that resolves to the symbol's current quote
+ * @throws SymbolNotFound if the provider does not know the symbol, suggesting
+ *   instruments in the directory that match the input where there are any
+ * @throws Other QuoteErrors if the quote cannot be fetched
+ */
+export async function verifySymbol(directory: SymbolDirectory, provider: QuoteProvider, input: string): Promise<Quote> {
+  const symbol = directory.resolve(input);
+  try {
+    return await provider.fetchQuote(symbol);
+  } catch (error) {
+    if (!(error instanceof SymbolNotFound)) {
+      throw error;
+    }
+    const matches = directory.search(input, 3).map((instrument) => instrument.symbol);
+    throw new SymbolNotFound(symbol, matches.length > 0 ? matches : error.suggestions);
+  }
+}
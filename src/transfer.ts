@@ -0,0 +1,807 @@
+/**
+ * Export and import
+ *
+ * This module moves alert definitions and watchlists between accounts and
+ * installations, and exports the trigger history for auditing. There are
+ * two formats:
+ * - JSON: One ExportBundle holding everything
+ * - CSV: One file per kind, with a header row naming the fields (an
+ *   AlertConfig's for alerts). A condition is written as JSON, lists (notify,
+ *   symbols) as values separated by ";"
+ *
+ * Both round-trip losslessly: importing an export and exporting again gives
+ * the same alerts and watchlists. An import is validated as a whole before
+ * anything is stored, and every invalid row is reported in one ImportError.
+ * Trigger history can only be exported.
+ */
+
+import { alertConfigProblems, describeAlert, type AlertConfig } from "./alert.js";
+import { normalizeCurrency } from "./currency.js";
+import type { AlertStore, TriggerRecord } from "./store.js";
+import { normalizeSymbols, type Watchlist, type WatchlistStore } from "./watchlists.js";
+
+/**
+ * Version of the JSON export layout
+ */
+export const EXPORT_VERSION = 1;
+
+/**
+ * File format of an export
+ */
+export type ExportFormat = "json" | "csv";
+
+/**
+ * What a CSV export holds
+ */
+export type ExportKind = "alerts" | "watchlists" | "triggers";
+
+/**
+ * The kinds of CSV export
+ */
+export const EXPORT_KINDS: readonly ExportKind[] = ["alerts", "watchlists", "triggers"];
+
+/**
+ * A watchlist as exported
+ */
+export type ExportedWatchlist = Pick<Watchlist, "name" | "symbols">;
+
+/**
+ * A trigger as exported
+ *
+ * @property rule - What the alert watched for (e.g., "at or above 200.00")
+ */
+export type ExportedTrigger = TriggerRecord & { rule: string };
+
+/**
+ * Everything one owner has, as exported to JSON
+ *
+ * @property version - The layout version (EXPORT_VERSION)
+ * @property exportedAt - When the export was made (ISO timestamp)
+ * @property alerts - Alert definitions in creation order
+ * @property watchlists - Watchlists in display order
+ * @property triggers - Trigger history of the alerts, oldest first (ignored by imports)
+ */
+export type ExportBundle = {
+  version: number;
+  exportedAt: string;
+  alerts: AlertConfig[];
+  watchlists: ExportedWatchlist[];
+  triggers: ExportedTrigger[];
+};
+
+/**
+ * Validated contents of an import file
+ */
+export type ImportData = {
+  alerts: AlertConfig[];
+  watchlists: ExportedWatchlist[];
+};
+
+/**
+ * How many records an import created, updated and skipped
+ */
+export type ImportCounts = {
+  created: number;
+  updated: number;
+  skipped: number;
+};
+
+/**
+ * Outcome of an import
+ *
+ * @property alerts - Alerts are created, or skipped if the owner already has an
+ *   identical one or their expiresAt has passed; they are never updated
+ * @property watchlists - Watchlists are created, or have their symbols replaced if
+ *   the owner has one with the same name (skipped if the symbols are the same)
+ */
+export type ImportResult = {
+  alerts: ImportCounts;
+  watchlists: ImportCounts;
+};
+
+/**
+ * The stores exports are read from and imports are written to
+ */
+export type TransferStores = {
+  alerts: AlertStore;
+  watchlists: WatchlistStore;
+};
+
+/**
+ * Invalid import file
+ *
+ * @property problems - One line per invalid record, naming its line (CSV) or index (JSON)
+ */
+export class ImportError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid import:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    this.name = "ImportError";
+  }
+}
+
+/**
+ * How a field is written to a CSV cell
+ * - "string": As is
+ * - "number" / "boolean": As written by String()
+ * - "list": Values separated by ";" (a JSON array when that would be ambiguous)
+ * - "json": As JSON
+ */
+type CellType = "string" | "number" | "boolean" | "list" | "json";
+
+/**
+ * Problems reading a CSV row's cells, by field
+ */
+type CellProblems = Map<string, string>;
+
+/**
+ * Columns of the alerts CSV, in order (every AlertConfig field)
+ */
+const ALERT_COLUMNS = {
+  symbol: "string",
+  target: "number",
+  direction: "string",
+  condition: "json",
+  intervalMs: "number",
+  notify: "list",
+  currency: "string",
+  recurring: "boolean",
+  cooldownMs: "number",
+  rearmPercent: "number",
+  maxTriggers: "number",
+  expiresAt: "string",
+} as const satisfies Record<keyof AlertConfig, CellType>;
+
+/**
+ * Columns of the watchlists CSV, in order
+ */
+const WATCHLIST_COLUMNS = {
+  name: "string",
+  symbols: "list",
+} as const satisfies Record<keyof ExportedWatchlist, CellType>;
+
+/**
+ * Columns of the trigger history CSV, in order
+ */
+const TRIGGER_COLUMNS = [
+  "firedAt",
+  "alertId",
+  "symbol",
+  "rule",
+  "price",
+  "quoteDate",
+  "quoteTime",
+  "quoteTimestamp",
+  "id",
+] as const satisfies readonly (keyof ExportedTrigger)[];
+
+/**
+ * Collects an owner's alerts, watchlists and trigger history
+ *
+ * @param stores - The stores to read
+ * @param owner - The user id whose records are exported (undefined: records without an owner)
+ * @param now - The export time
+ * @returns The export
+ */
+export function exportBundle(stores: TransferStores, owner?: string, now: Date = new Date()): ExportBundle {
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    alerts: ownedBy(stores.alerts.list(), owner).map((alert) => alert.config),
+    watchlists: ownedBy(stores.watchlists.list(), owner).map(({ name, symbols }) => ({ name, symbols })),
+    triggers: exportTriggers(stores.alerts, owner),
+  };
+}
+
+/**
+ * Serializes one kind of record of an export to CSV
+ *
+ * @param bundle - The export
+ * @param kind - Which records to write
+ * @returns The CSV text including a header row
+ */
+export function exportCsv(bundle: ExportBundle, kind: ExportKind): string {
+  switch (kind) {
+    case "alerts":
+      return alertsToCsv(bundle.alerts);
+    case "watchlists":
+      return watchlistsToCsv(bundle.watchlists);
+    case "triggers":
+      return triggersToCsv(bundle.triggers);
+  }
+}
+
+/**
+ * Serializes alert definitions to CSV, one column per AlertConfig field
+ *
+ * @param alerts - The alert configurations
+ * @returns The CSV text including a header row
+ */
+export function alertsToCsv(alerts: AlertConfig[]): string {
+  return toCsv(Object.keys(ALERT_COLUMNS), alerts);
+}
+
+/**
+ * Serializes watchlists to CSV with name and symbols columns
+ *
+ * @param watchlists - The watchlists
+ * @returns The CSV text including a header row
+ */
+export function watchlistsToCsv(watchlists: ExportedWatchlist[]): string {
+  return toCsv(Object.keys(WATCHLIST_COLUMNS), watchlists);
+}
+
+/**
+ * Serializes trigger history to CSV, including the quote that fired each trigger
+ *
+ * @param triggers - The triggers
+ * @returns The CSV text including a header row
+ */
+export function triggersToCsv(triggers: ExportedTrigger[]): string {
+  return toCsv(TRIGGER_COLUMNS, triggers);
+}
+
+/**
+ * Parses and validates an import file
+ *
+ * A CSV holds alerts or watchlists, told apart by its header. Columns may
+ * be left out (symbol and intervalMs, or name and symbols, are required)
+ * and empty cells leave a field unset.
+ *
+ * @param text - The file contents
+ * @param format - The file format
+ * @returns The alerts and watchlists to import
+ * @throws ImportError listing every invalid record
+ */
+export function parseImport(text: string, format: ExportFormat): ImportData {
+  return format === "csv" ? parseCsvImport(text) : parseJsonImport(text);
+}
+
+/**
+ * Stores imported alerts and watchlists for an owner
+ *
+ * Importing the same file twice changes nothing the second time (see ImportResult).
+ *
+ * @param data - The validated import (see parseImport())
+ * @param stores - The stores to write to
+ * @param owner - Id of the user the records are given to
+ * @param now - The current time, to skip alerts that have expired
+ * @returns A promise that resolves to what was created, updated and skipped
+ */
+export async function importData(
+  data: ImportData,
+  stores: TransferStores,
+  owner?: string,
+  now: Date = new Date()
+): Promise<ImportResult> {
+  const result: ImportResult = {
+    alerts: { created: 0, updated: 0, skipped: 0 },
+    watchlists: { created: 0, updated: 0, skipped: 0 },
+  };
+
+  const existing = new Set(ownedBy(stores.alerts.list(), owner).map((alert) => canonicalJson(alert.config)));
+  for (const config of data.alerts) {
+    const key = canonicalJson(config);
+    if (existing.has(key) || (config.expiresAt !== undefined && Date.parse(config.expiresAt) <= now.getTime())) {
+      result.alerts.skipped++;
+      continue;
+    }
+    await stores.alerts.create(config, owner, now);
+    existing.add(key);
+    result.alerts.created++;
+  }
+
+  for (const { name, symbols } of data.watchlists) {
+    const match = ownedBy(stores.watchlists.list(), owner).find(
+      (watchlist) => watchlist.name.toLowerCase() === name.toLowerCase()
+    );
+    if (match === undefined) {
+      await stores.watchlists.create(name, symbols, owner);
+      result.watchlists.created++;
+    } else if (match.symbols.join() === symbols.join()) {
+      result.watchlists.skipped++;
+    } else {
+      await stores.watchlists.update(match.id, { symbols });
+      result.watchlists.updated++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns the records that belong to exactly this owner
+ */
+function ownedBy<T extends { owner?: string }>(records: T[], owner: string | undefined): T[] {
+  return records.filter((record) => record.owner === owner);
+}
+
+/**
+ * Returns the trigger history of an owner's alerts
+ *
+ * Triggers of deleted alerts no longer have an owner and are left out.
+ */
+function exportTriggers(store: AlertStore, owner: string | undefined): ExportedTrigger[] {
+  const rules = new Map(ownedBy(store.list(), owner).map((alert) => [alert.id, describeAlert(alert.config)]));
+  return store.triggers().flatMap((record) => {
+    const rule = rules.get(record.alertId);
+    return rule !== undefined ? [{ ...record, rule }] : [];
+  });
+}
+
+/**
+ * Parses a JSON import: an ExportBundle, or any object with alerts and/or watchlists
+ */
+function parseJsonImport(text: string): ImportData {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ImportError([`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new ImportError(["Expected an object with alerts and/or watchlists"]);
+  }
+
+  const fields = data as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (fields.version !== undefined && fields.version !== EXPORT_VERSION) {
+    problems.push(`version ${JSON.stringify(fields.version)} is not supported; expected ${EXPORT_VERSION}`);
+  }
+  for (const key of Object.keys(fields)) {
+    if (!["version", "exportedAt", "alerts", "watchlists", "triggers"].includes(key)) {
+      problems.push(`Unknown field "${key}"`);
+    }
+  }
+
+  const list = (name: "alerts" | "watchlists") => {
+    const value = fields[name] ?? [];
+    if (!Array.isArray(value)) {
+      problems.push(`${name} must be a list`);
+      return [];
+    }
+    return value.map((item: unknown, index) => ({ label: `${name}[${index}]`, value: item }));
+  };
+
+  const seen = new Set<string>();
+  const imported: ImportData = {
+    alerts: parseRecords(list("alerts"), parseAlert, problems),
+    watchlists: parseRecords(list("watchlists"), (value) => parseWatchlist(value, seen), problems),
+  };
+
+  if (problems.length > 0) {
+    throw new ImportError(problems);
+  }
+  return imported;
+}
+
+/**
+ * Parses a CSV import of alerts or watchlists
+ */
+function parseCsvImport(text: string): ImportData {
+  let records: CsvRecord[];
+  try {
+    records = parseCsv(text);
+  } catch (error) {
+    throw new ImportError([error instanceof Error ? error.message : String(error)]);
+  }
+
+  const [header, ...rows] = records;
+  if (header === undefined) {
+    throw new ImportError(["The CSV is empty"]);
+  }
+
+  const names = header.cells.map((cell) => cell.trim().toLowerCase());
+  const has = (...columns: string[]) => columns.every((column) => names.includes(column.toLowerCase()));
+  const columns: Record<string, CellType> | undefined = has("symbol", "intervalMs")
+    ? ALERT_COLUMNS
+    : has("name", "symbols")
+      ? WATCHLIST_COLUMNS
+      : undefined;
+
+  if (columns === undefined) {
+    throw new ImportError([
+      has("alertId", "firedAt")
+        ? "Trigger history cannot be imported"
+        : "Line 1: expected the columns of an alerts export (symbol, intervalMs, ...) or a watchlists export (name, symbols)",
+    ]);
+  }
+
+  // Map each cell to its field, case-insensitively
+  const problems: string[] = [];
+  const fields = names.map((name) => Object.keys(columns).find((column) => column.toLowerCase() === name));
+  fields.forEach((field, index) => {
+    if (field === undefined) {
+      problems.push(`Line ${header.line}: unknown column "${header.cells[index]?.trim()}"`);
+    } else if (fields.indexOf(field) !== index) {
+      problems.push(`Line ${header.line}: column "${field}" appears twice`);
+    }
+  });
+  if (problems.length > 0) {
+    throw new ImportError(problems);
+  }
+
+  const items = rows.map((row) => ({
+    label: `Line ${row.line}`,
+    value: () => {
+      if (row.cells.length > fields.length) {
+        throw new Error(`expected at most ${fields.length} cells, found ${row.cells.length}`);
+      }
+      // A cell that cannot be read leaves its field out, so the row's other fields are still checked
+      const values: Record<string, unknown> = {};
+      const invalid: CellProblems = new Map();
+      row.cells.forEach((cell, index) => {
+        const field = fields[index]!;
+        try {
+          const value = parseCell(cell, columns[field]!, field);
+          if (value !== undefined) {
+            values[field] = value;
+          }
+        } catch (error) {
+          invalid.set(field, error instanceof Error ? error.message : String(error));
+        }
+      });
+      return { values, invalid };
+    },
+  }));
+
+  const seen = new Set<string>();
+  const imported: ImportData =
+    columns === ALERT_COLUMNS
+      ? {
+          alerts: parseRecords(
+            items,
+            (read) => {
+              const { values, invalid } = read();
+              return parseAlert(values, invalid);
+            },
+            problems
+          ),
+          watchlists: [],
+        }
+      : {
+          alerts: [],
+          watchlists: parseRecords(
+            items,
+            (read) => {
+              const { values, invalid } = read();
+              return parseWatchlist(values, seen, invalid);
+            },
+            problems
+          ),
+        };
+
+  if (problems.length > 0) {
+    throw new ImportError(problems);
+  }
+  return imported;
+}
+
+/**
+ * Parses every record, collecting a problem for each invalid one
+ *
+ * @param items - The records with the label their problems are reported under
+ * @param parse - Parses and validates one record
+ * @param problems - Where problems are added
+ * @returns The valid records
+ */
+function parseRecords<I, T>(items: { label: string; value: I }[], parse: (value: I) => T, problems: string[]): T[] {
+  const parsed: T[] = [];
+  for (const { label, value } of items) {
+    try {
+      parsed.push(parse(value));
+    } catch (error) {
+      problems.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Parses and validates an imported alert definition
+ *
+ * The fields' types are checked first; the alert as a whole is only
+ * validated once every field has the right type.
+ *
+ * @param value - The alert's fields
+ * @param invalid - Fields whose CSV cells could not be read, with their problems
+ * @returns The alert configuration
+ * @throws Error listing every invalid field
+ */
+function parseAlert(value: unknown, invalid: CellProblems = new Map()): AlertConfig {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("must be an object");
+  }
+
+  const fields = value as Record<string, unknown>;
+  const problems = new FieldProblems(invalid);
+  for (const key of Object.keys(fields).filter((key) => !(key in ALERT_COLUMNS))) {
+    problems.add(key, `unknown field "${key}"`);
+  }
+
+  if (typeof fields.symbol !== "string" || fields.symbol.trim().length === 0) {
+    problems.add("symbol", "symbol must be a non-empty string");
+  }
+  if (fields.intervalMs === undefined) {
+    problems.add("intervalMs", "intervalMs must be a number");
+  }
+  for (const [name, type] of Object.entries(ALERT_COLUMNS)) {
+    const field = fields[name];
+    if (field !== undefined && (type === "number" || type === "string") && typeof field !== type) {
+      problems.add(name, `${name} must be a ${type}`);
+    }
+  }
+  if (fields.condition !== undefined && (typeof fields.condition !== "object" || fields.condition === null)) {
+    problems.add("condition", "condition must be an object");
+  }
+  problems.throwIfAny();
+
+  // Notify, recurring and the condition itself are checked by alertConfigProblems
+  const config = { ...fields, symbol: (fields.symbol as string).trim() } as AlertConfig;
+  if (config.currency !== undefined) {
+    config.currency = normalizeCurrency(config.currency);
+  }
+  const configProblems = alertConfigProblems(config);
+  if (configProblems.length > 0) {
+    throw new Error(configProblems.join("; "));
+  }
+  return config;
+}
+
+/**
+ * Parses and validates an imported watchlist
+ *
+ * @param value - The watchlist's fields
+ * @param seen - Lowercase names of the watchlists imported so far, to catch duplicates
+ * @param invalid - Fields whose CSV cells could not be read, with their problems
+ * @returns The watchlist with normalized symbols
+ * @throws Error listing every invalid field
+ */
+function parseWatchlist(value: unknown, seen: Set<string>, invalid: CellProblems = new Map()): ExportedWatchlist {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("must be an object");
+  }
+
+  const fields = value as Record<string, unknown>;
+  const problems = new FieldProblems(invalid);
+  for (const key of Object.keys(fields).filter((key) => !(key in WATCHLIST_COLUMNS))) {
+    problems.add(key, `unknown field "${key}"`);
+  }
+
+  const name = typeof fields.name === "string" ? fields.name.trim() : "";
+  if (name.length === 0) {
+    problems.add("name", "name must be a non-empty string");
+  } else if (seen.has(name.toLowerCase())) {
+    problems.add("name", `a watchlist named "${name}" is listed twice`);
+  }
+
+  let symbols: string[] = [];
+  try {
+    symbols = normalizeSymbols(fields.symbols ?? []);
+  } catch (error) {
+    problems.add("symbols", error instanceof Error ? error.message : String(error));
+  }
+  problems.throwIfAny();
+
+  seen.add(name.toLowerCase());
+  return { name, symbols };
+}
+
+/**
+ * The problems found with a record's fields, at most one per field
+ */
+class FieldProblems {
+  private readonly problems: Map<string, string>;
+
+  /**
+   * @param invalid - Problems already found while reading the record's cells
+   */
+  constructor(invalid: CellProblems) {
+    this.problems = new Map(invalid);
+  }
+
+  /**
+   * Records a problem with a field, unless the field already has one
+   */
+  add(field: string, problem: string): void {
+    if (!this.problems.has(field)) {
+      this.problems.set(field, problem);
+    }
+  }
+
+  /**
+   * Throws an error listing every problem, if there are any
+   */
+  throwIfAny(): void {
+    if (this.problems.size > 0) {
+      throw new Error([...this.problems.values()].join("; "));
+    }
+  }
+}
+
+/**
+ * Serializes records to CSV
+ *
+ * @param columns - The fields to write, in order
+ * @param records - The records
+ * @returns The CSV text including a header row
+ */
+function toCsv(columns: readonly string[], records: object[]): string {
+  const lines = [columns.map(quoteCell).join(",")];
+  for (const record of records) {
+    const fields = record as Record<string, unknown>;
+    lines.push(columns.map((column) => quoteCell(formatCell(fields[column]))).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Writes a field's value as cell text (empty for an unset field)
+ */
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(String);
+    // Fall back to JSON where splitting on ";" would not give the same list back
+    const plain =
+      items.length > 0 &&
+      !items[0]!.startsWith("[") &&
+      items.every((item) => item.length > 0 && item === item.trim() && !item.includes(";"));
+    return plain ? items.join(";") : JSON.stringify(items);
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Reads a field's value from cell text
+ *
+ * @param cell - The cell text
+ * @param type - How the field is written
+ * @param field - The field name, for errors
+ * @returns The value, or undefined for an empty cell
+ * @throws Error if the cell does not hold a value of the type
+ */
+function parseCell(cell: string, type: CellType, field: string): unknown {
+  if (cell.trim().length === 0) {
+    return undefined;
+  }
+
+  switch (type) {
+    case "string":
+      return cell;
+    case "number": {
+      const value = Number(cell);
+      if (isNaN(value)) {
+        throw new Error(`${field} must be a number`);
+      }
+      return value;
+    }
+    case "boolean":
+      if (cell.trim() !== "true" && cell.trim() !== "false") {
+        throw new Error(`${field} must be true or false`);
+      }
+      return cell.trim() === "true";
+    case "list":
+      if (cell.trim().startsWith("[")) {
+        const value = parseJsonCell(cell, field);
+        if (!Array.isArray(value)) {
+          throw new Error(`${field} must be a list separated by ";" or a JSON array`);
+        }
+        return value;
+      }
+      return cell.split(";").map((item) => item.trim()).filter((item) => item.length > 0);
+    case "json":
+      return parseJsonCell(cell, field);
+  }
+}
+
+/**
+ * Parses a cell holding JSON
+ */
+function parseJsonCell(cell: string, field: string): unknown {
+  try {
+    return JSON.parse(cell);
+  } catch {
+    throw new Error(`${field} is not valid JSON`);
+  }
+}
+
+/**
+ * Quotes a cell if it holds a delimiter, a quote, a line break or surrounding spaces
+ */
+function quoteCell(cell: string): string {
+  return /[",\r\n]|^\s|\s$/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * A row of a CSV file
+ *
+ * @property line - The line the row starts on (1-based)
+ * @property cells - The cell texts, unquoted
+ */
+type CsvRecord = {
+  line: number;
+  cells: string[];
+};
+
+/**
+ * Splits CSV text into rows, following RFC 4180
+ *
+ * Cells may be quoted, with "" for a quote inside; quoted cells may span
+ * lines. Blank lines are skipped.
+ *
+ * @param text - The CSV text
+ * @returns The rows
+ * @throws Error if a quoted cell is not closed
+ */
+function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0]!.trim().length > 0) {
+      records.push({ line: start, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  // Skip a byte order mark (e.g., from spreadsheet programs)
+  for (let i = text.startsWith("\uFEFF") ? 1 : 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim().length === 0) {
+      cell = "";
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Line ${start}: a quoted cell is not closed`);
+  }
+  if (cells.length > 0 || cell.length > 0) {
+    endRecord();
+  }
+  return records;
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted, so equal values give equal text
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, field: unknown) =>
+    typeof field === "object" && field !== null && !Array.isArray(field)
+      ? Object.fromEntries(Object.entries(field).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : field
+  );
+}
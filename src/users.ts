@@ -0,0 +1,524 @@
+/**
+ * User accounts, sessions and API tokens
+ *
+ * This module keeps the server's users in a local JSON file. Passwords are
+ * hashed with scrypt; session cookies and API tokens are random secrets of
+ * which only a SHA-256 hash is stored, so a leaked file does not let anyone
+ * sign in.
+ */
+
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "node:crypto";
+import { normalizeCurrency } from "./currency.js";
+import { JsonFileWriter, readJsonFile } from "./jsonfile.js";
+import { log } from "./logger.js";
+
+/**
+ * What a user may do
+ * - "admin": Everything, including managing other users
+ * - "user": Their own alerts, watchlists and notification settings
+ */
+export type Role = "admin" | "user";
+
+/**
+ * A user account as stored on disk
+ *
+ * @property id - Unique identifier (alerts and watchlists refer to their owner by it)
+ * @property username - Sign-in name (lowercase, unique)
+ * @property role - What the user may do
+ * @property passwordHash - "scrypt:<salt>:<hash>", both hex-encoded
+ * @property notify - Notification channels for the user's alerts that have no
+ *   channel list of their own; absent to use the channels marked as default
+ * @property baseCurrency - Currency to show prices converted into (e.g., "EUR");
+ *   absent to show prices in the currency they are quoted in
+ * @property createdAt - When the account was created (ISO timestamp)
+ * @property updatedAt - When the account was last changed (ISO timestamp)
+ */
+export type User = {
+  id: string;
+  username: string;
+  role: Role;
+  passwordHash: string;
+  notify?: string[];
+  baseCurrency?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * A user as returned by the API (without the password hash)
+ */
+export type PublicUser = Omit<User, "passwordHash">;
+
+/**
+ * Changes that can be applied to a user
+ */
+export type UserPatch = {
+  password?: string;
+  role?: Role;
+  notify?: string[] | null;
+  baseCurrency?: string | null;
+};
+
+/**
+ * An API token for scripts, as returned by the API
+ *
+ * @property id - Unique identifier (used to revoke the token)
+ * @property userId - The user the token acts as
+ * @property name - What the token is for, chosen by the user
+ * @property createdAt - When the token was created (ISO timestamp)
+ * @property lastUsedAt - When the token was last used (ISO timestamp, to the minute), or null
+ */
+export type ApiToken = {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+/**
+ * A signed-in browser session
+ */
+type Session = {
+  tokenHash: string;
+  userId: string;
+  expiresAt: string;
+};
+
+/**
+ * Layout of the JSON file
+ */
+type UserFile = {
+  users: User[];
+  sessions: Session[];
+  tokens: (ApiToken & { tokenHash: string })[];
+};
+
+/**
+ * How long a session lasts after signing in, in milliseconds
+ */
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Minimum password length
+ */
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Prefix of API tokens, so they are easy to recognize (e.g., in secret scanners)
+ */
+const TOKEN_PREFIX = "stk_";
+
+/**
+ * Users, sessions and API tokens backed by a JSON file
+ *
+ * All changes are written to disk before the returned promise resolves.
+ */
+export class UserStore {
+  private readonly writer: JsonFileWriter;
+  private data: UserFile = { users: [], sessions: [], tokens: [] };
+
+  private constructor(file: string) {
+    this.writer = new JsonFileWriter(file);
+  }
+
+  /**
+   * Opens the store, creating an empty one if the file does not exist yet
+   *
+   * Expired sessions are dropped on open.
+   *
+   * @param file - Path to the JSON file
+   * @returns A promise that resolves to the store
+   * @throws Error if the file exists but is not a valid store
+   */
+  static async open(file: string): Promise<UserStore> {
+    const store = new UserStore(file);
+    const data = (await readJsonFile(file)) as Partial<UserFile> | null;
+
+    if (data !== null) {
+      if (!Array.isArray(data.users)) {
+        throw new Error(`Invalid user store ${file}: expected a "users" array`);
+      }
+      const now = new Date().toISOString();
+      store.data = {
+        users: data.users,
+        sessions: (data.sessions ?? []).filter((session) => session.expiresAt > now),
+        tokens: data.tokens ?? [],
+      };
+    }
+
+    return store;
+  }
+
+  /**
+   * Returns all users in creation order
+   */
+  list(): PublicUser[] {
+    return this.data.users.map(toPublic);
+  }
+
+  /**
+   * Returns a user by id
+   *
+   * @param id - The user id
+   * @returns The user, or undefined if it does not exist
+   */
+  get(id: string): PublicUser | undefined {
+    const user = this.data.users.find((u) => u.id === id);
+    return user !== undefined ? toPublic(user) : undefined;
+  }
+
+  /**
+   * Returns a user by username (case-insensitive)
+   *
+   * @param username - The username
+   * @returns The user, or undefined if it does not exist
+   */
+  findByUsername(username: string): PublicUser | undefined {
+    const user = this.find(username);
+    return user !== undefined ? toPublic(user) : undefined;
+  }
+
+  /**
+   * Creates a user
+   *
+   * @param username - Sign-in name (3-32 letters, digits, ".", "_" or "-")
+   * @param password - The password (at least 8 characters)
+   * @param role - What the user may do (default: "user")
+   * @returns A promise that resolves to the new user
+   * @throws Error if the username is invalid or taken, or the password is too short
+   */
+  async create(username: string, password: string, role: Role = "user"): Promise<PublicUser> {
+    if (typeof username !== "string" || !/^[a-z0-9._-]{3,32}$/i.test(username.trim())) {
+      throw new Error('username must be 3 to 32 letters, digits, ".", "_" or "-"');
+    }
+    if (this.find(username) !== undefined) {
+      throw new Error(`A user named "${username.trim().toLowerCase()}" already exists`);
+    }
+    validateRole(role);
+
+    const now = new Date().toISOString();
+    const user: User = {
+      id: randomUUID(),
+      username: username.trim().toLowerCase(),
+      role,
+      passwordHash: await hashPassword(password),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.data.users.push(user);
+    await this.save();
+    return toPublic(user);
+  }
+
+  /**
+   * Changes a user's password, role, notification channels and/or base currency
+   *
+   * Changing the password signs the user out everywhere (API tokens stay valid).
+   *
+   * @param id - The user id
+   * @param patch - The changes to apply (`notify: null` goes back to the default channels,
+   *   `baseCurrency: null` to showing prices as quoted)
+   * @returns A promise that resolves to the updated user, or undefined if it does not exist
+   * @throws Error if a value is invalid or the change would leave no admin
+   */
+  async update(id: string, patch: UserPatch): Promise<PublicUser | undefined> {
+    const user = this.data.users.find((u) => u.id === id);
+    if (user === undefined) {
+      return undefined;
+    }
+
+    // Validate everything before changing anything
+    if (patch.role !== undefined) {
+      validateRole(patch.role);
+      if (patch.role !== "admin" && user.role === "admin" && this.admins().length === 1) {
+        throw new Error("The last admin cannot be demoted");
+      }
+    }
+    if (patch.notify !== undefined && patch.notify !== null) {
+      if (!Array.isArray(patch.notify) || !patch.notify.every((name) => typeof name === "string" && name.length > 0)) {
+        throw new Error("notify must be a list of channel names");
+      }
+    }
+    if (patch.baseCurrency !== undefined && patch.baseCurrency !== null && typeof patch.baseCurrency !== "string") {
+      throw new Error('baseCurrency must be a currency code such as "EUR", or null');
+    }
+    const baseCurrency = typeof patch.baseCurrency === "string" ? normalizeCurrency(patch.baseCurrency) : patch.baseCurrency;
+    const passwordHash = patch.password !== undefined ? await hashPassword(patch.password) : undefined;
+
+    if (passwordHash !== undefined) {
+      user.passwordHash = passwordHash;
+      this.data.sessions = this.data.sessions.filter((session) => session.userId !== id);
+    }
+    if (patch.role !== undefined) {
+      user.role = patch.role;
+    }
+    if (patch.notify === null) {
+      delete user.notify;
+    } else if (patch.notify !== undefined) {
+      user.notify = patch.notify;
+    }
+    if (baseCurrency === null) {
+      delete user.baseCurrency;
+    } else if (baseCurrency !== undefined) {
+      user.baseCurrency = baseCurrency;
+    }
+    user.updatedAt = new Date().toISOString();
+
+    await this.save();
+    return toPublic(user);
+  }
+
+  /**
+   * Deletes a user with their sessions and API tokens
+   *
+   * @param id - The user id
+   * @returns A promise that resolves to true if the user existed
+   * @throws Error if the user is the last admin
+   */
+  async remove(id: string): Promise<boolean> {
+    const user = this.data.users.find((u) => u.id === id);
+    if (user === undefined) {
+      return false;
+    }
+    if (user.role === "admin" && this.admins().length === 1) {
+      throw new Error("The last admin cannot be deleted");
+    }
+
+    this.data.users = this.data.users.filter((u) => u.id !== id);
+    this.data.sessions = this.data.sessions.filter((session) => session.userId !== id);
+    this.data.tokens = this.data.tokens.filter((token) => token.userId !== id);
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Checks a username and password
+   *
+   * @param username - The username (case-insensitive)
+   * @param password - The password
+   * @returns A promise that resolves to the user, or undefined if either is wrong
+   */
+  async verifyPassword(username: string, password: string): Promise<PublicUser | undefined> {
+    const user = this.find(username);
+
+    // Hash even for unknown users so response times don't reveal which usernames exist
+    const matches = await checkPassword(password, user?.passwordHash ?? DUMMY_HASH);
+    return user !== undefined && matches ? toPublic(user) : undefined;
+  }
+
+  /**
+   * Starts a session for a user
+   *
+   * @param userId - The user id
+   * @returns A promise that resolves to the session token (for the cookie) and its expiry
+   */
+  async createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+    const token = randomBytes(32).toString("base64url");
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+    this.data.sessions = this.data.sessions.filter((session) => new Date(session.expiresAt) > new Date());
+    this.data.sessions.push({ tokenHash: hashToken(token), userId, expiresAt: expiresAt.toISOString() });
+    await this.save();
+    return { token, expiresAt };
+  }
+
+  /**
+   * Returns the user a session token belongs to
+   *
+   * @param token - The session token from the cookie
+   * @returns The user, or undefined if the session does not exist or has expired
+   */
+  sessionUser(token: string): PublicUser | undefined {
+    const tokenHash = hashToken(token);
+    const session = this.data.sessions.find((s) => s.tokenHash === tokenHash);
+    if (session === undefined || new Date(session.expiresAt) <= new Date()) {
+      return undefined;
+    }
+    return this.get(session.userId);
+  }
+
+  /**
+   * Ends a session
+   *
+   * @param token - The session token from the cookie
+   */
+  async endSession(token: string): Promise<void> {
+    const tokenHash = hashToken(token);
+    this.data.sessions = this.data.sessions.filter((session) => session.tokenHash !== tokenHash);
+    await this.save();
+  }
+
+  /**
+   * Creates an API token for a user
+   *
+   * @param userId - The user the token acts as
+   * @param name - What the token is for
+   * @returns A promise that resolves to the token record and the secret, which is not shown again
+   * @throws Error if the name is empty
+   */
+  async createToken(userId: string, name: string): Promise<{ token: string; record: ApiToken }> {
+    if (typeof name !== "string" || name.trim().length === 0) {
+      throw new Error("name must be a non-empty string");
+    }
+
+    const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+    const record: ApiToken = {
+      id: randomUUID(),
+      userId,
+      name: name.trim(),
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+    };
+
+    this.data.tokens.push({ ...record, tokenHash: hashToken(token) });
+    await this.save();
+    return { token, record };
+  }
+
+  /**
+   * Returns a user's API tokens (without the secrets)
+   *
+   * @param userId - The user id
+   */
+  tokens(userId: string): ApiToken[] {
+    return this.data.tokens
+      .filter((token) => token.userId === userId)
+      .map(({ tokenHash: _, ...record }) => record);
+  }
+
+  /**
+   * Revokes one of a user's API tokens
+   *
+   * @param userId - The user id
+   * @param id - The token id
+   * @returns A promise that resolves to true if the token existed
+   */
+  async revokeToken(userId: string, id: string): Promise<boolean> {
+    const before = this.data.tokens.length;
+    this.data.tokens = this.data.tokens.filter((token) => !(token.userId === userId && token.id === id));
+
+    if (this.data.tokens.length === before) {
+      return false;
+    }
+
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Returns the user an API token acts as, and notes when it was used
+   *
+   * @param token - The API token from the Authorization header
+   * @returns The user, or undefined if the token does not exist
+   */
+  tokenUser(token: string): PublicUser | undefined {
+    const tokenHash = hashToken(token);
+    const record = this.data.tokens.find((t) => t.tokenHash === tokenHash);
+    if (record === undefined) {
+      return undefined;
+    }
+
+    // Record the last use to the minute, so busy scripts don't rewrite the file on every call
+    const minute = new Date().toISOString().slice(0, 16);
+    if (record.lastUsedAt?.slice(0, 16) !== minute) {
+      record.lastUsedAt = new Date().toISOString();
+      this.save().catch((error) => {
+        log.error("Error saving user store", { error });
+      });
+    }
+
+    return this.get(record.userId);
+  }
+
+  /**
+   * Finds a user by username (case-insensitive)
+   */
+  private find(username: string): User | undefined {
+    const wanted = String(username).trim().toLowerCase();
+    return this.data.users.find((user) => user.username === wanted);
+  }
+
+  /**
+   * Returns the admin accounts
+   */
+  private admins(): User[] {
+    return this.data.users.filter((user) => user.role === "admin");
+  }
+
+  /**
+   * Writes the current data to disk
+   */
+  private save(): Promise<void> {
+    return this.writer.write(this.data);
+  }
+}
+
+/**
+ * A valid hash of no real password, checked against for unknown usernames
+ */
+const DUMMY_HASH = `scrypt:${"0".repeat(32)}:${"0".repeat(128)}`;
+
+/**
+ * Hashes a password with scrypt and a random salt
+ *
+ * @param password - The password
+ * @returns A promise that resolves to "scrypt:<salt>:<hash>"
+ * @throws Error if the password is too short
+ */
+async function hashPassword(password: string): Promise<string> {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const salt = randomBytes(16);
+  const hash = await deriveKey(password, salt);
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+/**
+ * Checks a password against a stored hash in constant time
+ */
+async function checkPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || salt === undefined || hash === undefined || typeof password !== "string") {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await deriveKey(password, Buffer.from(salt, "hex"));
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Derives the 64-byte scrypt key of a password
+ */
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, 64, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Hashes a session or API token for storage
+ */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Throws unless the role is known
+ */
+function validateRole(role: unknown): asserts role is Role {
+  if (role !== "admin" && role !== "user") {
+    throw new Error('role must be "admin" or "user"');
+  }
+}
+
+/**
+ * Drops the password hash from a user
+ */
+function toPublic({ passwordHash: _, ...user }: User): PublicUser {
+  return { ...user };
+}
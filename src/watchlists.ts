@@ -0,0 +1,273 @@
+/**
+ * Persistent watchlists
+ *
+ * This module keeps named, ordered lists of symbols in a local JSON file so
+ * the web dashboard shows the same watchlists on every device and after
+ * restarts of the server.
+ */
+
+import { randomUUID } from "node:crypto";
+import { JsonFileWriter, readJsonFile } from "./jsonfile.js";
+
+/**
+ * Maximum number of symbols in one watchlist (matches the /api/quotes batch limit)
+ */
+export const MAX_WATCHLIST_SYMBOLS = 50;
+
+/**
+ * A named list of symbols
+ *
+ * @property id - Unique identifier
+ * @property name - Display name (unique per owner, case-insensitive)
+ * @property symbols - Symbols in display order (lowercase, no duplicates)
+ * @property createdAt - When the watchlist was created (ISO timestamp)
+ * @property updatedAt - When the watchlist was last changed (ISO timestamp)
+ * @property owner - Id of the user the watchlist belongs to (absent on watchlists
+ *   created without an account; see adopt())
+ */
+export type Watchlist = {
+  id: string;
+  name: string;
+  symbols: string[];
+  createdAt: string;
+  updatedAt: string;
+  owner?: string;
+};
+
+/**
+ * Changes that can be applied to a watchlist
+ * `symbols` replaces the whole list, which is also how symbols are reordered.
+ */
+export type WatchlistPatch = {
+  name?: string;
+  symbols?: string[];
+};
+
+/**
+ * Layout of the JSON file (watchlists in display order)
+ */
+type WatchlistFile = {
+  watchlists: Watchlist[];
+};
+
+/**
+ * Watchlists backed by a JSON file
+ *
+ * All changes are written to disk before the returned promise resolves.
+ */
+export class WatchlistStore {
+  private readonly writer: JsonFileWriter;
+  private data: WatchlistFile = { watchlists: [] };
+
+  private constructor(file: string) {
+    this.writer = new JsonFileWriter(file);
+  }
+
+  /**
+   * Opens the store, creating an empty one if the file does not exist yet
+   *
+   * @param file - Path to the JSON file
+   * @returns A promise that resolves to the store
+   * @throws Error if the file exists but is not a valid store
+   */
+  static async open(file: string): Promise<WatchlistStore> {
+    const store = new WatchlistStore(file);
+    const data = (await readJsonFile(file)) as Partial<WatchlistFile> | null;
+
+    if (data !== null) {
+      if (!Array.isArray(data.watchlists)) {
+        throw new Error(`Invalid watchlist store ${file}: expected a "watchlists" array`);
+      }
+      store.data = { watchlists: data.watchlists };
+    }
+
+    return store;
+  }
+
+  /**
+   * Returns watchlists in display order
+   *
+   * @param owner - Optional user id to filter by
+   */
+  list(owner?: string): Watchlist[] {
+    return this.data.watchlists.filter((watchlist) => owner === undefined || watchlist.owner === owner);
+  }
+
+  /**
+   * Returns a watchlist by id
+   *
+   * @param id - The watchlist id
+   * @returns The watchlist, or undefined if it does not exist
+   */
+  get(id: string): Watchlist | undefined {
+    return this.data.watchlists.find((watchlist) => watchlist.id === id);
+  }
+
+  /**
+   * Creates a watchlist at the end of the list
+   *
+   * @param name - The display name
+   * @param symbols - The initial symbols
+   * @param owner - Id of the user the watchlist belongs to
+   * @returns A promise that resolves to the new watchlist
+   * @throws Error if the name or symbols are invalid
+   */
+  async create(name: string, symbols: string[] = [], owner?: string): Promise<Watchlist> {
+    const now = new Date().toISOString();
+    const watchlist: Watchlist = {
+      id: randomUUID(),
+      name: this.validateName(name, owner),
+      symbols: normalizeSymbols(symbols),
+      createdAt: now,
+      updatedAt: now,
+      ...(owner !== undefined ? { owner } : {}),
+    };
+
+    this.data.watchlists.push(watchlist);
+    await this.save();
+    return watchlist;
+  }
+
+  /**
+   * Renames a watchlist and/or replaces its symbols
+   *
+   * @param id - The watchlist id
+   * @param patch - The changes to apply
+   * @returns A promise that resolves to the updated watchlist, or undefined if it does not exist
+   * @throws Error if the name or symbols are invalid
+   */
+  async update(id: string, patch: WatchlistPatch): Promise<Watchlist | undefined> {
+    const watchlist = this.get(id);
+    if (watchlist === undefined) {
+      return undefined;
+    }
+
+    // Validate everything before changing anything
+    const name = patch.name !== undefined ? this.validateName(patch.name, watchlist.owner, id) : watchlist.name;
+    const symbols = patch.symbols !== undefined ? normalizeSymbols(patch.symbols) : watchlist.symbols;
+
+    watchlist.name = name;
+    watchlist.symbols = symbols;
+    watchlist.updatedAt = new Date().toISOString();
+
+    await this.save();
+    return watchlist;
+  }
+
+  /**
+   * Puts an owner's watchlists in a new display order
+   *
+   * Other owners' watchlists keep their places.
+   *
+   * @param ids - Every watchlist id of the owner, in the new order
+   * @param owner - Optional user id whose watchlists are reordered (default: all watchlists)
+   * @returns A promise that resolves to the owner's reordered watchlists
+   * @throws Error if the ids are not exactly the owner's watchlists
+   */
+  async reorder(ids: string[], owner?: string): Promise<Watchlist[]> {
+    const owned = this.list(owner);
+    const reordered = ids.map((id) => owned.find((watchlist) => watchlist.id === id));
+    if (
+      new Set(ids).size !== ids.length ||
+      ids.length !== owned.length ||
+      reordered.some((watchlist) => watchlist === undefined)
+    ) {
+      throw new Error("ids must list every watchlist exactly once");
+    }
+
+    // Fill the owner's slots with the new order
+    const queue = reordered as Watchlist[];
+    this.data.watchlists = this.data.watchlists.map((watchlist) =>
+      owner === undefined || watchlist.owner === owner ? queue.shift()! : watchlist
+    );
+    await this.save();
+    return this.list(owner);
+  }
+
+  /**
+   * Gives every watchlist without an owner to a user
+   *
+   * @param owner - The user id
+   * @returns A promise that resolves to the number of watchlists adopted
+   */
+  async adopt(owner: string): Promise<number> {
+    const orphans = this.data.watchlists.filter((watchlist) => watchlist.owner === undefined);
+    orphans.forEach((watchlist) => (watchlist.owner = owner));
+
+    if (orphans.length > 0) {
+      await this.save();
+    }
+    return orphans.length;
+  }
+
+  /**
+   * Deletes a watchlist
+   *
+   * @param id - The watchlist id
+   * @returns A promise that resolves to true if the watchlist existed
+   */
+  async remove(id: string): Promise<boolean> {
+    const before = this.data.watchlists.length;
+    this.data.watchlists = this.data.watchlists.filter((watchlist) => watchlist.id !== id);
+
+    if (this.data.watchlists.length === before) {
+      return false;
+    }
+
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Checks a watchlist name, which must be unique among the owner's other watchlists
+   *
+   * @param name - The proposed name
+   * @param owner - The owner of the watchlist
+   * @param id - The watchlist being renamed, if any
+   * @returns The trimmed name
+   * @throws Error if the name is empty or taken
+   */
+  private validateName(name: unknown, owner: string | undefined, id?: string): string {
+    if (typeof name !== "string" || name.trim().length === 0) {
+      throw new Error("name must be a non-empty string");
+    }
+
+    const trimmed = name.trim();
+    const taken = this.data.watchlists.some(
+      (watchlist) =>
+        watchlist.id !== id && watchlist.owner === owner && watchlist.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (taken) {
+      throw new Error(`A watchlist named "${trimmed}" already exists`);
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * Writes the current data to disk
+   */
+  private save(): Promise<void> {
+    return this.writer.write(this.data);
+  }
+}
+
+/**
+ * Validates a list of symbols, lowercasing them and dropping duplicates
+ *
+ * @param symbols - The symbols, in display order
+ * @returns The normalized symbols
+ * @throws Error if symbols is not a list of non-empty strings or is too long
+ */
+export function normalizeSymbols(symbols: unknown): string[] {
+  if (!Array.isArray(symbols) || symbols.some((s) => typeof s !== "string" || s.trim().length === 0)) {
+    throw new Error("symbols must be a list of non-empty strings");
+  }
+
+  const normalized = [...new Set((symbols as string[]).map((s) => s.trim().toLowerCase()))];
+  if (normalized.length > MAX_WATCHLIST_SYMBOLS) {
+    throw new Error(`A watchlist holds at most ${MAX_WATCHLIST_SYMBOLS} symbols`);
+  }
+
+  return normalized;
+}
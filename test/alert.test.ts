@@ -0,0 +1,301 @@
+/**
+ * Tests for the alert engine (src/alert.ts)
+ */
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  AlertEngine,
+  alertState,
+  type AlertConfig,
+  type AlertEngineOptions,
+  type AlertErrorEvent,
+} from "../src/alert.js";
+import { ReplayProvider } from "../src/provider.js";
+
+const START = Date.parse("2025-03-03T15:00:00Z");
+const MINUTE = 60_000;
+
+let dir: string;
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "stocks-engine-"));
+});
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Starts an engine with one alert on a stopped replay clock, over one
+ * recorded tick per minute with the given prices
+ *
+ * @returns The engine, the alert, the prices it fired at so far, and a
+ *   function that polls the next recorded tick
+ */
+async function replay(
+  prices: number[],
+  config: Omit<AlertConfig, "symbol" | "intervalMs">,
+  options: AlertEngineOptions = {}
+) {
+  const ticks = prices.map((close, index) => ({ timestamp: new Date(START + index * MINUTE).toISOString(), close }));
+  await writeFile(path.join(dir, "test.us.json"), JSON.stringify(ticks));
+
+  const provider = await ReplayProvider.load(dir, new Date(START), 0);
+  const engine = new AlertEngine(provider, { marketHours: false, ...options });
+  const alert = engine.add({ symbol: "test.us", intervalMs: MINUTE, ...config });
+
+  const fired: number[] = [];
+  engine.on("triggered", ({ quote }) => fired.push(quote.close));
+
+  let ticked = 0;
+  const next = async (count = 1) => {
+    for (let i = 0; i < count; i++) {
+      if (ticked++ > 0) {
+        provider.clock.advance(MINUTE);
+      }
+      await engine.tick();
+    }
+  };
+  return { engine, alert, fired, next };
+}
+
+describe("AlertEngine", () => {
+  /**
+   * Starts an engine on the recorded AAPL and MSFT ticks in fixtures/, with
+   * the replay clock stopped at 14:45 UTC, and records the symbols of each fetch
+   */
+  async function fixtureEngine() {
+    const provider = await ReplayProvider.load("fixtures", new Date("2025-03-03T14:45:00Z"), 0);
+    const fetches: string[][] = [];
+    const fetchQuotes = provider.fetchQuotes.bind(provider);
+    provider.fetchQuotes = (symbols) => {
+      fetches.push([...symbols].sort());
+      return fetchQuotes(symbols);
+    };
+
+    const engine = new AlertEngine(provider, { marketHours: false });
+    const fired: string[] = [];
+    engine.on("triggered", ({ alert, quote }) => fired.push(`${alert.id}@${quote.close}`));
+    return { provider, engine, fetches, fired };
+  }
+
+  it("fetches each symbol once per tick and fires the alerts whose condition holds", async () => {
+    const { provider, engine, fetches, fired } = await fixtureEngine();
+    engine.add({ symbol: "AAPL.US", target: 242.5, direction: "above", intervalMs: MINUTE }, "aapl-up");
+    engine.add({ symbol: "aapl.us", target: 240, direction: "below", intervalMs: MINUTE }, "aapl-down");
+    engine.add({ symbol: "msft.us", target: 395, direction: "below", intervalMs: MINUTE }, "msft-down");
+    const prices: number[] = [];
+    engine.on("price", (quote) => prices.push(quote.close));
+
+    await engine.tick();
+    assert.deepEqual(fired, []);
+    assert.deepEqual(prices, [241.62, 398.1]);
+
+    provider.clock.advance(60 * MINUTE);
+    await engine.tick();
+    assert.deepEqual(fired, ["aapl-up@242.96"]);
+
+    provider.clock.advance(60 * MINUTE);
+    await engine.tick();
+    provider.clock.advance(30 * MINUTE);
+    await engine.tick();
+
+    assert.deepEqual(fired, ["aapl-up@242.96", "msft-down@393.6", "aapl-down@238.95"]);
+    assert.deepEqual(fetches, [
+      ["aapl.us", "msft.us"],
+      ["aapl.us", "msft.us"],
+      ["aapl.us", "msft.us"],
+      ["aapl.us"],
+    ]);
+    assert.equal(engine.latestQuote("MSFT.US")?.close, 393.6);
+  });
+
+  it("polls each alert on its own interval", async () => {
+    const { provider, engine, fetches } = await fixtureEngine();
+    engine.add({ symbol: "aapl.us", target: 300, direction: "above", intervalMs: MINUTE });
+    engine.add({ symbol: "msft.us", target: 500, direction: "above", intervalMs: 5 * MINUTE });
+
+    for (let i = 0; i < 6; i++) {
+      await engine.tick();
+      provider.clock.advance(MINUTE);
+    }
+
+    assert.equal(fetches.length, 6);
+    assert.equal(fetches.filter((symbols) => symbols.includes("msft.us")).length, 2);
+  });
+
+  it("skips paused and removed alerts", async () => {
+    const { provider, engine, fired } = await fixtureEngine();
+    const paused = engine.add({ symbol: "aapl.us", target: 241, direction: "above", intervalMs: MINUTE });
+    const removed = engine.add({ symbol: "msft.us", target: 398, direction: "above", intervalMs: MINUTE });
+
+    engine.pause(paused.id);
+    assert.equal(engine.remove(removed.id), true);
+    assert.equal(engine.remove(removed.id), false);
+    await engine.tick();
+    assert.deepEqual(fired, []);
+
+    engine.resume(paused.id);
+    provider.clock.advance(MINUTE);
+    await engine.tick();
+    assert.deepEqual(fired, [`${paused.id}@241.62`]);
+    assert.deepEqual(engine.list().map((alert) => alert.id), [paused.id]);
+  });
+
+  it("reports a symbol that cannot be fetched with the alerts waiting on it", async () => {
+    const { engine, fired } = await fixtureEngine();
+    const alert = engine.add({ symbol: "nope.us", target: 1, direction: "above", intervalMs: MINUTE });
+    engine.add({ symbol: "aapl.us", target: 241, direction: "above", intervalMs: MINUTE }, "aapl");
+    const errors: AlertErrorEvent[] = [];
+    engine.on("error", (event) => errors.push(event));
+
+    await engine.tick();
+
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0]?.symbol, "nope.us");
+    assert.deepEqual(errors[0]?.alertIds, [alert.id]);
+    assert.equal(errors[0]?.error.name, "SymbolNotFound");
+    assert.deepEqual(fired, ["aapl@241.62"]);
+  });
+
+  it("rejects an invalid configuration when it is added", () => {
+    const engine = new AlertEngine(undefined, { marketHours: false });
+
+    assert.throws(() => engine.add({ symbol: " ", target: 1, direction: "above", intervalMs: MINUTE }), /symbol/);
+    assert.throws(() => engine.add({ symbol: "aapl.us", target: 1, direction: "above", intervalMs: 0 }), /intervalMs/);
+    assert.deepEqual(engine.list(), []);
+  });
+});
+
+describe("AlertEngine lifecycle", () => {
+  it("fires a one-shot alert once", async () => {
+    const { alert, fired, next } = await replay([190, 210, 190, 210], { target: 200, direction: "above" });
+
+    await next(4);
+
+    assert.deepEqual(fired, [210]);
+    assert.equal(alert.status, "triggered");
+    assert.equal(alert.triggeredAt?.getTime(), START + MINUTE);
+  });
+
+  it("re-arms a recurring alert once the condition stops holding", async () => {
+    const { engine, fired, next } = await replay([210, 205, 190, 210], {
+      target: 200,
+      direction: "above",
+      recurring: true,
+    });
+    const rearmed: string[] = [];
+    engine.on("rearmed", ({ alert }) => rearmed.push(alert.id));
+
+    await next(4);
+
+    assert.deepEqual(fired, [210, 210]);
+    assert.equal(rearmed.length, 1);
+  });
+
+  it("waits for the cooldown on the replay clock", async () => {
+    const { engine, alert, fired, next } = await replay([210, 190, 210, 190, 210], {
+      target: 200,
+      direction: "above",
+      recurring: true,
+      cooldownMs: 3 * MINUTE,
+    });
+
+    await next(3);
+    assert.equal(alertState(alert, engine.now()), "cooldown");
+    assert.deepEqual(fired, [210]);
+
+    await next(2);
+    assert.deepEqual(fired, [210, 210]);
+    assert.equal(alert.triggeredAt?.getTime(), START + 4 * MINUTE);
+  });
+
+  it("re-arms with rearmPercent only once the price moves back past the level", async () => {
+    const { alert, fired, next } = await replay([210, 199, 210, 185, 210], {
+      target: 200,
+      direction: "above",
+      recurring: true,
+      rearmPercent: 5,
+    });
+
+    await next(3);
+    assert.deepEqual(alert.rearm, { price: 190, direction: "below" });
+    assert.deepEqual(fired, [210]);
+
+    await next(2);
+    assert.deepEqual(fired, [210, 210]);
+  });
+
+  it("stops after maxTriggers", async () => {
+    const { alert, fired, next } = await replay([210, 190, 210, 190, 210], {
+      target: 200,
+      direction: "above",
+      recurring: true,
+      maxTriggers: 2,
+    });
+
+    await next(5);
+
+    assert.deepEqual(fired, [210, 210]);
+    assert.equal(alert.status, "triggered");
+    assert.equal(alert.triggerCount, 2);
+  });
+
+  it("expires when the replay clock passes expiresAt", async () => {
+    const { engine, alert, next } = await replay([190, 190, 190], {
+      target: 200,
+      direction: "above",
+      expiresAt: new Date(START + 2 * MINUTE).toISOString(),
+    });
+    const expired: string[] = [];
+    engine.on("expired", (event) => expired.push(event.alert.id));
+
+    await next(2);
+    assert.equal(alert.status, "active");
+
+    await next();
+    assert.equal(alert.status, "expired");
+    assert.deepEqual(expired, [alert.id]);
+  });
+
+  it("is not polled while snoozed on the replay clock", async () => {
+    const { engine, alert, fired, next } = await replay([190, 210, 210, 210], { target: 200, direction: "above" });
+
+    await next();
+    engine.snooze(alert.id, new Date(START + 3 * MINUTE));
+    assert.equal(alertState(alert, engine.now()), "snoozed");
+
+    await next(2);
+    assert.deepEqual(fired, []);
+
+    await next();
+    assert.deepEqual(fired, [210]);
+    assert.equal(alert.snoozedUntil, null);
+  });
+});
+
+describe("AlertEngine cost basis", () => {
+  it("looks up the cost basis for each alert", async () => {
+    const costs: Record<string, number> = {};
+    const { engine, alert, fired, next } = await replay(
+      [100, 100],
+      { condition: { type: "percentChange", from: "cost", percent: 10 } },
+      { costBasis: (_symbol, alertId) => costs[alertId] ?? null }
+    );
+    const other = engine.add({
+      symbol: "test.us",
+      intervalMs: MINUTE,
+      condition: { type: "percentChange", from: "cost", percent: -10 },
+    });
+    costs[alert.id] = 90;
+    costs[other.id] = 120;
+
+    await next();
+
+    assert.deepEqual(fired, [100, 100]);
+    assert.equal(alert.status, "triggered");
+    assert.equal(other.status, "triggered");
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for replaying history through alert rules (src/backtest.ts)
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { AlertConfig } from "../src/alert.js";
+import { backtest } from "../src/backtest.js";
+import type { Bar } from "../src/history.js";
+
+/**
+ * Builds daily bars from closes, starting on 2024-01-01
+ */
+function closes(values: number[]): Bar[] {
+  return values.map((close, index) => ({
+    date: `2024-01-${String(index + 1).padStart(2, "0")}`,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000,
+  }));
+}
+
+const ABOVE_11: AlertConfig = { symbol: "aapl.us", target: 11, direction: "above", intervalMs: 60_000 };
+
+describe("backtest", () => {
+  it("fires once per episode and measures forward returns", () => {
+    const result = backtest(ABOVE_11, closes([10, 12, 9, 13, 14, 8]), { horizons: [1] });
+
+    assert.deepEqual(
+      result.triggers.map((t) => [t.date, t.price]),
+      [
+        ["2024-01-02", 12],
+        ["2024-01-04", 13],
+      ]
+    );
+    assert.equal(result.triggers[0]?.forwardReturns["1"], -25);
+    assert.equal(result.triggers[1]?.forwardReturns["1"], (1 / 13) * 100);
+
+    const [stats] = result.horizons;
+    assert.equal(stats?.bars, 1);
+    assert.equal(stats?.samples, 2);
+    assert.equal(stats?.average, (-25 + (1 / 13) * 100) / 2);
+    assert.equal(stats?.winRate, 50);
+    assert.equal(stats?.best, (1 / 13) * 100);
+    assert.equal(stats?.worst, -25);
+  });
+
+  it("describes the tested range", () => {
+    const result = backtest(ABOVE_11, closes([10, 12, 9]));
+
+    assert.equal(result.symbol, "aapl.us");
+    assert.deepEqual(result.condition, { type: "above", target: 11 });
+    assert.equal(result.from, "2024-01-01");
+    assert.equal(result.to, "2024-01-03");
+    assert.equal(result.bars, 3);
+  });
+
+  it("re-arms on the next bar with rearm: immediately", () => {
+    const bars = closes([10, 12, 13, 14]);
+
+    assert.equal(backtest(ABOVE_11, bars).triggers.length, 1);
+    assert.deepEqual(
+      backtest(ABOVE_11, bars, { rearm: "immediately" }).triggers.map((t) => t.date),
+      ["2024-01-02", "2024-01-04"]
+    );
+  });
+
+  it("waits cooldownBars before re-arming", () => {
+    const result = backtest(ABOVE_11, closes([12, 12, 12, 12, 12]), { rearm: "immediately", cooldownBars: 1 });
+
+    assert.deepEqual(
+      result.triggers.map((t) => t.date),
+      ["2024-01-01", "2024-01-04"]
+    );
+  });
+
+  it("leaves forward returns past the end of the series empty", () => {
+    const result = backtest(ABOVE_11, closes([10, 12]), { horizons: [1, 5] });
+
+    assert.deepEqual(result.triggers[0]?.forwardReturns, { "1": null, "5": null });
+    assert.deepEqual(
+      result.horizons.map((h) => [h.samples, h.average, h.winRate]),
+      [
+        [0, null, null],
+        [0, null, null],
+      ]
+    );
+  });
+
+  it("only warms up on bars before from", () => {
+    const result = backtest(ABOVE_11, closes([12, 12, 10, 12]), { from: "2024-01-03" });
+
+    assert.deepEqual(
+      result.triggers.map((t) => t.date),
+      ["2024-01-04"]
+    );
+    assert.equal(result.from, "2024-01-03");
+    assert.equal(result.bars, 2);
+  });
+
+  it("uses the previous bar's close as the previous close", () => {
+    const config: AlertConfig = {
+      symbol: "aapl.us",
+      condition: { type: "percentChange", from: "previousClose", percent: 10 },
+      intervalMs: 60_000,
+    };
+    const result = backtest(config, closes([100, 105, 120]));
+
+    assert.deepEqual(
+      result.triggers.map((t) => t.date),
+      ["2024-01-03"]
+    );
+  });
+
+  it("feeds indicators with every bar", () => {
+    const config: AlertConfig = {
+      symbol: "aapl.us",
+      condition: { type: "indicator", left: "price", op: "above", right: { indicator: "sma", period: 2 } },
+      intervalMs: 60_000,
+    };
+    // SMA(2): -, 9.5, 8.5, 10; the price stays below it until the last bar
+    const result = backtest(config, closes([10, 9, 8, 12]));
+
+    assert.deepEqual(
+      result.triggers.map((t) => t.date),
+      ["2024-01-04"]
+    );
+  });
+
+  it("rejects alerts in another currency and invalid options", () => {
+    assert.throws(() => backtest({ ...ABOVE_11, currency: "EUR" }, closes([10])), /Cannot backtest an alert in EUR/);
+    assert.throws(() => backtest(ABOVE_11, closes([10]), { horizons: [0] }), /horizons/);
+    assert.throws(() => backtest(ABOVE_11, closes([10]), { cooldownBars: -1 }), /cooldownBars/);
+  });
+});
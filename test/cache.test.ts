@@ -0,0 +1,120 @@
+/**
+ * Tests for the quote cache (src/cache.ts)
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CachingProvider } from "../src/cache.js";
+import type { QuoteProvider } from "../src/provider.js";
+import { SymbolNotFound, type Quote } from "../src/stooq.js";
+
+/**
+ * A provider whose fetches wait until the test releases them, counting
+ * what reaches it
+ */
+function upstream() {
+  const calls: string[][] = [];
+  const waiting: (() => void)[] = [];
+  const quote = (symbol: string): Quote => ({
+    symbol: symbol.toUpperCase(),
+    name: null,
+    date: "2025-03-03",
+    time: "16:00:00",
+    timestamp: "2025-03-03T15:00:00.000Z",
+    timezone: "Europe/Warsaw",
+    open: null,
+    high: null,
+    low: null,
+    close: 100 + calls.length,
+    volume: null,
+  });
+  const held = () => new Promise<void>((resolve) => waiting.push(resolve));
+
+  const provider: QuoteProvider = {
+    name: "test",
+    async fetchQuote(symbol) {
+      calls.push([symbol]);
+      await held();
+      if (symbol === "nope.us") {
+        throw new SymbolNotFound(symbol, []);
+      }
+      return quote(symbol);
+    },
+    async fetchQuotes(symbols) {
+      calls.push(symbols);
+      await held();
+      return symbols.map((symbol) => ({ symbol, ok: true as const, quote: quote(symbol) }));
+    },
+    fetchHistory: () => Promise.resolve([]),
+  };
+
+  /** Lets every fetch in flight finish */
+  const release = async () => {
+    await new Promise((resolve) => setImmediate(resolve));
+    waiting.splice(0).forEach((resolve) => resolve());
+  };
+  return { provider, calls, release };
+}
+
+describe("CachingProvider", () => {
+  it("shares one upstream fetch between concurrent requests and serves repeats from the cache", async () => {
+    const { provider, calls, release } = upstream();
+    const cache = new CachingProvider(provider);
+
+    const first = cache.lookup("AAPL.US");
+    const second = cache.fetchQuote("aapl.us");
+    await release();
+    const [entry, quote] = await Promise.all([first, second]);
+
+    assert.deepEqual(calls, [["AAPL.US"]]);
+    assert.equal(quote, entry.quote);
+    assert.match(entry.etag, /^"[\w-]+"$/);
+    assert.equal(entry.expiresAt.getTime() - entry.fetchedAt.getTime(), 15_000);
+
+    assert.equal(await cache.fetchQuote("aapl.us"), quote);
+    assert.deepEqual(cache.stats(), { hits: 1, misses: 1, coalesced: 1, upstreamRequests: 1, size: 1 });
+  });
+
+  it("fetches the misses of a batch in one upstream request", async () => {
+    const { provider, calls, release } = upstream();
+    const cache = new CachingProvider(provider);
+
+    const cached = cache.fetchQuote("aapl.us");
+    await release();
+    await cached;
+
+    const batch = cache.fetchQuotes(["aapl.us", "msft.us", "MSFT.US", "vod.uk"]);
+    await release();
+    const results = await batch;
+
+    assert.deepEqual(calls, [["aapl.us"], ["msft.us", "vod.uk"]]);
+    assert.deepEqual(
+      results.map((result) => [result.symbol, result.ok]),
+      [
+        ["aapl.us", true],
+        ["msft.us", true],
+        ["MSFT.US", true],
+        ["vod.uk", true],
+      ]
+    );
+  });
+
+  it("refetches once a symbol's TTL has passed, and does not cache failures", async () => {
+    const { provider, calls, release } = upstream();
+    const cache = new CachingProvider(provider, { symbolTtlMs: { "AAPL.US": 0 } });
+
+    for (let i = 0; i < 2; i++) {
+      const fetch = cache.fetchQuote("aapl.us");
+      await release();
+      await fetch;
+    }
+    for (let i = 0; i < 2; i++) {
+      const fetch = cache.fetchQuote("nope.us");
+      await release();
+      await assert.rejects(fetch, SymbolNotFound);
+    }
+
+    assert.equal(calls.length, 4);
+    assert.equal(cache.stats().hits, 0);
+  });
+});
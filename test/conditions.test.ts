@@ -0,0 +1,153 @@
+/**
+ * Tests for alert conditions (src/conditions.ts)
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  conditionNeeds,
+  evaluateCondition,
+  initialConditionState,
+  nextConditionState,
+  validateCondition,
+  type Condition,
+  type ConditionTick,
+} from "../src/conditions.js";
+
+/**
+ * A tick at the given price, with no reference data unless given
+ */
+function tick(price: number, fields: Partial<ConditionTick> = {}): ConditionTick {
+  return { price, volume: null, previousClose: null, averageVolume: null, costBasis: null, indicators: {}, ...fields };
+}
+
+/**
+ * Evaluates a condition over a series of prices, carrying the state between
+ * ticks as the engine does
+ *
+ * @returns Whether the condition held on each tick
+ */
+function run(condition: Condition, prices: number[]): boolean[] {
+  let state = initialConditionState();
+  return prices.map((price) => {
+    const current = tick(price);
+    const holds = evaluateCondition(condition, current, state);
+    state = nextConditionState(state, current);
+    return holds;
+  });
+}
+
+describe("evaluateCondition", () => {
+  it("compares the price with a target, inclusively", () => {
+    assert.deepEqual(run({ type: "above", target: 100 }, [99, 100, 101]), [false, true, true]);
+    assert.deepEqual(run({ type: "below", target: 100 }, [99, 100, 101]), [true, true, false]);
+  });
+
+  it("fires crossings only when the prior price was on the other side", () => {
+    assert.deepEqual(run({ type: "crossAbove", target: 100 }, [105, 95, 100, 101, 90]), [
+      false,
+      false,
+      true,
+      false,
+      false,
+    ]);
+    assert.deepEqual(run({ type: "crossBelow", target: 100 }, [95, 105, 100, 99]), [false, false, true, false]);
+  });
+
+  it("measures percent moves from the previous close, the arm price or the cost", () => {
+    const fromClose: Condition = { type: "percentChange", from: "previousClose", percent: -5 };
+    assert.equal(evaluateCondition(fromClose, tick(95, { previousClose: 100 }), initialConditionState()), true);
+    assert.equal(evaluateCondition(fromClose, tick(96, { previousClose: 100 }), initialConditionState()), false);
+    assert.equal(evaluateCondition(fromClose, tick(50), initialConditionState()), false);
+
+    assert.deepEqual(run({ type: "percentChange", from: "arm", percent: 10 }, [100, 105, 110, 90]), [
+      false,
+      false,
+      true,
+      false,
+    ]);
+
+    const fromCost: Condition = { type: "percentChange", from: "cost", percent: 20 };
+    assert.equal(evaluateCondition(fromCost, tick(120, { costBasis: 100 }), initialConditionState()), true);
+    assert.equal(evaluateCondition(fromCost, tick(120, { costBasis: 0 }), initialConditionState()), false);
+  });
+
+  it("fires band conditions when the price enters or leaves the band", () => {
+    const band = { lower: 90, upper: 110 };
+
+    assert.deepEqual(run({ type: "enterBand", ...band }, [100, 120, 110, 105, 80]), [false, false, true, false, false]);
+    assert.deepEqual(run({ type: "exitBand", ...band }, [120, 100, 110, 111, 80]), [false, false, false, true, false]);
+  });
+
+  it("compares the session volume with the average", () => {
+    const spike: Condition = { type: "volumeSpike", multiplier: 2 };
+    const state = initialConditionState();
+
+    assert.equal(evaluateCondition(spike, tick(1, { volume: 200, averageVolume: 100 }), state), true);
+    assert.equal(evaluateCondition(spike, tick(1, { volume: 199, averageVolume: 100 }), state), false);
+    assert.equal(evaluateCondition(spike, tick(1, { volume: 200 }), state), false);
+  });
+
+  it("combines nested conditions with all and any", () => {
+    const above = { type: "above", target: 100 } as const;
+    const volume = { type: "volumeSpike", multiplier: 2 } as const;
+    const busy = tick(105, { volume: 300, averageVolume: 100 });
+    const quiet = tick(105, { volume: 100, averageVolume: 100 });
+    const state = initialConditionState();
+
+    assert.equal(evaluateCondition({ type: "all", conditions: [above, volume] }, busy, state), true);
+    assert.equal(evaluateCondition({ type: "all", conditions: [above, volume] }, quiet, state), false);
+    assert.equal(evaluateCondition({ type: "any", conditions: [above, volume] }, quiet, state), true);
+  });
+});
+
+describe("conditionNeeds", () => {
+  it("asks for the reference data of nested conditions only", () => {
+    assert.deepEqual(conditionNeeds({ type: "above", target: 1 }), {
+      previousClose: false,
+      averageVolume: false,
+      indicators: [],
+    });
+    assert.deepEqual(
+      conditionNeeds({
+        type: "any",
+        conditions: [
+          { type: "percentChange", from: "previousClose", percent: 5 },
+          { type: "all", conditions: [{ type: "volumeSpike", multiplier: 3 }] },
+        ],
+      }),
+      { previousClose: true, averageVolume: true, indicators: [] }
+    );
+  });
+});
+
+describe("validateCondition", () => {
+  it("accepts valid conditions", () => {
+    validateCondition({
+      type: "all",
+      conditions: [
+        { type: "crossAbove", target: 100 },
+        { type: "percentChange", from: "arm", percent: -2.5 },
+        { type: "any", conditions: [{ type: "exitBand", lower: 90, upper: 110 }] },
+      ],
+    });
+  });
+
+  it("describes what is wrong, including in nested conditions", () => {
+    const invalid: [unknown, RegExp][] = [
+      [{ type: "above", target: 0 }, /above: target price must be greater than 0/],
+      [{ type: "percentChange", from: "open", percent: 5 }, /from must be "previousClose", "arm" or "cost"/],
+      [{ type: "percentChange", from: "arm", percent: 0 }, /percent must be a non-zero number/],
+      [{ type: "enterBand", lower: 110, upper: 90 }, /enterBand: lower must be less than upper/],
+      [{ type: "volumeSpike", multiplier: -1 }, /multiplier must be greater than 0/],
+      [{ type: "any", conditions: [] }, /any: at least one nested condition is required/],
+      [{ type: "all", conditions: [{ type: "crossBelow", target: -1 }] }, /crossBelow: target price/],
+      [{ type: "sideways" }, /Unknown condition type "sideways"/],
+      [null, /Unknown condition type "undefined"/],
+    ];
+
+    for (const [condition, message] of invalid) {
+      assert.throws(() => validateCondition(condition as Condition), message);
+    }
+  });
+});
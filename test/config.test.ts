@@ -0,0 +1,122 @@
+/**
+ * Tests for the server settings (src/config.ts)
+ */
+
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { ConfigError, loadConfig, parseConfig, publicConfig } from "../src/config.js";
+
+/**
+ * Parses settings that are expected to be invalid and returns their problems
+ */
+function configProblems(data: Record<string, unknown>, env: NodeJS.ProcessEnv = {}): string[] {
+  try {
+    parseConfig(data, env, "config.json");
+  } catch (error) {
+    assert.ok(error instanceof ConfigError);
+    return error.problems;
+  }
+  assert.fail("Expected the settings to be invalid");
+}
+
+describe("parseConfig", () => {
+  it("uses the defaults without a file or environment", () => {
+    const config = parseConfig({});
+
+    assert.deepEqual(config.server, { port: 3000, host: null, staticDir: "web", logLevel: "info" });
+    assert.equal(config.provider.provider, "stooq");
+    assert.equal(config.cache.quoteTtlMs, 15_000);
+    assert.equal(config.alerts.defaultIntervalMs, 10_000);
+    assert.deepEqual(config.notifiers, { file: path.join("data", "notifiers.json"), enabled: null });
+    assert.equal(config.source, null);
+  });
+
+  it("prefers the environment over the file", () => {
+    const config = parseConfig(
+      { server: { port: 8080, host: "127.0.0.1" }, dataDir: "/srv/stocks", notifiers: { enabled: ["email"] } },
+      { PORT: "9090", QUOTE_PROVIDER: "Replay", REPLAY_START: "2025-03-03T14:30:00Z", NOTIFIERS: "slack, ops " },
+      "config.json"
+    );
+
+    assert.equal(config.server.port, 9090);
+    assert.equal(config.server.host, "127.0.0.1");
+    assert.deepEqual(config.provider, {
+      provider: "replay",
+      fixturesDir: "fixtures",
+      speed: 1,
+      startAt: new Date("2025-03-03T14:30:00Z"),
+    });
+    assert.deepEqual(config.notifiers, { file: path.join("/srv/stocks", "notifiers.json"), enabled: ["slack", "ops"] });
+    assert.equal(config.source, "config.json");
+  });
+
+  it("reports every invalid and unknown setting with where it came from", () => {
+    const problems = configProblems(
+      { server: { port: 70_000, colour: "blue" }, cache: { quoteTtlMs: "soon" }, extra: true },
+      { UPSTREAM_URL: "ftp://example.com", LOG_LEVEL: "loud", DEFAULT_INTERVAL_MS: "500" }
+    );
+
+    assert.deepEqual(problems, [
+      'UPSTREAM_URL is "ftp://example.com"; expected an http(s) URL',
+      "config.json: server.port is 70000; expected a whole number from 1 to 65535",
+      'LOG_LEVEL is "loud"; expected one of debug, info, warn, error',
+      'config.json: cache.quoteTtlMs is "soon"; expected a whole number >= 1',
+      'DEFAULT_INTERVAL_MS is "500"; expected a whole number >= 1000',
+      'config.json: unknown setting "server.colour"',
+      'config.json: unknown setting "extra"',
+    ]);
+  });
+
+  it("shows signed-in users only the public settings", () => {
+    const config = parseConfig({ provider: { baseUrl: "https://quotes.internal" } });
+
+    assert.deepEqual(publicConfig(config), {
+      provider: "stooq",
+      alerts: { defaultIntervalMs: 10_000 },
+      cache: { quoteTtlMs: 15_000 },
+      symbols: { defaultMarket: "us" },
+    });
+  });
+});
+
+describe("loadConfig", () => {
+  let dir: string;
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "stocks-config-"));
+  });
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads the file named by CONFIG_FILE", async () => {
+    const file = path.join(dir, "config.json");
+    await writeFile(file, JSON.stringify({ server: { port: 4000 } }));
+
+    const config = await loadConfig({ env: { CONFIG_FILE: file } });
+    assert.equal(config.server.port, 4000);
+    assert.equal(config.source, file);
+  });
+
+  it("requires a named file to exist and hold a JSON object", async () => {
+    const list = path.join(dir, "list.json");
+    await writeFile(list, "[]");
+
+    await assert.rejects(loadConfig({ file: path.join(dir, "missing.json") }), ConfigError);
+    await assert.rejects(loadConfig({ file: list }), /expected a JSON object/);
+  });
+
+  it("runs on the defaults when the default file is missing", async () => {
+    const empty = path.join(dir, "empty");
+    await mkdir(empty);
+    const cwd = process.cwd();
+    process.chdir(empty);
+    try {
+      assert.equal((await loadConfig({ env: {} })).source, null);
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+});
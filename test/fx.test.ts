@@ -0,0 +1,72 @@
+/**
+ * Tests for currencies and currency conversion (src/currency.ts, src/fx.ts)
+ */
+
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { currencyPair, formatMoney, majorUnit, normalizeCurrency } from "../src/currency.js";
+import { FxRates, quoteCurrency } from "../src/fx.js";
+import { ReplayProvider } from "../src/provider.js";
+import { NoData } from "../src/stooq.js";
+
+describe("currencies", () => {
+  it("normalizes codes and pence", () => {
+    assert.equal(normalizeCurrency(" eur "), "EUR");
+    assert.equal(normalizeCurrency("GBp"), "GBX");
+    assert.deepEqual(majorUnit("GBX"), { currency: "GBP", factor: 100 });
+    assert.deepEqual(majorUnit("USD"), { currency: "USD", factor: 1 });
+    assert.throws(() => normalizeCurrency("XYZ"), /Unsupported currency "XYZ"/);
+  });
+
+  it("recognizes currency pairs", () => {
+    assert.deepEqual(currencyPair("EURUSD"), { base: "EUR", quote: "USD" });
+    assert.equal(currencyPair("usdusd"), null);
+    assert.equal(currencyPair("aapl.us"), null);
+  });
+
+  it("formats amounts in their currency", () => {
+    assert.equal(formatMoney(1234.5, "USD", "en-US"), "$1,234.50");
+    assert.equal(formatMoney(1234.5, "GBX", "en-GB"), "1,234.50p");
+    assert.equal(formatMoney(1.04815, "EUR", "en-US"), "€1.0482");
+    assert.equal(formatMoney(150, "JPY", "en-US"), "¥150");
+    assert.equal(formatMoney(12, null, "en-US"), "12.00");
+  });
+});
+
+describe("quoteCurrency", () => {
+  it("derives the currency from the exchange or the pair", () => {
+    assert.equal(quoteCurrency("aapl.us"), "USD");
+    assert.equal(quoteCurrency("vod.uk"), "GBX");
+    assert.equal(quoteCurrency("eurusd"), "USD");
+    assert.equal(quoteCurrency("^spx"), null);
+  });
+});
+
+describe("FxRates", () => {
+  // Replays fixtures/eurusd.csv, gbpusd.csv and usdjpy.csv after their last update
+  let fx: FxRates;
+  before(async () => {
+    fx = new FxRates(await ReplayProvider.load("fixtures", new Date("2025-03-03T18:00:00Z"), 0));
+  });
+
+  it("uses the direct pair, or the inverse of the pair Stooq quotes", async () => {
+    assert.deepEqual(await fx.rate("eur", "usd"), {
+      from: "EUR",
+      to: "USD",
+      rate: 1.0488,
+      asOf: "2025-03-03T17:30:00.000Z",
+    });
+    assert.equal((await fx.rate("USD", "EUR")).rate, 1 / 1.0488);
+  });
+
+  it("crosses through the US dollar and converts minor units through their major currency", async () => {
+    assert.ok(Math.abs((await fx.rate("EUR", "JPY")).rate - 1.0488 * 149.47) < 0.1);
+    assert.ok(Math.abs((await fx.convert(100, "GBX", "USD")) - 1.2693) < 1e-9);
+    assert.deepEqual(await fx.rate("GBX", "GBP"), { from: "GBX", to: "GBP", rate: 0.01, asOf: null });
+  });
+
+  it("fails with NoData when no pair leads to the currency", async () => {
+    await assert.rejects(fx.rate("EUR", "CHF"), NoData);
+    await assert.rejects(fx.rate("EUR", "XYZ"), /Unsupported currency/);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Tests for the technical indicators (src/indicators.ts)
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  Atr,
+  Bollinger,
+  Ema,
+  Macd,
+  Rsi,
+  Sma,
+  Vwap,
+  computeIndicator,
+  parseIndicatorSpec,
+  type IndicatorStream,
+  type PriceBar,
+} from "../src/indicators.js";
+
+/**
+ * Feeds values to a stream and collects its outputs
+ */
+function feed<I, O>(stream: IndicatorStream<I, O>, inputs: I[]): (O | null)[] {
+  return inputs.map((input) => stream.update(input));
+}
+
+/**
+ * Asserts that two series are equal up to float error
+ */
+function assertSeries(actual: (number | null)[], expected: (number | null)[]): void {
+  assert.equal(actual.length, expected.length);
+  actual.forEach((value, index) => {
+    const want = expected[index] ?? null;
+    if (want === null || value === null) {
+      assert.equal(value, want, `value ${index}`);
+    } else {
+      assert.ok(Math.abs(value - want) < 1e-9, `value ${index}: ${value} is not ${want}`);
+    }
+  });
+}
+
+/**
+ * Builds bars from [high, low, close, volume] tuples
+ */
+function bars(rows: [number, number, number, number | null][]): PriceBar[] {
+  return rows.map(([high, low, close, volume]) => ({ high, low, close, volume }));
+}
+
+describe("Sma", () => {
+  it("averages the last period values", () => {
+    assertSeries(feed(new Sma(3), [1, 2, 3, 4, 5]), [null, null, 2, 3, 4]);
+  });
+
+  it("previews the next value without adding it", () => {
+    const sma = new Sma(2);
+    sma.update(1);
+    sma.update(2);
+
+    assert.equal(sma.preview(10), 6);
+    assert.equal(sma.update(4), 3);
+  });
+
+  it("rejects a period that is not a positive integer", () => {
+    assert.throws(() => new Sma(0));
+    assert.throws(() => new Sma(1.5));
+  });
+});
+
+describe("Ema", () => {
+  it("is seeded with the SMA of the first period values", () => {
+    // k = 2 / (3 + 1) = 0.5
+    assertSeries(feed(new Ema(3), [2, 4, 6, 8, 12]), [null, null, 4, 6, 9]);
+  });
+
+  it("previews the next value without adding it", () => {
+    const ema = new Ema(2);
+    assert.equal(ema.update(1), null);
+    assert.equal(ema.preview(3), 2);
+    assert.equal(ema.preview(5), 3);
+    assert.equal(ema.update(3), 2);
+  });
+});
+
+describe("Rsi", () => {
+  it("smooths gains and losses the way Wilder did", () => {
+    // Changes +1 and -1 average to 0.5 each (RSI 50); then +2 gives
+    // gain (0.5 + 2) / 2 = 1.25 and loss (0.5 + 0) / 2 = 0.25
+    assertSeries(feed(new Rsi(2), [1, 2, 1, 3]), [null, null, 50, 100 - 100 / (1 + 1.25 / 0.25)]);
+  });
+
+  it("is 100 without losses and 50 without any change", () => {
+    assertSeries(feed(new Rsi(2), [1, 2, 3]), [null, null, 100]);
+    assertSeries(feed(new Rsi(2), [5, 5, 5]), [null, null, 50]);
+  });
+});
+
+describe("Macd", () => {
+  it("subtracts the slow EMA from the fast one and smooths the difference", () => {
+    const values = feed(new Macd(2, 3, 2), [1, 2, 3, 4]);
+
+    assert.deepEqual(values.slice(0, 2), [null, null]);
+    assertSeries(
+      values.slice(2).map((value) => value?.macd ?? null),
+      [0.5, 0.5]
+    );
+    assertSeries(
+      values.slice(2).map((value) => value?.signal ?? null),
+      [null, 0.5]
+    );
+    assertSeries(
+      values.slice(2).map((value) => value?.histogram ?? null),
+      [null, 0]
+    );
+  });
+
+  it("needs a fast period shorter than the slow one", () => {
+    assert.throws(() => new Macd(26, 12), /fast period must be less than slow period/);
+  });
+});
+
+describe("Bollinger", () => {
+  it("adds and subtracts population standard deviations from the SMA", () => {
+    const [, , value] = feed(new Bollinger(3, 2), [1, 2, 3]);
+    const deviation = Math.sqrt(2 / 3);
+
+    assert.equal(value?.middle, 2);
+    assertSeries([value?.upper ?? null, value?.lower ?? null], [2 + 2 * deviation, 2 - 2 * deviation]);
+  });
+});
+
+describe("Atr", () => {
+  it("uses the previous close in the true range", () => {
+    // True ranges 2, 2 (average 2), then max(3, |12 - 10|, |9 - 10|) = 3
+    const values = feed(
+      new Atr(2),
+      bars([
+        [10, 8, 9, null],
+        [11, 9, 10, null],
+        [12, 9, 11, null],
+      ])
+    );
+
+    assertSeries(values, [null, 2, 2.5]);
+  });
+});
+
+describe("Vwap", () => {
+  it("weights typical prices by volume and skips bars without volume", () => {
+    const values = feed(
+      new Vwap(),
+      bars([
+        [10, 8, 9, 100],
+        [11, 9, 10, 300],
+        [30, 30, 30, null],
+      ])
+    );
+
+    assertSeries(values, [9, 9.75, 9.75]);
+  });
+
+  it("covers only the last period bars when given a period", () => {
+    const values = feed(
+      new Vwap(1),
+      bars([
+        [10, 8, 9, 100],
+        [11, 9, 10, 300],
+      ])
+    );
+
+    assertSeries(values, [9, 10]);
+  });
+});
+
+describe("computeIndicator", () => {
+  it("computes one value per bar from a spec", () => {
+    const series = bars([
+      [1, 1, 1, 1],
+      [2, 2, 2, 1],
+      [3, 3, 3, 1],
+    ]);
+
+    assertSeries(computeIndicator({ indicator: "sma", period: 2 }, series), [null, 1.5, 2.5]);
+    assertSeries(computeIndicator({ indicator: "bollinger", period: 3, band: "middle" }, series), [null, null, 2]);
+  });
+
+  it("rejects an invalid spec", () => {
+    assert.throws(() => computeIndicator({ indicator: "sma", period: 0 }, []), /period must be a positive integer/);
+  });
+});
+
+describe("parseIndicatorSpec", () => {
+  it("parses the compact notation", () => {
+    assert.deepEqual(parseIndicatorSpec("SMA:50"), { indicator: "sma", period: 50 });
+    assert.deepEqual(parseIndicatorSpec("vwap"), { indicator: "vwap" });
+    assert.deepEqual(parseIndicatorSpec("macd:12:26:9:signal"), {
+      indicator: "macd",
+      fast: 12,
+      slow: 26,
+      signal: 9,
+      line: "signal",
+    });
+    assert.deepEqual(parseIndicatorSpec("bollinger:20:2:lower"), {
+      indicator: "bollinger",
+      period: 20,
+      stdDev: 2,
+      band: "lower",
+    });
+  });
+
+  it("rejects unknown indicators and missing periods", () => {
+    assert.throws(() => parseIndicatorSpec("foo:3"), /Unknown indicator/);
+    assert.throws(() => parseIndicatorSpec("rsi"));
+  });
+});
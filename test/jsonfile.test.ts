@@ -0,0 +1,51 @@
+/**
+ * Tests for claiming a data directory (src/jsonfile.ts)
+ */
+
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { DataDirLockedError, assertDataDirUnlocked, lockDataDir } from "../src/jsonfile.js";
+
+describe("lockDataDir", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "stocks-lock-"));
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes the process ID to the lock file", async () => {
+    await lockDataDir(dir);
+
+    assert.equal(await readFile(path.join(dir, "server.lock"), "utf8"), `${process.pid}\n`);
+  });
+
+  it("refuses a directory another live process owns", async () => {
+    // The parent process (the test runner) is alive for the whole test
+    await writeFile(path.join(dir, "server.lock"), `${process.ppid}\n`);
+
+    await assert.rejects(
+      lockDataDir(dir),
+      (error: unknown) => error instanceof DataDirLockedError && error.pid === process.ppid
+    );
+    await assert.rejects(assertDataDirUnlocked(dir), DataDirLockedError);
+  });
+
+  it("replaces a lock left behind by a process that has exited", async () => {
+    const exited = spawnSync(process.execPath, ["-e", ""]).pid;
+    await writeFile(path.join(dir, "server.lock"), `${exited}\n`);
+
+    await assertDataDirUnlocked(dir);
+    await lockDataDir(dir);
+    assert.equal(await readFile(path.join(dir, "server.lock"), "utf8"), `${process.pid}\n`);
+  });
+
+  it("lets the CLI write to a directory without a lock", async () => {
+    await assertDataDirUnlocked(dir);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for the exchange calendar (src/markets.ts)
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { exchangeForSymbol, findExchange, isHoliday, marketStatus, type Exchange } from "../src/markets.js";
+
+/**
+ * Looks up an exchange that must exist
+ */
+function exchange(code: string): Exchange {
+  const found = findExchange(code);
+  assert.ok(found !== undefined, `Unknown exchange ${code}`);
+  return found;
+}
+
+describe("exchangeForSymbol", () => {
+  it("finds the exchange from the symbol's suffix", () => {
+    assert.equal(exchangeForSymbol("AAPL.US")?.code, "us");
+    assert.equal(exchangeForSymbol(" vod.uk ")?.code, "uk");
+  });
+
+  it("knows no exchange for symbols without a known suffix", () => {
+    assert.equal(exchangeForSymbol("eurusd"), undefined);
+    assert.equal(exchangeForSymbol("^spx"), undefined);
+    assert.equal(exchangeForSymbol("abc.zz"), undefined);
+  });
+});
+
+describe("isHoliday", () => {
+  it("knows the US holidays of a year", () => {
+    const us = exchange("us");
+    const holidays = [
+      "2024-01-01",
+      "2024-01-15",
+      "2024-02-19",
+      "2024-03-29",
+      "2024-05-27",
+      "2024-06-19",
+      "2024-07-04",
+      "2024-09-02",
+      "2024-11-28",
+      "2024-12-25",
+    ];
+
+    for (const day of holidays) {
+      assert.ok(isHoliday(us, day), `${day} should be a holiday`);
+    }
+    assert.equal(isHoliday(us, "2024-07-05"), false);
+    assert.equal(isHoliday(us, "2024-11-29"), false);
+  });
+
+  it("observes US holidays on a weekend on the nearest weekday", () => {
+    const us = exchange("us");
+
+    // Juneteenth 2022 was a Sunday, Independence Day 2026 is a Saturday
+    assert.ok(isHoliday(us, "2022-06-20"));
+    assert.ok(isHoliday(us, "2026-07-03"));
+    // New Year's Day 2022 was a Saturday and was not observed on the Friday before
+    assert.equal(isHoliday(us, "2021-12-31"), false);
+  });
+
+  it("moves UK bank holidays on a weekend to the following weekdays", () => {
+    const uk = exchange("uk");
+
+    // Christmas 2022 was a Sunday: Boxing Day on the Monday, Christmas on the Tuesday
+    assert.ok(isHoliday(uk, "2022-12-26"));
+    assert.ok(isHoliday(uk, "2022-12-27"));
+    assert.ok(isHoliday(uk, "2024-04-01"));
+    assert.ok(isHoliday(uk, "2024-08-26"));
+  });
+});
+
+describe("marketStatus", () => {
+  it("reports an open session and when it closes", () => {
+    // 11:00 in New York
+    const status = marketStatus("aapl.us", new Date("2024-07-03T15:00:00Z"));
+
+    assert.deepEqual(status, {
+      exchange: "us",
+      timezone: "America/New_York",
+      open: true,
+      nextOpen: "2024-07-05T13:30:00.000Z",
+      nextClose: "2024-07-03T20:00:00.000Z",
+    });
+  });
+
+  it("skips holidays and weekends to find the next session", () => {
+    // After the close before Independence Day
+    const holiday = marketStatus("aapl.us", new Date("2024-07-03T21:00:00Z"));
+    assert.equal(holiday.open, false);
+    assert.equal(holiday.nextOpen, "2024-07-05T13:30:00.000Z");
+    assert.equal(holiday.nextClose, "2024-07-05T20:00:00.000Z");
+
+    // Saturday
+    const weekend = marketStatus("aapl.us", new Date("2024-07-06T15:00:00Z"));
+    assert.equal(weekend.open, false);
+    assert.equal(weekend.nextOpen, "2024-07-08T13:30:00.000Z");
+  });
+
+  it("follows the exchange's daylight saving time", () => {
+    // 09:30 in New York is 14:30 UTC in winter
+    const status = marketStatus("aapl.us", new Date("2024-01-10T14:00:00Z"));
+
+    assert.equal(status.open, false);
+    assert.equal(status.nextOpen, "2024-01-10T14:30:00.000Z");
+  });
+
+  it("is closed over a lunch break", () => {
+    // 11:45 in Tokyo, between the morning and afternoon sessions
+    const status = marketStatus("7203.jp", new Date("2024-07-03T02:45:00Z"));
+
+    assert.equal(status.open, false);
+    assert.equal(status.nextOpen, "2024-07-03T03:30:00.000Z");
+    assert.equal(status.nextClose, "2024-07-03T06:30:00.000Z");
+  });
+
+  it("reports symbols without a known exchange as always open", () => {
+    const status = marketStatus("eurusd", new Date("2024-07-06T15:00:00Z"));
+
+    assert.deepEqual(status, {
+      exchange: null,
+      timezone: "Europe/Warsaw",
+      open: true,
+      nextOpen: null,
+      nextClose: null,
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for validating notification channels (src/notify.ts)
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { EmailChannel, WebhookChannel, createChannel, signPayload, type ChannelConfig } from "../src/notify.js";
+
+const SMTP = { host: "smtp.example.com", port: 587 };
+
+/**
+ * An email channel config with the given addresses
+ */
+function email(from: unknown, to: unknown): ChannelConfig {
+  return { name: "mail", type: "email", from, to, smtp: SMTP } as ChannelConfig;
+}
+
+describe("createChannel", () => {
+  it("creates a channel of each type", () => {
+    const hook = createChannel({ name: "hook", type: "webhook", url: "https://example.com/hook" });
+
+    assert.ok(hook instanceof WebhookChannel);
+    assert.ok(createChannel(email("alerts@example.com", "ops@example.com")) instanceof EmailChannel);
+  });
+
+  it("accepts addresses with display names, lists and commas inside quotes", () => {
+    for (const to of [
+      '"Doe, Jane" <jane@example.com>',
+      "Ops <ops@example.com>, dev@example.com",
+      ["ops@example.com", '"Doe, Jane" <jane@example.com>'],
+    ]) {
+      assert.doesNotThrow(
+        () => createChannel(email('"Stocks, Alerts" <alerts@example.com>', to)),
+        JSON.stringify(to)
+      );
+    }
+  });
+
+  it("rejects invalid, missing and extra addresses", () => {
+    assert.throws(
+      () => createChannel(email("alerts@example.com", "not an address")),
+      /invalid email address "not an address"/
+    );
+    assert.throws(() => createChannel(email("alerts@example.com", "ops@example")), /invalid email address/);
+    assert.throws(() => createChannel(email("alerts@example.com", [])), /to is required/);
+    assert.throws(() => createChannel(email("alerts@example.com", " ")), /to is required/);
+    assert.throws(
+      () => createChannel(email("a@example.com, b@example.com", "ops@example.com")),
+      /single email address/
+    );
+    assert.throws(() => createChannel(email(["alerts@example.com"], "ops@example.com")), /from is required/);
+  });
+
+  it("rejects channels without a name, a URL, an SMTP host or a known type", () => {
+    assert.throws(() => createChannel({ type: "slack", url: "https://example.com" } as ChannelConfig), /needs a name/);
+    assert.throws(() => createChannel({ name: "hook", type: "webhook" } as ChannelConfig), /url is required/);
+    assert.throws(
+      () => createChannel({ name: "mail", type: "email", from: "a@example.com", to: "b@example.com" } as ChannelConfig),
+      /smtp.host is required/
+    );
+    assert.throws(
+      () => createChannel({ name: "x", type: "pager" } as unknown as ChannelConfig),
+      /unknown type "pager"/
+    );
+  });
+});
+
+describe("signPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const signature = signPayload("secret", "1700000000", "{}");
+
+    assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+    assert.equal(signPayload("secret", "1700000000", "{}"), signature);
+    assert.notEqual(signPayload("other", "1700000000", "{}"), signature);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for the transaction ledger and deriving positions from it (src/portfolio.ts)
+ */
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { PortfolioStore, computePositions, type Transaction } from "../src/portfolio.js";
+
+/**
+ * Builds a ledger entry; transactions on the same date are ordered by when they were recorded
+ */
+function trade(
+  id: string,
+  side: Transaction["side"],
+  quantity: number,
+  price: number,
+  date: string,
+  fields: Partial<Transaction> = {}
+): Transaction {
+  return {
+    id,
+    symbol: "aapl.us",
+    side,
+    quantity,
+    price,
+    fees: 0,
+    currency: "USD",
+    date,
+    createdAt: `${date}T12:00:00.000Z`,
+    ...fields,
+  };
+}
+
+describe("computePositions", () => {
+  it("adds buy fees to the cost of the lot", () => {
+    const [position] = computePositions([trade("b1", "buy", 10, 100, "2024-01-02", { fees: 5 })]);
+
+    assert.equal(position?.quantity, 10);
+    assert.equal(position?.costBasis, 1005);
+    assert.equal(position?.averageCost, 100.5);
+    assert.equal(position?.realizedPnl, 0);
+  });
+
+  it("sells the oldest lots first", () => {
+    const [position] = computePositions([
+      trade("b1", "buy", 10, 10, "2024-01-02"),
+      trade("b2", "buy", 5, 20, "2024-01-03"),
+      trade("s1", "sell", 12, 30, "2024-01-04", { fees: 4 }),
+    ]);
+
+    // 10 @ 10 and 2 @ 20 sold for 360 less 4 in fees
+    assert.equal(position?.realizedPnl, 360 - 4 - 140);
+    assert.equal(position?.quantity, 3);
+    assert.equal(position?.costBasis, 60);
+    assert.deepEqual(
+      position?.lots.map((lot) => [lot.transactionId, lot.quantity]),
+      [["b2", 3]]
+    );
+  });
+
+  it("orders the ledger by trade date, whatever order it is given in", () => {
+    const ledger = [
+      trade("s1", "sell", 5, 30, "2024-01-04"),
+      trade("b2", "buy", 5, 20, "2024-01-03"),
+      trade("b1", "buy", 5, 10, "2024-01-02"),
+    ];
+    const [position] = computePositions(ledger);
+
+    assert.equal(position?.realizedPnl, 100);
+    assert.deepEqual(
+      position?.lots.map((lot) => lot.transactionId),
+      ["b2"]
+    );
+  });
+
+  it("closes a position sold in fractions without float leftovers", () => {
+    const [position] = computePositions([
+      trade("b1", "buy", 0.3, 10, "2024-01-02"),
+      trade("s1", "sell", 0.1, 12, "2024-01-03"),
+      trade("s2", "sell", 0.2, 13, "2024-01-04"),
+    ]);
+
+    assert.equal(position?.quantity, 0);
+    assert.equal(position?.costBasis, 0);
+    assert.equal(position?.averageCost, null);
+    assert.deepEqual(position?.lots, []);
+    assert.ok(Math.abs((position?.realizedPnl ?? NaN) - 0.8) < 1e-9);
+  });
+
+  it("rejects selling more than is held at the time", () => {
+    assert.throws(
+      () =>
+        computePositions([
+          trade("b1", "buy", 0.3, 10, "2024-01-02"),
+          trade("s1", "sell", 0.31, 12, "2024-01-03"),
+        ]),
+      /only 0.3 held/
+    );
+    assert.throws(
+      () => computePositions([trade("s1", "sell", 1, 12, "2024-01-02"), trade("b1", "buy", 1, 10, "2024-01-03")]),
+      /only 0 held/
+    );
+  });
+
+  it("rejects trades of one symbol in different currencies", () => {
+    assert.throws(
+      () =>
+        computePositions([
+          trade("b1", "buy", 1, 10, "2024-01-02"),
+          trade("b2", "buy", 1, 10, "2024-01-03", { currency: "EUR" }),
+        ]),
+      /held in USD/
+    );
+  });
+
+  it("returns one position per symbol, sorted by symbol", () => {
+    const positions = computePositions([
+      trade("b1", "buy", 1, 10, "2024-01-02", { symbol: "msft.us" }),
+      trade("b2", "buy", 1, 10, "2024-01-02", { symbol: "aapl.us" }),
+      trade("s2", "sell", 1, 11, "2024-01-03", { symbol: "aapl.us" }),
+    ]);
+
+    assert.deepEqual(
+      positions.map((p) => [p.symbol, p.quantity]),
+      [
+        ["aapl.us", 0],
+        ["msft.us", 1],
+      ]
+    );
+  });
+});
+
+describe("PortfolioStore", () => {
+  let dir: string;
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "stocks-portfolio-"));
+  });
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Opens a new, empty store
+   */
+  function open(name: string): Promise<PortfolioStore> {
+    return PortfolioStore.open(path.join(dir, `${name}.json`));
+  }
+
+  it("keeps each user's ledger apart", async () => {
+    const store = await open("owners");
+    await store.addTransaction({ symbol: "AAPL.US", side: "buy", quantity: 10, price: 100 }, "alice");
+    await store.addTransaction({ symbol: "aapl.us", side: "buy", quantity: 5, price: 200 }, "bob");
+
+    assert.equal(store.averageCost("aapl.us", "alice"), 100);
+    assert.equal(store.averageCost("aapl.us", "bob"), 200);
+    assert.equal(store.averageCost("aapl.us", "carol"), null);
+    assert.deepEqual(
+      store.transactions("bob").map((t) => [t.owner, t.quantity]),
+      [["bob", 5]]
+    );
+
+    // Bob cannot sell Alice's shares, nor delete her trades
+    await assert.rejects(
+      store.addTransaction({ symbol: "aapl.us", side: "sell", quantity: 6, price: 210 }, "bob"),
+      /only 5 held/
+    );
+    const [alicesBuy] = store.transactions("alice");
+    assert.equal(await store.removeTransaction(alicesBuy!.id, "bob"), false);
+    assert.equal(store.positions("alice")[0]?.quantity, 10);
+  });
+
+  it("gives transactions without an owner to a user", async () => {
+    const store = await open("adopt");
+    await store.addTransaction({ symbol: "aapl.us", side: "buy", quantity: 1, price: 100 });
+
+    assert.equal(await store.adopt("admin"), 1);
+    assert.equal(await store.adopt("admin"), 0);
+    assert.equal(store.transactions("admin")[0]?.owner, "admin");
+
+    const reopened = await open("adopt");
+    assert.equal(reopened.averageCost("aapl.us", "admin"), 100);
+  });
+
+  it("deletes a user's transactions only", async () => {
+    const store = await open("remove");
+    await store.addTransaction({ symbol: "aapl.us", side: "buy", quantity: 1, price: 100 }, "alice");
+    await store.addTransaction({ symbol: "aapl.us", side: "sell", quantity: 1, price: 110 }, "alice");
+    await store.addTransaction({ symbol: "aapl.us", side: "buy", quantity: 2, price: 100 }, "bob");
+
+    assert.equal(await store.removeAll("alice"), 2);
+    assert.deepEqual(store.transactions("alice"), []);
+    assert.equal(store.transactions().length, 1);
+  });
+});
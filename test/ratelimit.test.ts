@@ -0,0 +1,41 @@
+/**
+ * Tests for the token bucket (src/ratelimit.ts)
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { TokenBucket } from "../src/ratelimit.js";
+
+describe("TokenBucket", () => {
+  it("allows a burst, then one token per refill interval", () => {
+    let now = 0;
+    const bucket = new TokenBucket(2, 4, () => now);
+
+    assert.equal(bucket.tryTake(), 0);
+    assert.equal(bucket.tryTake(), 0);
+    assert.equal(bucket.tryTake(), 250);
+
+    now += 100;
+    assert.equal(bucket.tryTake(), 150);
+    now += 150;
+    assert.equal(bucket.tryTake(), 0);
+    assert.equal(bucket.isFull(), false);
+  });
+
+  it("refills up to its capacity only", () => {
+    let now = 0;
+    const bucket = new TokenBucket(2, 1, () => now);
+    bucket.tryTake();
+
+    now += 60_000;
+    assert.equal(bucket.isFull(), true);
+    assert.equal(bucket.tryTake(), 0);
+    assert.equal(bucket.tryTake(), 0);
+    assert.ok(bucket.tryTake() > 0);
+  });
+
+  it("rejects a capacity or refill rate that is not positive", () => {
+    assert.throws(() => new TokenBucket(0, 1), /greater than 0/);
+    assert.throws(() => new TokenBucket(1, -1), /greater than 0/);
+  });
+});
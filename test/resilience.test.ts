@@ -0,0 +1,133 @@
+/**
+ * Tests for the circuit breaker in front of the upstream (src/resilience.ts)
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CircuitBreaker } from "../src/resilience.js";
+import { CircuitOpen, DailyLimitExceeded, ParseError, SymbolNotFound, Timeout } from "../src/stooq.js";
+
+/**
+ * A circuit breaker on a clock the test moves by hand
+ */
+function breaker(options: ConstructorParameters<typeof CircuitBreaker>[0] = {}) {
+  const clock = { now: Date.parse("2025-03-03T12:00:00Z") };
+  const circuit = new CircuitBreaker({ failureThreshold: 2, resetMs: 1000, limitResetMs: 60_000, ...options }, () => clock.now);
+  return { circuit, clock };
+}
+
+const ok = () => Promise.resolve("ok");
+const timeout = () => Promise.reject(new Timeout(10_000, "quote for aapl.us"));
+
+/**
+ * Runs a call that is expected to fail and returns its error
+ */
+async function failure(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  assert.fail("Expected the call to fail");
+}
+
+describe("CircuitBreaker", () => {
+  it("opens after failureThreshold consecutive failures", async () => {
+    const { circuit } = breaker();
+
+    assert.ok((await failure(circuit.run(timeout))) instanceof Timeout);
+    assert.equal(circuit.snapshot().state, "closed");
+    assert.ok((await failure(circuit.run(timeout))) instanceof Timeout);
+
+    const snapshot = circuit.snapshot();
+    assert.equal(snapshot.state, "open");
+    assert.equal(snapshot.failures, 2);
+    assert.equal(snapshot.openedAt, "2025-03-03T12:00:00.000Z");
+    assert.equal(snapshot.retryAt, "2025-03-03T12:00:01.000Z");
+    assert.match(snapshot.lastError ?? "", /timed out/);
+  });
+
+  it("fails calls right away while open", async () => {
+    const { circuit } = breaker({ failureThreshold: 1 });
+    await failure(circuit.run(timeout));
+
+    let called = false;
+    const error = await failure(
+      circuit.run(() => {
+        called = true;
+        return ok();
+      })
+    );
+
+    assert.ok(error instanceof CircuitOpen);
+    assert.equal(error.retryAt.toISOString(), "2025-03-03T12:00:01.000Z");
+    assert.equal(called, false);
+  });
+
+  it("counts unreadable responses but not errors that show the upstream is answering", async () => {
+    const { circuit } = breaker();
+
+    await failure(circuit.run(() => Promise.reject(new ParseError("garbage"))));
+    assert.equal(circuit.snapshot().failures, 1);
+
+    await failure(circuit.run(() => Promise.reject(new SymbolNotFound("nope.us", []))));
+    assert.equal(circuit.snapshot().failures, 0);
+
+    await failure(circuit.run(timeout));
+    await circuit.run(ok);
+    assert.deepEqual(
+      [circuit.snapshot().state, circuit.snapshot().failures],
+      ["closed", 0]
+    );
+  });
+
+  it("lets one probe through after resetMs and closes when it succeeds", async () => {
+    const { circuit, clock } = breaker({ failureThreshold: 1 });
+    await failure(circuit.run(timeout));
+
+    clock.now += 1000;
+    assert.equal(circuit.snapshot().state, "halfOpen");
+
+    let finish: (value: string) => void = () => undefined;
+    const probe = circuit.run(() => new Promise<string>((resolve) => (finish = resolve)));
+    assert.ok((await failure(circuit.run(ok))) instanceof CircuitOpen);
+
+    finish("ok");
+    assert.equal(await probe, "ok");
+    assert.equal(circuit.snapshot().state, "closed");
+    assert.equal(await circuit.run(ok), "ok");
+  });
+
+  it("opens again when the probe fails", async () => {
+    const { circuit, clock } = breaker({ failureThreshold: 3 });
+    for (let i = 0; i < 3; i++) {
+      await failure(circuit.run(timeout));
+    }
+
+    clock.now += 1000;
+    await failure(circuit.run(timeout));
+
+    const snapshot = circuit.snapshot();
+    assert.equal(snapshot.state, "open");
+    assert.equal(snapshot.retryAt, "2025-03-03T12:00:02.000Z");
+  });
+
+  it("opens at once for limitResetMs when the daily limit is hit", async () => {
+    const { circuit, clock } = breaker();
+
+    await failure(circuit.run(() => Promise.reject(new DailyLimitExceeded("quote for aapl.us"))));
+    assert.equal(circuit.snapshot().state, "open");
+    assert.equal(circuit.snapshot().retryAt, "2025-03-03T12:01:00.000Z");
+
+    clock.now += 1000;
+    assert.equal(circuit.snapshot().state, "open");
+    clock.now += 59_000;
+    assert.equal(circuit.snapshot().state, "halfOpen");
+  });
+
+  it("rejects thresholds and reset times that are not positive", () => {
+    assert.throws(() => new CircuitBreaker({ failureThreshold: 0 }));
+    assert.throws(() => new CircuitBreaker({ resetMs: -1 }));
+    assert.throws(() => new CircuitBreaker({ limitResetMs: 0 }));
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for parsing Stooq's quote CSV and timestamps (src/stooq.ts)
+ */
+
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { describe, it } from "node:test";
+import { NoData, ParseError, SymbolNotFound, parseQuoteCsv, parseStooqTimestamp } from "../src/stooq.js";
+
+const HEADER = "Symbol,Date,Time,Open,High,Low,Close,Volume,Name";
+
+describe("parseQuoteCsv", () => {
+  it("parses every row of a recorded fixture", async () => {
+    const quotes = parseQuoteCsv(await readFile(new URL("../fixtures/aapl.us.csv", import.meta.url), "utf8"));
+
+    assert.ok(quotes.length > 1);
+    assert.deepEqual(quotes[0], {
+      symbol: "AAPL.US",
+      name: "APPLE",
+      date: "2025-03-03",
+      time: "15:30:05",
+      timestamp: "2025-03-03T14:30:05.000Z",
+      timezone: "America/New_York",
+      open: 241.79,
+      high: 241.79,
+      low: 241.5,
+      close: 241.62,
+      volume: 1250340,
+    });
+  });
+
+  it("reads N/D cells as missing values", () => {
+    const [quote] = parseQuoteCsv(`${HEADER}\nEURUSD,2025-03-03,15:30:04,1.0402,1.0503,1.0399,1.0481,N/D,EUR/USD`);
+
+    assert.equal(quote?.volume, null);
+    assert.equal(quote?.close, 1.0481);
+    assert.equal(quote?.timezone, "Europe/Warsaw");
+  });
+
+  it("keeps commas in the name column", () => {
+    const [quote] = parseQuoteCsv(`${HEADER}\nBRK-B.US,2025-03-03,15:30:05,1,2,0.5,1.5,100,BERKSHIRE HATHAWAY, INC.`);
+
+    assert.equal(quote?.name, "BERKSHIRE HATHAWAY, INC.");
+  });
+
+  it("tolerates Windows line endings and blank lines", () => {
+    const quotes = parseQuoteCsv(
+      `${HEADER}\r\nAAPL.US,2025-03-03,15:30:05,1,2,0.5,1.5,100,APPLE\r\n\r\nAAPL.US,2025-03-03,16:00:07,1,2,0.5,1.75,200,APPLE\r\n`
+    );
+
+    assert.deepEqual(
+      quotes.map((quote) => quote.close),
+      [1.5, 1.75]
+    );
+  });
+
+  it("finds the columns by name", () => {
+    const [quote] = parseQuoteCsv("Close,Time,Date,Symbol\n1.5,15:30:05,2025-03-03,AAPL.US");
+
+    assert.equal(quote?.close, 1.5);
+    assert.equal(quote?.open, null);
+    assert.equal(quote?.name, null);
+  });
+
+  it("rejects a header without the required columns", () => {
+    assert.throws(() => parseQuoteCsv("Symbol,Date,Open\nAAPL.US,2025-03-03,1"), ParseError);
+    assert.throws(() => parseQuoteCsv(""), ParseError);
+  });
+
+  it("reports a row without a symbol as not found", () => {
+    assert.throws(() => parseQuoteCsv(`${HEADER}\nN/D,N/D,N/D,N/D,N/D,N/D,N/D,N/D,N/D`), SymbolNotFound);
+  });
+
+  it("reports a row without a close as having no data", () => {
+    assert.throws(() => parseQuoteCsv(`${HEADER}\nAAPL.US,2025-03-03,15:30:05,N/D,N/D,N/D,N/D,N/D,APPLE`), NoData);
+  });
+
+  it("rejects a malformed number", () => {
+    assert.throws(() => parseQuoteCsv(`${HEADER}\nAAPL.US,2025-03-03,15:30:05,1,2,0.5,abc,100,APPLE`), ParseError);
+  });
+});
+
+describe("parseStooqTimestamp", () => {
+  it("converts Warsaw winter time (UTC+1)", () => {
+    assert.equal(parseStooqTimestamp("2025-01-15", "12:00:00", "aapl.us"), "2025-01-15T11:00:00.000Z");
+  });
+
+  it("converts Warsaw summer time (UTC+2)", () => {
+    assert.equal(parseStooqTimestamp("2025-07-15", "12:00:00", "aapl.us"), "2025-07-15T10:00:00.000Z");
+  });
+
+  it("converts times on the days the clocks change", () => {
+    // Clocks go forward at 02:00 on 2025-03-30 and back at 03:00 on 2025-10-26
+    assert.equal(parseStooqTimestamp("2025-03-30", "01:30:00", "aapl.us"), "2025-03-30T00:30:00.000Z");
+    assert.equal(parseStooqTimestamp("2025-03-30", "03:30:00", "aapl.us"), "2025-03-30T01:30:00.000Z");
+    assert.equal(parseStooqTimestamp("2025-10-26", "04:00:00", "aapl.us"), "2025-10-26T03:00:00.000Z");
+  });
+
+  it("rejects malformed dates and times", () => {
+    assert.throws(() => parseStooqTimestamp("2025-3-1", "12:00:00", "aapl.us"), ParseError);
+    assert.throws(() => parseStooqTimestamp("2025-03-01", "12:00", "aapl.us"), ParseError);
+    assert.throws(() => parseStooqTimestamp("20250301", "120000", "aapl.us"), ParseError);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for the symbol directory (src/symbols.ts)
+ */
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { SymbolDirectory, normalizeSymbol, parseInstrumentCsv } from "../src/symbols.js";
+
+describe("normalizeSymbol", () => {
+  it("turns symbols as people type them into Stooq symbols", () => {
+    assert.equal(normalizeSymbol(" $AAPL "), "aapl.us");
+    assert.equal(normalizeSymbol("VOD.L"), "vod.uk");
+    assert.equal(normalizeSymbol("sap.de"), "sap.de");
+    assert.equal(normalizeSymbol("BRK.B"), "brk-b.us");
+    assert.equal(normalizeSymbol("msft", "uk"), "msft.uk");
+    assert.equal(normalizeSymbol("^SPX"), "^spx");
+    assert.equal(normalizeSymbol("EURUSD"), "eurusd");
+    assert.throws(() => normalizeSymbol(" $ "), /cannot be empty/);
+  });
+});
+
+describe("parseInstrumentCsv", () => {
+  it("derives exchanges and currencies, and skips rows without a name", () => {
+    const csv = "Symbol,Name,Currency\nVOD.UK,Vodafone Group PLC,\nCSPX.UK,iShares Core S&P 500,usd\nNOPE.US,N/D,\n";
+
+    assert.deepEqual(parseInstrumentCsv(csv), [
+      { symbol: "vod.uk", name: "Vodafone Group PLC", exchange: "uk", currency: "GBX" },
+      { symbol: "cspx.uk", name: "iShares Core S&P 500", exchange: "uk", currency: "USD" },
+    ]);
+    assert.throws(() => parseInstrumentCsv("Ticker,Name\n"), /Expected columns: Symbol, Name/);
+    assert.throws(() => parseInstrumentCsv("Symbol,Name,Currency\nx.us,X,ABC\n"), /Row 2: Unsupported currency/);
+  });
+});
+
+describe("SymbolDirectory", () => {
+  let dir: string;
+  let directory: SymbolDirectory;
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "stocks-symbols-"));
+    directory = await SymbolDirectory.open(path.join(dir, "symbols.json"));
+  });
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("resolves bare tickers to their only known listing", () => {
+    assert.equal(directory.resolve("AAPL"), "aapl.us");
+    assert.equal(directory.resolve("vod"), "vod.uk");
+    assert.equal(directory.resolve("brk.b"), "brk-b.us");
+    assert.equal(directory.resolve("zzzz"), "zzzz.us");
+  });
+
+  it("ranks symbol matches before name matches", () => {
+    const results = directory.search("micro", 5).map((instrument) => instrument.symbol);
+
+    assert.ok(results.includes("msft.us"));
+    assert.equal(directory.search("msft")[0]?.symbol, "msft.us");
+    assert.deepEqual(directory.search("  "), []);
+  });
+
+  it("learns instruments from quotes and keeps them across a reopen", async () => {
+    const quote = {
+      symbol: "ZZZZ.US",
+      name: "ZZZZ HOLDINGS",
+      date: "2025-03-03",
+      time: "16:00:00",
+      timestamp: "2025-03-03T15:00:00.000Z",
+      timezone: "Europe/Warsaw",
+      open: null,
+      high: null,
+      low: null,
+      close: 10,
+      volume: null,
+    };
+    await directory.learn([quote]);
+
+    const reopened = await SymbolDirectory.open(path.join(dir, "symbols.json"), { seedFile: null });
+    assert.deepEqual(reopened.get("zzzz.us"), {
+      symbol: "zzzz.us",
+      name: "ZZZZ HOLDINGS",
+      exchange: "us",
+      currency: "USD",
+    });
+    assert.equal(reopened.get("aapl.us")?.name, "Apple Inc");
+  });
+
+  it("rejects an unknown default market", async () => {
+    await assert.rejects(
+      SymbolDirectory.open(path.join(dir, "other.json"), { defaultMarket: "xx" }),
+      /Unknown default market/
+    );
+  });
+});
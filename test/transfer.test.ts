@@ -0,0 +1,165 @@
+/**
+ * Tests for exporting and importing alerts and watchlists (src/transfer.ts)
+ */
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, describe, it } from "node:test";
+import { AlertStore } from "../src/store.js";
+import {
+  EXPORT_VERSION,
+  ImportError,
+  exportBundle,
+  exportCsv,
+  importData,
+  parseImport,
+  type ExportBundle,
+} from "../src/transfer.js";
+import { WatchlistStore } from "../src/watchlists.js";
+
+const BUNDLE: ExportBundle = {
+  version: EXPORT_VERSION,
+  exportedAt: "2025-03-03T12:00:00.000Z",
+  alerts: [
+    {
+      symbol: "aapl.us",
+      target: 200,
+      direction: "above",
+      intervalMs: 60_000,
+      notify: ["email", "slack"],
+      recurring: true,
+      cooldownMs: 3_600_000,
+    },
+    {
+      symbol: "msft.us",
+      condition: {
+        type: "all",
+        conditions: [
+          { type: "percentChange", from: "previousClose", percent: -5 },
+          { type: "indicator", left: "price", op: "crossBelow", right: { indicator: "sma", period: 50 } },
+        ],
+      },
+      intervalMs: 30_000,
+      currency: "EUR",
+      maxTriggers: 3,
+      expiresAt: "2030-01-01T00:00:00.000Z",
+    },
+    // A channel name with the list separator in it
+    { symbol: "vod.uk", target: 70, direction: "below", intervalMs: 60_000, notify: ["ops;oncall"] },
+  ],
+  watchlists: [
+    { name: 'Tech, "growth"', symbols: ["aapl.us", "msft.us"] },
+    { name: "Banks", symbols: ["jpm.us"] },
+  ],
+  triggers: [],
+};
+
+/**
+ * Imports a file that is expected to be invalid and returns its problems
+ */
+function importProblems(text: string, format: "csv" | "json"): string[] {
+  try {
+    parseImport(text, format);
+  } catch (error) {
+    assert.ok(error instanceof ImportError);
+    return error.problems;
+  }
+  assert.fail("Expected the import to fail");
+}
+
+describe("CSV round trip", () => {
+  it("imports exported alerts unchanged", () => {
+    const imported = parseImport(exportCsv(BUNDLE, "alerts"), "csv");
+
+    assert.deepEqual(imported, { alerts: BUNDLE.alerts, watchlists: [] });
+  });
+
+  it("imports exported watchlists unchanged", () => {
+    const imported = parseImport(exportCsv(BUNDLE, "watchlists"), "csv");
+
+    assert.deepEqual(imported, { alerts: [], watchlists: BUNDLE.watchlists });
+  });
+
+  it("exports an import the same way again", () => {
+    for (const kind of ["alerts", "watchlists"] as const) {
+      const csv = exportCsv(BUNDLE, kind);
+      const again = exportCsv({ ...BUNDLE, ...parseImport(csv, "csv") }, kind);
+
+      assert.equal(again, csv);
+    }
+  });
+});
+
+describe("JSON round trip", () => {
+  it("imports an exported bundle unchanged", () => {
+    const imported = parseImport(JSON.stringify(BUNDLE), "json");
+
+    assert.deepEqual(imported, { alerts: BUNDLE.alerts, watchlists: BUNDLE.watchlists });
+  });
+});
+
+describe("parseImport", () => {
+  it("reports every invalid record at once", () => {
+    const csv = "symbol,intervalMs,target,direction\naapl.us,60000,200,above\n,60000,200,above\nmsft.us,x,200,above\n";
+
+    assert.throws(
+      () => parseImport(csv, "csv"),
+      (error: unknown) => error instanceof ImportError && error.problems.length === 2
+    );
+  });
+
+  it("reports every invalid field of a record together", () => {
+    const csv = "symbol,intervalMs,target,direction,recurring\nmsft.us,x,y,above,maybe\naapl.us,60000,-1,sideways,\n";
+    const watchlists = JSON.stringify({ watchlists: [{ name: " ", symbols: "aapl.us", color: "red" }] });
+
+    assert.deepEqual(importProblems(csv, "csv"), [
+      "Line 2: intervalMs must be a number; target must be a number; recurring must be true or false",
+      'Line 3: direction must be "above" or "below"; target price must be greater than 0',
+    ]);
+    assert.deepEqual(importProblems(watchlists, "json"), [
+      'watchlists[0]: unknown field "color"; name must be a non-empty string; symbols must be a list of non-empty strings',
+    ]);
+  });
+
+  it("rejects a file that is not JSON", () => {
+    assert.throws(() => parseImport("{", "json"), ImportError);
+  });
+});
+
+describe("importData", () => {
+  let dir: string | undefined;
+  after(async () => {
+    if (dir !== undefined) {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("imports into the owner's stores once, and round-trips through them", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "stocks-transfer-"));
+    const stores = {
+      alerts: await AlertStore.open(path.join(dir, "alerts.json")),
+      watchlists: await WatchlistStore.open(path.join(dir, "watchlists.json")),
+    };
+    const data = parseImport(JSON.stringify(BUNDLE), "json");
+    const now = new Date("2025-03-03T12:00:00Z");
+
+    const first = await importData(data, stores, "user-1", now);
+    assert.deepEqual(first, {
+      alerts: { created: 3, updated: 0, skipped: 0 },
+      watchlists: { created: 2, updated: 0, skipped: 0 },
+    });
+
+    const second = await importData(data, stores, "user-1", now);
+    assert.deepEqual(second, {
+      alerts: { created: 0, updated: 0, skipped: 3 },
+      watchlists: { created: 0, updated: 0, skipped: 2 },
+    });
+
+    const exported = exportBundle(stores, "user-1", now);
+    assert.deepEqual(exported.alerts, BUNDLE.alerts);
+    assert.deepEqual(exported.watchlists, BUNDLE.watchlists);
+    assert.deepEqual(exportBundle(stores, "user-2", now).alerts, []);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for accounts, sessions and API tokens (src/users.ts)
+ */
+
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { UserStore } from "../src/users.js";
+
+describe("UserStore", () => {
+  let dir: string;
+  let file: string;
+  let users: UserStore;
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "stocks-users-"));
+  });
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+  beforeEach(async () => {
+    file = path.join(dir, `users-${Math.random().toString(36).slice(2)}.json`);
+    users = await UserStore.open(file);
+  });
+
+  it("checks passwords without telling unknown users apart", async () => {
+    const admin = await users.create("Admin", "secret123", "admin");
+
+    assert.equal(admin.username, "admin");
+    assert.equal((await users.verifyPassword("ADMIN", "secret123"))?.id, admin.id);
+    assert.equal(await users.verifyPassword("admin", "wrong-password"), undefined);
+    assert.equal(await users.verifyPassword("nobody", "secret123"), undefined);
+    assert.ok(!("passwordHash" in admin));
+  });
+
+  it("rejects short passwords, bad usernames and duplicates", async () => {
+    await users.create("alice", "secret123");
+
+    await assert.rejects(users.create("bob", "short"), /at least 8 characters/);
+    await assert.rejects(users.create("a b", "secret123"), /username must be/);
+    await assert.rejects(users.create("ALICE", "secret123"), /already exists/);
+  });
+
+  it("ends sessions on sign-out and when the password changes", async () => {
+    const alice = await users.create("alice", "secret123");
+    const first = await users.createSession(alice.id);
+    const second = await users.createSession(alice.id);
+
+    assert.equal(users.sessionUser(first.token)?.id, alice.id);
+    await users.endSession(first.token);
+    assert.equal(users.sessionUser(first.token), undefined);
+    assert.equal(users.sessionUser(second.token)?.id, alice.id);
+
+    await users.update(alice.id, { password: "another-secret" });
+    assert.equal(users.sessionUser(second.token), undefined);
+  });
+
+  it("keeps sessions and tokens across a reopen, storing only their hashes", async () => {
+    const alice = await users.create("alice", "secret123");
+    const session = await users.createSession(alice.id);
+    const { token } = await users.createToken(alice.id, "script");
+
+    const reopened = await UserStore.open(file);
+    assert.equal(reopened.sessionUser(session.token)?.id, alice.id);
+    assert.equal(reopened.tokenUser(token)?.id, alice.id);
+
+    const text = await readFile(file, "utf8");
+    assert.ok(!text.includes(session.token) && !text.includes(token));
+  });
+
+  it("acts as the token's user until it is revoked", async () => {
+    const alice = await users.create("alice", "secret123");
+    const bob = await users.create("bob", "secret123");
+    const { token, record } = await users.createToken(alice.id, " cron ");
+
+    assert.match(token, /^stk_/);
+    assert.equal(record.name, "cron");
+    assert.equal(users.tokenUser(token)?.id, alice.id);
+    assert.notEqual(users.tokens(alice.id)[0]?.lastUsedAt, null);
+    assert.deepEqual(users.tokens(bob.id), []);
+
+    assert.equal(await users.revokeToken(bob.id, record.id), false);
+    assert.equal(await users.revokeToken(alice.id, record.id), true);
+    assert.equal(users.tokenUser(token), undefined);
+    await assert.rejects(users.createToken(alice.id, " "), /name must be a non-empty string/);
+  });
+
+  it("never leaves the server without an admin", async () => {
+    const admin = await users.create("admin", "secret123", "admin");
+
+    await assert.rejects(users.update(admin.id, { role: "user" }), /last admin cannot be demoted/);
+    await assert.rejects(users.remove(admin.id), /last admin cannot be deleted/);
+
+    const other = await users.create("other", "secret123", "admin");
+    assert.equal((await users.update(admin.id, { role: "user" }))?.role, "user");
+    await assert.rejects(users.remove(other.id), /last admin cannot be deleted/);
+    assert.equal(await users.remove(admin.id), true);
+  });
+
+  it("drops a deleted user's sessions and tokens", async () => {
+    await users.create("admin", "secret123", "admin");
+    const alice = await users.create("alice", "secret123");
+    const session = await users.createSession(alice.id);
+    const { token } = await users.createToken(alice.id, "script");
+
+    assert.equal(await users.remove(alice.id), true);
+    assert.equal(users.sessionUser(session.token), undefined);
+    assert.equal(users.tokenUser(token), undefined);
+    assert.equal(await users.remove(alice.id), false);
+  });
+});
@@ -1,36 +1,316 @@
 /**
  * Stock Price Alert Web Application
  * 
- * This script handles the stock price alert functionality in the browser.
- * It polls the API endpoint and triggers alerts when price thresholds are crossed.
+ * This script is a client of the server's alert API. Alerts are created,
+ * paused, resumed and deleted through /api/alerts and run on the server, so
+ * they keep running when the page is closed and survive a refresh. Prices
+ * and triggers arrive live over the /api/stream Server-Sent Events endpoint.
+ * 
+ * Watchlists are stored on the server too (/api/watchlists); the selected
+ * one is remembered in localStorage.
+ * 
+ * The chart combines daily history from /api/history with the ticks the
+ * stream delivered since the page was opened.
+ * 
+ * Prices are shown in the currency they are quoted in, or converted into
+ * the user's base currency (saved with PATCH /api/auth/me) at the rates from
+ * /api/fx/rates. The symbol inputs suggest instruments from /api/symbols/search.
+ * 
+ * Every API call needs a signed-in user. The page starts with the sign-in
+ * form (or, on a fresh server, the form that creates the admin account) and
+ * goes back to it whenever the API answers 401.
+ */
+
+import { conditionLevels, describeCondition, type Condition } from "../src/conditions.js";
+import { CURRENCIES, formatMoney } from "../src/currency.js";
+import { PriceChart, type ChartPoint, type ChartRange } from "./chart.js";
+
+/**
+ * Quote data returned by the API
+ * Fields Stooq has no data for are null; quotes of alerts and the stream
+ * also carry the currency their prices are in (null if unknown)
+ */
+type Quote = {
+  symbol: string;
+  name: string | null;
+  date: string;
+  time: string;
+  timestamp: string;
+  timezone: string;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number;
+  volume: number | null;
+  currency?: string | null;
+};
+
+/**
+ * The signed-in user as returned by /api/auth/me
+ */
+type Account = {
+  id: string;
+  username: string;
+  role: "admin" | "user";
+  baseCurrency?: string;
+};
+
+/**
+ * Server-side settings as returned by /api/config
+ */
+type ServerConfig = {
+  provider: string;
+  alerts: { defaultIntervalMs: number };
+  cache: { quoteTtlMs: number };
+  symbols: { defaultMarket: string };
+};
+
+/**
+ * An instrument as returned by /api/symbols/search
+ */
+type Instrument = {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  currency: string | null;
+};
+
+/**
+ * Alert data returned by the /api/alerts endpoints
+ */
+type Alert = {
+  id: string;
+  config: {
+    symbol: string;
+    target?: number;
+    direction?: "above" | "below";
+    condition?: Condition;
+    intervalMs: number;
+    currency?: string;
+    recurring?: boolean;
+    cooldownMs?: number;
+    rearmPercent?: number;
+    maxTriggers?: number;
+    expiresAt?: string;
+  };
+  status: "active" | "paused" | "triggered" | "expired";
+  state: "armed" | "triggered" | "cooldown" | "snoozed" | "paused" | "expired";
+  createdAt: string;
+  updatedAt: string;
+  triggeredAt: string | null;
+  triggerCount?: number;
+  snoozedUntil?: string;
+  lastQuote: Quote | null;
+};
+
+/**
+ * A position as returned by /api/portfolio
+ */
+type Holding = {
+  symbol: string;
+  currency: string;
+  quantity: number;
+  costBasis: number;
+  averageCost: number | null;
+  previousClose: number | null;
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPercent: number | null;
+  dayChange: number | null;
+  allocation: number | null;
+  quote: Quote | null;
+};
+
+/**
+ * A named list of symbols as returned by /api/watchlists
  */
+type Watchlist = {
+  id: string;
+  name: string;
+  symbols: string[];
+};
+
+/**
+ * A row of /api/watchlists/:id/quotes
+ */
+type WatchRow = {
+  symbol: string;
+  quote: Quote | null;
+  error: string | null;
+  code: string | null;
+  suggestions?: string[];
+  previousClose: number | null;
+  change: number | null;
+  changePercent: number | null;
+  market: { open: boolean; nextOpen: string | null };
+  currency: string | null;
+};
+
+/**
+ * Error body sent by the API: { error, code?, message?, suggestions? }
+ */
+type ErrorPayload = {
+  error?: string;
+  code?: string;
+  message?: string;
+  suggestions?: string[];
+  setupRequired?: boolean;
+};
+
+/**
+ * A failed API request, with the server's error code
+ */
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string | null,
+    readonly suggestions: string[],
+    message: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * A trigger history record as returned by /api/triggers
+ */
+type Trigger = {
+  alertId: string;
+  symbol: string;
+  price: number;
+  quoteTimestamp?: string;
+  firedAt: string;
+};
+
+/**
+ * A daily bar as returned by /api/history
+ */
+type Bar = {
+  date: string;
+  close: number;
+};
+
+/**
+ * Most stream ticks kept per symbol for the chart
+ */
+const MAX_TICKS = 5000;
+
+/**
+ * How long to wait after the last keystroke before searching symbols, in milliseconds
+ */
+const SEARCH_DELAY_MS = 250;
+
+/**
+ * How long the Snooze button silences an alert, in milliseconds
+ */
+const SNOOZE_MS = 60 * 60 * 1000;
+
+/**
+ * localStorage key of the selected watchlist
+ */
+const WATCHLIST_KEY = "selectedWatchlist";
+
+/**
+ * Payload of a "trigger" event from /api/stream
+ */
+type TriggerEvent = {
+  alert: Pick<Alert, "id" | "config" | "status" | "triggeredAt">;
+  quote: Quote;
+};
 
 // Wait for the DOM to be fully loaded before running the script
 document.addEventListener("DOMContentLoaded", function() {
   // Get all required DOM elements
   // We'll validate these exist and throw clear errors if they're missing
   const symbolInput = document.getElementById("symbolInput") as HTMLInputElement;
+  const symbolOptions = document.getElementById("symbolOptions") as HTMLDataListElement;
   const targetInput = document.getElementById("targetInput") as HTMLInputElement;
-  const directionSelect = document.getElementById("directionSelect") as HTMLSelectElement;
+  const targetLabel = document.getElementById("targetLabel") as HTMLElement;
+  const conditionSelect = document.getElementById("conditionSelect") as HTMLSelectElement;
+  const alertCurrencySelect = document.getElementById("alertCurrencySelect") as HTMLSelectElement;
   const intervalInput = document.getElementById("intervalInput") as HTMLInputElement;
-  const startBtn = document.getElementById("startBtn") as HTMLButtonElement;
-  const stopBtn = document.getElementById("stopBtn") as HTMLButtonElement;
+  const repeatSelect = document.getElementById("repeatSelect") as HTMLSelectElement;
+  const recurringOptions = document.getElementById("recurringOptions") as HTMLElement;
+  const cooldownInput = document.getElementById("cooldownInput") as HTMLInputElement;
+  const rearmInput = document.getElementById("rearmInput") as HTMLInputElement;
+  const maxTriggersInput = document.getElementById("maxTriggersInput") as HTMLInputElement;
+  const expiresInput = document.getElementById("expiresInput") as HTMLInputElement;
+  const createBtn = document.getElementById("createBtn") as HTMLButtonElement;
+  const alertsBody = document.getElementById("alertsBody") as HTMLTableSectionElement;
+  const holdingsBody = document.getElementById("holdingsBody") as HTMLTableSectionElement;
+  const watchlistSelect = document.getElementById("watchlistSelect") as HTMLSelectElement;
+  const newWatchlistBtn = document.getElementById("newWatchlistBtn") as HTMLButtonElement;
+  const moveWatchlistBtn = document.getElementById("moveWatchlistBtn") as HTMLButtonElement;
+  const deleteWatchlistBtn = document.getElementById("deleteWatchlistBtn") as HTMLButtonElement;
+  const watchSymbolInput = document.getElementById("watchSymbolInput") as HTMLInputElement;
+  const watchAddBtn = document.getElementById("watchAddBtn") as HTMLButtonElement;
+  const watchlistBody = document.getElementById("watchlistBody") as HTMLTableSectionElement;
+  const chartTitle = document.getElementById("chartTitle") as HTMLElement;
+  const chartRanges = document.getElementById("chartRanges") as HTMLElement;
+  const chartCanvas = document.getElementById("chartCanvas") as HTMLCanvasElement;
+  const chartTooltip = document.getElementById("chartTooltip") as HTMLElement;
   const priceText = document.getElementById("priceText") as HTMLElement;
+  const nameText = document.getElementById("nameText") as HTMLElement;
+  const rangeText = document.getElementById("rangeText") as HTMLElement;
+  const volumeText = document.getElementById("volumeText") as HTMLElement;
   const statusText = document.getElementById("statusText") as HTMLElement;
   const alertText = document.getElementById("alertText") as HTMLElement;
+  const loginForm = document.getElementById("loginForm") as HTMLFormElement;
+  const loginTitle = document.getElementById("loginTitle") as HTMLElement;
+  const usernameInput = document.getElementById("usernameInput") as HTMLInputElement;
+  const passwordInput = document.getElementById("passwordInput") as HTMLInputElement;
+  const loginError = document.getElementById("loginError") as HTMLElement;
+  const loginBtn = document.getElementById("loginBtn") as HTMLButtonElement;
+  const userText = document.getElementById("userText") as HTMLElement;
+  const currencySelect = document.getElementById("currencySelect") as HTMLSelectElement;
+  const logoutBtn = document.getElementById("logoutBtn") as HTMLButtonElement;
 
   // Validate that all required elements exist
   // This helps catch errors early if the HTML structure changes
   const requiredElements = [
     { name: "symbolInput", element: symbolInput },
+    { name: "symbolOptions", element: symbolOptions },
     { name: "targetInput", element: targetInput },
-    { name: "directionSelect", element: directionSelect },
+    { name: "targetLabel", element: targetLabel },
+    { name: "conditionSelect", element: conditionSelect },
+    { name: "alertCurrencySelect", element: alertCurrencySelect },
     { name: "intervalInput", element: intervalInput },
-    { name: "startBtn", element: startBtn },
-    { name: "stopBtn", element: stopBtn },
+    { name: "repeatSelect", element: repeatSelect },
+    { name: "recurringOptions", element: recurringOptions },
+    { name: "cooldownInput", element: cooldownInput },
+    { name: "rearmInput", element: rearmInput },
+    { name: "maxTriggersInput", element: maxTriggersInput },
+    { name: "expiresInput", element: expiresInput },
+    { name: "createBtn", element: createBtn },
+    { name: "alertsBody", element: alertsBody },
+    { name: "holdingsBody", element: holdingsBody },
+    { name: "watchlistSelect", element: watchlistSelect },
+    { name: "newWatchlistBtn", element: newWatchlistBtn },
+    { name: "moveWatchlistBtn", element: moveWatchlistBtn },
+    { name: "deleteWatchlistBtn", element: deleteWatchlistBtn },
+    { name: "watchSymbolInput", element: watchSymbolInput },
+    { name: "watchAddBtn", element: watchAddBtn },
+    { name: "watchlistBody", element: watchlistBody },
+    { name: "chartTitle", element: chartTitle },
+    { name: "chartRanges", element: chartRanges },
+    { name: "chartCanvas", element: chartCanvas },
+    { name: "chartTooltip", element: chartTooltip },
     { name: "priceText", element: priceText },
+    { name: "nameText", element: nameText },
+    { name: "rangeText", element: rangeText },
+    { name: "volumeText", element: volumeText },
     { name: "statusText", element: statusText },
     { name: "alertText", element: alertText },
+    { name: "loginForm", element: loginForm },
+    { name: "loginTitle", element: loginTitle },
+    { name: "usernameInput", element: usernameInput },
+    { name: "passwordInput", element: passwordInput },
+    { name: "loginError", element: loginError },
+    { name: "loginBtn", element: loginBtn },
+    { name: "userText", element: userText },
+    { name: "currencySelect", element: currencySelect },
+    { name: "logoutBtn", element: logoutBtn },
   ];
 
   for (const { name, element } of requiredElements) {
@@ -39,50 +319,289 @@ document.addEventListener("DOMContentLoaded", function() {
     }
   }
 
-  // Variable to store the polling interval ID
-  // This allows us to cancel the interval when the stop button is clicked
-  let pollingIntervalId: number | null = null;
+  // The alerts shown in the table and the one whose quote details are shown
+  let alerts: Alert[] = [];
+  let selectedAlertId: string | null = null;
+
+  // The open positions shown in the holdings table
+  let holdings: Holding[] = [];
+
+  // All watchlists, the selected one and its rows
+  let watchlists: Watchlist[] = [];
+  let selectedWatchlistId: string | null = localStorage.getItem(WATCHLIST_KEY);
+  let watchRows: WatchRow[] = [];
+
+  // The chart, the symbol it shows and that symbol's daily closes
+  const chart = new PriceChart(chartCanvas, chartTooltip);
+  let chartSymbol: string | null = null;
+  let chartBars: Bar[] = [];
+
+  // Ticks received from the stream this session, and the trigger history
+  const sessionTicks = new Map<string, Quote[]>();
+  let triggers: Trigger[] = [];
+
+  // The live stream and the symbols it is subscribed to
+  let stream: EventSource | null = null;
+  let streamSymbols = "";
+
+  // Whether the server has no accounts yet, so the form creates the admin
+  let setupRequired = false;
+
+  // The signed-in user's base currency (null: prices as quoted) and the rates into it
+  let baseCurrency: string | null = null;
+  let rates = new Map<string, number>();
+
+  // Pending symbol search while the user is typing
+  let searchTimer: number | undefined;
+
+  // Server-side defaults, loaded once signed in
+  let serverConfig: ServerConfig | null = null;
 
   /**
-   * Fetches a stock quote from the API
+   * Sends a request to the alert API
    * 
-   * @param symbol - The stock symbol to fetch
-   * @returns A promise that resolves to the quote data
-   * @throws Error if the API request fails
+   * @param path - The API path (e.g., "/api/alerts")
+   * @param options - Optional method and JSON body
+   * @returns A promise that resolves to the parsed JSON response (undefined for 204)
+   * @throws ApiError with a message for the user if the request fails
    */
-  async function fetchQuote(symbol: string): Promise<{ symbol: string; date: string; time: string; close: number }> {
-    // Construct the API URL with the symbol as a query parameter
-    const url = `/api/quote?symbol=${encodeURIComponent(symbol)}`;
+  async function api<T>(path: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+    const init: RequestInit = { method: options.method ?? "GET" };
+    if (options.body !== undefined) {
+      init.headers = { "Content-Type": "application/json" };
+      init.body = JSON.stringify(options.body);
+    }
 
-    // Fetch the quote from the API
-    const response = await fetch(url);
+    const response = await fetch(path, init);
 
     // Check if the request was successful
     if (!response.ok) {
-      // If the response is not OK, throw an error with the status
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      // Prefer the server's explanation over the bare status
+      const payload = (await response.json().catch(() => null)) as ErrorPayload | null;
+
+      // Not (or no longer) signed in
+      if (response.status === 401) {
+        showLogin(payload?.setupRequired === true);
+      }
+
+      throw new ApiError(
+        response.status,
+        payload?.code ?? null,
+        payload?.suggestions ?? [],
+        errorText(response.status, payload, response.statusText)
+      );
+    }
+
+    return response.status === 204 ? (undefined as T) : await response.json();
+  }
+
+  /**
+   * Builds the message shown for a failed API request
+   *
+   * Upstream trouble gets advice instead of the raw upstream error; symbol
+   * errors keep the server's message, which names the symbol and suggests a
+   * correction (e.g., "Did you mean aapl.us?").
+   *
+   * @param status - The HTTP status
+   * @param payload - The error body, if it was JSON
+   * @param statusText - The HTTP status text, used without a body
+   * @returns The message
+   */
+  function errorText(status: number, payload: ErrorPayload | null, statusText: string): string {
+    switch (payload?.code) {
+      case "SYMBOL_NOT_FOUND":
+      case "NO_DATA":
+        return payload.message ?? payload.error ?? statusText;
+      case "UPSTREAM_HTTP":
+        return "The quote service (Stooq) is unavailable right now. Try again in a few minutes.";
+      case "TIMEOUT":
+        return "The quote service (Stooq) did not answer in time. Try again.";
+      case "PARSE_ERROR":
+        return "The quote service (Stooq) sent an unexpected response. Try again later.";
+      case "RATE_LIMITED":
+        return "Too many requests. Wait a moment and try again.";
+      default:
+        return `API request failed: ${status} ${payload?.message ?? payload?.error ?? statusText}`;
+    }
+  }
+
+  /**
+   * Resolves an entered symbol and checks that Stooq knows it before it is used
+   *
+   * Input such as "AAPL" is resolved to the Stooq symbol ("aapl.us") by the
+   * symbol directory. For an unknown symbol with a suggested correction the
+   * user is asked whether to use the correction instead. If the check itself
+   * fails (e.g., Stooq is down) the symbol is used as resolved.
+   *
+   * @param entered - The symbol as entered
+   * @returns The symbol to use, or null if the user should fix it first
+   */
+  async function checkSymbol(entered: string): Promise<string | null> {
+    let symbol = entered;
+    try {
+      const search = await api<{ resolved: string | null }>(`/api/symbols/search?q=${encodeURIComponent(entered)}&limit=1`);
+      symbol = search.resolved ?? entered;
+      await api(`/api/quote?symbol=${encodeURIComponent(symbol)}`);
+      return symbol;
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.code !== "SYMBOL_NOT_FOUND") {
+        return symbol;
+      }
+
+      const suggestion = error.suggestions[0];
+      if (suggestion !== undefined && confirm(`Unknown symbol "${symbol}". Use ${suggestion} instead?`)) {
+        return suggestion;
+      }
+      if (suggestion === undefined) {
+        alert(error.message);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Suggests instruments matching what was typed into a symbol input
+   * Both symbol inputs share the suggestions through the symbolOptions datalist
+   * 
+   * @param input - The input being typed into
+   */
+  function suggestSymbols(input: HTMLInputElement): void {
+    clearTimeout(searchTimer);
+    const query = input.value.trim();
+    if (query.length === 0) {
+      return;
+    }
+
+    searchTimer = window.setTimeout(async () => {
+      try {
+        const { results } = await api<{ results: Instrument[] }>(
+          `/api/symbols/search?q=${encodeURIComponent(query)}&limit=8`
+        );
+        symbolOptions.replaceChildren(
+          ...results.map((instrument) => {
+            const currency = instrument.currency !== null ? ` · ${instrument.currency}` : "";
+            return new Option(`${instrument.name}${currency}`, instrument.symbol);
+          })
+        );
+      } catch (error) {
+        console.error("Error searching symbols:", error);
+      }
+    }, SEARCH_DELAY_MS);
+  }
+
+  /**
+   * Formats a price for display
+   * 
+   * Prices are shown in the base currency when one is selected and the rate
+   * is known, and otherwise in the currency they are quoted in.
+   * 
+   * @param amount - The price
+   * @param currency - The currency it is quoted in, or null if unknown
+   * @returns The formatted price, e.g. "$227.48", "€217.10" or "1,234.50p"
+   */
+  function money(amount: number, currency: string | null | undefined): string {
+    const rate = currency ? rates.get(currency) : undefined;
+    if (baseCurrency !== null && rate !== undefined) {
+      return formatMoney(amount * rate, baseCurrency);
     }
+    return formatMoney(amount, currency ?? null);
+  }
+
+  /**
+   * Returns the currency a symbol on the page is quoted in, if known
+   * 
+   * @param symbol - The symbol
+   */
+  function currencyOf(symbol: string): string | null {
+    const key = symbol.toLowerCase();
+    return (
+      sessionTicks.get(key)?.slice(-1)[0]?.currency ??
+      watchRows.find((watchRow) => watchRow.symbol.toLowerCase() === key)?.currency ??
+      holdings.find((holding) => holding.symbol === key)?.currency ??
+      alerts.find((alert) => alert.config.symbol.toLowerCase() === key)?.lastQuote?.currency ??
+      null
+    );
+  }
+
+  /**
+   * Fetches the rates from the currencies shown on the page into the base currency
+   */
+  async function loadRates(): Promise<void> {
+    if (baseCurrency === null) {
+      rates = new Map();
+      return;
+    }
+    const base = baseCurrency;
+
+    const currencies = [
+      ...new Set([
+        ...alerts.map((alert) => alert.lastQuote?.currency),
+        ...holdings.map((holding) => holding.currency),
+        ...watchRows.map((watchRow) => watchRow.currency),
+      ]),
+    ].filter((currency): currency is string => typeof currency === "string" && currency !== base);
+
+    const fetched =
+      currencies.length > 0
+        ? (await api<{ rates: Record<string, { rate: number }> }>(
+            `/api/fx/rates?base=${base}&currencies=${currencies.join(",")}`
+          )).rates
+        : {};
+    rates = new Map([[base, 1], ...Object.entries(fetched).map(([currency, { rate }]): [string, number] => [currency, rate])]);
+  }
 
-    // Parse and return the JSON response
-    return await response.json();
+  /**
+   * Saves the base currency picked in the user bar and shows prices in it
+   */
+  async function changeBaseCurrency(): Promise<void> {
+    try {
+      const account = await api<Account>("/api/auth/me", {
+        method: "PATCH",
+        body: { baseCurrency: currencySelect.value || null },
+      });
+      baseCurrency = account.baseCurrency ?? null;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+      currencySelect.value = baseCurrency ?? "";
+    }
+    await refresh();
   }
 
   /**
    * Updates the UI with the current price and status
    * 
    * @param price - The current stock price
+   * @param currency - The currency the price is quoted in, or null if unknown
    * @param status - The status message to display
    */
-  function updateUI(price: number | null, status: string): void {
+  function updateUI(price: number | null, currency: string | null | undefined, status: string): void {
     if (price !== null) {
-      // Format the price with 2 decimal places and a dollar sign
-      priceText.textContent = `$${price.toFixed(2)}`;
+      priceText.textContent = money(price, currency);
     } else {
       priceText.textContent = "--";
     }
     statusText.textContent = status;
   }
 
+  /**
+   * Updates the instrument details (name, intraday range and volume)
+   * 
+   * @param quote - The latest quote, or null to clear the details
+   */
+  function updateDetails(quote: Quote | null): void {
+    nameText.textContent = quote?.name ?? quote?.symbol ?? "--";
+
+    // Show the range as "open / low – high", skipping values Stooq did not report
+    if (quote && quote.low !== null && quote.high !== null) {
+      const open = quote.open !== null ? `Open ${money(quote.open, quote.currency)} · ` : "";
+      rangeText.textContent = `${open}${money(quote.low, quote.currency)} – ${money(quote.high, quote.currency)}`;
+    } else {
+      rangeText.textContent = "--";
+    }
+
+    volumeText.textContent = quote && quote.volume !== null ? quote.volume.toLocaleString() : "--";
+  }
+
   /**
    * Shows an alert message
    * 
@@ -102,122 +621,936 @@ document.addEventListener("DOMContentLoaded", function() {
   }
 
   /**
-   * Starts the polling process
-   * This function will be called when the start button is clicked
+   * Builds the alert condition from the condition select and target input
+   * 
+   * @param kind - The selected condition option
+   * @param value - The target price, or the percentage for percent conditions
+   * @returns The condition to evaluate
+   */
+  function buildCondition(kind: string, value: number): Condition {
+    switch (kind) {
+      case "below":
+      case "crossAbove":
+      case "crossBelow":
+        return { type: kind, target: value };
+      case "percentUp":
+        return { type: "percentChange", from: "arm", percent: value };
+      case "percentDown":
+        return { type: "percentChange", from: "arm", percent: -value };
+      case "costUp":
+        return { type: "percentChange", from: "cost", percent: value };
+      case "costDown":
+        return { type: "percentChange", from: "cost", percent: -value };
+      default:
+        return { type: "above", target: value };
+    }
+  }
+
+  /**
+   * Updates the target label to match the selected condition
+   */
+  function updateTargetLabel(): void {
+    const isPercent = conditionSelect.value.startsWith("percent") || conditionSelect.value.startsWith("cost");
+    targetLabel.textContent = isPercent ? "Change (%)" : "Target Price";
+  }
+
+  /**
+   * Returns the condition an alert is evaluated with
+   * 
+   * @param config - The alert's configuration
+   * @returns The explicit condition, or the one implied by target and direction
+   */
+  function conditionOf(config: Alert["config"]): Condition {
+    return config.condition ?? { type: config.direction ?? "above", target: config.target ?? 0 };
+  }
+
+  /**
+   * Describes what an alert watches for, with the currency of its levels if it has one
+   * 
+   * @param config - The alert's configuration
+   * @returns E.g., "at or above 200.00 (in EUR)"
    */
-  function startPolling(): void {
+  function describeAlert(config: Alert["config"]): string {
+    const description = describeCondition(conditionOf(config));
+    return config.currency !== undefined ? `${description} (in ${config.currency})` : description;
+  }
+
+  /**
+   * Renders the alert table
+   * 
+   * @param alerts - The alerts to show
+   */
+  function renderAlerts(alerts: Alert[]): void {
+    alertsBody.replaceChildren();
+
+    if (alerts.length === 0) {
+      const row = alertsBody.insertRow();
+      const cell = row.insertCell();
+      cell.colSpan = 6;
+      cell.className = "empty";
+      cell.textContent = "No alerts yet";
+      return;
+    }
+
+    for (const alert of alerts) {
+      const row = alertsBody.insertRow();
+      row.className = `status-${alert.state}${alert.id === selectedAlertId ? " selected" : ""}`;
+      row.dataset.id = alert.id;
+      row.addEventListener("click", () => selectAlert(alert));
+
+      row.insertCell().textContent = alert.config.symbol;
+      row.insertCell().textContent = describeAlert(alert.config);
+      row.insertCell().textContent = alert.lastQuote ? money(alert.lastQuote.close, alert.lastQuote.currency) : "--";
+      const stateCell = row.insertCell();
+      stateCell.textContent = describeState(alert);
+      stateCell.title = describeLifecycle(alert);
+      row.insertCell().textContent = alert.triggeredAt ? new Date(alert.triggeredAt).toLocaleString() : "--";
+
+      // Pause/resume (or re-arm a triggered or expired alert), snooze and delete buttons
+      const actions = row.insertCell();
+      const toggle = document.createElement("button");
+      toggle.textContent = alert.status === "active" ? "Pause" : alert.status === "paused" ? "Resume" : "Re-arm";
+      toggle.addEventListener("click", (event) => {
+        event.stopPropagation();
+        const status = alert.status === "active" ? "paused" : "active";
+        runAction(() => api(`/api/alerts/${alert.id}`, { method: "PATCH", body: { status } }));
+      });
+      actions.append(toggle);
+
+      if (alert.status === "active") {
+        const snooze = document.createElement("button");
+        snooze.textContent = alert.state === "snoozed" ? "Wake" : "Snooze";
+        snooze.title = alert.state === "snoozed" ? "Check the alert again now" : "Do not check the alert for an hour";
+        snooze.addEventListener("click", (event) => {
+          event.stopPropagation();
+          const snoozedUntil = alert.state === "snoozed" ? null : new Date(Date.now() + SNOOZE_MS).toISOString();
+          runAction(() => api(`/api/alerts/${alert.id}`, { method: "PATCH", body: { snoozedUntil } }));
+        });
+        actions.append(snooze);
+      }
+
+      const remove = document.createElement("button");
+      remove.textContent = "Delete";
+      remove.className = "danger";
+      remove.addEventListener("click", (event) => {
+        event.stopPropagation();
+        if (alert.id === selectedAlertId) {
+          selectedAlertId = null;
+        }
+        runAction(() => api(`/api/alerts/${alert.id}`, { method: "DELETE" }));
+      });
+
+      actions.append(remove);
+    }
+  }
+
+  /**
+   * Describes where an alert is in its lifecycle for the status column
+   * 
+   * @param alert - The alert
+   * @returns E.g., "cooldown (fired 2×)" or "snoozed until 14:30"
+   */
+  function describeState(alert: Alert): string {
+    if (alert.state === "snoozed" && alert.snoozedUntil !== undefined) {
+      return `snoozed until ${new Date(alert.snoozedUntil).toLocaleTimeString()}`;
+    }
+    const fired = alert.config.recurring && alert.triggerCount ? ` (fired ${alert.triggerCount}×)` : "";
+    return `${alert.state}${fired}`;
+  }
+
+  /**
+   * Describes an alert's lifecycle options, e.g. for a tooltip
+   * 
+   * @param alert - The alert
+   * @returns E.g., "Recurring · cooldown 15 min · re-arm 1% · max 3 · expires 31/03/2025, 16:00:00"
+   */
+  function describeLifecycle(alert: Alert): string {
+    const { recurring, cooldownMs, rearmPercent, maxTriggers, expiresAt } = alert.config;
+    return [
+      recurring ? "Recurring" : "Once",
+      ...(recurring && cooldownMs !== undefined ? [`cooldown ${cooldownMs / 60_000} min`] : []),
+      ...(recurring && rearmPercent !== undefined ? [`re-arm ${rearmPercent}%`] : []),
+      ...(recurring && maxTriggers !== undefined ? [`max ${maxTriggers}`] : []),
+      ...(expiresAt !== undefined ? [`expires ${new Date(expiresAt).toLocaleString()}`] : []),
+    ].join(" · ");
+  }
+
+  /**
+   * Renders the holdings table
+   * 
+   * @param holdings - The open positions to show
+   */
+  function renderHoldings(holdings: Holding[]): void {
+    holdingsBody.replaceChildren();
+
+    if (holdings.length === 0) {
+      const row = holdingsBody.insertRow();
+      const cell = row.insertCell();
+      cell.colSpan = 7;
+      cell.className = "empty";
+      cell.textContent = "No holdings";
+      return;
+    }
+
+    for (const holding of holdings) {
+      const amount = (value: number | null): string => (value === null ? "--" : money(value, holding.currency));
+      const row = holdingsBody.insertRow();
+      row.insertCell().textContent = `${holding.symbol} (${holding.currency})`;
+      row.insertCell().textContent = String(holding.quantity);
+      row.insertCell().textContent = amount(holding.averageCost);
+      row.insertCell().textContent = amount(holding.marketValue);
+
+      const pnl = row.insertCell();
+      const percent = holding.unrealizedPercent !== null ? ` (${holding.unrealizedPercent.toFixed(1)}%)` : "";
+      pnl.textContent = `${amount(holding.unrealizedPnl)}${percent}`;
+      pnl.className = (holding.unrealizedPnl ?? 0) >= 0 ? "gain" : "loss";
+
+      const day = row.insertCell();
+      day.textContent = amount(holding.dayChange);
+      day.className = (holding.dayChange ?? 0) >= 0 ? "gain" : "loss";
+
+      row.insertCell().textContent = holding.allocation !== null ? `${holding.allocation.toFixed(1)}%` : "--";
+    }
+  }
+
+  /**
+   * Revalues the holdings in a symbol at a new price
+   * Allocation is left as is until the next refresh
+   * 
+   * @param quote - The new quote
+   */
+  function revalueHoldings(quote: Quote): void {
+    for (const holding of holdings) {
+      if (holding.symbol !== quote.symbol.toLowerCase()) {
+        continue;
+      }
+      holding.quote = quote;
+      holding.marketValue = quote.close * holding.quantity;
+      holding.unrealizedPnl = holding.marketValue - holding.costBasis;
+      holding.unrealizedPercent = holding.costBasis > 0 ? (holding.unrealizedPnl / holding.costBasis) * 100 : null;
+      if (holding.previousClose !== null) {
+        holding.dayChange = (quote.close - holding.previousClose) * holding.quantity;
+      }
+    }
+  }
+
+  /**
+   * Returns the selected watchlist, if any
+   */
+  function selectedWatchlist(): Watchlist | undefined {
+    return watchlists.find((watchlist) => watchlist.id === selectedWatchlistId);
+  }
+
+  /**
+   * Renders the watchlist picker and the selected watchlist's table
+   * 
+   * Each row shows the last price, the change from the previous close, the
+   * time of the quote and a status badge. Rows of symbols with a fired alert
+   * are highlighted.
+   */
+  function renderWatchlist(): void {
+    watchlistSelect.replaceChildren(
+      ...watchlists.map((watchlist) => new Option(watchlist.name, watchlist.id, false, watchlist.id === selectedWatchlistId))
+    );
+    const watchlist = selectedWatchlist();
+    moveWatchlistBtn.disabled = watchlist === undefined || watchlists[0] === watchlist;
+    deleteWatchlistBtn.disabled = watchlist === undefined;
+    watchAddBtn.disabled = watchlist === undefined;
+
+    watchlistBody.replaceChildren();
+
+    if (watchlist === undefined || watchRows.length === 0) {
+      const row = watchlistBody.insertRow();
+      const cell = row.insertCell();
+      cell.colSpan = 7;
+      cell.className = "empty";
+      cell.textContent = watchlist === undefined ? "Create a watchlist to follow symbols" : "No symbols yet";
+      return;
+    }
+
+    // Symbols with an alert that has fired and not been re-armed
+    const fired = new Set(
+      alerts
+        .filter((alert) => alert.state === "triggered" || alert.state === "cooldown")
+        .map((alert) => alert.config.symbol.toLowerCase())
+    );
+
+    const signed = (value: number, text: string): string => `${value >= 0 ? "+" : ""}${text}`;
+
+    watchRows.forEach((watchRow, index) => {
+      const row = watchlistBody.insertRow();
+      const direction = (watchRow.change ?? 0) >= 0 ? "gain" : "loss";
+      if (fired.has(watchRow.symbol.toLowerCase())) {
+        row.className = "status-triggered";
+      }
+
+      const symbolCell = row.insertCell();
+      symbolCell.textContent = watchRow.quote?.name ? `${watchRow.symbol} · ${watchRow.quote.name}` : watchRow.symbol;
+      symbolCell.className = "chartable";
+      symbolCell.title = "Show on the chart";
+      symbolCell.addEventListener("click", () => showChart(watchRow.symbol));
+      row.insertCell().textContent = watchRow.quote ? money(watchRow.quote.close, watchRow.currency) : "--";
+
+      const change = row.insertCell();
+      change.textContent = watchRow.change !== null ? signed(watchRow.change, money(watchRow.change, watchRow.currency)) : "--";
+      change.className = direction;
+
+      const percent = row.insertCell();
+      percent.textContent =
+        watchRow.changePercent !== null ? `${signed(watchRow.changePercent, watchRow.changePercent.toFixed(2))}%` : "--";
+      percent.className = direction;
+
+      row.insertCell().textContent = watchRow.quote ? `${watchRow.quote.date} ${watchRow.quote.time}` : "--";
+
+      // Status badge: an error or a fired alert wins over the market state
+      const badge = document.createElement("span");
+      if (watchRow.error !== null) {
+        badge.className = "badge error";
+        badge.textContent =
+          watchRow.code === "SYMBOL_NOT_FOUND" ? "Unknown symbol" : watchRow.code === "NO_DATA" ? "No data" : "Error";
+        badge.title = watchRow.error;
+      } else if (fired.has(watchRow.symbol.toLowerCase())) {
+        badge.className = "badge triggered";
+        badge.textContent = "Alert fired";
+      } else if (watchRow.market.open) {
+        badge.className = "badge open";
+        badge.textContent = "Open";
+      } else {
+        badge.className = "badge closed";
+        badge.textContent = "Closed";
+        badge.title = watchRow.market.nextOpen ? `Opens ${new Date(watchRow.market.nextOpen).toLocaleString()}` : "";
+      }
+      row.insertCell().append(badge);
+
+      // Reorder, create an alert for, and remove the symbol
+      const actions = row.insertCell();
+      const up = document.createElement("button");
+      up.textContent = "↑";
+      up.disabled = index === 0;
+      up.addEventListener("click", () => moveSymbol(index, index - 1));
+
+      const down = document.createElement("button");
+      down.textContent = "↓";
+      down.disabled = index === watchRows.length - 1;
+      down.addEventListener("click", () => moveSymbol(index, index + 1));
+
+      const alertBtn = document.createElement("button");
+      alertBtn.textContent = "Alert";
+      alertBtn.addEventListener("click", () => {
+        symbolInput.value = watchRow.symbol;
+        if (watchRow.quote) {
+          // The target is in the symbol's own currency
+          targetInput.value = watchRow.quote.close.toFixed(2);
+          alertCurrencySelect.value = "";
+        }
+        targetInput.focus();
+        targetInput.scrollIntoView({ behavior: "smooth", block: "center" });
+      });
+
+      const remove = document.createElement("button");
+      remove.textContent = "✕";
+      remove.className = "danger";
+      remove.addEventListener("click", () => {
+        updateSymbols(watchlist.symbols.filter((symbol) => symbol !== watchRow.symbol.toLowerCase()));
+      });
+
+      actions.append(up, down, alertBtn, remove);
+    });
+  }
+
+  /**
+   * Applies a live quote to the watchlist rows of its symbol
+   * 
+   * @param quote - The new quote
+   */
+  function updateWatchRows(quote: Quote): void {
+    for (const watchRow of watchRows) {
+      if (watchRow.symbol.toLowerCase() !== quote.symbol.toLowerCase()) {
+        continue;
+      }
+      watchRow.quote = quote;
+      watchRow.error = null;
+      watchRow.code = null;
+      if (watchRow.previousClose !== null) {
+        watchRow.change = quote.close - watchRow.previousClose;
+        watchRow.changePercent = (watchRow.change / watchRow.previousClose) * 100;
+      }
+    }
+  }
+
+  /**
+   * Loads the watchlists and the rows of the selected one
+   * Falls back to the first watchlist if the remembered one is gone
+   */
+  async function loadWatchlists(): Promise<void> {
+    ({ watchlists } = await api<{ watchlists: Watchlist[] }>("/api/watchlists"));
+
+    const watchlist = selectedWatchlist() ?? watchlists[0];
+    selectedWatchlistId = watchlist?.id ?? null;
+    if (watchlist === undefined) {
+      watchRows = [];
+      return;
+    }
+
+    localStorage.setItem(WATCHLIST_KEY, watchlist.id);
+    ({ rows: watchRows } = await api<{ rows: WatchRow[] }>(`/api/watchlists/${watchlist.id}/quotes`));
+  }
+
+  /**
+   * Saves a new symbol list for the selected watchlist
+   * 
+   * @param symbols - The symbols in their new order
+   */
+  function updateSymbols(symbols: string[]): void {
+    const watchlist = selectedWatchlist();
+    if (watchlist === undefined) {
+      return;
+    }
+    runAction(() => api(`/api/watchlists/${watchlist.id}`, { method: "PATCH", body: { symbols } }));
+  }
+
+  /**
+   * Moves a symbol of the selected watchlist to another position
+   * 
+   * @param from - The symbol's current index
+   * @param to - The index to move it to
+   */
+  function moveSymbol(from: number, to: number): void {
+    const symbols = [...(selectedWatchlist()?.symbols ?? [])];
+    const [symbol] = symbols.splice(from, 1);
+    if (symbol === undefined) {
+      return;
+    }
+    symbols.splice(to, 0, symbol);
+    updateSymbols(symbols);
+  }
+
+  /**
+   * Records a stream tick for the chart, skipping repeats of the same quote
+   * 
+   * @param quote - The quote from the stream
+   */
+  function recordTick(quote: Quote): void {
+    const key = quote.symbol.toLowerCase();
+    const ticks = sessionTicks.get(key) ?? [];
+    if (ticks[ticks.length - 1]?.timestamp === quote.timestamp) {
+      return;
+    }
+
+    ticks.push(quote);
+    if (ticks.length > MAX_TICKS) {
+      ticks.shift();
+    }
+    sessionTicks.set(key, ticks);
+  }
+
+  /**
+   * Switches the chart to a symbol and loads a year of its daily history
+   * 
+   * @param symbol - The symbol to chart
+   */
+  async function showChart(symbol: string): Promise<void> {
+    const key = symbol.toLowerCase();
+    if (key === chartSymbol) {
+      return;
+    }
+
+    chartSymbol = key;
+    chartBars = [];
+    chartTitle.textContent = `Chart · ${key}`;
+    updateChart();
+
+    // A year back from the latest quote, which may be a replayed day rather than today
+    const latest = sessionTicks.get(key)?.slice(-1)[0]?.date ?? new Date().toISOString().slice(0, 10);
+    const from = new Date(`${latest}T00:00:00Z`);
+    from.setUTCFullYear(from.getUTCFullYear() - 1);
+
+    try {
+      const { bars } = await api<{ bars: Bar[] }>(
+        `/api/history?symbol=${encodeURIComponent(key)}&from=${from.toISOString().slice(0, 10)}`
+      );
+      if (chartSymbol === key) {
+        chartBars = bars;
+        updateChart();
+      }
+    } catch (error) {
+      console.error("Error fetching history:", error);
+    }
+  }
+
+  /**
+   * Redraws the chart from the daily closes, the session's ticks, the
+   * levels of the symbol's alerts and where those alerts fired
+   */
+  function updateChart(): void {
+    if (chartSymbol === null) {
+      return;
+    }
+    const symbol = chartSymbol;
+
+    // Daily closes up to the first day with ticks, then the ticks themselves
+    const ticks = sessionTicks.get(symbol) ?? [];
+    const firstTickDate = ticks[0]?.date ?? "9999-12-31";
+    const points: ChartPoint[] = [
+      ...chartBars
+        .filter((bar) => bar.date < firstTickDate)
+        .map((bar) => ({ time: Date.parse(`${bar.date}T00:00:00Z`), price: bar.close })),
+      ...ticks.map((quote) => ({ time: Date.parse(quote.timestamp), price: quote.close })),
+    ];
+
+    // The chart is in the symbol's own currency, so levels in another currency are left out
+    const currency = currencyOf(symbol);
+    chart.formatPrice = (price) => money(price, currency);
+
+    const symbolAlerts = alerts.filter((alert) => alert.config.symbol.toLowerCase() === symbol);
+    const levels = symbolAlerts
+      .filter((alert) => alert.config.currency === undefined || alert.config.currency === currency)
+      .flatMap((alert) =>
+        conditionLevels(conditionOf(alert.config)).map((price) => ({ price, label: describeAlert(alert.config) }))
+      );
+
+    const markers = triggers
+      .filter((trigger) => trigger.symbol.toLowerCase() === symbol)
+      .map((trigger) => {
+        const alert = symbolAlerts.find((a) => a.id === trigger.alertId);
+        return {
+          time: Date.parse(trigger.quoteTimestamp ?? trigger.firedAt),
+          price: trigger.price,
+          label: `Alert fired${alert ? `: ${describeAlert(alert.config)}` : ""}`,
+        };
+      });
+
+    chart.setData(points, levels, markers);
+  }
+
+  /**
+   * Shows the quote details of an alert's symbol
+   * 
+   * @param alert - The alert to select
+   */
+  function selectAlert(alert: Alert): void {
+    selectedAlertId = alert.id;
+    showChart(alert.config.symbol);
+    updateUI(alert.lastQuote?.close ?? null, alert.lastQuote?.currency, statusText.textContent ?? "");
+    updateDetails(alert.lastQuote);
+    for (const row of Array.from(alertsBody.rows)) {
+      row.classList.toggle("selected", row.dataset.id === alert.id);
+    }
+  }
+
+  /**
+   * Renders the alert table and the details of the selected alert
+   */
+  function render(): void {
+    renderAlerts(alerts);
+    renderHoldings(holdings);
+    renderWatchlist();
+
+    const selected = alerts.find((alert) => alert.id === selectedAlertId) ?? alerts[0] ?? null;
+    selectedAlertId = selected?.id ?? null;
+
+    // Chart the selected alert's symbol until the user picks another one
+    if (chartSymbol === null && selected !== null) {
+      showChart(selected.config.symbol);
+    }
+    updateChart();
+    updateUI(selected?.lastQuote?.close ?? null, selected?.lastQuote?.currency, statusText.textContent ?? "");
+    updateDetails(selected?.lastQuote ?? null);
+  }
+
+  /**
+   * Fetches the alert list, updates the page and (re)subscribes the stream
+   */
+  async function refresh(): Promise<void> {
+    try {
+      ({ alerts } = await api<{ alerts: Alert[] }>("/api/alerts"));
+
+      // Holdings are optional; a failed valuation must not hide the alerts
+      const portfolio = await api<{ positions: Holding[] }>("/api/portfolio").catch((error) => {
+        console.error("Error fetching portfolio:", error);
+        return { positions: holdings };
+      });
+      holdings = portfolio.positions.filter((position) => position.quantity > 0);
+
+      // Likewise for the watchlist quotes and the trigger markers
+      await loadWatchlists().catch((error) => {
+        console.error("Error fetching watchlists:", error);
+      });
+      ({ triggers } = await api<{ triggers: Trigger[] }>("/api/triggers").catch((error) => {
+        console.error("Error fetching trigger history:", error);
+        return { triggers };
+      }));
+      await loadRates().catch((error) => {
+        console.error("Error fetching exchange rates:", error);
+      });
+
+      render();
+      connectStream();
+    } catch (error) {
+      // Handle errors (server down, etc.)
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      statusText.textContent = `Error: ${errorMessage}`;
+      console.error("Error fetching alerts:", error);
+    }
+  }
+
+  /**
+   * Subscribes to live prices for the alerts', holdings' and watchlist's symbols
+   * The stream is only reopened when the set of symbols changes
+   */
+  function connectStream(): void {
+    const symbols = [
+      ...new Set([
+        ...alerts.map((alert) => alert.config.symbol.toLowerCase()),
+        ...holdings.map((holding) => holding.symbol),
+        ...(selectedWatchlist()?.symbols ?? []),
+      ]),
+    ].sort().join(",");
+    if (stream !== null && symbols === streamSymbols) {
+      return;
+    }
+
+    stream?.close();
+    streamSymbols = symbols;
+    stream = new EventSource(`/api/stream?symbols=${encodeURIComponent(symbols)}`);
+
+    // EventSource reconnects by itself and sends Last-Event-ID, so missed events are replayed
+    stream.addEventListener("open", () => {
+      statusText.textContent = "Live";
+    });
+
+    stream.addEventListener("error", () => {
+      statusText.textContent = "Connection lost, reconnecting...";
+    });
+
+    stream.addEventListener("price", (event) => {
+      const quote: Quote = JSON.parse((event as MessageEvent).data);
+      for (const alert of alerts) {
+        if (alert.config.symbol.toLowerCase() === quote.symbol.toLowerCase()) {
+          alert.lastQuote = quote;
+        }
+      }
+      revalueHoldings(quote);
+      updateWatchRows(quote);
+      recordTick(quote);
+      statusText.textContent = `Live · last update ${quote.date} ${quote.time}`;
+      render();
+    });
+
+    stream.addEventListener("trigger", (event) => {
+      const { alert, quote }: TriggerEvent = JSON.parse((event as MessageEvent).data);
+      recordTick(quote);
+      const description = describeAlert(alert.config);
+      showAlert(`🚨 ALERT: ${alert.config.symbol} price (${money(quote.close, quote.currency)}) is ${description}!`);
+      refresh();
+    });
+  }
+
+  /**
+   * Runs an API action and refreshes the list afterwards
+   * 
+   * @param action - The API call to make
+   */
+  async function runAction(action: () => Promise<unknown>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+    await refresh();
+  }
+
+  /**
+   * Creates an alert from the form
+   * This function will be called when the create button is clicked
+   */
+  async function createAlert(): Promise<void> {
     // Get values from the input fields
-    const symbol = symbolInput.value.trim();
+    const entered = symbolInput.value.trim();
     const target = parseFloat(targetInput.value);
-    const direction = directionSelect.value as "above" | "below";
-    const intervalSeconds = parseFloat(intervalInput.value) || 10;
+    const kind = conditionSelect.value;
+    const intervalSeconds = parseFloat(intervalInput.value) || defaultIntervalSeconds();
 
     // Validate inputs
-    if (!symbol) {
+    if (!entered) {
       alert("Please enter a stock symbol");
       return;
     }
 
     if (isNaN(target) || target <= 0) {
-      alert("Please enter a valid target price (greater than 0)");
+      alert("Please enter a valid target (greater than 0)");
       return;
     }
 
-    if (intervalSeconds <= 0) {
+    if (!(intervalSeconds > 0)) {
       alert("Please enter a valid polling interval (greater than 0)");
       return;
     }
 
-    // Convert interval from seconds to milliseconds
-    const intervalMs = intervalSeconds * 1000;
+    // Catch typos such as a missing exchange suffix before the alert polls in vain
+    const symbol = await checkSymbol(entered);
+    if (symbol === null) {
+      symbolInput.focus();
+      return;
+    }
+    symbolInput.value = symbol;
 
-    // Update UI to show we're starting
-    updateUI(null, "Starting...");
-    hideAlert();
+    // Plain above/below alerts keep the simple target/direction form
+    const condition = buildCondition(kind, target);
+    const currency = alertCurrencySelect.value ? { currency: alertCurrencySelect.value } : {};
+    const options = { intervalMs: intervalSeconds * 1000, ...currency, ...lifecycleOptions() };
+    const body = condition.type === "above" || condition.type === "below"
+      ? { symbol, target, direction: condition.type, ...options }
+      : { symbol, condition, ...options };
 
-    // Disable the start button and enable the stop button
-    startBtn.disabled = true;
-    stopBtn.disabled = false;
+    hideAlert();
+    runAction(async () => {
+      const created = await api<Alert>("/api/alerts", { method: "POST", body });
+      selectedAlertId = created.id;
+    });
+  }
 
-    // Store the configuration for use in the polling function
-    let isActive = true;
+  /**
+   * Reads the lifecycle options of a new alert from the form
+   * 
+   * Empty fields are left out, so the server's defaults apply.
+   * 
+   * @returns The lifecycle fields of the alert configuration
+   */
+  function lifecycleOptions(): Partial<Alert["config"]> {
+    const options: Partial<Alert["config"]> = {};
 
-    /**
-     * Polling function that fetches the quote and checks the threshold
-     * This function will be called repeatedly at the specified interval
-     */
-    async function poll(): Promise<void> {
-      // Check if polling has been stopped
-      if (!isActive) {
-        return;
+    if (repeatSelect.value === "recurring") {
+      options.recurring = true;
+      if (cooldownInput.value) {
+        options.cooldownMs = parseFloat(cooldownInput.value) * 60_000;
       }
+      if (rearmInput.value) {
+        options.rearmPercent = parseFloat(rearmInput.value);
+      }
+      if (maxTriggersInput.value) {
+        options.maxTriggers = parseInt(maxTriggersInput.value, 10);
+      }
+    }
 
-      try {
-        // Fetch the current quote
-        const quote = await fetchQuote(symbol);
-        const currentPrice = quote.close;
-
-        // Update the UI with the current price
-        updateUI(currentPrice, `Polling... Last updated: ${quote.date} ${quote.time}`);
-
-        // Check if the price has crossed the threshold
-        let thresholdCrossed = false;
-
-        if (direction === "above") {
-          // Alert when price is greater than or equal to target
-          thresholdCrossed = currentPrice >= target;
-        } else {
-          // Alert when price is less than or equal to target
-          thresholdCrossed = currentPrice <= target;
-        }
+    // datetime-local values are in the browser's time zone
+    if (expiresInput.value) {
+      options.expiresAt = new Date(expiresInput.value).toISOString();
+    }
 
-        // If threshold is crossed, trigger alert and stop polling
-        if (thresholdCrossed) {
-          const message = `🚨 ALERT: ${quote.symbol} price ($${currentPrice.toFixed(2)}) has crossed ${direction} target ($${target.toFixed(2)})!`;
-          showAlert(message);
-          updateUI(currentPrice, "Alert triggered!");
-          
-          // Stop polling
-          stopPolling();
-        }
-      } catch (error) {
-        // Handle errors (network issues, invalid symbol, etc.)
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        updateUI(null, `Error: ${errorMessage}`);
-        console.error("Error fetching quote:", error);
+    return options;
+  }
+
+  /**
+   * Adds the symbol in the watchlist input to the selected watchlist
+   */
+  async function addWatchSymbol(): Promise<void> {
+    const entered = watchSymbolInput.value.trim().toLowerCase();
+    const watchlist = selectedWatchlist();
+    if (!entered || watchlist === undefined) {
+      return;
+    }
+
+    const symbol = await checkSymbol(entered);
+    if (symbol === null) {
+      watchSymbolInput.focus();
+      return;
+    }
+
+    watchSymbolInput.value = "";
+    updateSymbols([...watchlist.symbols, symbol]);
+  }
+
+  /**
+   * Creates a watchlist named by the user and selects it
+   */
+  function createWatchlist(): void {
+    const name = prompt("Watchlist name");
+    if (!name?.trim()) {
+      return;
+    }
+
+    runAction(async () => {
+      const created = await api<Watchlist>("/api/watchlists", { method: "POST", body: { name } });
+      selectedWatchlistId = created.id;
+    });
+  }
+
+  /**
+   * Moves the selected watchlist one place to the front
+   */
+  function moveWatchlist(): void {
+    const ids = watchlists.map((watchlist) => watchlist.id);
+    const index = selectedWatchlistId !== null ? ids.indexOf(selectedWatchlistId) : -1;
+    if (index <= 0) {
+      return;
+    }
+
+    ids.splice(index - 1, 0, ...ids.splice(index, 1));
+    runAction(() => api("/api/watchlists/order", { method: "PUT", body: { ids } }));
+  }
+
+  /**
+   * Deletes the selected watchlist after confirmation
+   */
+  function deleteWatchlist(): void {
+    const watchlist = selectedWatchlist();
+    if (watchlist === undefined || !confirm(`Delete watchlist "${watchlist.name}"?`)) {
+      return;
+    }
+
+    selectedWatchlistId = null;
+    runAction(() => api(`/api/watchlists/${watchlist.id}`, { method: "DELETE" }));
+  }
+
+  /**
+   * Hides the dashboard and shows the sign-in form
+   * 
+   * @param setup - Whether to create the admin account instead of signing in
+   */
+  function showLogin(setup: boolean): void {
+    stream?.close();
+    stream = null;
+    streamSymbols = "";
+
+    setupRequired = setup;
+    loginTitle.textContent = setup ? "Create the admin account" : "Sign in";
+    loginBtn.textContent = setup ? "Create account" : "Sign in";
+    passwordInput.autocomplete = setup ? "new-password" : "current-password";
+    document.body.classList.add("signed-out");
+    loginForm.hidden = false;
+  }
+
+  /**
+   * Loads the server-side settings and fills in the form defaults they set
+   */
+  async function loadServerConfig(): Promise<void> {
+    try {
+      serverConfig = await api<ServerConfig>("/api/config");
+      if (intervalInput.value === "") {
+        intervalInput.value = String(defaultIntervalSeconds());
       }
+      intervalInput.placeholder = String(defaultIntervalSeconds());
+    } catch (error) {
+      console.error("Error loading settings:", error);
     }
+  }
 
-    // Start polling immediately (don't wait for the first interval)
-    poll();
+  /**
+   * The polling interval of new alerts, in seconds (NaN until the settings are loaded)
+   */
+  function defaultIntervalSeconds(): number {
+    return serverConfig !== null ? serverConfig.alerts.defaultIntervalMs / 1000 : NaN;
+  }
 
-    // Set up the interval to poll at the specified interval
-    pollingIntervalId = window.setInterval(poll, intervalMs);
+  /**
+   * Shows the dashboard for a signed-in user and loads their data
+   * 
+   * @param account - The signed-in user
+   */
+  function showDashboard(account: Account): void {
+    userText.textContent = account.role === "admin" ? `${account.username} (admin)` : account.username;
+    baseCurrency = account.baseCurrency ?? null;
+    currencySelect.value = baseCurrency ?? "";
+    loginForm.hidden = true;
+    loginError.textContent = "";
+    passwordInput.value = "";
+    document.body.classList.remove("signed-out");
+    loadServerConfig();
+    refresh();
   }
 
   /**
-   * Stops the polling process
-   * This function will be called when the stop button is clicked
+   * Signs in (or creates the admin account) with the form's credentials
    */
-  function stopPolling(): void {
-    // Check if there's an active polling interval
-    if (pollingIntervalId !== null) {
-      // Clear the interval to stop polling
-      clearInterval(pollingIntervalId);
-      pollingIntervalId = null;
+  async function signIn(event: SubmitEvent): Promise<void> {
+    event.preventDefault();
+    loginError.textContent = "";
+    loginBtn.disabled = true;
+
+    try {
+      const response = await fetch(setupRequired ? "/api/auth/setup" : "/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: usernameInput.value.trim(), password: passwordInput.value }),
+      });
+      const payload = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        loginError.textContent = payload?.message ?? payload?.error ?? response.statusText;
+        return;
+      }
+      showDashboard(payload as Account);
+    } catch (error) {
+      loginError.textContent = error instanceof Error ? error.message : String(error);
+    } finally {
+      loginBtn.disabled = false;
     }
+  }
 
-    // Update UI to show we've stopped
-    updateUI(null, "Stopped");
-    hideAlert();
+  /**
+   * Signs out and shows the sign-in form
+   */
+  async function signOut(): Promise<void> {
+    await fetch("/api/auth/logout", { method: "POST" }).catch((error) => {
+      console.error("Error signing out:", error);
+    });
+    alerts = [];
+    watchlists = [];
+    holdings = [];
+    showLogin(false);
+  }
 
-    // Enable the start button and disable the stop button
-    startBtn.disabled = false;
-    stopBtn.disabled = true;
+  // Currencies prices can be shown in and alert levels can be set in
+  for (const currency of CURRENCIES) {
+    currencySelect.add(new Option(currency, currency));
+    alertCurrencySelect.add(new Option(currency, currency));
   }
 
-  // Set up event listeners for the buttons
-  startBtn.addEventListener("click", startPolling);
-  stopBtn.addEventListener("click", stopPolling);
-});
+  // Set up event listeners
+  loginForm.addEventListener("submit", signIn);
+  currencySelect.addEventListener("change", changeBaseCurrency);
+  symbolInput.addEventListener("input", () => suggestSymbols(symbolInput));
+  watchSymbolInput.addEventListener("input", () => suggestSymbols(watchSymbolInput));
+  logoutBtn.addEventListener("click", signOut);
+  createBtn.addEventListener("click", createAlert);
+  conditionSelect.addEventListener("change", updateTargetLabel);
+  repeatSelect.addEventListener("change", () => {
+    recurringOptions.hidden = repeatSelect.value !== "recurring";
+  });
+  watchlistSelect.addEventListener("change", () => {
+    selectedWatchlistId = watchlistSelect.value;
+    refresh();
+  });
+  newWatchlistBtn.addEventListener("click", createWatchlist);
+  chartRanges.addEventListener("click", (event) => {
+    const button = (event.target as HTMLElement).closest("button");
+    if (button === null) {
+      return;
+    }
+    for (const other of Array.from(chartRanges.querySelectorAll("button"))) {
+      other.classList.toggle("active", other === button);
+    }
+    chart.setRange(button.dataset.range as ChartRange);
+  });
+  moveWatchlistBtn.addEventListener("click", moveWatchlist);
+  deleteWatchlistBtn.addEventListener("click", deleteWatchlist);
+  watchAddBtn.addEventListener("click", addWatchSymbol);
+  watchSymbolInput.addEventListener("keydown", (event) => {
+    if (event.key === "Enter") {
+      addWatchSymbol();
+    }
+  });
 
+  // Load the alerts once signed in; the stream keeps the page in sync from then on
+  // Without a session, api() has already shown the sign-in form
+  api<Account>("/api/auth/me")
+    .then(showDashboard)
+    .catch((error) => {
+      console.error("Error checking the session:", error);
+      if (loginForm.hidden) {
+        showLogin(false);
+        loginError.textContent = error instanceof Error ? error.message : String(error);
+      }
+    });
+});
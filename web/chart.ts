@@ -0,0 +1,359 @@
+/**
+ * Price chart for the dashboard
+ *
+ * A dependency-free line chart drawn on a canvas. It plots a price series,
+ * horizontal lines at alert levels and markers where alerts fired. The mouse
+ * wheel zooms around the pointer, a double click resets the zoom, and a
+ * tooltip shows the point nearest to the pointer.
+ */
+
+/**
+ * A point of the price series
+ *
+ * @property time - Milliseconds since the epoch
+ * @property price - The price at that time
+ */
+export type ChartPoint = {
+  time: number;
+  price: number;
+};
+
+/**
+ * A horizontal line drawn across the chart (e.g., an alert target)
+ */
+export type ChartLevel = {
+  price: number;
+  label: string;
+};
+
+/**
+ * A marker drawn at a point in time (e.g., where an alert fired)
+ */
+export type ChartMarker = {
+  time: number;
+  price: number;
+  label: string;
+};
+
+/**
+ * Time range shown by the chart, ending at the latest point
+ */
+export type ChartRange = "1D" | "1M" | "6M" | "1Y";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Length of each time range in milliseconds
+ */
+export const CHART_RANGES: Record<ChartRange, number> = {
+  "1D": DAY_MS,
+  "1M": 31 * DAY_MS,
+  "6M": 183 * DAY_MS,
+  "1Y": 366 * DAY_MS,
+};
+
+/**
+ * Narrowest time span the chart zooms in to
+ */
+const MIN_SPAN_MS = 5 * 60 * 1000;
+
+/**
+ * Space around the plot area in CSS pixels (price labels go on the right)
+ */
+const PADDING = { top: 12, right: 64, bottom: 24, left: 8 };
+
+const COLORS = {
+  line: "#2196F3",
+  grid: "#eee",
+  text: "#777",
+  level: "#ff9800",
+  marker: "#f44336",
+  crosshair: "#bbb",
+};
+
+/**
+ * Canvas line chart with alert levels, trigger markers, zoom and a tooltip
+ */
+export class PriceChart {
+  private points: ChartPoint[] = [];
+  private levels: ChartLevel[] = [];
+  private markers: ChartMarker[] = [];
+  private range: ChartRange = "1M";
+  private zoom: { start: number; end: number } | null = null;
+  private pointer: { x: number; y: number } | null = null;
+  private frame: number | null = null;
+
+  /**
+   * Formats prices in the tooltip (replace to show a currency)
+   */
+  formatPrice: (price: number) => string = (price) => price.toFixed(2);
+
+  /**
+   * @param canvas - The canvas to draw on (sized by CSS)
+   * @param tooltip - An absolutely positioned element next to the canvas
+   */
+  constructor(
+    private readonly canvas: HTMLCanvasElement,
+    private readonly tooltip: HTMLElement
+  ) {
+    canvas.addEventListener("wheel", (event) => this.onWheel(event), { passive: false });
+    canvas.addEventListener("dblclick", () => this.resetZoom());
+    canvas.addEventListener("mousemove", (event) => {
+      this.pointer = { x: event.offsetX, y: event.offsetY };
+      this.scheduleDraw();
+    });
+    canvas.addEventListener("mouseleave", () => {
+      this.pointer = null;
+      this.scheduleDraw();
+    });
+    window.addEventListener("resize", () => this.scheduleDraw());
+  }
+
+  /**
+   * Replaces everything the chart shows
+   *
+   * @param points - The price series (any order)
+   * @param levels - Horizontal lines to draw
+   * @param markers - Markers to draw
+   */
+  setData(points: ChartPoint[], levels: ChartLevel[], markers: ChartMarker[]): void {
+    this.points = [...points].sort((a, b) => a.time - b.time);
+    this.levels = levels;
+    this.markers = markers;
+    this.scheduleDraw();
+  }
+
+  /**
+   * Switches the time range and resets the zoom
+   */
+  setRange(range: ChartRange): void {
+    this.range = range;
+    this.resetZoom();
+  }
+
+  /**
+   * Shows the whole time range again
+   */
+  resetZoom(): void {
+    this.zoom = null;
+    this.scheduleDraw();
+  }
+
+  /**
+   * Returns the time window of the selected range, ending at the latest point
+   */
+  private rangeWindow(): { start: number; end: number } {
+    const end = this.points[this.points.length - 1]?.time ?? Date.now();
+    return { start: end - CHART_RANGES[this.range], end };
+  }
+
+  /**
+   * Zooms the time axis in or out around the pointer, within the selected range
+   */
+  private onWheel(event: WheelEvent): void {
+    event.preventDefault();
+
+    const full = this.rangeWindow();
+    const view = this.zoom ?? full;
+    const width = this.canvas.clientWidth - PADDING.left - PADDING.right;
+    const ratio = Math.min(1, Math.max(0, (event.offsetX - PADDING.left) / width));
+    const anchor = view.start + ratio * (view.end - view.start);
+
+    const factor = event.deltaY > 0 ? 1.25 : 0.8;
+    const span = Math.min(full.end - full.start, Math.max(MIN_SPAN_MS, (view.end - view.start) * factor));
+
+    // Keep the time under the pointer in place, then clamp to the range
+    let start = anchor - ratio * span;
+    start = Math.min(Math.max(start, full.start), full.end - span);
+    this.zoom = span >= full.end - full.start ? null : { start, end: start + span };
+    this.scheduleDraw();
+  }
+
+  /**
+   * Draws on the next animation frame, once however many changes come in
+   */
+  private scheduleDraw(): void {
+    if (this.frame === null) {
+      this.frame = requestAnimationFrame(() => {
+        this.frame = null;
+        this.draw();
+      });
+    }
+  }
+
+  /**
+   * Draws the chart and positions the tooltip
+   */
+  private draw(): void {
+    const ctx = this.canvas.getContext("2d");
+    if (ctx === null) {
+      return;
+    }
+
+    // Match the canvas resolution to its CSS size for crisp lines
+    const scale = window.devicePixelRatio || 1;
+    const width = this.canvas.clientWidth;
+    const height = this.canvas.clientHeight;
+    this.canvas.width = Math.round(width * scale);
+    this.canvas.height = Math.round(height * scale);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.font = "11px sans-serif";
+
+    const { start, end } = this.zoom ?? this.rangeWindow();
+    const visible = this.points.filter((point) => point.time >= start && point.time <= end);
+    const markers = this.markers.filter((marker) => marker.time >= start && marker.time <= end);
+
+    if (visible.length === 0) {
+      this.tooltip.hidden = true;
+      ctx.fillStyle = COLORS.text;
+      ctx.textAlign = "center";
+      ctx.fillText("No price data for this range", width / 2, height / 2);
+      return;
+    }
+
+    // The price axis covers the series, the markers and the alert levels
+    const prices = [...visible.map((p) => p.price), ...markers.map((m) => m.price), ...this.levels.map((l) => l.price)];
+    let low = Math.min(...prices);
+    let high = Math.max(...prices);
+    const margin = (high - low) * 0.05 || Math.abs(high) * 0.01 || 1;
+    low -= margin;
+    high += margin;
+
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const x = (time: number) => PADDING.left + ((time - start) / (end - start || 1)) * plotWidth;
+    const y = (price: number) => PADDING.top + (1 - (price - low) / (high - low)) * plotHeight;
+
+    // Grid with price labels on the right and time labels at the bottom
+    ctx.strokeStyle = COLORS.grid;
+    ctx.fillStyle = COLORS.text;
+    ctx.lineWidth = 1;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    for (let i = 0; i <= 4; i++) {
+      const price = low + ((high - low) * i) / 4;
+      ctx.beginPath();
+      ctx.moveTo(PADDING.left, y(price));
+      ctx.lineTo(PADDING.left + plotWidth, y(price));
+      ctx.stroke();
+      ctx.fillText(price.toFixed(2), PADDING.left + plotWidth + 6, y(price));
+    }
+
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    for (let i = 0; i <= 4; i++) {
+      const time = start + ((end - start) * i) / 4;
+      const labelX = Math.min(Math.max(x(time), 30), width - PADDING.right);
+      ctx.fillText(this.formatTime(time, end - start), labelX, height - PADDING.bottom + 6);
+    }
+
+    // Alert levels as dashed lines
+    ctx.strokeStyle = COLORS.level;
+    ctx.fillStyle = COLORS.level;
+    ctx.setLineDash([6, 4]);
+    ctx.textAlign = "left";
+    ctx.textBaseline = "bottom";
+    for (const level of this.levels) {
+      ctx.beginPath();
+      ctx.moveTo(PADDING.left, y(level.price));
+      ctx.lineTo(PADDING.left + plotWidth, y(level.price));
+      ctx.stroke();
+      ctx.fillText(level.label, PADDING.left + 4, y(level.price) - 2);
+    }
+    ctx.setLineDash([]);
+
+    // The price series
+    ctx.strokeStyle = COLORS.line;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    visible.forEach((point, index) => {
+      if (index === 0) {
+        ctx.moveTo(x(point.time), y(point.price));
+      } else {
+        ctx.lineTo(x(point.time), y(point.price));
+      }
+    });
+    ctx.stroke();
+
+    // Trigger markers as triangles pointing at the price
+    ctx.fillStyle = COLORS.marker;
+    for (const marker of markers) {
+      const mx = x(marker.time);
+      const my = y(marker.price);
+      ctx.beginPath();
+      ctx.moveTo(mx, my);
+      ctx.lineTo(mx - 5, my - 9);
+      ctx.lineTo(mx + 5, my - 9);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    this.drawPointer(ctx, visible, markers, x, y, plotHeight);
+  }
+
+  /**
+   * Draws the crosshair at the point nearest to the pointer and fills the tooltip
+   */
+  private drawPointer(
+    ctx: CanvasRenderingContext2D,
+    visible: ChartPoint[],
+    markers: ChartMarker[],
+    x: (time: number) => number,
+    y: (price: number) => number,
+    plotHeight: number
+  ): void {
+    if (this.pointer === null) {
+      this.tooltip.hidden = true;
+      return;
+    }
+
+    const pointerX = this.pointer.x;
+    const nearest = visible.reduce((best, point) =>
+      Math.abs(x(point.time) - pointerX) < Math.abs(x(best.time) - pointerX) ? point : best
+    );
+    const px = x(nearest.time);
+    const py = y(nearest.price);
+
+    ctx.strokeStyle = COLORS.crosshair;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(px, PADDING.top);
+    ctx.lineTo(px, PADDING.top + plotHeight);
+    ctx.stroke();
+
+    ctx.fillStyle = COLORS.line;
+    ctx.beginPath();
+    ctx.arc(px, py, 3.5, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Mention alerts that fired close to this point
+    const fired = markers.filter((marker) => Math.abs(x(marker.time) - px) <= 6).map((marker) => marker.label);
+
+    this.tooltip.textContent = [
+      new Date(nearest.time).toLocaleString(),
+      this.formatPrice(nearest.price),
+      ...fired,
+    ].join("\n");
+    this.tooltip.hidden = false;
+
+    // Keep the tooltip inside the chart
+    const left = px + 12 + this.tooltip.offsetWidth > this.canvas.clientWidth ? px - 12 - this.tooltip.offsetWidth : px + 12;
+    this.tooltip.style.left = `${Math.max(0, left)}px`;
+    this.tooltip.style.top = `${Math.max(0, py - this.tooltip.offsetHeight / 2)}px`;
+  }
+
+  /**
+   * Formats a time axis label, with more detail for shorter spans
+   */
+  private formatTime(time: number, span: number): string {
+    const date = new Date(time);
+    if (span <= 2 * DAY_MS) {
+      return date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+    }
+    if (span <= 200 * DAY_MS) {
+      return date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+    }
+    return date.toLocaleDateString(undefined, { month: "short", year: "2-digit" });
+  }
+}